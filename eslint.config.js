@@ -61,6 +61,7 @@ export default defineConfig([
       '**/build/**',
       'eslint.config.js',
       '**/vite.config.ts',
+      '**/*.test.ts',
       'devvit.config.ts',
     ],
     languageOptions: {
@@ -0,0 +1,143 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { App } from '../App';
+import { FeedbackProvider } from '../components';
+import { ACTION_CATALOG } from '../../shared/catalog';
+import type { GameState, PlayerResources } from '../../shared/types/api';
+import type { RendererId } from '../renderers/types';
+
+const GARDEN = 'cozy_gardens';
+const USERNAME = 'gardener';
+const NOW = new Date('2024-01-15T09:00:00Z');
+
+let renderer: RendererId = 'safe';
+
+const gameState: GameState = {
+  subredditName: GARDEN,
+  treeLevel: 1,
+  totalGrowth: 0,
+  seedsPlanted: 0,
+  spiritsFed: 0,
+  robotCharged: 0,
+  dailyUpvotes: 0,
+  lastGrowthCalculation: NOW,
+  createdAt: NOW,
+  updatedAt: NOW,
+  version: 0,
+};
+
+const playerResources: PlayerResources = {
+  username: USERNAME,
+  subredditName: GARDEN,
+  cinnamon: 100,
+  seeds: 0,
+  energy: 0,
+  totalContributions: 0,
+  lastActive: NOW,
+};
+
+// The shell's data comes from the server; hand it fixed state instead
+vi.mock('../hooks', () => {
+  const character = { x: 50, y: 50, direction: 'walk', isMoving: false };
+  return {
+    RENDERER_CRASH_LIMIT: 2,
+    useCounter: () => ({ username: USERNAME, subredditName: GARDEN, loading: false }),
+    useGameState: () => ({
+      gameState,
+      playerResources,
+      loading: false,
+      error: null,
+      refreshState: vi.fn(),
+      updateState: vi.fn(),
+      realtime: { connectionState: 'connected', reconnectAttempt: 0, nextReconnectAt: null },
+      lastRealtimeAction: null,
+    }),
+    useActionCatalog: () => ({ catalog: ACTION_CATALOG, loading: false }),
+    useActions: () => ({
+      plantSeed: vi.fn(),
+      feedSpirit: vi.fn(),
+      chargeRobot: vi.fn(),
+      postUpdate: vi.fn(),
+      pendingOperations: [],
+      optimisticGameState: gameState,
+      optimisticPlayerResources: playerResources,
+      lastActionResult: null,
+      actionCooldowns: { plant: 0, feed: 0, charge: 0, post: 0 },
+    }),
+    useCharacterControls: () => ({
+      robot: character,
+      spirit: { ...character, direction: 'right' },
+      selectedCharacter: 'robot',
+      selectCharacter: vi.fn(),
+    }),
+    useRendererChoice: () => ({
+      renderer,
+      setting: renderer,
+      setSetting: vi.fn(),
+      reportCrash: vi.fn(),
+      crashCount: 0,
+    }),
+  };
+});
+
+describe('App', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+
+  beforeEach(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+    // The panels load lazily; keep their requests pending
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() => new Promise(() => {}))
+    );
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+    vi.unstubAllGlobals();
+  });
+
+  const enterGarden = () => {
+    act(() => {
+      root.render(
+        <FeedbackProvider>
+          <App />
+        </FeedbackProvider>
+      );
+    });
+    const enter = Array.from(container.querySelectorAll('button')).find((button) =>
+      button.textContent?.includes('Enter Garden')
+    );
+    act(() => enter?.click());
+  };
+
+  it.each<RendererId>(['rich', 'minimal', 'safe'])(
+    'should show the leaderboard and chronicle archive with the %s renderer',
+    (choice) => {
+      renderer = choice;
+      enterGarden();
+
+      expect(container.querySelectorAll('[aria-label="Toggle leaderboard"]')).toHaveLength(1);
+      expect(container.querySelectorAll('[aria-label="Toggle chronicle archive"]')).toHaveLength(1);
+    }
+  );
+
+  it('should not show them on the splash screen', () => {
+    act(() => {
+      root.render(
+        <FeedbackProvider>
+          <App />
+        </FeedbackProvider>
+      );
+    });
+
+    expect(container.querySelector('[aria-label="Toggle leaderboard"]')).toBeNull();
+  });
+});
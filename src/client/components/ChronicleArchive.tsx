@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChroniclePostRecord, ChronicleTemplateType } from '../../shared/types';
+import { useChronicleHistory } from '../hooks/useChronicleHistory';
+
+interface ChronicleArchiveProps {
+  subredditName: string;
+  className?: string;
+}
+
+const TYPE_BADGES: Record<ChronicleTemplateType, string> = {
+  daily: '📜 Daily',
+  weekly: '📚 Weekly',
+  milestone: '🎉 Milestone',
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const ChronicleRow: React.FC<{ post: ChroniclePostRecord }> = ({ post }) => (
+  <motion.li
+    layout
+    className="px-3 py-2 rounded-lg bg-white/5 text-sm text-white/85"
+    initial={{ opacity: 0, x: -10 }}
+    animate={{ opacity: 1, x: 0 }}
+    transition={{ duration: 0.2 }}
+  >
+    <div className="flex items-center justify-between gap-2 text-[11px] text-white/60">
+      <span>{TYPE_BADGES[post.type]}</span>
+      <span>{formatDate(post.postedAt ?? post.claimedAt)}</span>
+    </div>
+    {post.status === 'posted' && post.postUrl ? (
+      <a
+        href={post.postUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block truncate text-orange-200 hover:text-white transition-colors"
+      >
+        {post.title ?? post.period}
+      </a>
+    ) : (
+      <span className="block truncate text-white/50">
+        {post.period} — {post.status === 'pending' ? 'posting…' : 'not posted'}
+      </span>
+    )}
+  </motion.li>
+);
+
+export const ChronicleArchive: React.FC<ChronicleArchiveProps> = ({ subredditName, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { posts, loading, error, hasMore, loadMore } = useChronicleHistory({ subredditName, enabled: isOpen });
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 bg-black/40 hover:bg-black/60 border border-purple-400/30 rounded-lg text-white text-sm transition-colors"
+        aria-expanded={isOpen}
+        aria-label="Toggle chronicle archive"
+      >
+        <span>📜</span>
+        <span className="hidden sm:inline">Chronicles</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute left-0 mt-2 w-72 max-w-[90vw] max-h-80 overflow-y-auto bg-black/75 backdrop-blur-sm rounded-2xl p-3 border border-purple-400/30 z-40"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            transition={{ duration: 0.2 }}
+          >
+            {loading && posts.length === 0 && (
+              <div className="text-center text-xs text-white/70 py-4">Loading...</div>
+            )}
+
+            {error && posts.length === 0 && (
+              <div className="text-center text-xs text-red-300 py-4">Couldn't load the chronicles</div>
+            )}
+
+            {!loading && !error && posts.length === 0 && (
+              <div className="text-center text-xs text-white/70 py-4">No chronicles posted yet</div>
+            )}
+
+            {posts.length > 0 && (
+              <ul className="space-y-1">
+                {posts.map(post => (
+                  <ChronicleRow key={post.id} post={post} />
+                ))}
+              </ul>
+            )}
+
+            {hasMore && (
+              <button
+                onClick={() => void loadMore()}
+                disabled={loading}
+                className="mt-2 w-full text-xs text-purple-200 hover:text-white transition-colors disabled:opacity-50"
+              >
+                {loading ? 'Loading...' : 'Older chronicles'}
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LeaderboardEntry, LeaderboardWindow } from '../../shared/types';
+import { useLeaderboard } from '../hooks/useLeaderboard';
+
+interface LeaderboardPanelProps {
+  subredditName: string;
+  username?: string | null;
+  limit?: number;
+  className?: string;
+}
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  daily: 'Today',
+  weekly: 'This Week',
+  alltime: 'All Time',
+};
+
+const RANK_BADGES: Record<number, string> = {
+  1: '🥇',
+  2: '🥈',
+  3: '🥉',
+};
+
+const LeaderboardRow: React.FC<{ entry: LeaderboardEntry; isMe: boolean }> = ({ entry, isMe }) => (
+  <motion.li
+    layout
+    className={`
+      flex items-center justify-between gap-3 px-3 py-1.5 rounded-lg text-sm
+      ${isMe ? 'bg-orange-400/30 border border-orange-300/60 text-white font-semibold' : 'text-white/85'}
+    `}
+    initial={{ opacity: 0, x: -10 }}
+    animate={{ opacity: 1, x: 0 }}
+    transition={{ duration: 0.2 }}
+    aria-current={isMe ? 'true' : undefined}
+  >
+    <span className="w-8 text-right tabular-nums">{RANK_BADGES[entry.rank] ?? `#${entry.rank}`}</span>
+    <span className="flex-1 truncate">u/{entry.username}{isMe && ' (you)'}</span>
+    <span className="tabular-nums text-orange-200">{Math.round(entry.score)} 🍯</span>
+  </motion.li>
+);
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({
+  subredditName,
+  username,
+  limit = 10,
+  className = '',
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeWindow, setActiveWindow] = useState<LeaderboardWindow>('daily');
+  const [aroundMe, setAroundMe] = useState(false);
+  const { leaderboard, loading, error } = useLeaderboard({ subredditName, window: activeWindow, limit, aroundMe });
+
+  const me = leaderboard?.me ?? null;
+  const meOnPage = !!me && !!leaderboard?.entries.some(entry => entry.username === me.username);
+  const myName = me?.username ?? username;
+  const isMe = (entry: LeaderboardEntry) => !!myName && entry.username === myName;
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 bg-black/40 hover:bg-black/60 border border-purple-400/30 rounded-lg text-white text-sm transition-colors"
+        aria-expanded={isOpen}
+        aria-label="Toggle leaderboard"
+      >
+        <span>🏆</span>
+        <span className="hidden sm:inline">Leaderboard</span>
+        {me && <span className="text-orange-200">#{me.rank}</span>}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute left-0 mt-2 w-72 max-w-[90vw] bg-black/75 backdrop-blur-sm rounded-2xl p-3 border border-purple-400/30 z-40"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            transition={{ duration: 0.2 }}
+          >
+            {/* Window tabs */}
+            <div className="flex gap-1 mb-3" role="tablist">
+              {(Object.keys(WINDOW_LABELS) as LeaderboardWindow[]).map(option => (
+                <button
+                  key={option}
+                  role="tab"
+                  aria-selected={activeWindow === option}
+                  onClick={() => setActiveWindow(option)}
+                  className={`
+                    flex-1 px-2 py-1 rounded-md text-xs transition-colors
+                    ${activeWindow === option ? 'bg-purple-600 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}
+                  `}
+                >
+                  {WINDOW_LABELS[option]}
+                </button>
+              ))}
+            </div>
+
+            {loading && !leaderboard && (
+              <div className="text-center text-xs text-white/70 py-4">Loading...</div>
+            )}
+
+            {error && !leaderboard && (
+              <div className="text-center text-xs text-red-300 py-4">Couldn't load the leaderboard</div>
+            )}
+
+            {leaderboard && leaderboard.entries.length === 0 && (
+              <div className="text-center text-xs text-white/70 py-4">
+                No contributions yet {activeWindow === 'alltime' ? '' : WINDOW_LABELS[activeWindow].toLowerCase()} — be the first!
+              </div>
+            )}
+
+            {leaderboard && leaderboard.entries.length > 0 && (
+              <ol className="space-y-1">
+                {leaderboard.entries.map(entry => (
+                  <LeaderboardRow key={entry.username} entry={entry} isMe={isMe(entry)} />
+                ))}
+              </ol>
+            )}
+
+            {/* The player's own standing when it's not on the current page */}
+            {me && !meOnPage && (
+              <div className="mt-2 pt-2 border-t border-white/10">
+                <ol>
+                  <LeaderboardRow entry={me} isMe />
+                </ol>
+              </div>
+            )}
+
+            {me && (
+              <button
+                onClick={() => setAroundMe(!aroundMe)}
+                className="mt-2 w-full text-xs text-purple-200 hover:text-white transition-colors"
+              >
+                {aroundMe ? 'Show top players' : 'Jump to my rank'}
+              </button>
+            )}
+
+            {leaderboard && (
+              <div className="mt-2 text-center text-[10px] text-white/50">
+                {leaderboard.totalPlayers} {leaderboard.totalPlayers === 1 ? 'gardener' : 'gardeners'}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
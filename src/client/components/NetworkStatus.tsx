@@ -1,17 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { RealtimeStatus } from '../hooks/useRealtimeSync';
 
 interface NetworkStatusProps {
   className?: string;
   showWhenOnline?: boolean;
+  // The garden's realtime channel; shown while it's reconnecting
+  realtime?: RealtimeStatus;
 }
 
 export const NetworkStatus: React.FC<NetworkStatusProps> = ({ 
   className = '', 
-  showWhenOnline = false 
+  showWhenOnline = false,
+  realtime
 }) => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [showStatus, setShowStatus] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const isReconnecting = isOnline && realtime?.connectionState === 'reconnecting';
 
   useEffect(() => {
     const handleOnline = () => {
@@ -41,7 +47,17 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({
     };
   }, [showWhenOnline, isOnline]);
 
-  const shouldShow = showStatus && (!isOnline || showWhenOnline);
+  // Tick the reconnect countdown
+  useEffect(() => {
+    if (!isReconnecting) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isReconnecting]);
+
+  const shouldShow = (showStatus && (!isOnline || showWhenOnline)) || isReconnecting;
+  const retryInSeconds = realtime?.nextReconnectAt
+    ? Math.max(0, Math.ceil((realtime.nextReconnectAt.getTime() - now) / 1000))
+    : 0;
 
   return (
     <AnimatePresence>
@@ -55,16 +71,18 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({
         >
           <motion.div
             className={`px-4 py-2 rounded-lg shadow-lg flex items-center gap-2 text-sm font-medium ${
-              isOnline 
-                ? 'bg-green-600 text-white' 
-                : 'bg-red-600 text-white'
+              !isOnline
+                ? 'bg-red-600 text-white'
+                : isReconnecting
+                  ? 'bg-amber-600 text-white'
+                  : 'bg-green-600 text-white'
             }`}
             whileHover={{ scale: 1.05 }}
             transition={{ duration: 0.2 }}
           >
             <motion.div
               className={`w-2 h-2 rounded-full ${
-                isOnline ? 'bg-green-200' : 'bg-red-200'
+                !isOnline ? 'bg-red-200' : isReconnecting ? 'bg-amber-200' : 'bg-green-200'
               }`}
               animate={isOnline ? {
                 scale: [1, 1.2, 1],
@@ -80,7 +98,13 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({
               }}
             />
             <span>
-              {isOnline ? 'Back online!' : 'You\'re offline'}
+              {!isOnline
+                ? 'You\'re offline'
+                : isReconnecting
+                  ? `Live updates paused, checking for changes. Reconnecting ${
+                      retryInSeconds > 0 ? `in ${retryInSeconds}s` : 'now'
+                    } (attempt ${realtime?.reconnectAttempt ?? 1})`
+                  : 'Back online!'}
             </span>
             {!isOnline && (
               <motion.button
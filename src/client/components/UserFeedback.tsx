@@ -18,6 +18,8 @@ export interface FeedbackMessage {
 }
 
 interface UserFeedbackProps {
+  // Rendered inside the feedback context, so they can call useFeedback
+  children?: React.ReactNode;
   className?: string;
   position?: 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left' | 'top-center' | 'bottom-center';
   maxMessages?: number;
@@ -40,6 +42,7 @@ export const useFeedback = () => {
 };
 
 export const UserFeedback: React.FC<UserFeedbackProps> = ({
+  children,
   className = '',
   position = 'top-right',
   maxMessages = 5,
@@ -145,7 +148,9 @@ export const UserFeedback: React.FC<UserFeedbackProps> = ({
 
   return (
     <FeedbackContext.Provider value={{ showFeedback, hideFeedback, clearAll }}>
-      <div className={`feedback-container fixed ${getPositionClasses()} z-50 ${className}`}>
+      {children}
+      {/* Above the garden renderers' own panels, which go up to z-index 1100 */}
+      <div className={`feedback-container fixed ${getPositionClasses()} z-[1200] ${className}`}>
         <AnimatePresence mode="popLayout">
           {messages.map((message) => {
             const styles = getTypeStyles(message.type);
@@ -260,12 +265,7 @@ export const UserFeedback: React.FC<UserFeedbackProps> = ({
 
 // Provider component for app-wide feedback
 export const FeedbackProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  return (
-    <>
-      {children}
-      <UserFeedback />
-    </>
-  );
+  return <UserFeedback>{children}</UserFeedback>;
 };
 
 // Convenience hooks for common feedback types
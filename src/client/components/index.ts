@@ -1,9 +1,9 @@
 export { SplashScreen } from './SplashScreen';
-export { CommunityGarden } from './CommunityGarden';
 export { SpiritTree } from './SpiritTree';
 export { FloatingSpirits } from './FloatingSpirits';
 export { RedditRobot } from './RedditRobot';
-export { ActionPanel } from './ActionPanel';
+export { LeaderboardPanel } from './LeaderboardPanel';
+export { ChronicleArchive } from './ChronicleArchive';
 export { SubredditSwitcher } from './SubredditSwitcher';
 export { ParticleEffects, ResourceChangeAnimation, LoadingState } from './ParticleEffects';
 export { HoverCard, FloatingButton, PulsingIcon, Tooltip, GlowingBorder, MagneticButton } from './HoverEffects';
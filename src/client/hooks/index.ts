@@ -2,4 +2,10 @@ export { useCounter } from './useCounter';
 export { useActions } from './useActions';
 export { useGameState } from './useGameState';
 export { usePerformance, useDeviceCapabilities, useLazyComponent } from './usePerformance';
-export { useMobileTouch, useHapticFeedback } from './useMobileTouch';
\ No newline at end of file
+export { useMobileTouch, useHapticFeedback } from './useMobileTouch';
+export { useActionCatalog } from './useActionCatalog';
+export { useLeaderboard } from './useLeaderboard';
+export { useChronicleHistory } from './useChronicleHistory';
+export { useCharacterControls } from './useCharacterControls';
+export { useRendererChoice, RENDERER_CRASH_LIMIT } from './useRendererChoice';
+export { useRealtimeSync } from './useRealtimeSync';
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { ACTION_CATALOG, ActionCatalog } from '../../shared/catalog';
+import { API_ENDPOINTS } from '../../shared/constants';
+import type { CatalogResponse } from '../../shared/types/api';
+
+interface UseActionCatalogReturn {
+  catalog: ActionCatalog;
+  loading: boolean;
+}
+
+/**
+ * Fetch the action catalog the server enforces for this garden.
+ * Starts from the shared defaults so the UI can render before the request lands.
+ */
+export const useActionCatalog = (subredditName: string): UseActionCatalogReturn => {
+  const [catalog, setCatalog] = useState<ActionCatalog>(ACTION_CATALOG);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const query = subredditName ? `?subreddit=${encodeURIComponent(subredditName)}` : '';
+        const res = await fetch(`${API_ENDPOINTS.CATALOG}${query}`, { signal: controller.signal });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const data: CatalogResponse = await res.json();
+        setCatalog({ ...ACTION_CATALOG, ...data.catalog });
+      } catch (err) {
+        if (err instanceof Error && err.name === 'AbortError') return;
+        console.error('Failed to load action catalog, using defaults', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+    void load();
+
+    return () => controller.abort();
+  }, [subredditName]);
+
+  return { catalog, loading };
+};
@@ -1,12 +1,39 @@
-import { useState, useCallback } from 'react';
-import { PlayerActionType, ActionResponse, GameState, PlayerResources } from '../../shared/types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  PlayerActionType,
+  ActionResponse,
+  ActionLimitedResponse,
+  ActionCooldowns,
+  CooldownsResponse,
+  GameState,
+  PlayerResources
+} from '../../shared/types';
+import { ACTION_CATALOG, ActionCatalog } from '../../shared/catalog';
+import { API_ENDPOINTS } from '../../shared/constants';
+
+/**
+ * An action already shown in the garden but not yet confirmed by the server
+ */
+export interface PendingOperation {
+  id: string;
+  actionType: PlayerActionType;
+  // Game state version when the request went out; null while it waits its turn
+  sentAtVersion: number | null;
+  // When the action's cooldown ended before the click, restored on rollback
+  previousCooldown: number;
+}
 
 interface UseActionsProps {
   subredditName: string;
   username: string;
   gameState: GameState | null;
   playerResources: PlayerResources | null;
+  // Costs, resources and cooldowns as served by /api/catalog
+  catalog?: ActionCatalog;
+  // Receives the server's state after each confirmed action
   onStateUpdate?: (newGameState: GameState, newPlayerResources: PlayerResources) => void;
+  // Told why a pending action was undone; without it the reason goes to lastActionResult
+  onRollback?: (actionType: PlayerActionType, reason: string) => void;
 }
 
 interface UseActionsReturn {
@@ -15,57 +42,69 @@ interface UseActionsReturn {
   chargeRobot: () => Promise<boolean>;
   postUpdate: () => Promise<boolean>;
   isActionInProgress: boolean;
+  pendingOperations: PendingOperation[];
+  // The given state with every pending action applied; render these
+  optimisticGameState: GameState | null;
+  optimisticPlayerResources: PlayerResources | null;
   lastActionResult: string | null;
   actionCooldowns: Record<PlayerActionType, number>;
+  catalog: ActionCatalog;
 }
 
-interface ActionConfig {
-  type: PlayerActionType;
-  resourceType: 'cinnamon' | 'seeds' | 'energy';
-  cost: number;
-  cooldownMs: number;
-  growthContribution: number;
-}
-
-const ACTION_CONFIGS: Record<PlayerActionType, ActionConfig> = {
-  plant: {
-    type: 'plant',
-    resourceType: 'cinnamon',
-    cost: 10,
-    cooldownMs: 5000, // 5 seconds
-    growthContribution: 1.5,
-  },
-  feed: {
-    type: 'feed',
-    resourceType: 'cinnamon',
-    cost: 15,
-    cooldownMs: 8000, // 8 seconds
-    growthContribution: 2.0,
-  },
-  charge: {
-    type: 'charge',
-    resourceType: 'energy',
-    cost: 25,
-    cooldownMs: 12000, // 12 seconds
-    growthContribution: 3.0,
-  },
-  post: {
-    type: 'post',
-    resourceType: 'cinnamon',
-    cost: 5,
-    cooldownMs: 30000, // 30 seconds
-    growthContribution: 0.5,
-  },
+// The game state counter each action moves; posting only costs and cools down
+const ACTION_COUNTERS: Partial<Record<PlayerActionType, 'seedsPlanted' | 'spiritsFed' | 'robotCharged'>> = {
+  plant: 'seedsPlanted',
+  feed: 'spiritsFed',
+  charge: 'robotCharged',
 };
 
+// Add pending actions to the garden. The one in flight is skipped once the
+// state has moved past the version it was sent at, since that state may
+// already include it; queued ones can't have reached the server yet.
+const applyPendingToGameState = (
+  gameState: GameState,
+  operations: PendingOperation[],
+  catalog: ActionCatalog
+): GameState =>
+  operations.reduce((state, operation) => {
+    if (operation.sentAtVersion !== null && operation.sentAtVersion !== gameState.version) {
+      return state;
+    }
+
+    const counter = ACTION_COUNTERS[operation.actionType];
+    return {
+      ...state,
+      ...(counter && { [counter]: state[counter] + 1 }),
+      totalGrowth: state.totalGrowth + catalog[operation.actionType].growthContribution,
+    };
+  }, gameState);
+
+// Spend what pending actions cost. Only action responses change resources, and
+// each one replaces the base as its operation leaves the queue.
+const applyPendingToResources = (
+  playerResources: PlayerResources,
+  operations: PendingOperation[],
+  catalog: ActionCatalog
+): PlayerResources =>
+  operations.reduce((resources, operation) => {
+    const { resourceType, cost } = catalog[operation.actionType];
+    return {
+      ...resources,
+      [resourceType]: resources[resourceType] - cost,
+      totalContributions: resources.totalContributions + cost,
+    };
+  }, playerResources);
+
 export const useActions = ({
   subredditName,
   username,
   gameState,
   playerResources,
+  catalog = ACTION_CATALOG,
   onStateUpdate,
+  onRollback,
 }: UseActionsProps): UseActionsReturn => {
-  const [isActionInProgress, setIsActionInProgress] = useState(false);
+  const [pendingOperations, setPendingOperations] = useState<PendingOperation[]>([]);
   const [lastActionResult, setLastActionResult] = useState<string | null>(null);
   const [actionCooldowns, setActionCooldowns] = useState<Record<PlayerActionType, number>>({
     plant: 0,
@@ -74,12 +113,30 @@ export const useActions = ({
     post: 0,
   });
 
-  // Clear cooldown for a specific action
+  // Kept in step with pendingOperations synchronously, so two clicks before
+  // the next render still see each other and can't spend the same cinnamon
+  const pendingRef = useRef<PendingOperation[]>([]);
+  // Requests go out one at a time, so each response covers every action before it
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const operationSequenceRef = useRef(0);
+
+  // Latest server state, for requests that run after the click that queued them
+  const gameStateRef = useRef(gameState);
+  useEffect(() => {
+    gameStateRef.current = gameState;
+  }, [gameState]);
+
+  const updatePending = useCallback((update: (operations: PendingOperation[]) => PendingOperation[]) => {
+    pendingRef.current = update(pendingRef.current);
+    setPendingOperations(pendingRef.current);
+  }, []);
+
+  // Clear cooldown for a specific action, unless a newer one has replaced it
   const clearCooldown = useCallback((actionType: PlayerActionType) => {
-    setActionCooldowns(prev => ({
+    setActionCooldowns(prev => prev[actionType] > Date.now() ? prev : {
       ...prev,
       [actionType]: 0,
-    }));
+    });
   }, []);
 
   // Set cooldown for a specific action
@@ -96,14 +153,55 @@ export const useActions = ({
     }, durationMs);
   }, [clearCooldown]);
 
-  // Validate if an action can be performed
+  // Apply the remaining cooldowns reported by the server
+  const applyServerCooldowns = useCallback((cooldowns: Partial<ActionCooldowns>) => {
+    (Object.entries(cooldowns) as [PlayerActionType, number][]).forEach(([actionType, remainingMs]) => {
+      if (remainingMs > 0) {
+        setCooldown(actionType, remainingMs);
+      } else {
+        clearCooldown(actionType);
+      }
+    });
+  }, [setCooldown, clearCooldown]);
+
+  // Load the player's current cooldowns so a reload doesn't forget them
+  useEffect(() => {
+    if (!subredditName) return;
+
+    const controller = new AbortController();
+    const loadCooldowns = async () => {
+      try {
+        const response = await fetch(API_ENDPOINTS.COOLDOWNS(subredditName), { signal: controller.signal });
+        if (!response.ok) return;
+        const data: CooldownsResponse = await response.json();
+        applyServerCooldowns(data.cooldowns);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        console.error('Failed to load action cooldowns:', error);
+      }
+    };
+    void loadCooldowns();
+
+    return () => controller.abort();
+  }, [subredditName, applyServerCooldowns]);
+
+  const optimisticGameState = useMemo(
+    () => gameState && applyPendingToGameState(gameState, pendingOperations, catalog),
+    [gameState, pendingOperations, catalog]
+  );
+  const optimisticPlayerResources = useMemo(
+    () => playerResources && applyPendingToResources(playerResources, pendingOperations, catalog),
+    [playerResources, pendingOperations, catalog]
+  );
+
+  // Validate if an action can be performed, counting what pending actions spend
   const validateAction = useCallback((actionType: PlayerActionType): { valid: boolean; reason?: string } => {
     if (!gameState || !playerResources) {
       return { valid: false, reason: 'Game state not loaded' };
     }
 
-    if (isActionInProgress) {
-      return { valid: false, reason: 'Another action is in progress' };
+    if (pendingRef.current.some(operation => operation.actionType === actionType)) {
+      return { valid: false, reason: 'Still waiting on the server for that action' };
     }
 
     const now = Date.now();
@@ -112,65 +210,38 @@ export const useActions = ({
       return { valid: false, reason: `Action on cooldown (${remainingSeconds}s remaining)` };
     }
 
-    const config = ACTION_CONFIGS[actionType];
-    const availableResource = playerResources[config.resourceType];
-    
+    const config = catalog[actionType];
+    const availableResource = applyPendingToResources(playerResources, pendingRef.current, catalog)[config.resourceType];
+
     if (availableResource < config.cost) {
       return { valid: false, reason: `Insufficient ${config.resourceType} (need ${config.cost}, have ${availableResource})` };
     }
 
     return { valid: true };
-  }, [gameState, playerResources, isActionInProgress, actionCooldowns]);
-
-  // Perform optimistic update for better UX
-  const performOptimisticUpdate = useCallback((actionType: PlayerActionType) => {
-    if (!gameState || !playerResources || !onStateUpdate) return null;
-
-    const config = ACTION_CONFIGS[actionType];
-    
-    // Create optimistic new state
-    const optimisticGameState: GameState = {
-      ...gameState,
-      [actionType === 'plant' ? 'seedsPlanted' : 
-       actionType === 'feed' ? 'spiritsFed' : 
-       actionType === 'charge' ? 'robotCharged' : 'dailyUpvotes']: 
-        gameState[actionType === 'plant' ? 'seedsPlanted' : 
-                 actionType === 'feed' ? 'spiritsFed' : 
-                 actionType === 'charge' ? 'robotCharged' : 'dailyUpvotes'] + 1,
-      totalGrowth: gameState.totalGrowth + config.growthContribution,
-      updatedAt: new Date(),
-    };
-
-    const optimisticPlayerResources: PlayerResources = {
-      ...playerResources,
-      [config.resourceType]: playerResources[config.resourceType] - config.cost,
-      totalContributions: playerResources.totalContributions + 1,
-      lastActive: new Date(),
-    };
+  }, [gameState, playerResources, actionCooldowns, catalog]);
 
-    return { optimisticGameState, optimisticPlayerResources };
-  }, [gameState, playerResources, onStateUpdate]);
+  // Undo a pending action: drop it from the queue, give back its cooldown and say why
+  const rollBack = useCallback((operation: PendingOperation, reason: string) => {
+    updatePending(operations => operations.filter(pending => pending.id !== operation.id));
+    setActionCooldowns(prev => ({ ...prev, [operation.actionType]: operation.previousCooldown }));
 
-  // Generic action executor
-  const executeAction = useCallback(async (actionType: PlayerActionType): Promise<boolean> => {
-    const validation = validateAction(actionType);
-    if (!validation.valid) {
-      setLastActionResult(validation.reason || 'Action failed validation');
-      return false;
+    if (onRollback) {
+      onRollback(operation.actionType, reason);
+    } else {
+      setLastActionResult(`Failed to ${operation.actionType}: ${reason}`);
     }
+  }, [updatePending, onRollback]);
 
-    setIsActionInProgress(true);
-    setLastActionResult(null);
-
-    // Perform optimistic update
-    const optimisticUpdate = performOptimisticUpdate(actionType);
-    if (optimisticUpdate && onStateUpdate) {
-      onStateUpdate(optimisticUpdate.optimisticGameState, optimisticUpdate.optimisticPlayerResources);
-    }
+  // Send one pending action and reconcile with, or roll back to, the server's answer
+  const sendOperation = useCallback(async (operation: PendingOperation): Promise<boolean> => {
+    const { actionType } = operation;
+    const sentAtVersion = gameStateRef.current?.version ?? 0;
+    updatePending(operations => operations.map(pending =>
+      pending.id === operation.id ? { ...pending, sentAtVersion } : pending
+    ));
 
     try {
-      // Make API call to server with the correct endpoint for each action
-      const endpoint = `/api/${actionType}`;
+      const endpoint = API_ENDPOINTS.ACTION(actionType);
       const response = await fetch(endpoint, {
         method: 'POST',
         headers: {
@@ -182,41 +253,83 @@ export const useActions = ({
         }),
       });
 
+      if (response.status === 429) {
+        const limited: ActionLimitedResponse = await response.json();
+        rollBack(operation, `${limited.message} (retry in ${Math.ceil(limited.retryAfterMs / 1000)}s)`);
+        if (limited.cooldowns) {
+          applyServerCooldowns(limited.cooldowns);
+        }
+        if (limited.reason === 'cooldown') {
+          setCooldown(actionType, limited.retryAfterMs);
+        }
+        return false;
+      }
+
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const body: { message?: string } | null = await response.json().catch(() => null);
+        rollBack(operation, body?.message || `HTTP error! status: ${response.status}`);
+        return false;
       }
 
       const result: ActionResponse = await response.json();
+      if (!result.success) {
+        rollBack(operation, result.message || 'Action failed on server');
+        return false;
+      }
 
-      if (result.success) {
-        // Update with actual server response
-        if (onStateUpdate) {
-          onStateUpdate(result.newGameState, result.newPlayerResources);
-        }
-        
-        // Set cooldown for this action
-        setCooldown(actionType, ACTION_CONFIGS[actionType].cooldownMs);
-        
-        setLastActionResult(result.message || `${actionType} action completed successfully!`);
-        return true;
+      // The server's state replaces the optimistic one, unless a newer one
+      // (another player's action, say) has already arrived
+      const current = gameStateRef.current;
+      const confirmedGameState =
+        current && current.version > result.newGameState.version ? current : result.newGameState;
+      // Next in the queue may go out before the re-render, so record the version now
+      gameStateRef.current = confirmedGameState;
+      updatePending(operations => operations.filter(pending => pending.id !== operation.id));
+      if (onStateUpdate) {
+        onStateUpdate(confirmedGameState, result.newPlayerResources);
+      }
+
+      // Cooldowns come from the server; fall back to the catalog if it didn't send any
+      if (result.cooldowns) {
+        applyServerCooldowns(result.cooldowns);
       } else {
-        throw new Error(result.message || 'Action failed on server');
+        setCooldown(actionType, catalog[actionType].cooldownMs);
       }
+
+      setLastActionResult(result.message || `${actionType} action completed successfully!`);
+      return true;
     } catch (error) {
       console.error(`Error executing ${actionType} action:`, error);
-      
-      // Revert optimistic update on error
-      if (gameState && playerResources && onStateUpdate) {
-        onStateUpdate(gameState, playerResources);
-      }
-      
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      setLastActionResult(`Failed to ${actionType}: ${errorMessage}`);
+      rollBack(operation, errorMessage);
       return false;
-    } finally {
-      setIsActionInProgress(false);
     }
-  }, [validateAction, performOptimisticUpdate, onStateUpdate, subredditName, username, setCooldown, gameState, playerResources]);
+  }, [subredditName, username, onStateUpdate, updatePending, rollBack, setCooldown, applyServerCooldowns, catalog]);
+
+  // Show the action right away, then queue it behind any still pending
+  const executeAction = useCallback((actionType: PlayerActionType): Promise<boolean> => {
+    const validation = validateAction(actionType);
+    if (!validation.valid) {
+      setLastActionResult(validation.reason || 'Action failed validation');
+      return Promise.resolve(false);
+    }
+
+    const operation: PendingOperation = {
+      id: `pending-${Date.now()}-${++operationSequenceRef.current}`,
+      actionType,
+      sentAtVersion: null,
+      previousCooldown: actionCooldowns[actionType],
+    };
+    updatePending(operations => [...operations, operation]);
+    setLastActionResult(null);
+
+    // Start the cooldown now; the server's answer corrects it
+    setCooldown(actionType, catalog[actionType].cooldownMs);
+
+    const request = queueRef.current.then(() => sendOperation(operation));
+    queueRef.current = request;
+    return request;
+  }, [validateAction, actionCooldowns, updatePending, setCooldown, sendOperation, catalog]);
 
   // Individual action functions
   const plantSeed = useCallback(() => executeAction('plant'), [executeAction]);
@@ -229,8 +342,12 @@ export const useActions = ({
     feedSpirit,
     chargeRobot,
     postUpdate,
-    isActionInProgress,
+    isActionInProgress: pendingOperations.length > 0,
+    pendingOperations,
+    optimisticGameState,
+    optimisticPlayerResources,
     lastActionResult,
     actionCooldowns,
+    catalog,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,122 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export type ControlledCharacter = 'robot' | 'spirit';
+export type RobotDirection = 'walk' | 'left' | 'back';
+export type SpiritDirection = 'left' | 'right';
+
+export interface CharacterState<D extends string> {
+  x: number;
+  y: number;
+  direction: D;
+  isMoving: boolean;
+}
+
+interface UseCharacterControlsReturn {
+  robot: CharacterState<RobotDirection>;
+  spirit: CharacterState<SpiritDirection>;
+  selectedCharacter: ControlledCharacter;
+  selectCharacter: (character: ControlledCharacter) => void;
+}
+
+// Positions are percentages of the garden; characters stay inside these bounds
+const BOUNDS = { minX: 15, maxX: 85, minY: 25, maxY: 75 } as const;
+const MOVE_SPEED = 0.8;
+const TICK_MS = 16;
+
+/**
+ * Keyboard movement for the garden's characters: WASD or the arrow keys move
+ * whichever character is selected. Renderers only draw the positions.
+ */
+export const useCharacterControls = (enabled: boolean = true): UseCharacterControlsReturn => {
+  const [keys, setKeys] = useState<Record<string, boolean>>({});
+  const [selectedCharacter, setSelectedCharacter] = useState<ControlledCharacter>('robot');
+  const [robot, setRobot] = useState<CharacterState<RobotDirection>>({
+    x: 70,
+    y: 60,
+    direction: 'walk',
+    isMoving: false,
+  });
+  const [spirit, setSpirit] = useState<CharacterState<SpiritDirection>>({
+    x: 30,
+    y: 40,
+    direction: 'right',
+    isMoving: false,
+  });
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    setKeys((prev) => ({ ...prev, [e.key.toLowerCase()]: true }));
+  }, []);
+
+  const handleKeyUp = useCallback((e: KeyboardEvent) => {
+    setKeys((prev) => ({ ...prev, [e.key.toLowerCase()]: false }));
+  }, []);
+
+  // Setup keyboard listeners
+  useEffect(() => {
+    if (!enabled) return;
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      setKeys({});
+    };
+  }, [enabled, handleKeyDown, handleKeyUp]);
+
+  // Handle character movement
+  useEffect(() => {
+    const left = keys['arrowleft'] || keys['a'];
+    const right = keys['arrowright'] || keys['d'];
+    const up = keys['arrowup'] || keys['w'];
+    const down = keys['arrowdown'] || keys['s'];
+
+    const step = (prev: { x: number; y: number }) => ({
+      x: right
+        ? Math.min(BOUNDS.maxX, prev.x + MOVE_SPEED)
+        : left
+          ? Math.max(BOUNDS.minX, prev.x - MOVE_SPEED)
+          : prev.x,
+      y: down
+        ? Math.min(BOUNDS.maxY, prev.y + MOVE_SPEED)
+        : up
+          ? Math.max(BOUNDS.minY, prev.y - MOVE_SPEED)
+          : prev.y,
+      isMoving: Boolean(left || right || up || down),
+    });
+
+    const interval = setInterval(() => {
+      if (selectedCharacter === 'robot') {
+        setRobot((prev) => {
+          const direction: RobotDirection = down
+            ? 'walk'
+            : up
+              ? 'back'
+              : right
+                ? 'walk'
+                : left
+                  ? 'left'
+                  : prev.direction;
+          const next = step(prev);
+          if (!next.isMoving && !prev.isMoving) return prev;
+          return { ...next, direction };
+        });
+      } else {
+        setSpirit((prev) => {
+          const direction: SpiritDirection = right ? 'right' : left ? 'left' : prev.direction;
+          const next = step(prev);
+          if (!next.isMoving && !prev.isMoving) return prev;
+          return { ...next, direction };
+        });
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [keys, selectedCharacter]);
+
+  const selectCharacter = useCallback((character: ControlledCharacter) => {
+    setSelectedCharacter(character);
+  }, []);
+
+  return { robot, spirit, selectedCharacter, selectCharacter };
+};
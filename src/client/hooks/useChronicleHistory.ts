@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { API_ENDPOINTS } from '../../shared/constants';
+import type { ChronicleHistoryResponse, ChroniclePostRecord } from '../../shared/types/api';
+
+interface UseChronicleHistoryProps {
+  subredditName: string;
+  enabled?: boolean;
+  pageSize?: number;
+}
+
+interface UseChronicleHistoryReturn {
+  posts: ChroniclePostRecord[];
+  loading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+export const useChronicleHistory = ({
+  subredditName,
+  enabled = true,
+  pageSize = 10,
+}: UseChronicleHistoryProps): UseChronicleHistoryReturn => {
+  const [posts, setPosts] = useState<ChroniclePostRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    if (!subredditName) return;
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: pageSize.toString() });
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await fetch(`${API_ENDPOINTS.CHRONICLE_HISTORY(subredditName)}?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data: ChronicleHistoryResponse = await response.json();
+      const page = data.posts.map(post => ({
+        ...post,
+        claimedAt: new Date(post.claimedAt),
+        ...(post.postedAt && { postedAt: new Date(post.postedAt) }),
+      }));
+      setPosts(previous => (cursor ? [...previous, ...page] : page));
+      setNextCursor(data.nextCursor);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load chronicle history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load chronicle history');
+    } finally {
+      setLoading(false);
+    }
+  }, [subredditName, pageSize]);
+
+  const refresh = useCallback(() => fetchPage(null), [fetchPage]);
+  const loadMore = useCallback(async () => {
+    if (nextCursor && !loading) {
+      await fetchPage(nextCursor);
+    }
+  }, [fetchPage, nextCursor, loading]);
+
+  useEffect(() => {
+    if (enabled) {
+      void refresh();
+    }
+  }, [enabled, refresh]);
+
+  return { posts, loading, error, hasMore: nextCursor !== null, loadMore, refresh };
+};
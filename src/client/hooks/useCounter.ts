@@ -1,9 +1,11 @@
 import { useCallback, useEffect, useState } from 'react';
-import type { InitResponse, IncrementResponse, DecrementResponse } from '../../shared/types/api';
+import type { LegacyInitResponse, IncrementResponse, DecrementResponse } from '../../shared/types/api';
 
 interface CounterState {
   count: number;
   username: string | null;
+  // The subreddit the post runs in, as the server's Devvit context reports it
+  subredditName: string | null;
   loading: boolean;
 }
 
@@ -11,6 +13,7 @@ export const useCounter = () => {
   const [state, setState] = useState<CounterState>({
     count: 0,
     username: null,
+    subredditName: null,
     loading: true,
   });
   const [postId, setPostId] = useState<string | null>(null);
@@ -21,9 +24,9 @@ export const useCounter = () => {
       try {
         const res = await fetch('/api/init');
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data: InitResponse = await res.json();
+        const data: LegacyInitResponse = await res.json();
         if (data.type !== 'init') throw new Error('Unexpected response');
-        setState({ count: data.count, username: data.username, loading: false });
+        setState({ count: data.count, username: data.username, subredditName: data.subredditName, loading: false });
         setPostId(data.postId);
       } catch (err) {
         console.error('Failed to init counter', err);
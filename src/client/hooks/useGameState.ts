@@ -1,5 +1,13 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { GameState, PlayerResources, StateResponse } from '../../shared/types/api';
+import {
+  GameState,
+  GardenRealtimeMessage,
+  PlayerResources,
+  RealtimeActionEvent,
+  StateResponse,
+} from '../../shared/types/api';
+import { applyStateChanges } from '../../shared/utils/stateDelta';
+import { useRealtimeSync, RealtimeStatus } from './useRealtimeSync';
 
 interface UseGameStateProps {
   subredditName: string;
@@ -15,6 +23,12 @@ interface UseGameStateReturn {
   lastSyncTime: Date | null;
   isPolling: boolean;
   activePlayerCount: number;
+  // Apply the state an action returned (e.g. as useActions' onStateUpdate)
+  updateState: (newGameState: GameState, newPlayerResources: PlayerResources) => void;
+  // The garden's realtime channel; polling speeds back up while it's down
+  realtime: RealtimeStatus;
+  // Latest action pushed over the realtime channel, by anyone in the garden
+  lastRealtimeAction: RealtimeActionEvent | null;
 }
 
 interface GameStateCache {
@@ -22,6 +36,8 @@ interface GameStateCache {
   playerResources: PlayerResources;
   lastModified: Date;
   cachedAt: Date;
+  // ETag of the last state the server sent
+  stateETag?: string;
 }
 
 // Smart polling intervals based on activity
@@ -30,6 +46,7 @@ const POLLING_INTERVALS = {
   IDLE: 10000,      // 10 seconds when user is idle
   BACKGROUND: 30000, // 30 seconds when tab is in background
   ERROR: 15000,     // 15 seconds after an error
+  REALTIME: 60000,  // 1 minute while the realtime channel is up
 } as const;
 
 // Cache duration for state data
@@ -43,6 +60,7 @@ export const useGameState = ({ subredditName, username }: UseGameStateProps): Us
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const [isPolling, setIsPolling] = useState(false);
   const [activePlayerCount, setActivePlayerCount] = useState(0);
+  const [lastRealtimeAction, setLastRealtimeAction] = useState<RealtimeActionEvent | null>(null);
 
   // Refs for managing polling and activity tracking
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -51,6 +69,40 @@ export const useGameState = ({ subredditName, username }: UseGameStateProps): Us
   const cacheRef = useRef<GameStateCache | null>(null);
   const retryCountRef = useRef<number>(0);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const realtimeConnectedRef = useRef<boolean>(false);
+  const resyncRef = useRef<() => void>(() => {});
+
+  // Latest state, for deciding whether a delta follows on from it
+  const gameStateRef = useRef<GameState | null>(null);
+  useEffect(() => {
+    gameStateRef.current = gameState;
+  }, [gameState]);
+
+  // Apply pushed deltas as they arrive; one that skips a version we never saw
+  // means messages were missed, so fetch what changed since ours instead
+  const handleRealtimeMessage = useCallback((message: GardenRealtimeMessage) => {
+    const current = gameStateRef.current;
+    if (current) {
+      const updated = applyStateChanges(
+        current,
+        message.changes,
+        message.version - 1,
+        message.version,
+        new Date(message.updatedAt)
+      );
+      if (updated) {
+        gameStateRef.current = updated;
+        setGameState(updated);
+      } else {
+        cacheRef.current = null;
+        resyncRef.current();
+      }
+    }
+    setLastRealtimeAction(message.action);
+    setLastSyncTime(new Date());
+  }, []);
+
+  const realtime = useRealtimeSync({ subredditName, onMessage: handleRealtimeMessage });
 
   // Track user activity for smart polling
   const updateActivity = useCallback(() => {
@@ -79,6 +131,10 @@ export const useGameState = ({ subredditName, username }: UseGameStateProps): Us
       return POLLING_INTERVALS.ERROR;
     }
 
+    if (realtimeConnectedRef.current) {
+      return POLLING_INTERVALS.REALTIME;
+    }
+
     return isUserActive ? POLLING_INTERVALS.ACTIVE : POLLING_INTERVALS.IDLE;
   }, [error]);
 
@@ -157,21 +213,14 @@ export const useGameState = ({ subredditName, username }: UseGameStateProps): Us
 
       abortControllerRef.current = new AbortController();
 
-      // Prepare headers for cache validation
+      // Ask only for what changed since the version we hold
       const headers: HeadersInit = {};
-      if (cacheRef.current) {
-        headers['If-Modified-Since'] = cacheRef.current.lastModified.toISOString();
-        if (cacheRef.current.gameState) {
-          // Include previous hash for potential diffing
-          const url = new URL(`/api/state/${subredditName}`, window.location.origin);
-          url.searchParams.set('includeDiff', 'true');
-          if ((cacheRef.current as any).stateHash) {
-            url.searchParams.set('previousHash', (cacheRef.current as any).stateHash);
-          }
-        }
+      if (cacheRef.current?.stateETag) {
+        headers['If-None-Match'] = cacheRef.current.stateETag;
       }
 
-      const url = `/api/state/${subredditName}${cacheRef.current ? '?includeDiff=true' : ''}`;
+      const current = gameStateRef.current;
+      const url = `/api/state/${subredditName}${current ? `?sinceVersion=${current.version}` : ''}`;
       const response = await fetch(url, {
         signal: abortControllerRef.current.signal,
         headers,
@@ -188,35 +237,40 @@ export const useGameState = ({ subredditName, username }: UseGameStateProps): Us
       }
 
       const data: StateResponse = await response.json();
-
-      // Check if state has actually changed
       const lastModified = new Date(data.lastModified);
-      const hasStateChanged = !cacheRef.current || 
-        lastModified.getTime() > cacheRef.current.lastModified.getTime();
-
-      if (hasStateChanged) {
-        // Apply state diff if available for more efficient updates
-        if (data.stateDiff && data.stateDiff.type === 'incremental' && gameState) {
-          // Apply incremental changes
-          const updatedState = { ...gameState, ...data.stateDiff.changes };
-          setGameState(updatedState);
-        } else {
-          // Full state update
-          setGameState(data.gameState);
-        }
-        
+
+      // Merge a diff into the state it was taken from; a snapshot replaces it
+      const latest = gameStateRef.current;
+      let updatedState: GameState | null;
+      if (data.type === 'full') {
+        updatedState = latest && latest.version > data.version ? latest : data.gameState;
+      } else {
+        updatedState = latest
+          ? applyStateChanges(latest, data.changes, data.fromVersion, data.version, lastModified)
+          : null;
+      }
+
+      if (!updatedState) {
+        // The diff doesn't follow on from our state; the next poll asks from its version
+        return;
+      }
+
+      if (updatedState !== latest) {
+        gameStateRef.current = updatedState;
+        setGameState(updatedState);
         setLastSyncTime(new Date());
-        
-        // Update cache with new game state and hash
-        cacheRef.current = {
-          gameState: data.gameState,
-          playerResources: playerResources!, // Keep existing player resources
-          lastModified,
-          cachedAt: new Date(),
-          ...(data.stateHash && { stateHash: data.stateHash }),
-        } as GameStateCache & { stateHash?: string };
       }
 
+      // Update cache with new game state and ETag
+      const stateETag = response.headers.get('ETag');
+      cacheRef.current = {
+        gameState: updatedState,
+        playerResources: playerResources!, // Keep existing player resources
+        lastModified,
+        cachedAt: new Date(),
+        ...(stateETag && { stateETag }),
+      };
+
       setActivePlayerCount(data.activePlayerCount);
       retryCountRef.current = 0;
     } catch (err) {
@@ -229,7 +283,7 @@ export const useGameState = ({ subredditName, username }: UseGameStateProps): Us
       setError(`Failed to sync state: ${errorMessage}`);
       retryCountRef.current++;
     }
-  }, [subredditName, loading, isCacheValid, playerResources, gameState]);
+  }, [subredditName, loading, isCacheValid, playerResources]);
 
   // Manual refresh function
   const refreshState = useCallback(async (): Promise<void> => {
@@ -302,6 +356,27 @@ export const useGameState = ({ subredditName, username }: UseGameStateProps): Us
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
   }, [isPolling, startPolling, stopPolling, updateActivity, refreshState]);
 
+  // Realtime going down or coming back changes how often to poll; either way,
+  // sync now to pick up whatever was sent while the channel was down
+  useEffect(() => {
+    resyncRef.current = () => {
+      if (isPolling) {
+        stopPolling();
+        startPolling();
+      }
+      void fetchStateUpdate();
+    };
+  }, [isPolling, startPolling, stopPolling, fetchStateUpdate]);
+
+  const connectionState = realtime.connectionState;
+  useEffect(() => {
+    const wasConnected = realtimeConnectedRef.current;
+    realtimeConnectedRef.current = connectionState === 'connected';
+    if (wasConnected !== realtimeConnectedRef.current) {
+      resyncRef.current();
+    }
+  }, [connectionState]);
+
   // Handle user activity events for smart polling
   useEffect(() => {
     const activityEvents = ['mousedown', 'mousemove', 'keypress', 'scroll', 'touchstart'];
@@ -378,5 +453,8 @@ export const useGameState = ({ subredditName, username }: UseGameStateProps): Us
     lastSyncTime,
     isPolling,
     activePlayerCount,
+    updateState,
+    realtime,
+    lastRealtimeAction,
   };
 };
\ No newline at end of file
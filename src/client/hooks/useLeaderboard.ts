@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { API_ENDPOINTS } from '../../shared/constants';
+import type { LeaderboardResponse, LeaderboardWindow } from '../../shared/types/api';
+
+interface UseLeaderboardProps {
+  subredditName: string;
+  window: LeaderboardWindow;
+  limit?: number;
+  aroundMe?: boolean;
+  refreshIntervalMs?: number;
+}
+
+interface UseLeaderboardReturn {
+  leaderboard: LeaderboardResponse | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export const useLeaderboard = ({
+  subredditName,
+  window: leaderboardWindow,
+  limit = 10,
+  aroundMe = false,
+  refreshIntervalMs = 30000,
+}: UseLeaderboardProps): UseLeaderboardReturn => {
+  const [leaderboard, setLeaderboard] = useState<LeaderboardResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!subredditName) return;
+
+    try {
+      const params = new URLSearchParams({ window: leaderboardWindow, limit: limit.toString() });
+      if (aroundMe) params.set('around', 'me');
+
+      const response = await fetch(`${API_ENDPOINTS.LEADERBOARD(subredditName)}?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data: LeaderboardResponse = await response.json();
+      setLeaderboard(data);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load leaderboard:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load leaderboard');
+    } finally {
+      setLoading(false);
+    }
+  }, [subredditName, leaderboardWindow, limit, aroundMe]);
+
+  useEffect(() => {
+    setLoading(true);
+    void refresh();
+
+    const interval = setInterval(() => void refresh(), refreshIntervalMs);
+    return () => clearInterval(interval);
+  }, [refresh, refreshIntervalMs]);
+
+  return { leaderboard, loading, error, refresh };
+};
@@ -0,0 +1,110 @@
+import { useState, useEffect, useRef } from 'react';
+import { connectRealtime, disconnectRealtime } from '@devvit/web/client';
+import { GAME_CONFIG, REALTIME_CHANNELS } from '../../shared/constants';
+import type { GardenRealtimeMessage } from '../../shared/types/api';
+
+export type RealtimeConnectionState = 'connecting' | 'connected' | 'reconnecting';
+
+export interface RealtimeStatus {
+  connectionState: RealtimeConnectionState;
+  // Failed attempts since the channel was last up
+  reconnectAttempt: number;
+  // When the next attempt starts, while reconnecting
+  nextReconnectAt: Date | null;
+}
+
+interface UseRealtimeSyncProps {
+  subredditName: string;
+  onMessage: (message: GardenRealtimeMessage) => void;
+}
+
+const { REALTIME_RECONNECT_BASE_MS, REALTIME_RECONNECT_MAX_MS } = GAME_CONFIG.SYNC;
+
+/**
+ * Subscribe to a garden's realtime channel, reconnecting with exponential
+ * backoff whenever it drops. Callers should poll while it isn't connected.
+ */
+export const useRealtimeSync = ({
+  subredditName,
+  onMessage,
+}: UseRealtimeSyncProps): RealtimeStatus => {
+  const [status, setStatus] = useState<RealtimeStatus>({
+    connectionState: 'connecting',
+    reconnectAttempt: 0,
+    nextReconnectAt: null,
+  });
+
+  // Keep the latest handler without resubscribing on every render
+  const onMessageRef = useRef(onMessage);
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    if (!subredditName) return;
+
+    const channel = REALTIME_CHANNELS.GARDEN(subredditName);
+    let cancelled = false;
+    let attempt = 0;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const scheduleReconnect = () => {
+      if (cancelled || reconnectTimeout) return;
+
+      const delay = Math.min(
+        REALTIME_RECONNECT_BASE_MS * Math.pow(2, attempt),
+        REALTIME_RECONNECT_MAX_MS
+      );
+      attempt++;
+      setStatus({
+        connectionState: 'reconnecting',
+        reconnectAttempt: attempt,
+        nextReconnectAt: new Date(Date.now() + delay),
+      });
+
+      reconnectTimeout = setTimeout(() => {
+        reconnectTimeout = null;
+        void disconnectRealtime(channel)
+          .catch(() => {})
+          .then(connect);
+      }, delay);
+    };
+
+    const connect = async () => {
+      if (cancelled) return;
+
+      try {
+        await connectRealtime<GardenRealtimeMessage>({
+          channel,
+          onConnect: () => {
+            if (cancelled) return;
+            attempt = 0;
+            setStatus({ connectionState: 'connected', reconnectAttempt: 0, nextReconnectAt: null });
+          },
+          onDisconnect: scheduleReconnect,
+          onMessage: (message) => {
+            if (!cancelled && message.subredditName === subredditName) {
+              onMessageRef.current(message);
+            }
+          },
+        });
+      } catch (error) {
+        console.error('Realtime connection failed:', error);
+        scheduleReconnect();
+      }
+    };
+
+    setStatus({ connectionState: 'connecting', reconnectAttempt: 0, nextReconnectAt: null });
+    void connect();
+
+    return () => {
+      cancelled = true;
+      if (reconnectTimeout) {
+        clearTimeout(reconnectTimeout);
+      }
+      void disconnectRealtime(channel).catch(() => {});
+    };
+  }, [subredditName]);
+
+  return status;
+};
@@ -0,0 +1,66 @@
+import { useState, useCallback } from 'react';
+import { useDeviceCapabilities, usePerformance } from './usePerformance';
+import type { RendererId } from '../renderers/types';
+
+export type RendererSetting = 'auto' | RendererId;
+
+interface UseRendererChoiceReturn {
+  // The renderer to draw with right now
+  renderer: RendererId;
+  setting: RendererSetting;
+  setSetting: (setting: RendererSetting) => void;
+  // Count a renderer crash; after RENDERER_CRASH_LIMIT the safe renderer takes over
+  reportCrash: () => void;
+  crashCount: number;
+}
+
+const SETTING_STORAGE_KEY = 'cinnarito_renderer';
+const RENDERER_SETTINGS: readonly RendererSetting[] = ['auto', 'rich', 'minimal', 'safe'];
+export const RENDERER_CRASH_LIMIT = 2;
+
+const loadSetting = (): RendererSetting => {
+  try {
+    const stored = localStorage.getItem(SETTING_STORAGE_KEY);
+    return RENDERER_SETTINGS.includes(stored as RendererSetting)
+      ? (stored as RendererSetting)
+      : 'auto';
+  } catch {
+    return 'auto';
+  }
+};
+
+/**
+ * Pick the garden renderer: the player's setting, or on `auto` the rich garden
+ * unless the device asks for less motion or can't keep up. Repeated crashes
+ * switch to the safe renderer until the player picks another one.
+ */
+export const useRendererChoice = (): UseRendererChoiceReturn => {
+  const [setting, setSettingState] = useState<RendererSetting>(loadSetting);
+  const [crashCount, setCrashCount] = useState(0);
+  const { metrics } = usePerformance();
+  const { preferReducedMotion } = useDeviceCapabilities();
+
+  const setSetting = useCallback((next: RendererSetting) => {
+    setSettingState(next);
+    setCrashCount(0);
+    try {
+      localStorage.setItem(SETTING_STORAGE_KEY, next);
+    } catch (error) {
+      console.log('Could not save renderer setting:', error);
+    }
+  }, []);
+
+  const reportCrash = useCallback(() => {
+    setCrashCount((prev) => prev + 1);
+  }, []);
+
+  const preferred: RendererId =
+    setting !== 'auto'
+      ? setting
+      : preferReducedMotion || metrics.isLowPerformance
+        ? 'minimal'
+        : 'rich';
+  const renderer: RendererId = crashCount >= RENDERER_CRASH_LIMIT ? 'safe' : preferred;
+
+  return { renderer, setting, setSetting, reportCrash, crashCount };
+};
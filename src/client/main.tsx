@@ -2,10 +2,13 @@ import './index.css';
 
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
-import { App } from './App.improved';
+import { App } from './App';
+import { FeedbackProvider } from './components';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <FeedbackProvider>
+      <App />
+    </FeedbackProvider>
   </StrictMode>
 );
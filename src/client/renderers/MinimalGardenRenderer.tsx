@@ -0,0 +1,180 @@
+import { ACTION_ORDER } from '../../shared/catalog';
+import type { GardenRendererProps } from './types';
+
+const GARDEN_PLOTS = 32;
+const ROBOT_CHARGE_CAPACITY = 10;
+
+/**
+ * A low-end garden: no images, timers or animations, just emoji on flat
+ * colours. Characters still move with the keyboard.
+ */
+export const MinimalGardenRenderer = ({
+  gameState,
+  playerResources,
+  catalog,
+  actionCooldowns,
+  pendingActions,
+  feedback,
+  robot,
+  spirit,
+  selectedCharacter,
+  onSelectCharacter,
+  onAction,
+  onRefresh,
+  onExit,
+}: GardenRendererProps) => {
+  const robotCharge = Math.min(gameState.robotCharged, ROBOT_CHARGE_CAPACITY);
+  const now = Date.now();
+
+  const buttonStyle = (enabled: boolean, active = false) => ({
+    padding: '8px 10px',
+    background: active ? '#27ae60' : enabled ? '#ecf0f1' : '#bdc3c7',
+    color: active ? 'white' : '#2c3e50',
+    border: '1px solid #95a5a6',
+    borderRadius: '6px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    fontSize: '0.8rem',
+  });
+
+  return (
+    <div
+      style={{
+        width: '100vw',
+        height: '100vh',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#9bd39b',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        color: '#2c3e50',
+      }}
+    >
+      {/* Stats */}
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'center',
+          gap: '16px',
+          padding: '8px',
+          background: '#ffffff',
+          fontSize: '0.9rem',
+          fontWeight: 'bold',
+        }}
+      >
+        <span>🍯 {playerResources.cinnamon}</span>
+        <span>🌱 {gameState.seedsPlanted}</span>
+        <span>👻 {gameState.spiritsFed}</span>
+        <span>
+          🤖 {robotCharge}/{ROBOT_CHARGE_CAPACITY}
+        </span>
+        <span>🌳 Lv.{gameState.treeLevel}</span>
+      </div>
+
+      {/* Garden */}
+      <div style={{ position: 'relative', flex: 1, overflow: 'hidden' }}>
+        <div style={{ textAlign: 'center', paddingTop: '12px', fontSize: '2.5rem' }}>🌳</div>
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(8, 1fr)',
+            gap: '4px',
+            margin: '8px 16px',
+          }}
+        >
+          {Array.from({ length: GARDEN_PLOTS }, (_, i) => (
+            <div
+              key={i}
+              onClick={() => void onAction('plant')}
+              style={{
+                background: i < gameState.seedsPlanted ? '#8fbc8f' : '#a0522d',
+                borderRadius: '4px',
+                minHeight: '22px',
+                textAlign: 'center',
+                cursor: 'pointer',
+              }}
+            >
+              {i < gameState.seedsPlanted ? '🌱' : ''}
+            </div>
+          ))}
+        </div>
+
+        <div
+          style={{
+            position: 'absolute',
+            left: `${robot.x}%`,
+            top: `${robot.y}%`,
+            fontSize: '1.8rem',
+            outline: selectedCharacter === 'robot' ? '2px solid #27ae60' : 'none',
+          }}
+        >
+          🤖
+        </div>
+        {gameState.spiritsFed > 0 && (
+          <div
+            style={{
+              position: 'absolute',
+              left: `${spirit.x}%`,
+              top: `${spirit.y}%`,
+              fontSize: '1.5rem',
+              outline: selectedCharacter === 'spirit' ? '2px solid #f39c12' : 'none',
+            }}
+          >
+            👻
+          </div>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div
+        style={{
+          background: '#ffffff',
+          padding: '8px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '6px',
+        }}
+      >
+        {feedback && <div style={{ textAlign: 'center', fontSize: '0.85rem' }}>{feedback}</div>}
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', flexWrap: 'wrap' }}>
+          {ACTION_ORDER.map((actionType) => {
+            const { cost, emoji, label, resourceType } = catalog[actionType];
+            const enabled =
+              playerResources[resourceType] >= cost &&
+              actionCooldowns[actionType] <= now &&
+              !pendingActions.includes(actionType);
+            return (
+              <button
+                key={actionType}
+                onClick={() => void onAction(actionType)}
+                disabled={actionCooldowns[actionType] > now || pendingActions.includes(actionType)}
+                style={buttonStyle(enabled)}
+              >
+                {emoji} {label} ({cost} {resourceType})
+              </button>
+            );
+          })}
+        </div>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center' }}>
+          <button
+            onClick={() => onSelectCharacter('robot')}
+            style={buttonStyle(true, selectedCharacter === 'robot')}
+          >
+            🤖 Robot
+          </button>
+          <button
+            onClick={() => onSelectCharacter('spirit')}
+            disabled={gameState.spiritsFed === 0}
+            style={buttonStyle(gameState.spiritsFed > 0, selectedCharacter === 'spirit')}
+          >
+            👻 Spirit
+          </button>
+          <button onClick={onRefresh} style={buttonStyle(true)}>
+            🔄 Refresh
+          </button>
+          <button onClick={onExit} style={buttonStyle(true)}>
+            🚪 Exit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
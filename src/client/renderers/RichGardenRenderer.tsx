@@ -1,4 +1,8 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { ACTION_ORDER, ActionResourceType } from '../../shared/catalog';
+import type { PlayerActionType } from '../../shared/types/api';
+import type { RobotDirection, SpiritDirection } from '../hooks/useCharacterControls';
+import type { GardenRendererProps } from './types';
 
 // Import images directly (Vite will handle them)
 import robotWalk from '/assets/robot_walk.png';
@@ -7,151 +11,107 @@ import robotBack from '/assets/robot_back.png';
 import spiritLeft from '/assets/spirit_left.png';
 import spiritRight from '/assets/spirit_right.png';
 
-// Improved 3D Garden with better layout
-const ImprovedGarden3D = () => {
-  const [showSplash, setShowSplash] = useState(true);
-  const [gameStats, setGameStats] = useState({
-    seedsPlanted: 0,
-    spiritsFed: 0,
-    robotCharged: 0,
-    postsShared: 0,
-    cinnamonPoints: 100,
-    treeLevel: 1,
-  });
-  const [actionFeedback, setActionFeedback] = useState('');
-  const [floatingSpirits, setFloatingSpirits] = useState([]);
-  const [particles, setParticles] = useState([]);
-
-  // Character positions and states
-  const [robotState, setRobotState] = useState({
-    x: 70,
-    y: 60,
-    direction: 'walk',
-    isMoving: false,
-  });
-
-  const [selectedCharacter, setSelectedCharacter] = useState('robot');
-  const [controlledSpirit, setControlledSpirit] = useState({
-    x: 30,
-    y: 40,
-    direction: 'right',
-    isMoving: false,
-  });
-
-  const gardenRef = useRef(null);
-  const [keys, setKeys] = useState({});
+type ParticleType = 'plant' | 'feed' | 'charge';
+
+interface FloatingSpirit {
+  id: number;
+  x: number;
+  y: number;
+  rotation: number;
+  speed: number;
+  direction: 'left' | 'right';
+}
+
+interface Particle {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  type: ParticleType;
+}
+
+// Button look and sparkle spot per action (charge sparkles on the robot itself);
+// cost, emoji and resource come from the server's catalog
+const ACTION_BUTTONS: Record<
+  PlayerActionType,
+  { label: string; color: string; x: number; y: number; particle?: ParticleType }
+> = {
+  plant: { label: 'Plant', color: '#27ae60', x: 50, y: 50, particle: 'plant' },
+  feed: { label: 'Feed', color: '#e74c3c', x: 30, y: 40, particle: 'feed' },
+  charge: { label: 'Charge', color: '#3498db', x: 70, y: 60, particle: 'charge' },
+  post: { label: 'Post', color: '#f39c12', x: 50, y: 50 },
+};
+
+const RESOURCE_EMOJI: Record<ActionResourceType, string> = {
+  cinnamon: '🍯',
+  seeds: '🌱',
+  energy: '⚡',
+};
+
+// The robot's charge bar fills up at this many charges
+const ROBOT_CHARGE_CAPACITY = 10;
+// Spirits beyond this are fed but not drawn, to keep big gardens smooth
+const MAX_FLOATING_SPIRITS = 12;
+const GARDEN_PLOTS = 32;
+
+/**
+ * The full garden: sprites for the robot and spirits, a sky, a planting grid,
+ * floating spirits and particle bursts on every action.
+ */
+export const RichGardenRenderer = ({
+  gameState,
+  playerResources,
+  catalog,
+  actionCooldowns,
+  pendingActions,
+  feedback,
+  robot,
+  spirit,
+  selectedCharacter,
+  onSelectCharacter,
+  onAction,
+  onRefresh,
+  onExit,
+}: GardenRendererProps) => {
+  const [floatingSpirits, setFloatingSpirits] = useState<FloatingSpirit[]>([]);
+  const [particles, setParticles] = useState<Particle[]>([]);
+  const gardenRef = useRef<HTMLDivElement>(null);
+
+  const seedsPlanted = gameState.seedsPlanted;
+  const spiritsFed = gameState.spiritsFed;
+  const robotCharge = Math.min(gameState.robotCharged, ROBOT_CHARGE_CAPACITY);
+  const treeLevel = gameState.treeLevel;
 
   // Image mapping
-  const robotImages = {
+  const robotImages: Record<RobotDirection, string> = {
     walk: robotWalk,
     left: robotLeft,
     back: robotBack,
   };
 
-  const spiritImages = {
+  const spiritImages: Record<SpiritDirection, string> = {
     left: spiritLeft,
     right: spiritRight,
   };
 
-  // Keyboard event handlers
-  const handleKeyDown = useCallback((e) => {
-    setKeys((prev) => ({ ...prev, [e.key.toLowerCase()]: true }));
-  }, []);
-
-  const handleKeyUp = useCallback((e) => {
-    setKeys((prev) => ({ ...prev, [e.key.toLowerCase()]: false }));
-  }, []);
-
-  // Setup keyboard listeners
-  useEffect(() => {
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [handleKeyDown, handleKeyUp]);
-
-  // Handle character movement
-  useEffect(() => {
-    const moveSpeed = 0.8;
-    const interval = setInterval(() => {
-      if (selectedCharacter === 'robot') {
-        setRobotState((prev) => {
-          let newX = prev.x;
-          let newY = prev.y;
-          let newDirection = prev.direction;
-          let isMoving = false;
-
-          if (keys['arrowleft'] || keys['a']) {
-            newX = Math.max(15, prev.x - moveSpeed);
-            newDirection = 'left';
-            isMoving = true;
-          }
-          if (keys['arrowright'] || keys['d']) {
-            newX = Math.min(85, prev.x + moveSpeed);
-            newDirection = 'walk';
-            isMoving = true;
-          }
-          if (keys['arrowup'] || keys['w']) {
-            newY = Math.max(25, prev.y - moveSpeed);
-            newDirection = 'back';
-            isMoving = true;
-          }
-          if (keys['arrowdown'] || keys['s']) {
-            newY = Math.min(75, prev.y + moveSpeed);
-            newDirection = 'walk';
-            isMoving = true;
-          }
-
-          return { x: newX, y: newY, direction: newDirection, isMoving };
-        });
-      } else if (selectedCharacter === 'spirit') {
-        setControlledSpirit((prev) => {
-          let newX = prev.x;
-          let newY = prev.y;
-          let newDirection = prev.direction;
-          let isMoving = false;
-
-          if (keys['arrowleft'] || keys['a']) {
-            newX = Math.max(15, prev.x - moveSpeed);
-            newDirection = 'left';
-            isMoving = true;
-          }
-          if (keys['arrowright'] || keys['d']) {
-            newX = Math.min(85, prev.x + moveSpeed);
-            newDirection = 'right';
-            isMoving = true;
-          }
-          if (keys['arrowup'] || keys['w']) {
-            newY = Math.max(25, prev.y - moveSpeed);
-            isMoving = true;
-          }
-          if (keys['arrowdown'] || keys['s']) {
-            newY = Math.min(75, prev.y + moveSpeed);
-            isMoving = true;
-          }
-
-          return { x: newX, y: newY, direction: newDirection, isMoving };
-        });
-      }
-    }, 16);
-
-    return () => clearInterval(interval);
-  }, [keys, selectedCharacter]);
-
   // Generate floating spirits
   useEffect(() => {
-    const spirits = Array.from({ length: Math.max(0, gameStats.spiritsFed - 1) }, (_, i) => ({
-      id: i,
-      x: 20 + Math.random() * 60,
-      y: 30 + Math.random() * 40,
-      rotation: Math.random() * 360,
-      speed: 0.3 + Math.random() * 0.3,
-      direction: Math.random() > 0.5 ? 'left' : 'right',
-    }));
+    const count = Math.min(Math.max(0, spiritsFed - 1), MAX_FLOATING_SPIRITS);
+    const spirits = Array.from(
+      { length: count },
+      (_, i): FloatingSpirit => ({
+        id: i,
+        x: 20 + Math.random() * 60,
+        y: 30 + Math.random() * 40,
+        rotation: Math.random() * 360,
+        speed: 0.3 + Math.random() * 0.3,
+        direction: Math.random() > 0.5 ? 'left' : 'right',
+      })
+    );
     setFloatingSpirits(spirits);
-  }, [gameStats.spiritsFed]);
+  }, [spiritsFed]);
 
   // Animate spirits
   useEffect(() => {
@@ -169,16 +129,19 @@ const ImprovedGarden3D = () => {
   }, []);
 
   // Create particle effect
-  const createParticles = (x, y, type) => {
-    const newParticles = Array.from({ length: 6 }, (_, i) => ({
-      id: Date.now() + i,
-      x: x + (Math.random() - 0.5) * 8,
-      y: y + (Math.random() - 0.5) * 8,
-      vx: (Math.random() - 0.5) * 3,
-      vy: (Math.random() - 0.5) * 3,
-      life: 1,
-      type,
-    }));
+  const createParticles = (x: number, y: number, type: ParticleType) => {
+    const newParticles = Array.from(
+      { length: 6 },
+      (_, i): Particle => ({
+        id: Date.now() + i,
+        x: x + (Math.random() - 0.5) * 8,
+        y: y + (Math.random() - 0.5) * 8,
+        vx: (Math.random() - 0.5) * 3,
+        vy: (Math.random() - 0.5) * 3,
+        life: 1,
+        type,
+      })
+    );
     setParticles((prev) => [...prev, ...newParticles]);
 
     setTimeout(() => {
@@ -204,47 +167,14 @@ const ImprovedGarden3D = () => {
     return () => clearInterval(interval);
   }, []);
 
-  if (showSplash) {
-    return (
-      <div
-        style={{
-          width: '100vw',
-          height: '100vh',
-          background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          color: 'white',
-          fontFamily: 'system-ui, -apple-system, sans-serif',
-        }}
-      >
-        <div style={{ textAlign: 'center' }}>
-          <div style={{ fontSize: '5rem', marginBottom: '1rem' }}>🌳</div>
-          <h1 style={{ fontSize: '2.5rem', marginBottom: '1rem', fontWeight: 'bold' }}>
-            Cinnarito Garden
-          </h1>
-          <p style={{ fontSize: '1.1rem', marginBottom: '2rem', opacity: 0.9 }}>
-            Control your characters with WASD or Arrow Keys
-          </p>
-          <button
-            onClick={() => setShowSplash(false)}
-            style={{
-              padding: '12px 24px',
-              fontSize: '1.1rem',
-              background: 'linear-gradient(45deg, #ff6b6b, #feca57)',
-              color: 'white',
-              border: 'none',
-              borderRadius: '25px',
-              cursor: 'pointer',
-              boxShadow: '0 4px 15px rgba(0,0,0,0.2)',
-            }}
-          >
-            🎮 Enter Garden
-          </button>
-        </div>
-      </div>
-    );
-  }
+  // Sparkle where an action happened once the server accepts it
+  const performAction = async (actionType: PlayerActionType, x: number, y: number) => {
+    const succeeded = await onAction(actionType);
+    const particle = ACTION_BUTTONS[actionType].particle;
+    if (succeeded && particle) {
+      createParticles(x, y, particle);
+    }
+  };
 
   return (
     <div
@@ -308,19 +238,19 @@ const ImprovedGarden3D = () => {
           }}
         >
           <div style={{ color: '#f39c12', display: 'flex', alignItems: 'center', gap: '4px' }}>
-            🍯 {gameStats.cinnamonPoints}
+            🍯 {playerResources.cinnamon}
           </div>
           <div style={{ color: '#27ae60', display: 'flex', alignItems: 'center', gap: '4px' }}>
-            🌱 {gameStats.seedsPlanted}
+            🌱 {seedsPlanted}
           </div>
           <div style={{ color: '#8e44ad', display: 'flex', alignItems: 'center', gap: '4px' }}>
-            👻 {gameStats.spiritsFed}
+            👻 {spiritsFed}
           </div>
           <div style={{ color: '#3498db', display: 'flex', alignItems: 'center', gap: '4px' }}>
-            🤖 {gameStats.robotCharged}/10
+            🤖 {robotCharge}/{ROBOT_CHARGE_CAPACITY}
           </div>
           <div style={{ color: '#2c3e50', display: 'flex', alignItems: 'center', gap: '4px' }}>
-            🌳 Lv.{gameStats.treeLevel}
+            🌳 Lv.{treeLevel}
           </div>
         </div>
       </div>
@@ -366,7 +296,7 @@ const ImprovedGarden3D = () => {
           </div>
           <div style={{ display: 'flex', gap: '6px' }}>
             <button
-              onClick={() => setSelectedCharacter('robot')}
+              onClick={() => onSelectCharacter('robot')}
               style={{
                 padding: '6px 10px',
                 background:
@@ -385,25 +315,25 @@ const ImprovedGarden3D = () => {
               🤖 Robot
             </button>
             <button
-              onClick={() => setSelectedCharacter('spirit')}
-              disabled={gameStats.spiritsFed === 0}
+              onClick={() => onSelectCharacter('spirit')}
+              disabled={spiritsFed === 0}
               style={{
                 padding: '6px 10px',
                 background:
                   selectedCharacter === 'spirit'
                     ? 'linear-gradient(45deg, #f39c12, #e67e22)'
-                    : gameStats.spiritsFed === 0
+                    : spiritsFed === 0
                       ? '#bdc3c7'
                       : '#ecf0f1',
                 color:
                   selectedCharacter === 'spirit'
                     ? 'white'
-                    : gameStats.spiritsFed === 0
+                    : spiritsFed === 0
                       ? '#7f8c8d'
                       : '#2c3e50',
                 border: 'none',
                 borderRadius: '8px',
-                cursor: gameStats.spiritsFed === 0 ? 'not-allowed' : 'pointer',
+                cursor: spiritsFed === 0 ? 'not-allowed' : 'pointer',
                 fontSize: '0.75rem',
                 fontWeight: 'bold',
                 transition: 'all 0.2s',
@@ -452,28 +382,17 @@ const ImprovedGarden3D = () => {
             zIndex: 2,
           }}
         >
-          {Array.from({ length: 32 }, (_, i) => (
+          {Array.from({ length: GARDEN_PLOTS }, (_, i) => (
             <div
               key={i}
               onClick={() => {
-                if (gameStats.cinnamonPoints >= 10) {
-                  const x = (i % 8) * 12.5 + 20;
-                  const y = Math.floor(i / 8) * 16 + 30;
-                  createParticles(x, y, 'plant');
-
-                  setGameStats((prev) => ({
-                    ...prev,
-                    seedsPlanted: prev.seedsPlanted + 1,
-                    cinnamonPoints: prev.cinnamonPoints - 10,
-                    treeLevel: Math.floor((prev.seedsPlanted + 1) / 8) + 1,
-                  }));
-                  setActionFeedback('🌱 Seed planted!');
-                  setTimeout(() => setActionFeedback(''), 2000);
-                }
+                const x = (i % 8) * 12.5 + 20;
+                const y = Math.floor(i / 8) * 16 + 30;
+                void performAction('plant', x, y);
               }}
               style={{
                 background:
-                  i < gameStats.seedsPlanted
+                  i < seedsPlanted
                     ? 'linear-gradient(45deg, #8FBC8F, #90EE90)'
                     : 'linear-gradient(45deg, #8B4513, #A0522D)',
                 borderRadius: '6px',
@@ -485,7 +404,7 @@ const ImprovedGarden3D = () => {
                 minHeight: '25px',
               }}
             >
-              {i < gameStats.seedsPlanted && (
+              {i < seedsPlanted && (
                 <div
                   style={{
                     position: 'absolute',
@@ -516,7 +435,7 @@ const ImprovedGarden3D = () => {
         >
           <div
             style={{
-              fontSize: `${2.5 + gameStats.treeLevel * 0.3}rem`,
+              fontSize: `${2.5 + Math.min(treeLevel, 10) * 0.3}rem`,
               animation: 'sway 5s ease-in-out infinite',
               filter: 'drop-shadow(0 4px 8px rgba(0,0,0,0.2))',
             }}
@@ -532,17 +451,17 @@ const ImprovedGarden3D = () => {
               textShadow: '1px 1px 2px rgba(255,255,255,0.8)',
             }}
           >
-            Level {gameStats.treeLevel}
+            Level {treeLevel}
           </div>
         </div>
 
         {/* Controlled Spirit Character */}
-        {gameStats.spiritsFed > 0 && (
+        {spiritsFed > 0 && (
           <div
             style={{
               position: 'absolute',
-              left: `${controlledSpirit.x}%`,
-              top: `${controlledSpirit.y}%`,
+              left: `${spirit.x}%`,
+              top: `${spirit.y}%`,
               width: '50px',
               height: '50px',
               transition: 'none',
@@ -553,14 +472,14 @@ const ImprovedGarden3D = () => {
             }}
           >
             <img
-              src={spiritImages[controlledSpirit.direction]}
+              src={spiritImages[spirit.direction]}
               alt="Controllable Spirit"
               style={{
                 width: '100%',
                 height: '100%',
                 objectFit: 'contain',
                 filter: 'drop-shadow(0 2px 4px rgba(0,0,0,0.3))',
-                animation: controlledSpirit.isMoving
+                animation: spirit.isMoving
                   ? 'characterMove 0.4s ease-in-out infinite alternate'
                   : 'float 3s ease-in-out infinite',
               }}
@@ -601,8 +520,8 @@ const ImprovedGarden3D = () => {
         <div
           style={{
             position: 'absolute',
-            left: `${robotState.x}%`,
-            top: `${robotState.y}%`,
+            left: `${robot.x}%`,
+            top: `${robot.y}%`,
             width: '65px',
             height: '65px',
             transition: 'none',
@@ -613,16 +532,16 @@ const ImprovedGarden3D = () => {
           }}
         >
           <img
-            src={robotImages[robotState.direction]}
+            src={robotImages[robot.direction]}
             alt="Controllable Robot"
             style={{
               width: '100%',
               height: '100%',
               objectFit: 'contain',
               filter: 'drop-shadow(0 3px 6px rgba(0,0,0,0.3))',
-              animation: robotState.isMoving
+              animation: robot.isMoving
                 ? 'characterMove 0.25s ease-in-out infinite alternate'
-                : gameStats.robotCharged > 0
+                : robotCharge > 0
                   ? 'robotActive 2s ease-in-out infinite'
                   : 'none',
             }}
@@ -643,7 +562,7 @@ const ImprovedGarden3D = () => {
           >
             <div
               style={{
-                width: `${(gameStats.robotCharged / 10) * 100}%`,
+                width: `${(robotCharge / ROBOT_CHARGE_CAPACITY) * 100}%`,
                 height: '100%',
                 background: 'linear-gradient(90deg, #e74c3c, #f39c12)',
                 transition: 'width 0.3s ease',
@@ -698,93 +617,40 @@ const ImprovedGarden3D = () => {
             marginBottom: '12px',
           }}
         >
-          {[
-            { emoji: '🌿', label: 'Plant', cost: 10, action: 'plant', color: '#27ae60' },
-            { emoji: '🍩', label: 'Feed', cost: 15, action: 'feed', color: '#e74c3c' },
-            { emoji: '🤖', label: 'Charge', cost: 20, action: 'charge', color: '#3498db' },
-            {
-              emoji: '💬',
-              label: 'Post',
-              cost: 3,
-              action: 'post',
-              color: '#f39c12',
-              costType: '⚡',
-            },
-          ].map((btn, i) => {
-            const canAfford =
-              btn.costType === '⚡'
-                ? gameStats.robotCharged >= btn.cost
-                : gameStats.cinnamonPoints >= btn.cost;
+          {ACTION_ORDER.map((actionType) => {
+            const btn = ACTION_BUTTONS[actionType];
+            const { cost, emoji, resourceType } = catalog[actionType];
+            const canAfford = playerResources[resourceType] >= cost;
+            const onCooldown = actionCooldowns[actionType] > Date.now();
+            const pending = pendingActions.includes(actionType);
+            const enabled = canAfford && !onCooldown && !pending;
+            const [x, y] = actionType === 'charge' ? [robot.x, robot.y] : [btn.x, btn.y];
 
             return (
               <button
-                key={i}
-                onClick={() => {
-                  if (!canAfford) {
-                    setActionFeedback(`Need ${btn.cost}${btn.costType || '🍯'} for ${btn.label}!`);
-                    setTimeout(() => setActionFeedback(''), 2000);
-                    return;
-                  }
-
-                  if (btn.action === 'plant') {
-                    setGameStats((prev) => ({
-                      ...prev,
-                      seedsPlanted: prev.seedsPlanted + 1,
-                      cinnamonPoints: prev.cinnamonPoints - btn.cost,
-                      treeLevel: Math.floor((prev.seedsPlanted + 1) / 8) + 1,
-                    }));
-                    createParticles(50, 50, 'plant');
-                    setActionFeedback('🌱 Seed planted!');
-                  } else if (btn.action === 'feed') {
-                    setGameStats((prev) => ({
-                      ...prev,
-                      spiritsFed: prev.spiritsFed + 1,
-                      cinnamonPoints: prev.cinnamonPoints - btn.cost,
-                    }));
-                    createParticles(30, 40, 'feed');
-                    setActionFeedback('👻 Spirit fed!');
-                  } else if (btn.action === 'charge') {
-                    if (gameStats.robotCharged < 10) {
-                      setGameStats((prev) => ({
-                        ...prev,
-                        robotCharged: prev.robotCharged + 1,
-                        cinnamonPoints: prev.cinnamonPoints - btn.cost,
-                      }));
-                      createParticles(robotState.x, robotState.y, 'charge');
-                      setActionFeedback('🤖 Robot charged!');
-                    }
-                  } else if (btn.action === 'post') {
-                    setGameStats((prev) => ({
-                      ...prev,
-                      postsShared: prev.postsShared + 1,
-                      robotCharged: prev.robotCharged - btn.cost,
-                      cinnamonPoints: prev.cinnamonPoints + 25,
-                    }));
-                    setActionFeedback('💬 Update shared! +25🍯');
-                  }
-
-                  setTimeout(() => setActionFeedback(''), 2500);
-                }}
+                key={actionType}
+                onClick={() => void performAction(actionType, x, y)}
+                disabled={onCooldown || pending}
                 style={{
                   padding: '10px 6px',
-                  background: canAfford
+                  background: enabled
                     ? `linear-gradient(145deg, ${btn.color}, ${btn.color}dd)`
                     : 'linear-gradient(145deg, #bdc3c7, #95a5a6)',
                   color: 'white',
                   border: 'none',
                   borderRadius: '10px',
-                  cursor: canAfford ? 'pointer' : 'not-allowed',
+                  cursor: enabled ? 'pointer' : 'not-allowed',
                   fontSize: '0.8rem',
                   fontWeight: 'bold',
-                  boxShadow: canAfford ? '0 3px 8px rgba(0,0,0,0.2)' : '0 1px 3px rgba(0,0,0,0.1)',
+                  boxShadow: enabled ? '0 3px 8px rgba(0,0,0,0.2)' : '0 1px 3px rgba(0,0,0,0.1)',
                   transition: 'all 0.2s ease',
                 }}
               >
-                <div style={{ fontSize: '1.1rem', marginBottom: '2px' }}>{btn.emoji}</div>
+                <div style={{ fontSize: '1.1rem', marginBottom: '2px' }}>{emoji}</div>
                 <div style={{ fontSize: '0.75rem' }}>{btn.label}</div>
                 <div style={{ fontSize: '0.65rem', opacity: 0.9 }}>
-                  {btn.cost}
-                  {btn.costType || '🍯'}
+                  {cost}
+                  {RESOURCE_EMOJI[resourceType]}
                 </div>
               </button>
             );
@@ -794,14 +660,10 @@ const ImprovedGarden3D = () => {
         {/* Utility buttons */}
         <div style={{ display: 'flex', gap: '6px', justifyContent: 'center' }}>
           <button
-            onClick={() => {
-              setGameStats((prev) => ({ ...prev, cinnamonPoints: prev.cinnamonPoints + 50 }));
-              setActionFeedback('🍯 Bonus cinnamon!');
-              setTimeout(() => setActionFeedback(''), 1500);
-            }}
+            onClick={onRefresh}
             style={{
               padding: '6px 12px',
-              background: 'linear-gradient(45deg, #f39c12, #e67e22)',
+              background: 'linear-gradient(45deg, #3498db, #2980b9)',
               color: 'white',
               border: 'none',
               borderRadius: '6px',
@@ -809,10 +671,10 @@ const ImprovedGarden3D = () => {
               cursor: 'pointer',
             }}
           >
-            🍯 +50 Cinnamon
+            🔄 Refresh
           </button>
           <button
-            onClick={() => setShowSplash(true)}
+            onClick={onExit}
             style={{
               padding: '6px 12px',
               background: 'linear-gradient(45deg, #95a5a6, #7f8c8d)',
@@ -829,7 +691,7 @@ const ImprovedGarden3D = () => {
       </div>
 
       {/* Action Feedback */}
-      {actionFeedback && (
+      {feedback && (
         <div
           style={{
             position: 'fixed',
@@ -847,7 +709,7 @@ const ImprovedGarden3D = () => {
             maxWidth: '220px',
           }}
         >
-          {actionFeedback}
+          {feedback}
         </div>
       )}
 
@@ -884,5 +746,3 @@ const ImprovedGarden3D = () => {
     </div>
   );
 };
-
-export { ImprovedGarden3D as App };
@@ -0,0 +1,100 @@
+import { ACTION_ORDER } from '../../shared/catalog';
+import type { GardenRendererProps } from './types';
+
+/**
+ * The fallback garden the shell switches to after repeated renderer crashes:
+ * plain text and buttons, nothing positioned, animated or loaded from assets.
+ * Every value is read defensively so a malformed state still renders.
+ */
+export const SafeGardenRenderer = ({
+  gameState,
+  playerResources,
+  catalog,
+  actionCooldowns,
+  pendingActions,
+  feedback,
+  onAction,
+  onRefresh,
+  onExit,
+}: GardenRendererProps) => {
+  const now = Date.now();
+  const stats = [
+    ['Cinnamon', playerResources?.cinnamon],
+    ['Seeds planted', gameState?.seedsPlanted],
+    ['Spirits fed', gameState?.spiritsFed],
+    ['Robot charges', gameState?.robotCharged],
+    ['Tree level', gameState?.treeLevel],
+  ] as const;
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        padding: '2rem',
+        background: '#581c87',
+        color: 'white',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        textAlign: 'center',
+      }}
+    >
+      <h1 style={{ fontSize: '1.5rem', marginBottom: '1rem' }}>🌳 Your Community Garden</h1>
+      <p style={{ opacity: 0.8, marginBottom: '1.5rem' }}>Running in safe mode.</p>
+
+      <ul style={{ listStyle: 'none', padding: 0, marginBottom: '1.5rem', lineHeight: 1.8 }}>
+        {stats.map(([label, value]) => (
+          <li key={label}>
+            {label}: <strong>{value ?? 0}</strong>
+          </li>
+        ))}
+      </ul>
+
+      <div
+        style={{
+          display: 'flex',
+          gap: '8px',
+          justifyContent: 'center',
+          flexWrap: 'wrap',
+          marginBottom: '1rem',
+        }}
+      >
+        {ACTION_ORDER.map((actionType) => {
+          const entry = catalog?.[actionType];
+          if (!entry) return null;
+          const coolingDown = (actionCooldowns?.[actionType] ?? 0) > now;
+          return (
+            <button
+              key={actionType}
+              onClick={() => void onAction(actionType)}
+              disabled={coolingDown || (pendingActions?.includes(actionType) ?? false)}
+              style={{
+                padding: '8px 12px',
+                borderRadius: '6px',
+                border: 'none',
+                cursor: 'pointer',
+              }}
+            >
+              {entry.label} ({entry.cost})
+            </button>
+          );
+        })}
+      </div>
+
+      {feedback && <p style={{ marginBottom: '1rem' }}>{feedback}</p>}
+
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'center' }}>
+        <button
+          onClick={onRefresh}
+          style={{ padding: '6px 12px', borderRadius: '6px', border: 'none' }}
+        >
+          Refresh
+        </button>
+        <button
+          onClick={onExit}
+          style={{ padding: '6px 12px', borderRadius: '6px', border: 'none' }}
+        >
+          Exit
+        </button>
+      </div>
+    </div>
+  );
+};
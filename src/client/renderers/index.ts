@@ -0,0 +1,13 @@
+import { RichGardenRenderer } from './RichGardenRenderer';
+import { MinimalGardenRenderer } from './MinimalGardenRenderer';
+import { SafeGardenRenderer } from './SafeGardenRenderer';
+import type { GardenRenderer, RendererId } from './types';
+
+export { RichGardenRenderer, MinimalGardenRenderer, SafeGardenRenderer };
+export type { GardenRenderer, GardenRendererProps, RendererId } from './types';
+
+export const GARDEN_RENDERERS: Record<RendererId, GardenRenderer> = {
+  rich: RichGardenRenderer,
+  minimal: MinimalGardenRenderer,
+  safe: SafeGardenRenderer,
+};
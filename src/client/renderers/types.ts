@@ -0,0 +1,37 @@
+import type { ComponentType } from 'react';
+import type { ActionCatalog } from '../../shared/catalog';
+import type { GameState, PlayerActionType, PlayerResources } from '../../shared/types/api';
+import type {
+  CharacterState,
+  ControlledCharacter,
+  RobotDirection,
+  SpiritDirection,
+} from '../hooks/useCharacterControls';
+
+export type RendererId = 'rich' | 'minimal' | 'safe';
+
+/**
+ * Everything a renderer draws. The app shell owns the data, input and game
+ * logic; a renderer only turns these props into a garden and reports clicks.
+ */
+export interface GardenRendererProps {
+  gameState: GameState;
+  playerResources: PlayerResources;
+  catalog: ActionCatalog;
+  // When each action's cooldown ends (epoch ms; 0 when ready)
+  actionCooldowns: Record<PlayerActionType, number>;
+  // Actions already drawn but still waiting on the server
+  pendingActions: PlayerActionType[];
+  // Short message about the last action, empty when there is none
+  feedback: string;
+  robot: CharacterState<RobotDirection>;
+  spirit: CharacterState<SpiritDirection>;
+  selectedCharacter: ControlledCharacter;
+  onSelectCharacter: (character: ControlledCharacter) => void;
+  // Resolves to whether the server accepted the action
+  onAction: (actionType: PlayerActionType) => Promise<boolean>;
+  onRefresh: () => void;
+  onExit: () => void;
+}
+
+export type GardenRenderer = ComponentType<GardenRendererProps>;
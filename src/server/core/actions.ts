@@ -0,0 +1,98 @@
+import { ACTION_CATALOG } from '../../shared/catalog';
+import type {
+  ActionAfterCommitHook,
+  ActionBeforeCommitHook,
+  ActionDefinition,
+  ActionValidationHook
+} from '../services/ActionEngine';
+import { ActionRejectedError } from '../services/ActionTransactionService';
+import { growthCalculationService } from '../services/GrowthCalculationService';
+import { redditPostingService } from '../services/RedditPostingService';
+
+// Shared hooks
+
+const announceMilestones: ActionAfterCommitHook = async ({ subredditName }, commit, outcome) => {
+  const milestones = await growthCalculationService.checkMilestones(
+    subredditName,
+    commit.previousTotalGrowth,
+    commit.gameState.totalGrowth
+  );
+
+  if (milestones.levelUp || milestones.milestoneReached) {
+    outcome.message += ` ${milestones.milestoneReached || 'Tree level up!'}`;
+  }
+};
+
+// Post-specific hooks
+
+const requirePostPermission: ActionValidationHook = async ({ subredditName }) => {
+  const permissionCheck = await redditPostingService.validatePostPermissions(subredditName);
+  if (!permissionCheck.canPost) {
+    throw new ActionRejectedError('forbidden', permissionCheck.reason || 'Cannot post to subreddit');
+  }
+};
+
+// Submitted once the post is paid for but before it is recorded, so a post
+// Reddit refuses is refunded and starts no cooldown
+const publishCommunityPost: ActionBeforeCommitHook = async ({ subredditName, payload }, gameState, outcome) => {
+  const postType = typeof payload.postType === 'string' ? payload.postType : 'community_update';
+  const customMessage = typeof payload.customMessage === 'string' ? payload.customMessage : undefined;
+
+  let postData;
+  if (postType === 'daily_summary') {
+    const dailyStats = await growthCalculationService.getDailyStats(subredditName);
+    postData = redditPostingService.formatDailySummary(gameState, dailyStats);
+  } else if (postType === 'milestone' && customMessage) {
+    postData = redditPostingService.formatMilestonePost(gameState, customMessage);
+  } else {
+    const message = customMessage || `Our community garden is thriving! Come join us in growing our Spirit Tree together. 🌳✨`;
+    postData = redditPostingService.formatCommunityUpdate(gameState, message);
+  }
+
+  const postResult = await redditPostingService.postCommunityUpdate(postData);
+  if (!postResult.success) {
+    throw new Error(`Failed to post to Reddit: ${postResult.error}`);
+  }
+
+  outcome.extras.postUrl = postResult.postUrl;
+  outcome.extras.postId = postResult.postId;
+};
+
+/**
+ * Built-in player actions. Adding an action (water, prune, harvest...) means
+ * adding an entry here; the engine and `POST /api/action/:type` pick it up.
+ */
+export const BUILTIN_ACTIONS: ActionDefinition[] = [
+  {
+    ...ACTION_CATALOG.plant,
+    counter: 'seedsPlanted',
+    successMessage: 'Seed planted successfully! 🌱',
+    failureMessage: 'Failed to plant seed',
+    insufficientMessage: 'Insufficient cinnamon to plant seed',
+    afterCommit: [announceMilestones],
+  },
+  {
+    ...ACTION_CATALOG.feed,
+    counter: 'spiritsFed',
+    successMessage: 'Spirit fed with cinnamon! 👻',
+    failureMessage: 'Failed to feed spirit',
+    insufficientMessage: 'Insufficient cinnamon to feed spirit',
+    afterCommit: [announceMilestones],
+  },
+  {
+    ...ACTION_CATALOG.charge,
+    counter: 'robotCharged',
+    successMessage: 'Robot charged and ready! 🤖',
+    failureMessage: 'Failed to charge robot',
+    insufficientMessage: 'Insufficient cinnamon to charge robot',
+    afterCommit: [announceMilestones],
+  },
+  {
+    ...ACTION_CATALOG.post,
+    successMessage: 'Community update posted to Reddit! 📝',
+    failureMessage: 'Failed to post update',
+    insufficientMessage: 'Insufficient cinnamon to post update',
+    validate: [requirePostPermission],
+    beforeCommit: [publishCommunityPost],
+  },
+];
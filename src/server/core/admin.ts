@@ -0,0 +1,63 @@
+import { GAME_CONFIG } from '../../shared/types';
+
+/**
+ * Raised for a malformed moderator admin request; nothing has been changed
+ */
+export class InvalidAdminRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAdminRequestError';
+  }
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{1,20}$/;
+
+/**
+ * The reason a moderator gave for an admin action; every change needs one
+ */
+export const requireReason = (input: unknown): string => {
+  const reason = typeof input === 'string' ? input.trim() : '';
+  if (!reason) {
+    throw new InvalidAdminRequestError('A reason is required');
+  }
+  if (reason.length > GAME_CONFIG.ADMIN.MAX_REASON_LENGTH) {
+    throw new InvalidAdminRequestError(`reason must be at most ${GAME_CONFIG.ADMIN.MAX_REASON_LENGTH} characters`);
+  }
+  return reason;
+};
+
+/**
+ * An optional reason, e.g. for lifting a ban
+ */
+export const optionalReason = (input: unknown): string | undefined =>
+  input === undefined || input === null || input === '' ? undefined : requireReason(input);
+
+/**
+ * How long a ban or pause lasts, in milliseconds; undefined until lifted
+ */
+export const optionalDurationMs = (durationMinutes: unknown): number | undefined => {
+  if (durationMinutes === undefined || durationMinutes === null) {
+    return undefined;
+  }
+
+  const { MAX_DURATION_MINUTES } = GAME_CONFIG.ADMIN;
+  if (
+    typeof durationMinutes !== 'number' ||
+    !Number.isInteger(durationMinutes) ||
+    durationMinutes < 1 ||
+    durationMinutes > MAX_DURATION_MINUTES
+  ) {
+    throw new InvalidAdminRequestError(`durationMinutes must be a whole number from 1 to ${MAX_DURATION_MINUTES}`);
+  }
+  return durationMinutes * 60 * 1000;
+};
+
+/**
+ * A Reddit username as it appears in routes
+ */
+export const requireUsername = (input: unknown): string => {
+  if (typeof input !== 'string' || !USERNAME_PATTERN.test(input)) {
+    throw new InvalidAdminRequestError('Invalid username');
+  }
+  return input;
+};
@@ -0,0 +1,97 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { context } from '@devvit/web/server';
+import type { AuthErrorCode, AuthErrorResponse, AuthRole } from '../../shared/types/api';
+import { ERROR_MESSAGES } from '../../shared/constants';
+import { authService } from '../services/AuthService';
+import { subredditContextService } from '../services/SubredditContextService';
+import type { SubredditBinding } from './isolation';
+
+/**
+ * Who a request was authorized as, kept on `res.locals.auth`
+ */
+export type AuthContext =
+  | { role: 'player'; username: string }
+  | { role: 'moderator'; username: string; subredditName: string }
+  | { role: 'internal' };
+
+const AUTH_ERRORS: Record<AuthErrorCode, { status: number; message: string }> = {
+  authentication_required: { status: 401, message: ERROR_MESSAGES.AUTHENTICATION_REQUIRED },
+  moderator_required: { status: 403, message: ERROR_MESSAGES.MODERATOR_REQUIRED },
+  internal_only: { status: 403, message: ERROR_MESSAGES.INTERNAL_ONLY },
+  subreddit_mismatch: { status: 403, message: ERROR_MESSAGES.SUBREDDIT_MISMATCH },
+};
+
+/**
+ * Send the auth middleware's 401/403 body
+ */
+export const sendAuthError = (res: Response, code: AuthErrorCode): void => {
+  const { status, message } = AUTH_ERRORS[code];
+  const body: AuthErrorResponse = { status: 'error', code, message };
+  res.status(status).json(body);
+};
+
+/**
+ * Every webview request comes from the post the game runs in; Devvit's own
+ * calls (scheduler jobs, triggers) have no post.
+ */
+const isInternalRequest = (): boolean => !context.postId;
+
+/**
+ * Middleware that lets a request through only in the given role:
+ * - `player`: any signed-in Reddit user
+ * - `moderator`: a moderator of the garden bound by `bindSubreddit` (or the
+ *   current subreddit when the route has none); moderator status is cached
+ * - `internal`: Devvit itself, never a webview caller
+ */
+export const authorize =
+  (role: AuthRole): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (role === 'internal') {
+        if (!isInternalRequest()) {
+          sendAuthError(res, 'internal_only');
+          return;
+        }
+        res.locals.auth = { role } satisfies AuthContext;
+        next();
+        return;
+      }
+
+      const username = await authService.getCurrentUsername();
+      if (!username) {
+        sendAuthError(res, 'authentication_required');
+        return;
+      }
+
+      if (role === 'player') {
+        res.locals.auth = { role, username } satisfies AuthContext;
+        next();
+        return;
+      }
+
+      const binding = res.locals.subreddit as SubredditBinding | undefined;
+      const subredditName =
+        binding?.subredditName ?? subredditContextService.getValidatedSubredditContext().subredditName!;
+      if (!(await authService.isModerator(subredditName, username))) {
+        sendAuthError(res, 'moderator_required');
+        return;
+      }
+
+      res.locals.auth = { role, username, subredditName } satisfies AuthContext;
+      next();
+    } catch (error) {
+      console.error(`Authorization error for ${req.method} ${req.path}:`, error);
+      res.status(500).json({ status: 'error', message: 'Failed to authorize request' });
+    }
+  };
+
+/**
+ * The caller as authorized by `authorize(role)` on this route
+ */
+export const getAuth = <R extends AuthRole>(res: Response, role: R): Extract<AuthContext, { role: R }> => {
+  const auth = res.locals.auth as AuthContext | undefined;
+  if (auth?.role !== role) {
+    throw new Error(`Route is not authorized as ${role}`);
+  }
+  return auth as Extract<AuthContext, { role: R }>;
+};
@@ -0,0 +1,149 @@
+import { GAME_CONFIG, type GardenDaySettings } from '../../shared/types';
+
+/**
+ * Garden days. Each garden's day runs from its cutoff hour to the next day's
+ * cutoff hour, in the garden's IANA timezone, and is named by the local date
+ * it starts on (YYYY-MM-DD). Every daily key is computed from these, so a
+ * garden's days roll over at the same local time across DST changes; such a
+ * day is 23 or 25 hours long.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Midnight UTC, for gardens whose moderators never set a day
+export const DEFAULT_GARDEN_DAY: GardenDaySettings = {
+  timezone: GAME_CONFIG.GARDEN_DAY.DEFAULT_TIMEZONE,
+  cutoffHour: GAME_CONFIG.GARDEN_DAY.DEFAULT_CUTOFF_HOUR,
+};
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+const wallClockParts = (at: number, timezone: string): Record<string, number> => {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timezone).formatToParts(new Date(at))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts;
+};
+
+const wallClock = (at: number, timezone: string): WallClock => {
+  const { year, month, day, hour } = wallClockParts(at, timezone);
+  return { year: year!, month: month!, day: day!, hour: hour! };
+};
+
+// How far the zone's wall clock is ahead of UTC at an instant
+const offsetAt = (at: number, timezone: string): number => {
+  const { year, month, day, hour, minute, second } = wallClockParts(at, timezone);
+  const wall = Date.UTC(year!, month! - 1, day!, hour!, minute!, second!);
+  return wall - (at - (at % 1000));
+};
+
+const toDateKey = (year: number, month: number, day: number): string =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().split('T')[0]!;
+
+const parseDateKey = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+/**
+ * Whether a string names a timezone this runtime knows
+ */
+export const isValidTimeZone = (timezone: string): boolean => {
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The zone's canonical spelling, e.g. 'utc' becomes 'UTC'
+ */
+export const normalizeTimeZone = (timezone: string): string =>
+  new Intl.DateTimeFormat('en-US', { timeZone: timezone }).resolvedOptions().timeZone;
+
+/**
+ * The date `days` days after (or before) a date key
+ */
+export const addDays = (date: string, days: number): string =>
+  new Date(parseDateKey(date) + days * DAY_MS).toISOString().split('T')[0]!;
+
+/**
+ * Day of the week of a date key, 0 for Sunday
+ */
+export const getWeekday = (date: string): number => new Date(parseDateKey(date)).getUTCDay();
+
+/**
+ * ISO week of a date key; the week belongs to the year its Thursday falls in
+ */
+export const getIsoWeek = (date: string): string => {
+  const thursday = new Date(parseDateKey(date));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+};
+
+/**
+ * The instant a zone's wall clock shows `hour`:00 on a calendar date. An hour
+ * skipped by a DST change resolves to the first instant after the gap; an hour
+ * that happens twice resolves to its first occurrence.
+ */
+export const getZonedTime = (date: string, hour: number, timezone: string): Date => {
+  const wall = parseDateKey(date) + hour * 60 * 60 * 1000;
+  // A day holds at most one transition, so the offsets a day either side cover both sides of it
+  const candidates = [...new Set([offsetAt(wall - DAY_MS, timezone), offsetAt(wall + DAY_MS, timezone)])].map(
+    offset => wall - offset
+  );
+  const exact = candidates.filter(at => at + offsetAt(at, timezone) === wall);
+
+  return new Date(exact.length > 0 ? Math.min(...exact) : Math.max(...candidates));
+};
+
+/**
+ * The garden day an instant falls in
+ */
+export const getGardenDate = (at: Date, settings: GardenDaySettings): string => {
+  const local = wallClock(at.getTime(), settings.timezone);
+  const date = toDateKey(local.year, local.month, local.day);
+  return local.hour < settings.cutoffHour ? addDays(date, -1) : date;
+};
+
+/**
+ * When a garden day starts
+ */
+export const getGardenDayStart = (date: string, settings: GardenDaySettings): Date =>
+  getZonedTime(date, settings.cutoffHour, settings.timezone);
+
+/**
+ * When `hour`:00 local time comes round during a garden day. Hours before the
+ * cutoff fall on the next calendar date.
+ */
+export const getGardenTime = (date: string, hour: number, settings: GardenDaySettings): Date =>
+  getZonedTime(hour >= settings.cutoffHour ? date : addDays(date, 1), hour, settings.timezone);
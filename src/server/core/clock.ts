@@ -0,0 +1,35 @@
+/**
+ * Source of the current time, injected wherever scheduled work needs to be
+ * driven deterministically in tests.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(date: Date): void {
+    this.current = date.getTime();
+  }
+
+  advance(ms: number): Date {
+    this.current += ms;
+    return this.now();
+  }
+}
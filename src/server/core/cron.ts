@@ -0,0 +1,94 @@
+/**
+ * Minimal five-field cron support (minute hour day-of-month month day-of-week),
+ * evaluated in UTC like Devvit's scheduler. Handles `*`, `*\/n`, ranges, lists
+ * and stepped ranges; enough to mirror the tasks in devvit.json locally.
+ */
+
+const MINUTE_MS = 60 * 1000;
+// Upper bound for nextCronRun's search; every supported expression fires within a year
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+const FIELD_RANGES: readonly [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week, 0 and 7 are both Sunday
+];
+
+export class InvalidCronExpressionError extends Error {
+  constructor(expression: string) {
+    super(`Invalid cron expression: ${expression}`);
+    this.name = 'InvalidCronExpressionError';
+  }
+}
+
+const parseField = (field: string, [min, max]: [number, number], expression: string): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      const [from, to] = (range ?? '').split('-');
+      start = Number(from);
+      end = to === undefined ? (stepText === undefined ? start : max) : Number(to);
+    }
+
+    if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+      throw new InvalidCronExpressionError(expression);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+const parseCron = (expression: string): Set<number>[] => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELD_RANGES.length) {
+    throw new InvalidCronExpressionError(expression);
+  }
+
+  const parsed = fields.map((field, index) => parseField(field, FIELD_RANGES[index]!, expression));
+  if (parsed[4]!.has(7)) {
+    parsed[4]!.add(0);
+  }
+  return parsed;
+};
+
+const matchesFields = ([minutes, hours, days, months, weekdays]: Set<number>[], date: Date): boolean =>
+  minutes!.has(date.getUTCMinutes()) &&
+  hours!.has(date.getUTCHours()) &&
+  days!.has(date.getUTCDate()) &&
+  months!.has(date.getUTCMonth() + 1) &&
+  weekdays!.has(date.getUTCDay());
+
+/**
+ * Whether a cron expression fires in the minute containing `date`
+ */
+export const cronMatches = (expression: string, date: Date): boolean => matchesFields(parseCron(expression), date);
+
+/**
+ * First minute strictly after `after` at which the expression fires, or null
+ * if it doesn't fire within a year
+ */
+export const nextCronRun = (expression: string, after: Date): Date | null => {
+  const fields = parseCron(expression);
+
+  let candidate = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++, candidate += MINUTE_MS) {
+    const date = new Date(candidate);
+    if (matchesFields(fields, date)) {
+      return date;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,82 @@
+import type { GardenStateChanges, PlayerActionType, ReachedMilestone } from '../../shared/types';
+import type { GeneratedChronicle } from '../services/ChronicleGenerationService';
+
+/**
+ * Domain events published when game state changes. Payloads are plain JSON so
+ * an event can sit in the Redis outbox until every subscriber has handled it.
+ */
+interface DomainEventBase<T extends string, P> {
+  id: string;
+  type: T;
+  subredditName: string;
+  occurredAt: Date;
+  payload: P;
+}
+
+export type ActionCommittedEvent = DomainEventBase<
+  'ActionCommitted',
+  {
+    actionId: string;
+    username: string;
+    actionType: PlayerActionType;
+    resourcesSpent: number;
+    growthContributed: number;
+    previousTotalGrowth: number;
+    totalGrowth: number;
+    // Counters the action moved, with their new values
+    stateChanges: GardenStateChanges;
+    // The state version the action wrote
+    version: number;
+  }
+>;
+
+export type TreeLeveledUpEvent = DomainEventBase<
+  'TreeLeveledUp',
+  { previousLevel: number; newLevel: number; totalGrowth: number }
+>;
+
+export type MilestoneReachedEvent = DomainEventBase<
+  'MilestoneReached',
+  { milestone: ReachedMilestone; totalGrowth: number }
+>;
+
+export type PlayerJoinedEvent = DomainEventBase<'PlayerJoined', { username: string }>;
+
+export type ChroniclePostedEvent = DomainEventBase<
+  'ChroniclePosted',
+  { recordId: string; chronicleType: GeneratedChronicle['type']; title: string; postId: string; postUrl: string }
+>;
+
+export type DomainEvent =
+  | ActionCommittedEvent
+  | TreeLeveledUpEvent
+  | MilestoneReachedEvent
+  | PlayerJoinedEvent
+  | ChroniclePostedEvent;
+
+export type DomainEventType = DomainEvent['type'];
+
+export type DomainEventOf<T extends DomainEventType> = Extract<DomainEvent, { type: T }>;
+
+/**
+ * Runs at least once per event; may run again after a crash or a failed
+ * sibling handler, so it must be safe to repeat
+ */
+export type DomainEventHandler<T extends DomainEventType> = (event: DomainEventOf<T>) => Promise<void>;
+
+/**
+ * Build an event with a fresh id
+ */
+export const createDomainEvent = <T extends DomainEventType>(
+  type: T,
+  subredditName: string,
+  payload: DomainEventOf<T>['payload'],
+  occurredAt: Date = new Date()
+): DomainEventOf<T> =>
+  ({
+    id: `evt_${occurredAt.getTime()}_${Math.random().toString(36).slice(2, 11)}`,
+    type,
+    subredditName,
+    occurredAt,
+    payload,
+  }) as DomainEventOf<T>;
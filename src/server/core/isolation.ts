@@ -0,0 +1,97 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { authService } from '../services/AuthService';
+import { subredditContextService } from '../services/SubredditContextService';
+import { sendAuthError } from './auth';
+
+/**
+ * How a route touches the garden it names:
+ * - `write`: only the garden of the subreddit the request runs in
+ * - `read`: any garden, for read-only cross-garden views
+ */
+export type SubredditAccess = 'write' | 'read';
+
+/**
+ * The garden a request was bound to, kept on `res.locals.subreddit`
+ */
+export interface SubredditBinding {
+  subredditName: string;
+  // True when a read-only route was asked about a garden other than the context's
+  crossGarden: boolean;
+}
+
+/**
+ * The subreddit a request names: the `:subreddit` param, else the body's
+ * `subredditName`, else the `?subreddit=` query
+ */
+const getRequestedSubreddit = (req: Request): unknown => {
+  if (req.params.subreddit !== undefined) {
+    return req.params.subreddit;
+  }
+  if (req.body?.subredditName !== undefined) {
+    return req.body.subredditName;
+  }
+  return req.query.subreddit;
+};
+
+/**
+ * Middleware that binds a request to the Devvit `context.subredditName`. A
+ * request naming another subreddit is refused with `403 subreddit_mismatch`
+ * (and logged) on `write` routes, and let through to that garden on `read`
+ * routes. Goes before `authorize`, so moderator routes check the bound garden.
+ */
+export const bindSubreddit =
+  (access: SubredditAccess): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const requested = getRequestedSubreddit(req);
+      let requestedSubreddit: string | undefined;
+      if (requested !== undefined && requested !== '') {
+        const validation = subredditContextService.validateSubredditName(requested as string);
+        if (!validation.isValid) {
+          res.status(400).json({ status: 'error', message: validation.error || 'Invalid subreddit name' });
+          return;
+        }
+        requestedSubreddit = validation.subredditName!;
+      }
+
+      const contextSubreddit = subredditContextService
+        .detectSubredditContext(requestedSubreddit)
+        .subredditName.toLowerCase();
+
+      if (requestedSubreddit && !subredditContextService.validateDataIsolation(requestedSubreddit, contextSubreddit)) {
+        if (access === 'write') {
+          const username = await authService.getCurrentUsername().catch(() => null);
+          subredditContextService.logIsolationViolation({
+            method: req.method,
+            path: req.path,
+            contextSubreddit,
+            requestedSubreddit,
+            ...(username && { username }),
+          });
+          sendAuthError(res, 'subreddit_mismatch');
+          return;
+        }
+
+        res.locals.subreddit = { subredditName: requestedSubreddit, crossGarden: true } satisfies SubredditBinding;
+        next();
+        return;
+      }
+
+      res.locals.subreddit = { subredditName: contextSubreddit, crossGarden: false } satisfies SubredditBinding;
+      next();
+    } catch (error) {
+      console.error(`Subreddit binding error for ${req.method} ${req.path}:`, error);
+      res.status(500).json({ status: 'error', message: 'Failed to resolve subreddit' });
+    }
+  };
+
+/**
+ * The garden this request was bound to by `bindSubreddit`
+ */
+export const getBoundSubreddit = (res: Response): SubredditBinding => {
+  const binding = res.locals.subreddit as SubredditBinding | undefined;
+  if (!binding) {
+    throw new Error('Route is not bound to a subreddit');
+  }
+  return binding;
+};
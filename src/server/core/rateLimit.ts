@@ -0,0 +1,43 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+
+export interface SlidingWindowLimit {
+  key: string;
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Sliding-window log limiter backed by a sorted set of hit timestamps.
+ *
+ * Reads happen while the key is watched and the hit is recorded in the same
+ * MULTI as the action itself, so the window only ever counts committed actions
+ * and two concurrent requests cannot both take the last slot.
+ */
+
+/**
+ * Milliseconds until another hit fits in the window, or 0 if one fits now
+ */
+export const slidingWindowRetryAfter = async (window: SlidingWindowLimit, now: number): Promise<number> => {
+  const hits = await redis.zRange(window.key, now - window.windowMs + 1, now, { by: 'score' });
+  if (hits.length < window.limit) {
+    return 0;
+  }
+
+  // The window frees up once enough of the oldest hits have aged out
+  const blocking = hits[hits.length - window.limit];
+  return blocking ? Math.max(blocking.score + window.windowMs - now, 1) : 0;
+};
+
+/**
+ * Queue a hit for `member` and drop entries that fell out of the window
+ */
+export const recordSlidingWindowHit = async (
+  tx: TxClientLike,
+  window: SlidingWindowLimit,
+  member: string,
+  now: number
+): Promise<void> => {
+  await tx.zRemRangeByScore(window.key, 0, now - window.windowMs);
+  await tx.zAdd(window.key, { member, score: now });
+  await tx.expire(window.key, Math.ceil(window.windowMs / 1000));
+};
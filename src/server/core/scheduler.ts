@@ -0,0 +1,51 @@
+import { ManualClock } from './clock';
+import { cronMatches } from './cron';
+
+export interface CronJob<Name extends string = string> {
+  name: Name;
+  cron: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Local stand-in for Devvit's scheduler: walks a manual clock forward one
+ * minute at a time and fires every job whose cron matches, in the order the
+ * jobs were given. Lets tests cover days of scheduled work in milliseconds.
+ */
+export class InMemoryJobRunner<Name extends string> {
+  constructor(
+    private readonly jobs: readonly CronJob<Name>[],
+    private readonly clock: ManualClock,
+    private readonly run: (name: Name) => Promise<unknown>
+  ) {}
+
+  /**
+   * Advance the clock by `ms`, firing due jobs along the way. Returns the jobs fired, in order.
+   */
+  async advanceBy(ms: number): Promise<Name[]> {
+    return this.advanceTo(new Date(this.clock.now().getTime() + ms));
+  }
+
+  /**
+   * Advance the clock to `target`, firing every job due in a minute after the current one
+   */
+  async advanceTo(target: Date): Promise<Name[]> {
+    const fired: Name[] = [];
+    let minute = Math.floor(this.clock.now().getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+    while (minute <= target.getTime()) {
+      this.clock.set(new Date(minute));
+      for (const job of this.jobs) {
+        if (cronMatches(job.cron, this.clock.now())) {
+          await this.run(job.name);
+          fired.push(job.name);
+        }
+      }
+      minute += MINUTE_MS;
+    }
+
+    this.clock.set(target);
+    return fired;
+  }
+}
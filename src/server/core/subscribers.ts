@@ -0,0 +1,37 @@
+import { eventBusService, EventBusService } from '../services/EventBusService';
+import { milestoneChronicleService } from '../services/MilestoneChronicleService';
+import { achievementService } from '../services/AchievementService';
+import { leaderboardService } from '../services/LeaderboardService';
+import { redisGameService } from '../services/RedisGameService';
+import { realtimeSyncService } from '../services/RealtimeSyncService';
+
+/**
+ * Built-in domain event subscribers. Each area registers its own handlers; a
+ * handler may run more than once for the same event, so each one is a repeatable write.
+ */
+export const registerDomainEventSubscribers = (bus: EventBusService = eventBusService): void => {
+  // Chronicles: queue an automatic chronicle; the post history stops a repeat post
+  bus.subscribe('MilestoneReached', 'chronicles.queueMilestone', async event => {
+    await milestoneChronicleService.enqueue(event.subredditName, [event.payload.milestone], event.occurredAt);
+  });
+
+  // Achievements: keep the first time the garden reached each milestone
+  bus.subscribe('MilestoneReached', 'achievements.recordMilestone', async event => {
+    await achievementService.recordMilestone(event.subredditName, event.payload.milestone, event.occurredAt);
+  });
+
+  // Leaderboards: new players appear on the garden's roster before they contribute
+  bus.subscribe('PlayerJoined', 'leaderboards.registerPlayer', async event => {
+    await leaderboardService.registerPlayer(event.subredditName, event.payload.username);
+  });
+
+  // Analytics: active-player tracking behind the daily stats
+  bus.subscribe('ActionCommitted', 'analytics.trackActivePlayer', async event => {
+    await redisGameService.trackActivePlayer(event.payload.username, event.subredditName);
+  });
+
+  // Realtime: push the action and the counters it moved to players in the garden
+  bus.subscribe('ActionCommitted', 'realtime.publishDelta', async event => {
+    await realtimeSyncService.publishActionCommitted(event);
+  });
+};
@@ -0,0 +1,338 @@
+/**
+ * Small, logic-light template language for chronicle posts.
+ *
+ *   {{path.to.value}}             value lookup; strings are escaped for Reddit markdown
+ *   {{helper arg "literal" 3}}    helper call; helpers return trusted markdown
+ *   {{#if expr}}…{{else}}…{{/if}} empty arrays, 0, '' and null are falsy
+ *   {{#each list}}…{{else}}…{{/each}}
+ *                                 inside: {{this}}, {{field}}, {{@index}} (0-based), {{@number}} (1-based)
+ *
+ * Block tags on a line of their own don't leave blank lines behind. Unknown
+ * variables and helpers, malformed tags and unbalanced blocks are TemplateErrors
+ * rather than text passed through to Reddit.
+ */
+
+export type TemplateHelper = (...args: unknown[]) => unknown;
+export type TemplateHelpers = Record<string, TemplateHelper>;
+
+export interface TemplateRenderOptions {
+  helpers?: TemplateHelpers;
+  // Escape markdown in looked-up strings; turn off for plain-text output such as post titles
+  escapeMarkdown?: boolean;
+}
+
+export interface CompiledTemplate {
+  render(data: Record<string, unknown>, options?: TemplateRenderOptions): string;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line === undefined ? message : `${message} (line ${line})`);
+    this.name = 'TemplateError';
+  }
+}
+
+type Argument = { kind: 'path'; path: string } | { kind: 'literal'; value: string | number | boolean };
+
+interface Expression {
+  // A helper name when there are arguments, otherwise a variable path
+  head: string;
+  args: Argument[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression; line: number }
+  | { type: 'if' | 'each'; expression: Expression; body: TemplateNode[]; elseBody: TemplateNode[]; line: number };
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'tag'; sigil: '#' | '/' | ''; content: string; line: number };
+
+interface Scope {
+  value: unknown;
+  index?: number;
+}
+
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+const ARGUMENT_PATTERN = /"([^"]*)"|'([^']*)'|(\S+)/g;
+const PATH_PATTERN = /^(?:@index|@number|this|[A-Za-z_$][\w$]*)(?:\.[A-Za-z_$][\w$]*)*$/;
+const MARKDOWN_SPECIAL = /[\\`*_~^[\]()<>#|]/g;
+
+/**
+ * Escape characters Reddit markdown would interpret, so user-provided text renders literally
+ */
+export const escapeMarkdown = (text: string): string => text.replace(MARKDOWN_SPECIAL, '\\$&');
+
+const countNewlines = (text: string): number => text.split('\n').length - 1;
+
+const isStandaloneTag = (token: Token): boolean =>
+  token.kind === 'tag' && (token.sigil !== '' || token.content === 'else');
+
+/**
+ * Split a template into text and tags, dropping the whitespace around block
+ * tags that sit alone on their line
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+  let line = 1;
+
+  const pushText = (text: string) => {
+    const stray = text.indexOf('{{');
+    if (stray !== -1) {
+      throw new TemplateError('Malformed or unclosed tag', line + countNewlines(text.slice(0, stray)));
+    }
+    tokens.push({ kind: 'text', value: text });
+    line += countNewlines(text);
+  };
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    pushText(source.slice(lastIndex, match.index));
+    tokens.push({ kind: 'tag', sigil: match[1] as '#' | '/' | '', content: match[2] ?? '', line });
+    line += countNewlines(match[0]);
+    lastIndex = match.index + match[0].length;
+  }
+  pushText(source.slice(lastIndex));
+
+  // Tokens alternate text, tag, text, …, text. Decide every cut against the
+  // original text first, so back-to-back block lines are all dropped.
+  const texts = tokens.filter((token): token is { kind: 'text'; value: string } => token.kind === 'text');
+  const cuts = texts.map(text => ({ start: 0, end: text.value.length }));
+
+  for (let t = 0; t < texts.length - 1; t++) {
+    if (!isStandaloneTag(tokens[2 * t + 1]!)) {
+      continue;
+    }
+
+    const before = texts[t]!.value;
+    const after = texts[t + 1]!.value;
+    const lineStart = before.lastIndexOf('\n');
+    const lineEnd = after.indexOf('\n');
+    const startsLine = lineStart !== -1 || t === 0;
+    const endsLine = lineEnd !== -1 || t + 1 === texts.length - 1;
+    const leading = before.slice(lineStart + 1);
+    const trailing = lineEnd === -1 ? after : after.slice(0, lineEnd);
+
+    if (startsLine && endsLine && leading.trim() === '' && trailing.trim() === '') {
+      cuts[t]!.end = lineStart + 1;
+      cuts[t + 1]!.start = lineEnd === -1 ? after.length : lineEnd + 1;
+    }
+  }
+
+  texts.forEach((text, t) => {
+    const { start, end } = cuts[t]!;
+    text.value = text.value.slice(start, Math.max(start, end));
+  });
+
+  return tokens;
+};
+
+const parseExpression = (content: string, line: number): Expression => {
+  const parts = [...content.matchAll(ARGUMENT_PATTERN)];
+  const [head, ...rest] = parts;
+  if (!head || head[3] === undefined || !PATH_PATTERN.test(head[3])) {
+    throw new TemplateError(`Invalid expression "{{${content}}}"`, line);
+  }
+
+  const args = rest.map((part): Argument => {
+    if (part[1] !== undefined || part[2] !== undefined) {
+      return { kind: 'literal', value: part[1] ?? part[2] ?? '' };
+    }
+
+    const raw = part[3]!;
+    if (/^-?\d+(\.\d+)?$/.test(raw)) return { kind: 'literal', value: Number(raw) };
+    if (raw === 'true' || raw === 'false') return { kind: 'literal', value: raw === 'true' };
+    if (!PATH_PATTERN.test(raw)) {
+      throw new TemplateError(`Invalid argument "${raw}" in "{{${content}}}"`, line);
+    }
+    return { kind: 'path', path: raw };
+  });
+
+  return { head: head[3], args };
+};
+
+const parse = (tokens: Token[]): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.elseBody : top.node.body) : root;
+  };
+
+  for (const token of tokens) {
+    if (token.kind === 'text') {
+      if (token.value) current().push({ type: 'text', value: token.value });
+      continue;
+    }
+
+    const { sigil, content, line } = token;
+    if (sigil === '#') {
+      const [, keyword = '', rest = ''] = /^(\w+)\s*(.*)$/.exec(content) ?? [];
+      if (keyword !== 'if' && keyword !== 'each') {
+        throw new TemplateError(`Unknown block "#${keyword || content}"`, line);
+      }
+      if (!rest) {
+        throw new TemplateError(`"#${keyword}" needs an expression`, line);
+      }
+      const block: Extract<TemplateNode, { type: 'if' | 'each' }> = {
+        type: keyword,
+        expression: parseExpression(rest, line),
+        body: [],
+        elseBody: [],
+        line,
+      };
+      current().push(block);
+      stack.push({ node: block, inElse: false });
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open) {
+        throw new TemplateError(`Unexpected "/${content}" with no open block`, line);
+      }
+      if (content !== open.node.type) {
+        throw new TemplateError(`"/${content}" closes "#${open.node.type}" opened on line ${open.node.line}`, line);
+      }
+    } else if (content === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        throw new TemplateError('Unexpected "else"', line);
+      }
+      open.inElse = true;
+    } else {
+      current().push({ type: 'output', expression: parseExpression(content, line), line });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`Unclosed "#${unclosed.node.type}"`, unclosed.node.line);
+  }
+
+  return root;
+};
+
+const hasOwn = (value: unknown, key: string): boolean =>
+  typeof value === 'object' && value !== null && Object.prototype.hasOwnProperty.call(value, key);
+
+const resolvePath = (path: string, scopes: Scope[], line: number): unknown => {
+  const [first, ...rest] = path.split('.') as [string, ...string[]];
+  const innermost = scopes[scopes.length - 1]!;
+  let value: unknown;
+
+  if (first === '@index' || first === '@number') {
+    if (innermost.index === undefined) {
+      throw new TemplateError(`"${first}" is only available inside #each`, line);
+    }
+    value = first === '@index' ? innermost.index : innermost.index + 1;
+  } else if (first === 'this') {
+    value = innermost.value;
+  } else {
+    const scope = [...scopes].reverse().find(candidate => hasOwn(candidate.value, first));
+    if (!scope) {
+      throw new TemplateError(`Unknown variable "${path}"`, line);
+    }
+    value = (scope.value as Record<string, unknown>)[first];
+  }
+
+  for (const key of rest) {
+    if (!hasOwn(value, key)) {
+      throw new TemplateError(`Unknown variable "${path}"`, line);
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+};
+
+const isTruthy = (value: unknown): boolean => (Array.isArray(value) ? value.length > 0 : Boolean(value));
+
+class Renderer {
+  constructor(
+    private readonly helpers: TemplateHelpers,
+    private readonly escape: boolean
+  ) {}
+
+  render(nodes: TemplateNode[], scopes: Scope[]): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+        case 'output':
+          output += this.renderOutput(node.expression, scopes, node.line);
+          break;
+        case 'if':
+          output += this.render(isTruthy(this.evaluate(node.expression, scopes, node.line)) ? node.body : node.elseBody, scopes);
+          break;
+        case 'each': {
+          const list = this.evaluate(node.expression, scopes, node.line);
+          if (list !== undefined && list !== null && !Array.isArray(list)) {
+            throw new TemplateError(`"#each ${node.expression.head}" needs a list`, node.line);
+          }
+          output += list && list.length > 0
+            ? list.map((item, index) => this.render(node.body, [...scopes, { value: item, index }])).join('')
+            : this.render(node.elseBody, scopes);
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private renderOutput(expression: Expression, scopes: Scope[], line: number): string {
+    const value = this.evaluate(expression, scopes, line);
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (typeof value === 'object') {
+      throw new TemplateError(`"${expression.head}" is not a printable value`, line);
+    }
+
+    // Helper output is trusted markdown; looked-up strings may come from players
+    const text = String(value);
+    return this.escape && expression.args.length === 0 && typeof value === 'string' ? escapeMarkdown(text) : text;
+  }
+
+  private evaluate(expression: Expression, scopes: Scope[], line: number): unknown {
+    if (expression.args.length === 0) {
+      return resolvePath(expression.head, scopes, line);
+    }
+
+    const helper = this.helpers[expression.head];
+    if (!helper) {
+      throw new TemplateError(`Unknown helper "${expression.head}"`, line);
+    }
+
+    const args = expression.args.map(arg => (arg.kind === 'literal' ? arg.value : resolvePath(arg.path, scopes, line)));
+    try {
+      return helper(...args);
+    } catch (error) {
+      throw new TemplateError(
+        `Helper "${expression.head}" failed: ${error instanceof Error ? error.message : String(error)}`,
+        line
+      );
+    }
+  }
+}
+
+/**
+ * Parse a template once; syntax errors are thrown here, lookup errors on render
+ */
+export const compileTemplate = (source: string): CompiledTemplate => {
+  const nodes = parse(tokenize(source));
+
+  return {
+    render(data, options = {}) {
+      return new Renderer(options.helpers ?? {}, options.escapeMarkdown ?? true).render(nodes, [{ value: data }]);
+    },
+  };
+};
+
+export const renderTemplate = (
+  source: string,
+  data: Record<string, unknown>,
+  options?: TemplateRenderOptions
+): string => compileTemplate(source).render(data, options);
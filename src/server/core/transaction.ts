@@ -0,0 +1,72 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+
+export interface OptimisticTransactionOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+export interface PreparedTransaction<T> {
+  // Queues the writes inside MULTI; must not read or await anything else
+  write: (tx: TxClientLike) => Promise<void>;
+  result: T;
+}
+
+/**
+ * Thrown when the watched keys keep changing underneath us and the
+ * transaction could not be committed within the allowed attempts
+ */
+export class TransactionConflictError extends Error {
+  constructor(public readonly keys: string[], public readonly attempts: number) {
+    super(`Transaction conflict on ${keys.join(', ')} after ${attempts} attempts`);
+    this.name = 'TransactionConflictError';
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BASE_DELAY_MS = 15;
+
+/**
+ * Run an optimistic WATCH/MULTI/EXEC cycle over `keys`.
+ *
+ * `prepare` is called after the keys are watched, reads whatever it needs and
+ * returns the writes to queue. If any watched key changes before EXEC the
+ * whole cycle is retried with a jittered backoff. Errors thrown by `prepare`
+ * abort the transaction without retrying, so business rejections (not enough
+ * cinnamon, cooldowns) surface immediately and nothing is written.
+ */
+export const withOptimisticTransaction = async <T>(
+  keys: string[],
+  prepare: () => Promise<PreparedTransaction<T>>,
+  options: OptimisticTransactionOptions = {}
+): Promise<T> => {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const tx = await redis.watch(...keys);
+
+    let prepared: PreparedTransaction<T>;
+    try {
+      prepared = await prepare();
+    } catch (error) {
+      await tx.unwatch();
+      throw error;
+    }
+
+    await tx.multi();
+    await prepared.write(tx);
+    const results = await tx.exec();
+
+    // A nil/empty reply means a watched key was modified and nothing was applied
+    if (results && results.length > 0) {
+      return prepared.result;
+    }
+
+    if (attempt < maxAttempts) {
+      const delay = baseDelayMs * attempt + Math.random() * baseDelayMs;
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  throw new TransactionConflictError(keys, maxAttempts);
+};
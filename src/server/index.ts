@@ -1,14 +1,42 @@
 import express from 'express';
-import { InitResponse, LegacyInitResponse, IncrementResponse, DecrementResponse, GameState } from '../shared/types/api';
+import { InitResponse, LegacyInitResponse, IncrementResponse, DecrementResponse, GameState, CatalogResponse, CooldownsResponse, ActionLimitedResponse, ActionLogResponse, PlayerActionType, LeaderboardResponse, LeaderboardWindow, GardenListResponse, GardenResponse, GardenStatus, ChronicleTemplateInfo, ChronicleTemplateListResponse, ChronicleTemplateHistoryResponse, ChronicleTemplatePreviewResponse, ChronicleHistoryResponse, MilestoneConfigResponse, GardenBalanceResponse, AdminAuditAction, AdminAuditResponse, GardenPauseResponse, GardenGrowthRebuild, PlayerBan, PlayerBanListResponse, PlayerPurgeResult, PlayerResources, StateDiffResponse, StateSnapshotResponse } from '../shared/types/api';
+import { ERROR_MESSAGES, GAME_CONFIG } from '../shared/constants';
+import { ACTION_ORDER } from '../shared/catalog';
 import { redis, reddit, createServer, context, getServerPort } from '@devvit/web/server';
 import { createPost } from './core/post';
+import { TransactionConflictError } from './core/transaction';
 import { redisGameService } from './services/RedisGameService';
 import { playerResourceService } from './services/PlayerResourceService';
 import { growthCalculationService } from './services/GrowthCalculationService';
-import { redditPostingService } from './services/RedditPostingService';
-import { chronicleGenerationService } from './services/ChronicleGenerationService';
-import { chronicleScheduler } from './services/ChronicleScheduler';
+import {
+  chronicleGenerationService,
+  TemplateValidationError,
+  CHRONICLE_TEMPLATE_VARIABLES,
+  CHRONICLE_TEMPLATE_HELPERS,
+} from './services/ChronicleGenerationService';
+import { chronicleTemplateService } from './services/ChronicleTemplateService';
+import { chronicleHistoryService } from './services/ChronicleHistoryService';
+import { milestoneChronicleService, InvalidMilestoneConfigError } from './services/MilestoneChronicleService';
+import { MILESTONE_GROWTH_THRESHOLDS, MILESTONE_LEVELS } from '../shared/utils/milestones';
+import { chronicleScheduler, SCHEDULED_JOBS } from './services/ChronicleScheduler';
 import { subredditContextService } from './services/SubredditContextService';
+import { ActionRejectedError, ActionRejectionReason } from './services/ActionTransactionService';
+import { actionEngine } from './services/ActionEngine';
+import { actionLogService, InvalidCursorError } from './services/ActionLogService';
+import { leaderboardService, LEADERBOARD_WINDOWS } from './services/LeaderboardService';
+import { gardenRegistryService, InvalidGardenDayError } from './services/GardenRegistryService';
+import { gardenBalanceService, InvalidBalanceConfigError } from './services/GardenBalanceService';
+import { adminAuditService } from './services/AdminAuditService';
+import { gardenAdminService } from './services/GardenAdminService';
+import { stateChangeLogService } from './services/StateChangeLogService';
+import { gardenModerationService } from './services/GardenModerationService';
+import { InvalidAdminRequestError, optionalReason } from './core/admin';
+import { registerDomainEventSubscribers } from './core/subscribers';
+import { authorize, getAuth } from './core/auth';
+import { bindSubreddit, getBoundSubreddit } from './core/isolation';
+
+// Chronicles, achievements, leaderboards and analytics react to domain events
+registerDomainEventSubscribers();
 
 const app = express();
 
@@ -24,7 +52,7 @@ const router = express.Router();
 router.get<{ postId: string }, LegacyInitResponse | { status: string; message: string }>(
   '/api/init',
   async (_req, res): Promise<void> => {
-    const { postId } = context;
+    const { postId, subredditName } = context;
 
     if (!postId) {
       console.error('API Init Error: postId not found in devvit context');
@@ -44,6 +72,7 @@ router.get<{ postId: string }, LegacyInitResponse | { status: string; message: s
       res.json({
         type: 'init',
         postId: postId,
+        subredditName,
         count: count ? parseInt(count) : 0,
         username: username ?? 'anonymous',
       });
@@ -61,22 +90,11 @@ router.get<{ postId: string }, LegacyInitResponse | { status: string; message: s
 // Game initialization endpoint for Cinnarito
 router.get<{ subreddit: string }, InitResponse | { status: string; message: string }>(
   '/api/init/:subreddit',
+  bindSubreddit('write'),
+  authorize('player'),
   async (req, res): Promise<void> => {
-    const { subreddit } = req.params;
     const { postId } = context;
-
-    // Validate and sanitize subreddit context
-    const subredditValidation = subredditContextService.getValidatedSubredditContext(subreddit);
-    if (!subredditValidation.isValid) {
-      console.error('API Game Init Error: Invalid subreddit', subredditValidation.error);
-      res.status(400).json({
-        status: 'error',
-        message: subredditValidation.error || 'Invalid subreddit name',
-      });
-      return;
-    }
-
-    const validatedSubreddit = subredditValidation.subredditName!;
+    const validatedSubreddit = getBoundSubreddit(res).subredditName;
 
     if (!postId) {
       console.error('API Game Init Error: postId not found in devvit context');
@@ -88,18 +106,10 @@ router.get<{ subreddit: string }, InitResponse | { status: string; message: stri
     }
 
     try {
-      // Get current username
-      const username = await reddit.getCurrentUsername();
-      if (!username) {
-        res.status(401).json({
-          status: 'error',
-          message: 'User authentication required',
-        });
-        return;
-      }
+      const { username } = getAuth(res, 'player');
 
       // Log context info for debugging
-      const contextInfo = subredditContextService.detectSubredditContext(subreddit);
+      const contextInfo = subredditContextService.detectSubredditContext(req.params.subreddit);
       subredditContextService.logContextInfo(contextInfo, 'Game Init');
 
       // Initialize or get game state for the subreddit
@@ -174,8 +184,16 @@ router.post<{ postId: string }, DecrementResponse | { status: string; message: s
   }
 );
 
-router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
+router.post('/internal/on-app-install', authorize('internal'), async (_req, res): Promise<void> => {
   try {
+    if (context.subredditName) {
+      try {
+        await gardenRegistryService.register(context.subredditName, 'install');
+      } catch (error) {
+        console.error(`Failed to register garden ${context.subredditName}:`, error);
+      }
+    }
+
     const post = await createPost();
 
     res.json({
@@ -191,7 +209,7 @@ router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
   }
 });
 
-router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
+router.post('/internal/menu/post-create', authorize('player'), async (_req, res): Promise<void> => {
   try {
     const post = await createPost();
 
@@ -207,672 +225,1231 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   }
 });
 
-// Player action endpoints for Cinnarito game
-router.post('/api/plant', async (req, res): Promise<void> => {
-  try {
-    const { subredditName } = req.body;
-    const username = await reddit.getCurrentUsername();
-
-    if (!username) {
-      res.status(401).json({
-        success: false,
-        message: 'User authentication required',
-      });
-      return;
-    }
-
-    // Validate subreddit context
-    const subredditValidation = subredditContextService.getValidatedSubredditContext(subredditName);
-    if (!subredditValidation.isValid) {
-      res.status(400).json({
-        success: false,
-        message: subredditValidation.error || 'Invalid subreddit name',
-      });
-      return;
-    }
+// Scheduled job endpoints, fired by Devvit's scheduler on the crons in devvit.json
+router.post<{ job: string }>('/internal/scheduler/:job', authorize('internal'), async (req, res): Promise<void> => {
+  const job = SCHEDULED_JOBS.find(definition => definition.endpoint === req.path);
+  if (!job) {
+    res.status(404).json({ status: 'error', message: `Unknown scheduled job: ${req.params.job}` });
+    return;
+  }
 
-    const validatedSubreddit = subredditValidation.subredditName!;
+  try {
+    const result = await chronicleScheduler.runJob(job.name);
+    res.json({ status: 'success', result });
+  } catch (error) {
+    console.error(`Scheduled job ${job.name} error:`, error);
+    res.status(500).json({ status: 'error', message: `Failed to run scheduled job ${job.name}` });
+  }
+});
 
-    // Check if player can afford the action
-    const canAfford = await playerResourceService.canAffordAction(username, validatedSubreddit, 'plant');
-    if (!canAfford) {
-      res.status(400).json({
-        success: false,
-        message: 'Insufficient cinnamon to plant seed',
-      });
-      return;
-    }
+// Player action endpoints for Cinnarito game. Every action runs through the
+// action engine; the per-action routes are kept as aliases for older clients.
+async function handleAction(actionType: string, req: express.Request, res: express.Response): Promise<void> {
+  const definition = actionEngine.getDefinition(actionType);
+  let username: string | undefined;
+  let validatedSubreddit: string | undefined;
 
-    // Check action cooldown
-    const hasCooldown = await redisGameService.checkActionCooldown(username, validatedSubreddit);
-    if (hasCooldown) {
-      res.status(429).json({
-        success: false,
-        message: 'Action cooldown active, please wait',
+  try {
+    // The body's subredditName was checked against the context by bindSubreddit
+    const { subredditName: _subredditName, ...payload } = req.body ?? {};
+    username = getAuth(res, 'player').username;
+    validatedSubreddit = getBoundSubreddit(res).subredditName;
+
+    const { commit, outcome } = await actionEngine.execute(actionType, username, validatedSubreddit, payload);
+    // The action is already committed; a failed cooldown read must not turn it into an error
+    const cooldowns = await redisGameService
+      .getActionCooldowns(username, validatedSubreddit)
+      .catch(cooldownError => {
+        console.error('Failed to load cooldowns after action:', cooldownError);
+        return undefined;
       });
-      return;
-    }
-
-    // Process the action transaction
-    const { resources, cost } = await playerResourceService.processActionTransaction(username, validatedSubreddit, 'plant');
-    
-    // Calculate growth contribution
-    const growthContribution = 1.5; // From GAME_CONFIG.GROWTH_MULTIPLIERS.SEEDS_PLANTED
-    
-    // Get current game state for milestone checking
-    const currentGameState = await redisGameService.getGameState(validatedSubreddit);
-    const previousTotalGrowth = currentGameState?.totalGrowth || 0;
-
-    // Record the action
-    await redisGameService.recordAction({
-      username,
-      subredditName: validatedSubreddit,
-      actionType: 'plant',
-      resourcesSpent: cost,
-      growthContributed: growthContribution,
-    });
-
-    // Set action cooldown
-    await redisGameService.setActionCooldown(username, validatedSubreddit, 60000); // 1 minute cooldown
-
-    // Get updated game state
-    const gameState = await redisGameService.getGameState(validatedSubreddit);
-    
-    // Check for milestones
-    let milestoneMessage = 'Seed planted successfully! 🌱';
-    if (gameState) {
-      const milestones = await growthCalculationService.checkMilestones(validatedSubreddit, previousTotalGrowth, gameState.totalGrowth);
-      if (milestones.levelUp || milestones.milestoneReached) {
-        milestoneMessage += ` ${milestones.milestoneReached || 'Tree level up!'}`;
-      }
-    }
 
     res.json({
       success: true,
-      newGameState: gameState!,
-      newPlayerResources: resources,
-      message: milestoneMessage,
+      newGameState: commit.gameState,
+      newPlayerResources: commit.playerResources,
+      message: outcome.message,
+      ...(cooldowns && { cooldowns }),
+      ...outcome.extras,
     });
   } catch (error) {
-    console.error('Plant action error:', error);
+    const handled = await sendActionRejection(res, error, {
+      actionType,
+      insufficientMessage: definition?.insufficientMessage ?? ERROR_MESSAGES.INSUFFICIENT_RESOURCES,
+      ...(username && validatedSubreddit && { username, subredditName: validatedSubreddit }),
+    });
+    if (handled) {
+      return;
+    }
+
+    console.error(`Action ${actionType} error:`, error);
     res.status(500).json({
       success: false,
-      message: 'Failed to plant seed',
+      message: definition?.failureMessage ?? 'Failed to perform action',
     });
   }
+}
+
+router.post<{ type: string }>(
+  '/api/action/:type',
+  bindSubreddit('write'),
+  authorize('player'),
+  async (req, res): Promise<void> => {
+  await handleAction(req.params.type, req, res);
 });
 
-router.post('/api/feed', async (req, res): Promise<void> => {
-  try {
-    const { subredditName } = req.body;
-    const username = await reddit.getCurrentUsername();
+router.post('/api/plant', bindSubreddit('write'), authorize('player'), async (req, res): Promise<void> =>
+  handleAction('plant', req, res)
+);
+router.post('/api/feed', bindSubreddit('write'), authorize('player'), async (req, res): Promise<void> =>
+  handleAction('feed', req, res)
+);
+router.post('/api/charge', bindSubreddit('write'), authorize('player'), async (req, res): Promise<void> =>
+  handleAction('charge', req, res)
+);
+router.post('/api/post', bindSubreddit('write'), authorize('player'), async (req, res): Promise<void> =>
+  handleAction('post', req, res)
+);
 
-    if (!username) {
-      res.status(401).json({
-        success: false,
-        message: 'User authentication required',
+// Remaining cooldown per action for the current player
+router.get<{ subreddit: string }, CooldownsResponse | { status: string; message: string }>(
+  '/api/cooldowns/:subreddit',
+  bindSubreddit('read'),
+  authorize('player'),
+  async (_req, res): Promise<void> => {
+    try {
+      const { username } = getAuth(res, 'player');
+      const { subredditName } = getBoundSubreddit(res);
+      res.json({
+        subredditName,
+        cooldowns: await redisGameService.getActionCooldowns(username, subredditName),
       });
-      return;
-    }
-
-    // Validate subreddit context
-    const subredditValidation = subredditContextService.getValidatedSubredditContext(subredditName);
-    if (!subredditValidation.isValid) {
-      res.status(400).json({
-        success: false,
-        message: subredditValidation.error || 'Invalid subreddit name',
+    } catch (error) {
+      console.error('Cooldowns endpoint error:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to get cooldowns',
       });
-      return;
     }
+  }
+);
 
-    const validatedSubreddit = subredditValidation.subredditName!;
+// Paginated action log, newest first, filterable by action type and player
+router.get<{ subreddit: string }, ActionLogResponse | { status: string; message: string }>(
+  '/api/actions/:subreddit',
+  bindSubreddit('read'),
+  async (req, res): Promise<void> => {
+    try {
+      const { cursor, limit, type, username } = req.query;
+      const pageSize = limit === undefined ? GAME_CONFIG.ACTION_LOG.DEFAULT_PAGE_SIZE : Number(limit);
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > GAME_CONFIG.ACTION_LOG.MAX_PAGE_SIZE) {
+        res.status(400).json({
+          status: 'error',
+          message: `limit must be an integer between 1 and ${GAME_CONFIG.ACTION_LOG.MAX_PAGE_SIZE}`,
+        });
+        return;
+      }
+      if (type !== undefined && !ACTION_ORDER.includes(type as PlayerActionType)) {
+        res.status(400).json({
+          status: 'error',
+          message: ERROR_MESSAGES.INVALID_ACTION,
+        });
+        return;
+      }
 
-    // Check if player can afford the action
-    const canAfford = await playerResourceService.canAffordAction(username, validatedSubreddit, 'feed');
-    if (!canAfford) {
-      res.status(400).json({
-        success: false,
-        message: 'Insufficient cinnamon to feed spirit',
+      const { subredditName } = getBoundSubreddit(res);
+      const page = await actionLogService.queryActions(subredditName, {
+        limit: pageSize,
+        ...(typeof cursor === 'string' && cursor && { cursor }),
+        ...(typeof type === 'string' && { type: type as PlayerActionType }),
+        ...(typeof username === 'string' && username && { username }),
       });
-      return;
-    }
 
-    // Check action cooldown
-    const hasCooldown = await redisGameService.checkActionCooldown(username, validatedSubreddit);
-    if (hasCooldown) {
-      res.status(429).json({
-        success: false,
-        message: 'Action cooldown active, please wait',
+      res.json({ subredditName, ...page });
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          status: 'error',
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error('Action log endpoint error:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to get actions',
       });
-      return;
     }
+  }
+);
 
-    // Process the action transaction
-    const { resources, cost } = await playerResourceService.processActionTransaction(username, validatedSubreddit, 'feed');
-    
-    // Calculate growth contribution
-    const growthContribution = 2; // From GAME_CONFIG.GROWTH_MULTIPLIERS.SPIRITS_FED
-    
-    // Get current game state for milestone checking
-    const currentGameState = await redisGameService.getGameState(validatedSubreddit);
-    const previousTotalGrowth = currentGameState?.totalGrowth || 0;
-
-    // Record the action
-    await redisGameService.recordAction({
-      username,
-      subredditName: validatedSubreddit,
-      actionType: 'feed',
-      resourcesSpent: cost,
-      growthContributed: growthContribution,
-    });
+// Daily, weekly and all-time contribution leaderboards
+router.get<{ subreddit: string }, LeaderboardResponse | { status: string; message: string }>(
+  '/api/leaderboard/:subreddit',
+  bindSubreddit('read'),
+  async (req, res): Promise<void> => {
+    try {
+      const { window = 'alltime', limit, around } = req.query;
+      if (!LEADERBOARD_WINDOWS.includes(window as LeaderboardWindow)) {
+        res.status(400).json({
+          status: 'error',
+          message: `window must be one of ${LEADERBOARD_WINDOWS.join(', ')}`,
+        });
+        return;
+      }
 
-    // Set action cooldown
-    await redisGameService.setActionCooldown(username, validatedSubreddit, 60000); // 1 minute cooldown
+      const pageSize = limit === undefined ? GAME_CONFIG.LEADERBOARD.DEFAULT_LIMIT : Number(limit);
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > GAME_CONFIG.LEADERBOARD.MAX_LIMIT) {
+        res.status(400).json({
+          status: 'error',
+          message: `limit must be an integer between 1 and ${GAME_CONFIG.LEADERBOARD.MAX_LIMIT}`,
+        });
+        return;
+      }
 
-    // Get updated game state
-    const gameState = await redisGameService.getGameState(validatedSubreddit);
-    
-    // Check for milestones
-    let milestoneMessage = 'Spirit fed with cinnamon! 👻';
-    if (gameState) {
-      const milestones = await growthCalculationService.checkMilestones(validatedSubreddit, previousTotalGrowth, gameState.totalGrowth);
-      if (milestones.levelUp || milestones.milestoneReached) {
-        milestoneMessage += ` ${milestones.milestoneReached || 'Tree level up!'}`;
+      if (around !== undefined && around !== 'me') {
+        res.status(400).json({
+          status: 'error',
+          message: 'around must be "me"',
+        });
+        return;
       }
-    }
 
-    res.json({
-      success: true,
-      newGameState: gameState!,
-      newPlayerResources: resources,
-      message: milestoneMessage,
-    });
-  } catch (error) {
-    console.error('Feed action error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to feed spirit',
-    });
-  }
-});
+      const username = await reddit.getCurrentUsername();
+      if (around === 'me' && !username) {
+        res.status(401).json({
+          status: 'error',
+          message: 'User authentication required',
+        });
+        return;
+      }
 
-router.post('/api/charge', async (req, res): Promise<void> => {
-  try {
-    const { subredditName } = req.body;
-    const username = await reddit.getCurrentUsername();
+      const { subredditName } = getBoundSubreddit(res);
+      const page = await leaderboardService.getLeaderboard(subredditName, window as LeaderboardWindow, {
+        limit: pageSize,
+        ...(username && { username }),
+        ...(around === 'me' && username && { aroundUsername: username }),
+      });
 
-    if (!username) {
-      res.status(401).json({
-        success: false,
-        message: 'User authentication required',
+      res.json({ subredditName, ...page });
+    } catch (error) {
+      console.error('Leaderboard endpoint error:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to get leaderboard',
       });
-      return;
     }
+  }
+);
 
-    // Validate subreddit context
-    const subredditValidation = subredditContextService.getValidatedSubredditContext(subredditName);
-    if (!subredditValidation.isValid) {
-      res.status(400).json({
-        success: false,
-        message: subredditValidation.error || 'Invalid subreddit name',
-      });
-      return;
+// Effective action catalog (costs, resources, cooldowns, growth) for the client to render from
+router.get<Record<string, never>, CatalogResponse | { status: string; message: string }>(
+  '/api/catalog',
+  bindSubreddit('read'),
+  async (_req, res): Promise<void> => {
+    try {
+      const { subredditName } = getBoundSubreddit(res);
+      const overrides = await gardenBalanceService.getOverrides(subredditName);
+      res.json({ subredditName, catalog: actionEngine.getCatalog(overrides) });
+    } catch (error) {
+      console.error('Catalog fetch error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to get action catalog' });
     }
+  }
+);
 
-    const validatedSubreddit = subredditValidation.subredditName!;
+// Growth calculation endpoints
+router.post(
+  '/api/growth/calculate/:subreddit',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (_req, res): Promise<void> => {
+    try {
+      const { subredditName } = getAuth(res, 'moderator');
 
-    // Check if player can afford the action
-    const canAfford = await playerResourceService.canAffordAction(username, validatedSubreddit, 'charge');
-    if (!canAfford) {
-      res.status(400).json({
-        success: false,
-        message: 'Insufficient cinnamon to charge robot',
-      });
-      return;
-    }
+      // Process daily growth calculation
+      const dailyStats = await growthCalculationService.processDailyGrowth(subredditName);
+      
+      // Get updated game state
+      const gameState = await redisGameService.getGameState(subredditName);
 
-    // Check action cooldown
-    const hasCooldown = await redisGameService.checkActionCooldown(username, validatedSubreddit);
-    if (hasCooldown) {
-      res.status(429).json({
+      res.json({
+        success: true,
+        dailyStats,
+        gameState,
+        message: 'Growth calculated successfully',
+      });
+    } catch (error) {
+      console.error('Growth calculation error:', error);
+      res.status(500).json({
         success: false,
-        message: 'Action cooldown active, please wait',
+        message: 'Failed to calculate growth',
       });
-      return;
     }
+  }
+);
 
-    // Process the action transaction
-    const { resources, cost } = await playerResourceService.processActionTransaction(username, validatedSubreddit, 'charge');
-    
-    // Calculate growth contribution
-    const growthContribution = 3; // From GAME_CONFIG.GROWTH_MULTIPLIERS.ROBOT_CHARGED
-    
-    // Get current game state for milestone checking
-    const currentGameState = await redisGameService.getGameState(validatedSubreddit);
-    const previousTotalGrowth = currentGameState?.totalGrowth || 0;
-
-    // Record the action
-    await redisGameService.recordAction({
-      username,
-      subredditName: validatedSubreddit,
-      actionType: 'charge',
-      resourcesSpent: cost,
-      growthContributed: growthContribution,
-    });
-
-    // Set action cooldown
-    await redisGameService.setActionCooldown(username, validatedSubreddit, 60000); // 1 minute cooldown
+router.get('/api/growth/history/:subreddit', bindSubreddit('read'), async (req, res): Promise<void> => {
+  try {
+    const { subredditName: subreddit } = getBoundSubreddit(res);
+    const days = parseInt(req.query.days as string) || 7;
 
-    // Get updated game state
-    const gameState = await redisGameService.getGameState(validatedSubreddit);
+    // Get growth history
+    const history = await growthCalculationService.getGrowthHistory(subreddit, days);
     
-    // Check for milestones
-    let milestoneMessage = 'Robot charged and ready! 🤖';
-    if (gameState) {
-      const milestones = await growthCalculationService.checkMilestones(validatedSubreddit, previousTotalGrowth, gameState.totalGrowth);
-      if (milestones.levelUp || milestones.milestoneReached) {
-        milestoneMessage += ` ${milestones.milestoneReached || 'Tree level up!'}`;
-      }
-    }
+    // Get growth projection
+    const projection = await growthCalculationService.calculateGrowthProjection(subreddit);
 
     res.json({
       success: true,
-      newGameState: gameState!,
-      newPlayerResources: resources,
-      message: milestoneMessage,
+      history,
+      projection,
     });
   } catch (error) {
-    console.error('Charge action error:', error);
+    console.error('Growth history error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to charge robot',
+      message: 'Failed to get growth history',
     });
   }
 });
 
-router.post('/api/post', async (req, res): Promise<void> => {
-  try {
-    const { subredditName, postType = 'community_update', customMessage } = req.body;
-    const username = await reddit.getCurrentUsername();
-
-    if (!username) {
-      res.status(401).json({
-        success: false,
-        message: 'User authentication required',
-      });
-      return;
-    }
-
-    // Validate subreddit context
-    const subredditValidation = subredditContextService.getValidatedSubredditContext(subredditName);
-    if (!subredditValidation.isValid) {
-      res.status(400).json({
-        success: false,
-        message: subredditValidation.error || 'Invalid subreddit name',
-      });
-      return;
-    }
-
-    const validatedSubreddit = subredditValidation.subredditName!;
+// Chronicle generation endpoints
+router.post(
+  '/api/chronicle/generate/:subreddit',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const { subredditName: subreddit } = getAuth(res, 'moderator');
+      const { type = 'daily', milestone } = req.body;
+
+      let chronicle;
+      switch (type) {
+        case 'daily':
+          chronicle = await chronicleGenerationService.generateDailyChronicle(subreddit);
+          break;
+        case 'weekly':
+          chronicle = await chronicleGenerationService.generateWeeklyChronicle(subreddit);
+          break;
+        case 'milestone':
+          if (!milestone) {
+            res.status(400).json({
+              success: false,
+              message: 'Milestone parameter is required for milestone chronicles',
+            });
+            return;
+          }
+          chronicle = await chronicleGenerationService.generateMilestoneChronicle(subreddit, milestone);
+          break;
+        default:
+          res.status(400).json({
+            success: false,
+            message: 'Invalid chronicle type. Must be daily, weekly, or milestone',
+          });
+          return;
+      }
 
-    // Check action cooldown (post has longer cooldown)
-    const hasCooldown = await redisGameService.checkActionCooldown(username, validatedSubreddit);
-    if (hasCooldown) {
-      res.status(429).json({
-        success: false,
-        message: 'Action cooldown active, please wait',
+      res.json({
+        success: true,
+        chronicle,
       });
-      return;
-    }
-
-    // Validate posting permissions
-    const permissionCheck = await redditPostingService.validatePostPermissions(validatedSubreddit);
-    if (!permissionCheck.canPost) {
-      res.status(403).json({
+    } catch (error) {
+      console.error('Chronicle generation error:', error);
+      res.status(500).json({
         success: false,
-        message: permissionCheck.reason || 'Cannot post to subreddit',
+        message: 'Failed to generate chronicle',
       });
-      return;
     }
+  }
+);
 
-    // Get current game state for post content
-    const gameState = await redisGameService.getGameState(validatedSubreddit);
-    if (!gameState) {
-      res.status(404).json({
-        success: false,
-        message: 'Game state not found for subreddit',
-      });
-      return;
-    }
+router.post(
+  '/api/chronicle/schedule/:subreddit',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const { subredditName: subreddit } = getAuth(res, 'moderator');
+      const { scheduleType, startTime } = req.body;
 
-    // Process the action transaction (post is free)
-    const { resources, cost } = await playerResourceService.processActionTransaction(username, validatedSubreddit, 'post');
-    
-    // Post action doesn't contribute to growth directly
-    const growthContribution = 0;
-
-    // Create the Reddit post based on type
-    let postResult;
-    try {
-      if (postType === 'daily_summary') {
-        // Get daily stats for summary
-        const dailyStats = await growthCalculationService.getDailyStats(validatedSubreddit);
-        const postData = redditPostingService.formatDailySummary(gameState, dailyStats);
-        postResult = await redditPostingService.postCommunityUpdate(postData);
-      } else if (postType === 'milestone' && customMessage) {
-        const postData = redditPostingService.formatMilestonePost(gameState, customMessage);
-        postResult = await redditPostingService.postCommunityUpdate(postData);
-      } else {
-        // Default community update
-        const message = customMessage || `Our community garden is thriving! Come join us in growing our Spirit Tree together. 🌳✨`;
-        const postData = redditPostingService.formatCommunityUpdate(gameState, message);
-        postResult = await redditPostingService.postCommunityUpdate(postData);
-      }
-
-      if (!postResult.success) {
-        res.status(500).json({
+      if (!['daily', 'weekly'].includes(scheduleType)) {
+        res.status(400).json({
           success: false,
-          message: `Failed to post to Reddit: ${postResult.error}`,
+          message: 'Schedule type must be daily or weekly',
         });
         return;
       }
-    } catch (postError) {
-      console.error('Reddit posting failed:', postError);
+
+      const parsedStartTime = startTime ? new Date(startTime) : undefined;
+      
+      await chronicleGenerationService.setupChronicleSchedule(
+        subreddit,
+        scheduleType,
+        parsedStartTime
+      );
+
+      res.json({
+        success: true,
+        message: `Chronicle schedule set up for ${scheduleType} posting`,
+      });
+    } catch (error) {
+      console.error('Chronicle schedule setup error:', error);
       res.status(500).json({
         success: false,
-        message: 'Failed to create Reddit post',
+        message: 'Failed to set up chronicle schedule',
       });
-      return;
     }
-    
-    // Record the action
-    await redisGameService.recordAction({
-      username,
-      subredditName: validatedSubreddit,
-      actionType: 'post',
-      resourcesSpent: cost,
-      growthContributed: growthContribution,
-    });
+  }
+);
 
-    // Set longer cooldown for posting (5 minutes)
-    await redisGameService.setActionCooldown(username, validatedSubreddit, 300000);
+router.post(
+  '/api/chronicle/process/:subreddit',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (_req, res): Promise<void> => {
+    try {
+      const { subredditName } = getAuth(res, 'moderator');
 
-    // Get updated game state
-    const updatedGameState = await redisGameService.getGameState(validatedSubreddit);
+      await chronicleScheduler.triggerForSubreddit(subredditName);
 
+      res.json({
+        success: true,
+        message: 'Scheduled chronicles processed',
+      });
+    } catch (error) {
+      console.error('Chronicle processing error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to process scheduled chronicles',
+      });
+    }
+  }
+);
+
+router.get('/api/chronicle/scheduler/status', authorize('internal'), async (_req, res): Promise<void> => {
+  try {
+    const status = await chronicleScheduler.getStatus();
     res.json({
       success: true,
-      newGameState: updatedGameState!,
-      newPlayerResources: resources,
-      message: 'Community update posted to Reddit! 📝',
-      postUrl: postResult.postUrl,
-      postId: postResult.postId,
+      status,
     });
   } catch (error) {
-    console.error('Post action error:', error);
+    console.error('Chronicle scheduler status error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to post update',
+      message: 'Failed to get scheduler status',
     });
   }
 });
 
-// Growth calculation endpoints
-router.post('/api/growth/calculate/:subreddit', async (req, res): Promise<void> => {
+router.post('/api/chronicle/scheduler/start', authorize('internal'), async (_req, res): Promise<void> => {
   try {
-    const { subreddit } = req.params;
-    
-    if (!subreddit) {
-      res.status(400).json({
-        success: false,
-        message: 'Subreddit parameter is required',
-      });
-      return;
-    }
-
-    // Process daily growth calculation
-    const dailyStats = await growthCalculationService.processDailyGrowth(subreddit);
-    
-    // Get updated game state
-    const gameState = await redisGameService.getGameState(subreddit);
-
+    const status = await chronicleScheduler.start();
     res.json({
       success: true,
-      dailyStats,
-      gameState,
-      message: 'Growth calculated successfully',
+      message: 'Chronicle scheduler started',
+      status,
     });
   } catch (error) {
-    console.error('Growth calculation error:', error);
+    console.error('Chronicle scheduler start error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to calculate growth',
+      message: 'Failed to start scheduler',
     });
   }
 });
 
-router.get('/api/growth/history/:subreddit', async (req, res): Promise<void> => {
+router.post('/api/chronicle/scheduler/stop', authorize('internal'), async (_req, res): Promise<void> => {
   try {
-    const { subreddit } = req.params;
-    const days = parseInt(req.query.days as string) || 7;
-    
-    if (!subreddit) {
-      res.status(400).json({
-        success: false,
-        message: 'Subreddit parameter is required',
-      });
-      return;
-    }
-
-    // Get growth history
-    const history = await growthCalculationService.getGrowthHistory(subreddit, days);
-    
-    // Get growth projection
-    const projection = await growthCalculationService.calculateGrowthProjection(subreddit);
-
+    const status = await chronicleScheduler.stop();
     res.json({
       success: true,
-      history,
-      projection,
+      message: 'Chronicle scheduler stopped',
+      status,
     });
   } catch (error) {
-    console.error('Growth history error:', error);
+    console.error('Chronicle scheduler stop error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to get growth history',
+      message: 'Failed to stop scheduler',
     });
   }
 });
 
-// Chronicle generation endpoints
-router.post('/api/chronicle/generate/:subreddit', async (req, res): Promise<void> => {
-  try {
-    const { subreddit } = req.params;
-    const { type = 'daily', milestone } = req.body;
-    
-    if (!subreddit) {
+// Garden registry admin endpoints (moderators only, scoped to the garden they moderate)
+const GARDEN_STATUSES: readonly GardenStatus[] = ['active', 'inactive'];
+
+router.get<Record<string, never>, GardenListResponse | { status: string; message: string }>(
+  '/api/admin/gardens',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    const status = req.query.status as string | undefined;
+    if (status !== undefined && !GARDEN_STATUSES.includes(status as GardenStatus)) {
       res.status(400).json({
-        success: false,
-        message: 'Subreddit parameter is required',
+        status: 'error',
+        message: `status must be one of: ${GARDEN_STATUSES.join(', ')}`,
       });
       return;
     }
 
-    let chronicle;
-    switch (type) {
-      case 'daily':
-        chronicle = await chronicleGenerationService.generateDailyChronicle(subreddit);
-        break;
-      case 'weekly':
-        chronicle = await chronicleGenerationService.generateWeeklyChronicle(subreddit);
-        break;
-      case 'milestone':
-        if (!milestone) {
-          res.status(400).json({
-            success: false,
-            message: 'Milestone parameter is required for milestone chronicles',
-          });
-          return;
-        }
-        chronicle = await chronicleGenerationService.generateMilestoneChronicle(subreddit, milestone);
-        break;
-      default:
-        res.status(400).json({
-          success: false,
-          message: 'Invalid chronicle type. Must be daily, weekly, or milestone',
-        });
+    try {
+      const { subredditName } = getAuth(res, 'moderator');
+      const garden = await gardenRegistryService.getGarden(subredditName);
+      const gardens = garden && (!status || garden.status === status) ? [garden] : [];
+      res.json({ gardens, total: gardens.length });
+    } catch (error) {
+      console.error('Garden list error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list gardens' });
+    }
+  }
+);
+
+// Start a garden's tree over (moderators only; body: { reason })
+router.post<{ subreddit: string }, { gameState: GameState } | ErrorBody>(
+  '/api/admin/gardens/:subreddit/reset',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const gameState = await gardenAdminService.resetGarden(target.subredditName, target.username, req.body?.reason);
+      if (!gameState) {
+        res.status(404).json({ status: 'error', message: ERROR_MESSAGES.SUBREDDIT_NOT_FOUND });
         return;
+      }
+
+      console.log(`Garden ${target.subredditName} reset by u/${target.username}`);
+      res.json({ gameState });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error('Garden reset error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to reset garden' });
     }
+  }
+);
 
-    res.json({
-      success: true,
-      chronicle,
-    });
-  } catch (error) {
-    console.error('Chronicle generation error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to generate chronicle',
-    });
+// Recompute a garden's growth and tree level with its current balance (moderators only; body: { reason })
+router.post<{ subreddit: string }, { rebuild: GardenGrowthRebuild } | ErrorBody>(
+  '/api/admin/gardens/:subreddit/rebuild',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const rebuild = await gardenAdminService.rebuildGarden(target.subredditName, target.username, req.body?.reason);
+      if (!rebuild) {
+        res.status(404).json({ status: 'error', message: ERROR_MESSAGES.SUBREDDIT_NOT_FOUND });
+        return;
+      }
+
+      console.log(
+        `Garden ${target.subredditName} rebuilt by u/${target.username}: ` +
+          `${rebuild.previousTotalGrowth} -> ${rebuild.totalGrowth} growth`
+      );
+      res.json({ rebuild });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error('Garden rebuild error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to rebuild garden' });
+    }
   }
-});
+);
 
-router.post('/api/chronicle/schedule/:subreddit', async (req, res): Promise<void> => {
-  try {
-    const { subreddit } = req.params;
-    const { scheduleType, startTime } = req.body;
-    
-    if (!subreddit) {
-      res.status(400).json({
-        success: false,
-        message: 'Subreddit parameter is required',
-      });
+router.post<{ subreddit: string; operation: string }, GardenResponse | { status: string; message: string }>(
+  '/api/admin/gardens/:subreddit/:operation',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    const { operation } = req.params;
+
+    if (operation !== 'deactivate' && operation !== 'activate') {
+      res.status(404).json({ status: 'error', message: `Unknown garden operation: ${operation}` });
       return;
     }
 
-    if (!['daily', 'weekly'].includes(scheduleType)) {
-      res.status(400).json({
-        success: false,
-        message: 'Schedule type must be daily or weekly',
+    const { subredditName: validatedSubreddit, username: moderator } = getAuth(res, 'moderator');
+
+    try {
+      const garden =
+        operation === 'deactivate'
+          ? await gardenRegistryService.deactivate(validatedSubreddit, moderator)
+          : await gardenRegistryService.activate(validatedSubreddit);
+
+      if (!garden) {
+        res.status(404).json({ status: 'error', message: ERROR_MESSAGES.GARDEN_NOT_FOUND });
+        return;
+      }
+
+      const reason = optionalReason(req.body?.reason);
+      await adminAuditService.record({
+        subredditName: validatedSubreddit,
+        action: operation === 'deactivate' ? 'garden.deactivate' : 'garden.activate',
+        moderator,
+        ...(reason && { reason }),
+        details: {},
       });
-      return;
+      console.log(`Garden ${validatedSubreddit} ${operation}d by u/${moderator}`);
+      res.json({ garden });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error(`Garden ${operation} error for ${validatedSubreddit}:`, error);
+      res.status(500).json({ status: 'error', message: `Failed to ${operation} garden` });
     }
+  }
+);
 
-    const parsedStartTime = startTime ? new Date(startTime) : undefined;
-    
-    await chronicleGenerationService.setupChronicleSchedule(
-      subreddit,
-      scheduleType,
-      parsedStartTime
-    );
+// When a garden's day rolls over: its timezone and cutoff hour (moderators only)
+router.put<{ subreddit: string }, GardenResponse | { status: string; message: string }>(
+  '/api/admin/gardens/:subreddit/day',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
 
-    res.json({
-      success: true,
-      message: `Chronicle schedule set up for ${scheduleType} posting`,
-    });
-  } catch (error) {
-    console.error('Chronicle schedule setup error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to set up chronicle schedule',
-    });
+      const garden = await gardenRegistryService.setDaySettings(target.subredditName, req.body);
+      if (!garden) {
+        res.status(404).json({ status: 'error', message: ERROR_MESSAGES.GARDEN_NOT_FOUND });
+        return;
+      }
+
+      await chronicleGenerationService.rescheduleChronicles(target.subredditName);
+      await adminAuditService.record({
+        subredditName: target.subredditName,
+        action: 'garden.day',
+        moderator: target.username,
+        details: { ...garden.day },
+      });
+      console.log(
+        `Garden day for ${target.subredditName} set to ${garden.day.cutoffHour}:00 ${garden.day.timezone} by u/${target.username}`
+      );
+      res.json({ garden });
+    } catch (error) {
+      if (error instanceof InvalidGardenDayError) {
+        res.status(400).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Garden day settings error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to save garden day settings' });
+    }
   }
-});
+);
 
-router.post('/api/chronicle/process/:subreddit', async (req, res): Promise<void> => {
-  try {
-    const { subreddit } = req.params;
-    
-    if (!subreddit) {
-      res.status(400).json({
-        success: false,
-        message: 'Subreddit parameter is required',
+// A garden's game balance: costs, growth, tree levels, rewards and limits (moderators only)
+router.get<{ subreddit: string }, GardenBalanceResponse | ErrorBody>(
+  '/api/admin/gardens/:subreddit/balance',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (_req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      res.json(await gardenBalanceService.getSettings(target.subredditName));
+    } catch (error) {
+      console.error('Garden balance fetch error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to get garden balance' });
+    }
+  }
+);
+
+// Replaces the garden's overrides; settings left out go back to their defaults
+router.put<{ subreddit: string }, GardenBalanceResponse | ErrorBody>(
+  '/api/admin/gardens/:subreddit/balance',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const settings = await gardenBalanceService.setOverrides(target.subredditName, req.body, target.username);
+      await adminAuditService.record({
+        subredditName: target.subredditName,
+        action: 'garden.balance',
+        moderator: target.username,
+        details: { overrides: settings.overrides },
+      });
+      console.log(`Game balance for ${target.subredditName} updated by u/${target.username}`);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof InvalidBalanceConfigError) {
+        res.status(400).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Garden balance save error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to save garden balance' });
+    }
+  }
+);
+
+router.delete<{ subreddit: string }, GardenBalanceResponse | ErrorBody>(
+  '/api/admin/gardens/:subreddit/balance',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (_req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const settings = await gardenBalanceService.reset(target.subredditName);
+      await adminAuditService.record({
+        subredditName: target.subredditName,
+        action: 'garden.balance.reset',
+        moderator: target.username,
+        details: {},
+      });
+      console.log(`Game balance for ${target.subredditName} reset to defaults by u/${target.username}`);
+      res.json(settings);
+    } catch (error) {
+      console.error('Garden balance reset error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to reset garden balance' });
+    }
+  }
+);
+
+// Pause every game action in a garden, e.g. during an event (moderators only)
+router.get<{ subreddit: string }, GardenPauseResponse | ErrorBody>(
+  '/api/admin/gardens/:subreddit/pause',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (_req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const pause = await gardenModerationService.getPause(target.subredditName);
+      res.json({ subredditName: target.subredditName, pause });
+    } catch (error) {
+      console.error('Garden pause fetch error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to get garden pause' });
+    }
+  }
+);
+
+// Body: { reason, durationMinutes? }; without a duration the pause lasts until resumed
+router.put<{ subreddit: string }, GardenPauseResponse | ErrorBody>(
+  '/api/admin/gardens/:subreddit/pause',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const pause = await gardenModerationService.pauseGarden(
+        target.subredditName,
+        target.username,
+        req.body?.reason,
+        req.body?.durationMinutes
+      );
+      console.log(`Garden ${target.subredditName} paused by u/${target.username}`);
+      res.json({ subredditName: target.subredditName, pause });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error('Garden pause error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to pause garden' });
+    }
+  }
+);
+
+router.delete<{ subreddit: string }, GardenPauseResponse | ErrorBody>(
+  '/api/admin/gardens/:subreddit/pause',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const resumed = await gardenModerationService.resumeGarden(
+        target.subredditName,
+        target.username,
+        req.body?.reason
+      );
+      if (!resumed) {
+        res.status(404).json({ status: 'error', message: 'Garden is not paused' });
+        return;
+      }
+
+      console.log(`Garden ${target.subredditName} resumed by u/${target.username}`);
+      res.json({ subredditName: target.subredditName, pause: null });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error('Garden resume error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to resume garden' });
+    }
+  }
+);
+
+// Players banned from game actions in a garden (moderators only)
+router.get<{ subreddit: string }, PlayerBanListResponse | ErrorBody>(
+  '/api/admin/gardens/:subreddit/bans',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (_req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const bans = await gardenModerationService.listBans(target.subredditName);
+      res.json({ subredditName: target.subredditName, bans });
+    } catch (error) {
+      console.error('Player ban list error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list bans' });
+    }
+  }
+);
+
+// Body: { reason, durationMinutes? }; without a duration the ban lasts until lifted
+router.put<{ subreddit: string; username: string }, { ban: PlayerBan } | ErrorBody>(
+  '/api/admin/gardens/:subreddit/players/:username/ban',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const ban = await gardenModerationService.banPlayer(
+        target.subredditName,
+        req.params.username,
+        target.username,
+        req.body?.reason,
+        req.body?.durationMinutes
+      );
+      console.log(`u/${ban.username} banned in ${target.subredditName} by u/${target.username}`);
+      res.json({ ban });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error('Player ban error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to ban player' });
+    }
+  }
+);
+
+router.delete<{ subreddit: string; username: string }, { unbanned: true } | ErrorBody>(
+  '/api/admin/gardens/:subreddit/players/:username/ban',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const unbanned = await gardenModerationService.unbanPlayer(
+        target.subredditName,
+        req.params.username,
+        target.username,
+        req.body?.reason
+      );
+      if (!unbanned) {
+        res.status(404).json({ status: 'error', message: 'Player is not banned' });
+        return;
+      }
+
+      console.log(`u/${req.params.username} unbanned in ${target.subredditName} by u/${target.username}`);
+      res.json({ unbanned: true });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error('Player unban error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to unban player' });
+    }
+  }
+);
+
+// Body: { deltas: { cinnamon?, seeds?, energy? }, reason }; negative deltas take resources away
+router.post<{ subreddit: string; username: string }, { resources: PlayerResources } | ErrorBody>(
+  '/api/admin/gardens/:subreddit/players/:username/resources',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const resources = await gardenAdminService.adjustResources(
+        target.subredditName,
+        req.params.username,
+        req.body?.deltas,
+        target.username,
+        req.body?.reason
+      );
+      if (!resources) {
+        res.status(404).json({ status: 'error', message: 'Player not found' });
+        return;
+      }
+
+      console.log(`Resources of u/${resources.username} adjusted in ${target.subredditName} by u/${target.username}`);
+      res.json({ resources });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error('Player resource adjustment error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to adjust player resources' });
+    }
+  }
+);
+
+// Take a player's logged actions back out of the garden (moderators only; body: { reason })
+router.post<{ subreddit: string; username: string }, { purge: PlayerPurgeResult } | ErrorBody>(
+  '/api/admin/gardens/:subreddit/players/:username/purge',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const purge = await gardenAdminService.purgeContributions(
+        target.subredditName,
+        req.params.username,
+        target.username,
+        req.body?.reason
+      );
+      if (!purge) {
+        res.status(404).json({ status: 'error', message: 'Player not found' });
+        return;
+      }
+
+      console.log(
+        `Purged ${purge.actionsRemoved} actions of u/${purge.username} in ${target.subredditName} by u/${target.username}`
+      );
+      res.json({ purge });
+    } catch (error) {
+      if (sendAdminRequestError(res, error)) return;
+      console.error('Player purge error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to purge player contributions' });
+    }
+  }
+);
+
+// The garden's admin audit log, newest first (moderators only)
+// Query: ?limit=&cursor=&action=&moderator=&target=
+router.get<{ subreddit: string }, AdminAuditResponse | ErrorBody>(
+  '/api/admin/gardens/:subreddit/audit',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const target = getAuth(res, 'moderator');
+
+      const { cursor, limit, action, moderator, target: player } = req.query;
+      const { AUDIT_DEFAULT_PAGE_SIZE, AUDIT_MAX_PAGE_SIZE } = GAME_CONFIG.ADMIN;
+      const pageSize = limit === undefined ? AUDIT_DEFAULT_PAGE_SIZE : Number(limit);
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > AUDIT_MAX_PAGE_SIZE) {
+        res.status(400).json({
+          status: 'error',
+          message: `limit must be an integer between 1 and ${AUDIT_MAX_PAGE_SIZE}`,
+        });
+        return;
+      }
+
+      const page = await adminAuditService.getEntries(target.subredditName, {
+        limit: pageSize,
+        ...(typeof cursor === 'string' && cursor && { cursor }),
+        ...(typeof action === 'string' && action && { action: action as AdminAuditAction }),
+        ...(typeof moderator === 'string' && moderator && { moderator }),
+        ...(typeof player === 'string' && player && { target: player }),
+      });
+      res.json({ subredditName: target.subredditName, ...page });
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Admin audit log error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to get audit log' });
+    }
+  }
+);
+
+// Archive of a garden's chronicle posts, newest first
+router.get<{ subreddit: string }, ChronicleHistoryResponse | { status: string; message: string }>(
+  '/api/chronicle/history/:subreddit',
+  bindSubreddit('read'),
+  async (req, res): Promise<void> => {
+    try {
+      const { cursor, limit } = req.query;
+      const { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } = GAME_CONFIG.CHRONICLE_HISTORY;
+      const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        res.status(400).json({
+          status: 'error',
+          message: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+        });
+        return;
+      }
+
+      const { subredditName } = getBoundSubreddit(res);
+      const page = await chronicleHistoryService.getHistory(subredditName, {
+        limit: pageSize,
+        ...(typeof cursor === 'string' && cursor && { cursor }),
+      });
+
+      res.json({ subredditName, ...page });
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          status: 'error',
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error('Chronicle history error:', error);
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to get chronicle history',
+      });
+    }
+  }
+);
+
+// Chronicle template endpoints (moderators only)
+type ErrorBody = { status: string; message: string };
+
+router.get<{ subreddit: string }, ChronicleTemplateListResponse | ErrorBody>(
+  '/api/chronicle/templates/:subreddit',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (_req, res): Promise<void> => {
+    try {
+      const garden = getAuth(res, 'moderator');
+
+      const templates = await chronicleGenerationService.listTemplates(garden.subredditName);
+      res.json({
+        subredditName: garden.subredditName,
+        templates,
+        variables: CHRONICLE_TEMPLATE_VARIABLES,
+        helpers: CHRONICLE_TEMPLATE_HELPERS,
       });
+    } catch (error) {
+      console.error('Chronicle template list error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to list chronicle templates' });
+    }
+  }
+);
+
+router.post<{ subreddit: string }, ChronicleTemplatePreviewResponse | ErrorBody>(
+  '/api/chronicle/templates/:subreddit/preview',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    const { templateId, draft } = req.body ?? {};
+    if (typeof templateId !== 'string' && (typeof draft !== 'object' || draft === null)) {
+      res.status(400).json({ status: 'error', message: 'Either templateId or draft is required' });
       return;
     }
 
-    await chronicleScheduler.triggerForSubreddit(subreddit);
+    try {
+      const garden = getAuth(res, 'moderator');
+
+      const preview = await chronicleGenerationService.previewTemplate(
+        garden.subredditName,
+        typeof templateId === 'string' ? { templateId } : { draft }
+      );
+      if (!preview) {
+        res.status(404).json({ status: 'error', message: 'Game state not found for subreddit' });
+        return;
+      }
 
-    res.json({
-      success: true,
-      message: 'Scheduled chronicles processed',
-    });
-  } catch (error) {
-    console.error('Chronicle processing error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to process scheduled chronicles',
-    });
+      res.json({ subredditName: garden.subredditName, ...preview });
+    } catch (error) {
+      if (sendTemplateValidationError(res, error)) return;
+      console.error('Chronicle template preview error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to preview chronicle template' });
+    }
   }
-});
+);
 
-router.get('/api/chronicle/scheduler/status', async (_req, res): Promise<void> => {
-  try {
-    const status = chronicleScheduler.getStatus();
-    res.json({
-      success: true,
-      status,
-    });
-  } catch (error) {
-    console.error('Chronicle scheduler status error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to get scheduler status',
-    });
+router.get<{ subreddit: string; id: string }, { template: ChronicleTemplateInfo } | ErrorBody>(
+  '/api/chronicle/templates/:subreddit/:id',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const garden = getAuth(res, 'moderator');
+
+      const template = await chronicleGenerationService.getTemplate(garden.subredditName, req.params.id);
+      if (!template) {
+        res.status(404).json({ status: 'error', message: `Unknown chronicle template: ${req.params.id}` });
+        return;
+      }
+
+      res.json({ template });
+    } catch (error) {
+      console.error('Chronicle template fetch error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to get chronicle template' });
+    }
   }
-});
+);
 
-router.post('/api/chronicle/scheduler/start', async (_req, res): Promise<void> => {
-  try {
-    chronicleScheduler.start();
-    res.json({
-      success: true,
-      message: 'Chronicle scheduler started',
-    });
-  } catch (error) {
-    console.error('Chronicle scheduler start error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to start scheduler',
-    });
+router.put<{ subreddit: string; id: string }, { template: ChronicleTemplateInfo } | ErrorBody>(
+  '/api/chronicle/templates/:subreddit/:id',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const garden = getAuth(res, 'moderator');
+
+      const { name, type, titleTemplate, contentTemplate, active } = req.body ?? {};
+      const template = await chronicleGenerationService.saveTemplate(
+        garden.subredditName,
+        req.params.id,
+        { name, type, titleTemplate, contentTemplate, active: active === true },
+        garden.username
+      );
+
+      console.log(`Chronicle template ${req.params.id} in ${garden.subredditName} saved by u/${garden.username}`);
+      res.json({ template });
+    } catch (error) {
+      if (sendTemplateValidationError(res, error)) return;
+      console.error('Chronicle template save error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to save chronicle template' });
+    }
   }
-});
+);
 
-router.post('/api/chronicle/scheduler/stop', async (_req, res): Promise<void> => {
-  try {
-    chronicleScheduler.stop();
-    res.json({
-      success: true,
-      message: 'Chronicle scheduler stopped',
-    });
-  } catch (error) {
-    console.error('Chronicle scheduler stop error:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to stop scheduler',
-    });
+router.delete<{ subreddit: string; id: string }, { deleted: true } | ErrorBody>(
+  '/api/chronicle/templates/:subreddit/:id',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const garden = getAuth(res, 'moderator');
+
+      const deleted = await chronicleGenerationService.deleteTemplate(
+        garden.subredditName,
+        req.params.id,
+        garden.username
+      );
+      if (!deleted) {
+        res.status(404).json({ status: 'error', message: `No custom chronicle template: ${req.params.id}` });
+        return;
+      }
+
+      console.log(`Chronicle template ${req.params.id} in ${garden.subredditName} deleted by u/${garden.username}`);
+      res.json({ deleted: true });
+    } catch (error) {
+      console.error('Chronicle template delete error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to delete chronicle template' });
+    }
   }
-});
+);
+
+router.get<{ subreddit: string; id: string }, ChronicleTemplateHistoryResponse | ErrorBody>(
+  '/api/chronicle/templates/:subreddit/:id/history',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const garden = getAuth(res, 'moderator');
+
+      const versions = await chronicleTemplateService.getHistory(garden.subredditName, req.params.id);
+      res.json({ subredditName: garden.subredditName, templateId: req.params.id, versions });
+    } catch (error) {
+      console.error('Chronicle template history error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to get chronicle template history' });
+    }
+  }
+);
+
+router.post<{ subreddit: string; id: string }, { template: ChronicleTemplateInfo } | ErrorBody>(
+  '/api/chronicle/templates/:subreddit/:id/rollback',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    const version = req.body?.version;
+    if (!Number.isInteger(version) || version < 1) {
+      res.status(400).json({ status: 'error', message: 'version must be a positive integer' });
+      return;
+    }
+
+    try {
+      const garden = getAuth(res, 'moderator');
+
+      const template = await chronicleGenerationService.rollbackTemplate(
+        garden.subredditName,
+        req.params.id,
+        version,
+        garden.username
+      );
+      if (!template) {
+        res.status(404).json({ status: 'error', message: `Version ${version} of ${req.params.id} not found` });
+        return;
+      }
+
+      console.log(
+        `Chronicle template ${req.params.id} in ${garden.subredditName} rolled back to v${version} by u/${garden.username}`
+      );
+      res.json({ template });
+    } catch (error) {
+      if (sendTemplateValidationError(res, error)) return;
+      console.error('Chronicle template rollback error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to roll back chronicle template' });
+    }
+  }
+);
+
+// Which milestones post a chronicle automatically (moderators only)
+router.get<{ subreddit: string }, MilestoneConfigResponse | ErrorBody>(
+  '/api/chronicle/milestones/:subreddit/config',
+  bindSubreddit('read'),
+  authorize('moderator'),
+  async (_req, res): Promise<void> => {
+    try {
+      const garden = getAuth(res, 'moderator');
 
-// State synchronization endpoint with efficient diffing and cache validation
-router.get('/api/state/:subreddit', async (req, res): Promise<void> => {
+      const config = await milestoneChronicleService.getConfig(garden.subredditName);
+      res.json({
+        subredditName: garden.subredditName,
+        config,
+        available: { levels: [...MILESTONE_LEVELS], growthThresholds: [...MILESTONE_GROWTH_THRESHOLDS] },
+      });
+    } catch (error) {
+      console.error('Milestone config fetch error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to get milestone configuration' });
+    }
+  }
+);
+
+router.put<{ subreddit: string }, MilestoneConfigResponse | ErrorBody>(
+  '/api/chronicle/milestones/:subreddit/config',
+  bindSubreddit('write'),
+  authorize('moderator'),
+  async (req, res): Promise<void> => {
+    try {
+      const garden = getAuth(res, 'moderator');
+
+      const config = await milestoneChronicleService.setConfig(garden.subredditName, req.body);
+      console.log(`Milestone chronicle config for ${garden.subredditName} updated by u/${garden.username}`);
+      res.json({
+        subredditName: garden.subredditName,
+        config,
+        available: { levels: [...MILESTONE_LEVELS], growthThresholds: [...MILESTONE_GROWTH_THRESHOLDS] },
+      });
+    } catch (error) {
+      if (error instanceof InvalidMilestoneConfigError) {
+        res.status(400).json({ status: 'error', message: error.message });
+        return;
+      }
+      console.error('Milestone config save error:', error);
+      res.status(500).json({ status: 'error', message: 'Failed to save milestone configuration' });
+    }
+  }
+);
+
+// State synchronization endpoint with version-based diffs and cache validation
+router.get('/api/state/:subreddit', bindSubreddit('read'), async (req, res): Promise<void> => {
   try {
-    const { subreddit } = req.params;
     const clientLastModified = req.headers['if-modified-since'];
     const clientETag = req.headers['if-none-match'];
-    
-    // Validate subreddit context
-    const subredditValidation = subredditContextService.getValidatedSubredditContext(subreddit);
-    if (!subredditValidation.isValid) {
+    const validatedSubreddit = getBoundSubreddit(res).subredditName;
+
+    const { sinceVersion: sinceVersionParam } = req.query;
+    const sinceVersion = sinceVersionParam === undefined ? undefined : Number(sinceVersionParam);
+    if (sinceVersion !== undefined && (!Number.isInteger(sinceVersion) || sinceVersion < 0)) {
       res.status(400).json({
         success: false,
-        message: subredditValidation.error || 'Invalid subreddit name',
+        message: 'sinceVersion must be a non-negative integer',
       });
       return;
     }
 
-    const validatedSubreddit = subredditValidation.subredditName!;
-
     // Get current game state
     const gameState = await redisGameService.getGameState(validatedSubreddit);
     if (!gameState) {
@@ -883,15 +1460,15 @@ router.get('/api/state/:subreddit', async (req, res): Promise<void> => {
       return;
     }
 
-    // Generate ETag based on game state content
-    const stateHash = generateStateHash(gameState);
+    // The version identifies the state; createdAt tells a reset garden's versions apart
+    const stateETag = `"${gameState.createdAt.getTime().toString(36)}.${gameState.version}"`;
     const lastModified = gameState.updatedAt.toISOString();
 
     // Check if client has the latest version using cache validation
-    const clientHasLatest = (
-      (clientLastModified && new Date(clientLastModified) >= gameState.updatedAt) ||
-      (clientETag && clientETag === stateHash)
-    );
+    const clientHasLatest = clientETag
+      ? clientETag === stateETag
+      : sinceVersion === gameState.version ||
+        (clientLastModified !== undefined && new Date(clientLastModified) >= gameState.updatedAt);
 
     if (clientHasLatest) {
       // Client has the latest version, return 304 Not Modified
@@ -899,34 +1476,46 @@ router.get('/api/state/:subreddit', async (req, res): Promise<void> => {
       return;
     }
 
-    // Get additional state information
-    const [activePlayerCount, recentActions] = await Promise.all([
+    const [activePlayerCount, changesSince] = await Promise.all([
       redisGameService.getActivePlayerCount(validatedSubreddit),
-      redisGameService.getRecentActions(validatedSubreddit, 5) // Last 5 actions for context
+      sinceVersion === undefined
+        ? null
+        : stateChangeLogService.getChangesSince(validatedSubreddit, sinceVersion, gameState.version),
     ]);
 
     // Set cache headers for efficient caching
     res.set({
       'Last-Modified': lastModified,
-      'ETag': stateHash,
+      'ETag': stateETag,
       'Cache-Control': 'private, max-age=0, must-revalidate',
     });
 
-    // Create state diff if client provided previous state info
-    let stateDiff = null;
-    if (req.query.includeDiff === 'true' && req.query.previousHash) {
-      stateDiff = generateStateDiff(gameState, req.query.previousHash as string);
-    }
-
-    res.json({
-      gameState,
+    const base = {
+      version: gameState.version,
       lastModified: gameState.updatedAt,
       activePlayerCount,
-      recentActions,
-      stateHash,
-      stateDiff,
       serverTime: new Date().toISOString(),
-    });
+    };
+
+    if (sinceVersion !== undefined && changesSince) {
+      const response: StateDiffResponse = {
+        ...base,
+        type: 'incremental',
+        fromVersion: sinceVersion,
+        ...changesSince,
+      };
+      res.json(response);
+      return;
+    }
+
+    // No version to diff from, or the client is too far behind the change log
+    const response: StateSnapshotResponse = {
+      ...base,
+      type: 'full',
+      gameState,
+      recentActions: await redisGameService.getRecentActions(validatedSubreddit, 5),
+    };
+    res.json(response);
   } catch (error) {
     console.error('State sync error:', error);
     res.status(500).json({
@@ -936,44 +1525,93 @@ router.get('/api/state/:subreddit', async (req, res): Promise<void> => {
   }
 });
 
-// Helper function to generate state hash for ETag
-function generateStateHash(gameState: GameState): string {
-  const stateString = JSON.stringify({
-    treeLevel: gameState.treeLevel,
-    totalGrowth: gameState.totalGrowth,
-    seedsPlanted: gameState.seedsPlanted,
-    spiritsFed: gameState.spiritsFed,
-    robotCharged: gameState.robotCharged,
-    dailyUpvotes: gameState.dailyUpvotes,
-    updatedAt: gameState.updatedAt.getTime(),
-  });
-  
-  // Simple hash function (in production, consider using crypto.createHash)
-  let hash = 0;
-  for (let i = 0; i < stateString.length; i++) {
-    const char = stateString.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return `"${Math.abs(hash).toString(36)}"`;
+const ACTION_REJECTION_STATUS: Record<ActionRejectionReason, number> = {
+  insufficient_resources: 400,
+  invalid: 400,
+  forbidden: 403,
+  banned: 403,
+  not_found: 404,
+  unknown_action: 404,
+  cooldown: 429,
+  paused: 423,
+  rate_limited: 429,
+};
+
+interface ActionRejectionContext {
+  actionType: string;
+  insufficientMessage: string;
+  username?: string;
+  subredditName?: string;
 }
 
-// Helper function to generate state diff for efficient updates
-function generateStateDiff(currentState: GameState, previousHash: string): any {
-  // This is a simplified diff - in production, you might want more sophisticated diffing
-  return {
-    type: 'full', // For now, always send full state
-    changes: {
-      treeLevel: currentState.treeLevel,
-      totalGrowth: currentState.totalGrowth,
-      seedsPlanted: currentState.seedsPlanted,
-      spiritsFed: currentState.spiritsFed,
-      robotCharged: currentState.robotCharged,
-      dailyUpvotes: currentState.dailyUpvotes,
-    },
-    previousHash,
-    currentHash: generateStateHash(currentState),
-  };
+// Helper function to map rejected or conflicting action commits to HTTP responses.
+// Returns false when the error is unexpected and should be handled by the caller.
+async function sendActionRejection(
+  res: express.Response,
+  error: unknown,
+  rejection: ActionRejectionContext
+): Promise<boolean> {
+  if (error instanceof ActionRejectedError) {
+    if (error.reason === 'cooldown' || error.reason === 'rate_limited') {
+      const retryAfterMs = error.retryAfterMs ?? 0;
+      const body: ActionLimitedResponse = {
+        success: false,
+        reason: error.reason,
+        message: error.message,
+        actionType: rejection.actionType,
+        retryAfterMs,
+      };
+
+      if (rejection.username && rejection.subredditName) {
+        try {
+          body.cooldowns = await redisGameService.getActionCooldowns(rejection.username, rejection.subredditName);
+        } catch (cooldownError) {
+          console.error('Failed to load cooldowns for 429 response:', cooldownError);
+        }
+      }
+
+      res.set('Retry-After', Math.ceil(retryAfterMs / 1000).toString());
+      res.status(429).json(body);
+      return true;
+    }
+
+    res.status(ACTION_REJECTION_STATUS[error.reason]).json({
+      success: false,
+      reason: error.reason,
+      message: error.reason === 'insufficient_resources' ? rejection.insufficientMessage : error.message,
+    });
+    return true;
+  }
+
+  if (error instanceof TransactionConflictError) {
+    res.status(409).json({
+      success: false,
+      message: 'The garden is busy right now, please try again',
+    });
+    return true;
+  }
+
+  return false;
+}
+
+// Helper function to send a template validation failure as a 400
+function sendTemplateValidationError(res: express.Response, error: unknown): boolean {
+  if (!(error instanceof TemplateValidationError)) {
+    return false;
+  }
+
+  res.status(400).json({ status: 'error', message: error.message });
+  return true;
+}
+
+// Helper function to send a malformed admin request as a 400
+function sendAdminRequestError(res: express.Response, error: unknown): boolean {
+  if (!(error instanceof InvalidAdminRequestError)) {
+    return false;
+  }
+
+  res.status(400).json({ status: 'error', message: error.message });
+  return true;
 }
 
 // Use router middleware
@@ -985,13 +1623,9 @@ const port = getServerPort();
 const server = createServer(app);
 server.on('error', (err) => console.error(`server error; ${err.stack}`));
 
-// Start the chronicle scheduler
-chronicleScheduler.start();
-
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
-  chronicleScheduler.stop();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -1000,7 +1634,6 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
-  chronicleScheduler.stop();
   server.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -0,0 +1,68 @@
+import { redis } from '@devvit/web/server';
+import { GardenAchievement, ReachedMilestone, REDIS_KEYS, ERROR_MESSAGES } from '../../shared/types';
+
+/**
+ * Milestones each garden has reached. Only the first time a milestone is
+ * reached is kept, so recording the same one again is harmless.
+ */
+export class AchievementService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Record a milestone unless the garden already has it; true if it was new
+   */
+  async recordMilestone(subredditName: string, milestone: ReachedMilestone, at: Date = new Date()): Promise<boolean> {
+    return this.withRetry(async () => {
+      const added = await redis.hSetNX(
+        REDIS_KEYS.GARDEN_ACHIEVEMENTS(subredditName),
+        milestone.id,
+        JSON.stringify({ milestone, reachedAt: at.toISOString() })
+      );
+      return added > 0;
+    });
+  }
+
+  /**
+   * A garden's achievements, in the order they were reached
+   */
+  async getAchievements(subredditName: string): Promise<GardenAchievement[]> {
+    return this.withRetry(async () => {
+      const entries = await redis.hGetAll(REDIS_KEYS.GARDEN_ACHIEVEMENTS(subredditName));
+      return Object.values(entries)
+        .map(data => {
+          const parsed = JSON.parse(data);
+          return { milestone: parsed.milestone, reachedAt: new Date(parsed.reachedAt) };
+        })
+        .sort((a, b) => a.reachedAt.getTime() - b.reachedAt.getTime());
+    });
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const achievementService = new AchievementService();
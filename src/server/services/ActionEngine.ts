@@ -0,0 +1,214 @@
+import { ACTION_CATALOG, ActionCatalog, ActionCatalogEntry } from '../../shared/catalog';
+import { applyActionOverrides, resolveGardenBalance } from '../../shared/balance';
+import { GameState, GardenBalanceOverrides } from '../../shared/types/api';
+import {
+  actionTransactionService,
+  ActionTransactionService,
+  ActionCommitRequest,
+  ActionCommitResult,
+  ActionRejectedError,
+  GameStateCounter
+} from './ActionTransactionService';
+import { BUILTIN_ACTIONS } from '../core/actions';
+import { eventBusService } from './EventBusService';
+import { gardenBalanceService } from './GardenBalanceService';
+import { gardenModerationService } from './GardenModerationService';
+
+export interface ActionContext {
+  username: string;
+  subredditName: string;
+  // With the garden's balance overrides applied
+  definition: ActionDefinition;
+  // Extra request payload for actions that take options (e.g. post type)
+  payload: Record<string, unknown>;
+}
+
+export interface ActionOutcome {
+  message: string;
+  extras: Record<string, unknown>;
+}
+
+/**
+ * Runs before the commit; throw an ActionRejectedError to refuse the action
+ */
+export type ActionValidationHook = (context: ActionContext) => Promise<void>;
+
+/**
+ * Runs once the action has passed every check and been paid for (spend,
+ * cooldown), before it is recorded, with the garden as it was when reserved.
+ * Throwing refunds the spend and clears the cooldown, so nothing is recorded;
+ * use it for side effects the action must not be recorded without, such as the
+ * Reddit post itself. It runs outside any transaction, so at most once.
+ */
+export type ActionBeforeCommitHook = (
+  context: ActionContext,
+  gameState: GameState,
+  outcome: ActionOutcome
+) => Promise<void>;
+
+/**
+ * Runs after a successful commit; may amend the response message or add extra fields
+ */
+export type ActionAfterCommitHook = (
+  context: ActionContext,
+  commit: ActionCommitResult,
+  outcome: ActionOutcome
+) => Promise<void>;
+
+/**
+ * Catalog entry (cost, resource, cooldown, growth) plus server-side behaviour
+ */
+export interface ActionDefinition extends ActionCatalogEntry {
+  counter?: GameStateCounter;
+  successMessage: string;
+  failureMessage: string;
+  insufficientMessage: string;
+  validate?: ActionValidationHook[];
+  beforeCommit?: ActionBeforeCommitHook[];
+  afterCommit?: ActionAfterCommitHook[];
+}
+
+export interface ActionExecutionResult {
+  commit: ActionCommitResult;
+  outcome: ActionOutcome;
+}
+
+/**
+ * Single engine behind every player action.
+ * Each action type is a registry entry describing its cost, cooldown and growth
+ * plus optional validation, pre-commit and post-commit hooks; the engine runs the hooks
+ * around one atomic commit, so adding an action means adding an entry.
+ * A garden's balance overrides replace an entry's cost, cooldown and growth.
+ * Banned players and paused gardens are refused before anything runs.
+ * Side effects that don't shape the response belong in a domain event subscriber.
+ */
+export class ActionEngine {
+  private readonly definitions: Map<string, ActionDefinition> = new Map();
+
+  constructor(
+    private readonly transactions: ActionTransactionService = actionTransactionService,
+    definitions: ActionDefinition[] = BUILTIN_ACTIONS
+  ) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Register (or replace) an action definition
+   */
+  register(definition: ActionDefinition): void {
+    this.definitions.set(definition.type, definition);
+  }
+
+  /**
+   * Look up an action definition by type
+   */
+  getDefinition(actionType: string): ActionDefinition | undefined {
+    return this.definitions.get(actionType);
+  }
+
+  /**
+   * List all registered action definitions
+   */
+  listDefinitions(): ActionDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Effective action catalog as enforced by this engine in a garden with the
+   * given balance overrides, for clients to render from
+   */
+  getCatalog(overrides: GardenBalanceOverrides = {}): ActionCatalog {
+    const catalog: ActionCatalog = { ...ACTION_CATALOG };
+
+    for (const definition of this.definitions.values()) {
+      const { type, label, emoji, resourceType, cost, cooldownMs, growthContribution } = applyActionOverrides(
+        definition,
+        overrides
+      );
+      catalog[type] = { type, label, emoji, resourceType, cost, cooldownMs, growthContribution };
+    }
+
+    return catalog;
+  }
+
+  /**
+   * Validate, commit and run the pre- and post-commit hooks for an action
+   */
+  async execute(
+    actionType: string,
+    username: string,
+    subredditName: string,
+    payload: Record<string, unknown> = {}
+  ): Promise<ActionExecutionResult> {
+    const registered = this.definitions.get(actionType);
+    if (!registered) {
+      throw new ActionRejectedError('unknown_action', `Unknown action type: ${actionType}`);
+    }
+
+    await gardenModerationService.assertCanAct(subredditName, username);
+
+    const overrides = await gardenBalanceService.getOverrides(subredditName);
+    const definition = applyActionOverrides(registered, overrides);
+
+    const context: ActionContext = { username, subredditName, definition, payload };
+
+    for (const hook of definition.validate ?? []) {
+      await hook(context);
+    }
+
+    const outcome: ActionOutcome = { message: definition.successMessage, extras: {} };
+    const request: ActionCommitRequest = {
+      username,
+      subredditName,
+      actionType: definition.type,
+      cost: definition.cost,
+      resourceType: definition.resourceType,
+      ...(definition.counter && { counter: definition.counter }),
+      growthContributed: definition.growthContribution,
+      cooldownMs: definition.cooldownMs,
+      balance: resolveGardenBalance(overrides),
+    };
+
+    const commit = definition.beforeCommit?.length
+      ? await this.commitAfterHooks(request, definition.beforeCommit, context, outcome)
+      : await this.transactions.commitAction(request);
+    await eventBusService.deliver(commit.events);
+
+    for (const hook of definition.afterCommit ?? []) {
+      await hook(context, commit, outcome);
+    }
+
+    return { commit, outcome };
+  }
+
+  /**
+   * Reserve the action, run the pre-commit hooks outside any transaction, then
+   * record it; a failing hook releases the reservation
+   */
+  private async commitAfterHooks(
+    request: ActionCommitRequest,
+    hooks: ActionBeforeCommitHook[],
+    context: ActionContext,
+    outcome: ActionOutcome
+  ): Promise<ActionCommitResult> {
+    const reservation = await this.transactions.reserveAction(request);
+
+    try {
+      for (const hook of hooks) {
+        await hook(context, reservation.gameState, outcome);
+      }
+    } catch (error) {
+      try {
+        await this.transactions.releaseAction(reservation);
+      } catch (releaseError) {
+        console.error(`Failed to release ${request.actionType} for ${request.username}:`, releaseError);
+      }
+      throw error;
+    }
+
+    return this.transactions.completeAction(reservation);
+  }
+}
+
+// Export singleton instance
+export const actionEngine = new ActionEngine();
@@ -0,0 +1,267 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import {
+  ActionHistory,
+  PlayerActionType,
+  REDIS_KEYS,
+  ERROR_MESSAGES,
+  GAME_CONFIG,
+  isActionHistory
+} from '../../shared/types';
+
+export interface ActionLogQuery {
+  cursor?: string;
+  limit?: number;
+  type?: PlayerActionType;
+  username?: string;
+}
+
+export interface ActionLogPage {
+  actions: ActionHistory[];
+  nextCursor: string | null;
+}
+
+/**
+ * Raised for a cursor that was not produced by this service
+ */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string, log = 'action log') {
+    super(`Invalid ${log} cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Position in a log: the score (timestamp) reached and how many entries with
+// exactly that score have already been returned
+interface LogPosition {
+  score: number;
+  skip: number;
+}
+
+// Upper bound on entries read per query when filtering by type and player at once
+const MAX_SCAN_BATCHES = 10;
+
+/**
+ * Append-only action log kept in Redis sorted sets scored by timestamp.
+ * Each action is written to the garden log plus a per-type and a per-player
+ * index, so the hot path is a handful of ZADDs and rank trims that never read
+ * or re-serialize history, and paging/filtering is a ranged read on one index.
+ */
+export class ActionLogService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Queue an action into the log inside an open MULTI, applying retention
+   */
+  async queueAppend(tx: TxClientLike, action: ActionHistory): Promise<void> {
+    const member = JSON.stringify(action);
+    const score = action.timestamp.getTime();
+    const { MAX_ENTRIES, MAX_INDEX_ENTRIES } = GAME_CONFIG.ACTION_LOG;
+    const expiredBefore = score - this.retentionMs();
+
+    const logs: Array<[string, number]> = [
+      [REDIS_KEYS.ACTION_LOG(action.subredditName), MAX_ENTRIES],
+      [REDIS_KEYS.ACTION_LOG_BY_TYPE(action.subredditName, action.actionType), MAX_INDEX_ENTRIES],
+      [REDIS_KEYS.ACTION_LOG_BY_PLAYER(action.subredditName, action.username), MAX_INDEX_ENTRIES],
+    ];
+
+    for (const [key, maxEntries] of logs) {
+      await tx.zAdd(key, { member, score });
+      await tx.zRemRangeByRank(key, 0, -(maxEntries + 1));
+      await tx.zRemRangeByScore(key, 0, expiredBefore);
+    }
+  }
+
+  /**
+   * Append an action to the log in its own transaction
+   */
+  async append(action: ActionHistory): Promise<void> {
+    return this.withRetry(async () => {
+      // Nothing to watch: the writes are commutative, MULTI just keeps the indexes in step
+      const tx = await redis.watch();
+      await tx.multi();
+      await this.queueAppend(tx, action);
+      await tx.exec();
+    });
+  }
+
+  /**
+   * Most recent actions for a subreddit, newest first
+   */
+  async getRecentActions(subredditName: string, limit: number = 50): Promise<ActionHistory[]> {
+    const page = await this.queryActions(subredditName, { limit });
+    return page.actions;
+  }
+
+  /**
+   * Page through the log newest first, optionally filtered by action type and/or player
+   */
+  async queryActions(subredditName: string, query: ActionLogQuery = {}): Promise<ActionLogPage> {
+    const { DEFAULT_PAGE_SIZE } = GAME_CONFIG.ACTION_LOG;
+    const limit = Math.max(1, Math.floor(query.limit ?? DEFAULT_PAGE_SIZE));
+    const start = query.cursor ? this.decodeCursor(query.cursor) : { score: Infinity, skip: 0 };
+
+    // Read from the narrowest index; only the type+player combination needs filtering
+    const key = query.username
+      ? REDIS_KEYS.ACTION_LOG_BY_PLAYER(subredditName, query.username)
+      : query.type
+        ? REDIS_KEYS.ACTION_LOG_BY_TYPE(subredditName, query.type)
+        : REDIS_KEYS.ACTION_LOG(subredditName);
+    const matches = (action: ActionHistory) =>
+      !query.type || !query.username || action.actionType === query.type;
+
+    return this.withRetry(async () => {
+      const actions: ActionHistory[] = [];
+      const position = { ...start };
+
+      for (let batch = 0; batch < MAX_SCAN_BATCHES; batch++) {
+        const entries = await redis.zRange(
+          key,
+          position.score === Infinity ? '+inf' : position.score,
+          '-inf',
+          { by: 'score', reverse: true, limit: { offset: position.skip, count: limit } }
+        );
+
+        for (const [index, entry] of entries.entries()) {
+          if (entry.score === position.score) {
+            position.skip++;
+          } else {
+            position.score = entry.score;
+            position.skip = 1;
+          }
+
+          const action = this.parseEntry(entry.member);
+          if (action && matches(action)) {
+            actions.push(action);
+          }
+
+          if (actions.length === limit) {
+            const exhausted = entries.length < limit && index === entries.length - 1;
+            return { actions, nextCursor: exhausted ? null : this.encodeCursor(position) };
+          }
+        }
+
+        if (entries.length < limit) {
+          return { actions, nextCursor: null };
+        }
+      }
+
+      // Scan budget spent; hand back what we have and let the caller continue
+      return { actions, nextCursor: this.encodeCursor(position) };
+    });
+  }
+
+  /**
+   * Every retained action in [from, to), oldest first
+   */
+  async getActionsBetween(subredditName: string, from: Date, to: Date): Promise<ActionHistory[]> {
+    return this.withRetry(async () => {
+      const entries = await redis.zRange(REDIS_KEYS.ACTION_LOG(subredditName), from.getTime(), to.getTime() - 1, {
+        by: 'score',
+      });
+      return entries
+        .map(entry => this.parseEntry(entry.member))
+        .filter((action): action is ActionHistory => action !== null);
+    });
+  }
+
+  /**
+   * When a player's oldest retained action happened, or null if none is retained
+   */
+  async getFirstActionTime(subredditName: string, username: string): Promise<Date | null> {
+    return this.withRetry(async () => {
+      const [first] = await redis.zRange(REDIS_KEYS.ACTION_LOG_BY_PLAYER(subredditName, username), 0, 0, {
+        by: 'rank',
+      });
+      return first ? new Date(first.score) : null;
+    });
+  }
+
+  /**
+   * Move a legacy JSON action blob into the sorted-set log, if one exists
+   */
+  async migrateLegacyHistory(subredditName: string): Promise<number> {
+    return this.withRetry(async () => {
+      const legacyKey = REDIS_KEYS.ACTION_HISTORY(subredditName);
+      const data = await redis.get(legacyKey);
+      if (!data) {
+        return 0;
+      }
+
+      const parsed: unknown = JSON.parse(data);
+      const actions = (Array.isArray(parsed) ? parsed : [])
+        .map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+        .filter((entry): entry is ActionHistory => isActionHistory(entry) && !isNaN(entry.timestamp.getTime()))
+        .reverse();
+
+      if (actions.length === 0) {
+        await redis.del(legacyKey);
+        return 0;
+      }
+
+      const tx = await redis.watch(legacyKey);
+      await tx.multi();
+      for (const action of actions) {
+        await this.queueAppend(tx, action);
+      }
+      await tx.del(legacyKey);
+      await tx.exec();
+
+      return actions.length;
+    });
+  }
+
+  private retentionMs(): number {
+    return GAME_CONFIG.ACTION_LOG.RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  }
+
+  private parseEntry(member: string): ActionHistory | null {
+    try {
+      const parsed = JSON.parse(member);
+      parsed.timestamp = new Date(parsed.timestamp);
+      return isActionHistory(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private encodeCursor(position: LogPosition): string {
+    return `${position.score}:${position.skip}`;
+  }
+
+  private decodeCursor(cursor: string): LogPosition {
+    const match = /^(\d+):(\d+)$/.exec(cursor);
+    if (!match) {
+      throw new InvalidCursorError(cursor);
+    }
+    return { score: Number(match[1]), skip: Number(match[2]) };
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const actionLogService = new ActionLogService();
@@ -0,0 +1,459 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import {
+  GameState,
+  PlayerResources,
+  ActionHistory,
+  PlayerActionType,
+  GardenBalance,
+  GardenDaySettings,
+  REDIS_KEYS,
+  ERROR_MESSAGES,
+  GAME_CONFIG
+} from '../../shared/types';
+import { ActionResourceType } from '../../shared/catalog';
+import { calculateTreeLevel } from '../../shared/utils/growth';
+import { withOptimisticTransaction, OptimisticTransactionOptions } from '../core/transaction';
+import { getGardenDate } from '../core/calendar';
+import { slidingWindowRetryAfter, recordSlidingWindowHit, SlidingWindowLimit } from '../core/rateLimit';
+import { redisGameService } from './RedisGameService';
+import { playerResourceService } from './PlayerResourceService';
+import { actionLogService } from './ActionLogService';
+import { leaderboardService } from './LeaderboardService';
+import { gardenRegistryService } from './GardenRegistryService';
+import { eventBusService } from './EventBusService';
+import { dailyCounterService } from './DailyCounterService';
+import { gardenBalanceService } from './GardenBalanceService';
+import { stateChangeLogService } from './StateChangeLogService';
+import type { DomainEvent } from '../core/events';
+
+export type SpendableResource = ActionResourceType;
+export type GameStateCounter = 'seedsPlanted' | 'spiritsFed' | 'robotCharged';
+
+export interface ActionCommitRequest {
+  username: string;
+  subredditName: string;
+  actionType: PlayerActionType;
+  cost: number;
+  resourceType?: SpendableResource;
+  counter?: GameStateCounter;
+  growthContributed: number;
+  cooldownMs: number;
+  // The garden's balance, if the caller already resolved it
+  balance?: GardenBalance;
+}
+
+export interface ActionCommitResult {
+  action: ActionHistory;
+  gameState: GameState;
+  playerResources: PlayerResources;
+  previousTotalGrowth: number;
+  // Already in the outbox; deliver them once the commit returns
+  events: DomainEvent[];
+}
+
+/**
+ * An action that has been paid for but not yet recorded (see reserveAction)
+ */
+export interface ActionReservation {
+  request: ActionCommitRequest;
+  action: ActionHistory;
+  // The garden as it was when the action was reserved
+  gameState: GameState;
+  playerResources: PlayerResources;
+}
+
+export interface ActionRateLimits {
+  windowMs: number;
+  perPlayer: number;
+  perSubreddit: number;
+}
+
+export interface ActionTransactionOptions extends OptimisticTransactionOptions {
+  // Fixed limits for every garden instead of each garden's balance
+  rateLimits?: ActionRateLimits;
+}
+
+export type ActionRejectionReason =
+  | 'insufficient_resources'
+  | 'cooldown'
+  | 'rate_limited'
+  | 'not_found'
+  | 'unknown_action'
+  | 'forbidden'
+  | 'invalid'
+  | 'banned'
+  | 'paused';
+
+/**
+ * Raised when an action is refused on business grounds; nothing has been written.
+ * Cooldown and rate-limit rejections say how long until a retry can succeed.
+ */
+export class ActionRejectedError extends Error {
+  constructor(
+    public readonly reason: ActionRejectionReason,
+    message: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ActionRejectedError';
+  }
+}
+
+// Keys and limits one action touches, resolved once per transaction
+interface ActionScope {
+  balance: GardenBalance;
+  day: GardenDaySettings;
+  playerKey: string;
+  stateKey: string;
+  cooldownKey: string;
+  pendingKey: string;
+  playerWindow: SlidingWindowLimit;
+  subredditWindow: SlidingWindowLimit;
+}
+
+interface CheckedAction {
+  action: ActionHistory;
+  gameState: GameState;
+  // After the spend
+  playerResources: PlayerResources;
+}
+
+interface ActionRecord {
+  gameState: GameState;
+  events: DomainEvent[];
+  write: (tx: TxClientLike) => Promise<void>;
+}
+
+// Stored under PENDING_ACTION while a reserved action waits for its side effect
+interface PendingAction {
+  actionId: string;
+  expiresAt: number;
+}
+
+/**
+ * Commits a player action as a single atomic unit.
+ * The player's resources, the game state, the player's cooldown for this action
+ * and both rate-limit windows are watched together and written in one
+ * MULTI/EXEC along with the action log entry, the day's counters, leaderboard scores and
+ * the action's domain events, so concurrent actions never lose each other's increments and a failure part-way
+ * through leaves nothing behind.
+ * Actions with a side effect outside Redis are reserved, then completed or
+ * released, so the side effect never runs inside a retrying transaction.
+ */
+export class ActionTransactionService {
+  constructor(private readonly options: ActionTransactionOptions = {}) {}
+
+  async commitAction(request: ActionCommitRequest): Promise<ActionCommitResult> {
+    const scope = await this.resolveScope(request);
+
+    return withOptimisticTransaction(
+      [
+        scope.playerKey,
+        scope.stateKey,
+        scope.cooldownKey,
+        scope.pendingKey,
+        scope.playerWindow.key,
+        scope.subredditWindow.key,
+      ],
+      async () => {
+        const now = new Date();
+        const { action, gameState, playerResources } = await this.checkAction(request, scope, now);
+        const record = this.recordAction(request, scope, action, gameState, now);
+
+        return {
+          write: async tx => {
+            await this.queueSpend(tx, request, scope, action, playerResources, now);
+            await record.write(tx);
+          },
+          result: {
+            action,
+            gameState: record.gameState,
+            playerResources,
+            previousTotalGrowth: gameState.totalGrowth,
+            events: record.events,
+          },
+        };
+      },
+      this.options
+    );
+  }
+
+  /**
+   * First half of an action with a side effect outside Redis, such as a Reddit
+   * post. Runs every check, then spends, starts the cooldown, counts towards the
+   * rate limits and leaves a pending marker; nothing is recorded yet. Follow
+   * with completeAction once the side effect succeeded or releaseAction if it
+   * failed, and never run the side effect inside a transaction.
+   */
+  async reserveAction(request: ActionCommitRequest): Promise<ActionReservation> {
+    const scope = await this.resolveScope(request);
+
+    return withOptimisticTransaction(
+      [scope.playerKey, scope.cooldownKey, scope.pendingKey, scope.playerWindow.key, scope.subredditWindow.key],
+      async () => {
+        const now = new Date();
+        const { action, gameState, playerResources } = await this.checkAction(request, scope, now);
+        const pending: PendingAction = {
+          actionId: action.id,
+          expiresAt: now.getTime() + GAME_CONFIG.LIMITS.PENDING_ACTION_TTL_MS,
+        };
+
+        return {
+          write: async tx => {
+            await this.queueSpend(tx, request, scope, action, playerResources, now);
+            await this.queuePending(tx, scope, pending, now);
+          },
+          result: { request: { ...request, balance: scope.balance }, action, gameState, playerResources },
+        };
+      },
+      this.options
+    );
+  }
+
+  /**
+   * Record a reserved action whose side effect succeeded: game state, logs,
+   * counters, leaderboards and events, as commitAction would have
+   */
+  async completeAction(reservation: ActionReservation): Promise<ActionCommitResult> {
+    const { request, action, playerResources } = reservation;
+    const scope = await this.resolveScope(request);
+
+    return withOptimisticTransaction(
+      [scope.stateKey, scope.pendingKey],
+      async () => {
+        const now = new Date();
+        const gameState = await redisGameService.getGameState(request.subredditName);
+        if (!gameState) {
+          throw new Error(`Game state not found for subreddit: ${request.subredditName}`);
+        }
+        const record = this.recordAction(request, scope, action, gameState, now);
+
+        return {
+          write: async tx => {
+            await record.write(tx);
+            await tx.del(scope.pendingKey);
+          },
+          result: {
+            action,
+            gameState: record.gameState,
+            playerResources,
+            previousTotalGrowth: gameState.totalGrowth,
+            events: record.events,
+          },
+        };
+      },
+      this.options
+    );
+  }
+
+  /**
+   * Undo a reserved action whose side effect failed: refund the spend and clear
+   * the cooldown. Only the reservation still holding the pending marker is
+   * refunded, so releasing twice refunds once.
+   */
+  async releaseAction(reservation: ActionReservation): Promise<void> {
+    const { request, action } = reservation;
+    const resourceType = request.resourceType ?? 'cinnamon';
+    const scope = await this.resolveScope(request);
+
+    await withOptimisticTransaction(
+      [scope.playerKey, scope.cooldownKey, scope.pendingKey],
+      async () => {
+        const now = new Date();
+        const [pendingData, resources] = await Promise.all([
+          redis.get(scope.pendingKey),
+          playerResourceService.getPlayerResources(request.username, request.subredditName),
+        ]);
+        const pending: PendingAction | null = pendingData ? JSON.parse(pendingData) : null;
+
+        if (pending?.actionId !== action.id) {
+          // Already released or completed; rewriting the marker (or deleting the
+          // missing one) keeps EXEC's reply non-empty
+          return {
+            write: async tx =>
+              pending ? this.queuePending(tx, scope, pending, now) : void (await tx.del(scope.pendingKey)),
+            result: undefined,
+          };
+        }
+
+        return {
+          write: async tx => {
+            if (resources) {
+              await tx.set(
+                scope.playerKey,
+                JSON.stringify({
+                  ...resources,
+                  [resourceType]: resources[resourceType] + request.cost,
+                  totalContributions: resources.totalContributions - request.cost,
+                })
+              );
+            }
+            await tx.del(scope.cooldownKey, scope.pendingKey);
+          },
+          result: undefined,
+        };
+      },
+      this.options
+    );
+  }
+
+  private async resolveScope(request: ActionCommitRequest): Promise<ActionScope> {
+    const { username, subredditName, actionType } = request;
+    const balance = request.balance ?? (await gardenBalanceService.getBalance(subredditName));
+    const { windowMs, perPlayer, perSubreddit } = this.options.rateLimits ?? {
+      windowMs: GAME_CONFIG.LIMITS.RATE_LIMIT_WINDOW_MS,
+      perPlayer: balance.limits.maxActionsPerMinute,
+      perSubreddit: balance.limits.maxSubredditActionsPerMinute,
+    };
+
+    return {
+      balance,
+      day: await gardenRegistryService.getDaySettings(subredditName),
+      playerKey: REDIS_KEYS.PLAYER_RESOURCES(username, subredditName),
+      stateKey: REDIS_KEYS.SUBREDDIT_STATE(subredditName),
+      cooldownKey: REDIS_KEYS.ACTION_COOLDOWN(username, subredditName, actionType),
+      pendingKey: REDIS_KEYS.PENDING_ACTION(username, subredditName, actionType),
+      playerWindow: { key: REDIS_KEYS.PLAYER_RATE_LIMIT(username, subredditName), limit: perPlayer, windowMs },
+      subredditWindow: { key: REDIS_KEYS.SUBREDDIT_RATE_LIMIT(subredditName), limit: perSubreddit, windowMs },
+    };
+  }
+
+  /**
+   * Read what the action depends on and refuse it if it can't go ahead; call inside the transaction
+   */
+  private async checkAction(request: ActionCommitRequest, scope: ActionScope, now: Date): Promise<CheckedAction> {
+    const { username, subredditName, actionType, cost, growthContributed } = request;
+    const resourceType = request.resourceType ?? 'cinnamon';
+
+    const [resources, gameState, cooldownExpiry, pendingData, playerRetryAfter, subredditRetryAfter] =
+      await Promise.all([
+        playerResourceService.getPlayerResources(username, subredditName),
+        redisGameService.getGameState(subredditName),
+        redis.get(scope.cooldownKey),
+        redis.get(scope.pendingKey),
+        slidingWindowRetryAfter(scope.playerWindow, now.getTime()),
+        slidingWindowRetryAfter(scope.subredditWindow, now.getTime()),
+      ]);
+
+    if (!resources) {
+      throw new ActionRejectedError('not_found', `Player resources not found: ${username} in ${subredditName}`);
+    }
+    if (!gameState) {
+      throw new ActionRejectedError('not_found', `Game state not found for subreddit: ${subredditName}`);
+    }
+
+    const pending: PendingAction | null = pendingData ? JSON.parse(pendingData) : null;
+    if (pending && pending.expiresAt > now.getTime()) {
+      throw new ActionRejectedError('cooldown', ERROR_MESSAGES.ACTION_PENDING, pending.expiresAt - now.getTime());
+    }
+    const cooldownRemaining = cooldownExpiry ? parseInt(cooldownExpiry) - now.getTime() : 0;
+    if (cooldownRemaining > 0) {
+      throw new ActionRejectedError('cooldown', ERROR_MESSAGES.ACTION_COOLDOWN, cooldownRemaining);
+    }
+    if (playerRetryAfter > 0) {
+      throw new ActionRejectedError('rate_limited', ERROR_MESSAGES.RATE_LIMIT_EXCEEDED, playerRetryAfter);
+    }
+    if (subredditRetryAfter > 0) {
+      throw new ActionRejectedError('rate_limited', ERROR_MESSAGES.GARDEN_RATE_LIMIT_EXCEEDED, subredditRetryAfter);
+    }
+    if (resources[resourceType] < cost) {
+      throw new ActionRejectedError('insufficient_resources', ERROR_MESSAGES.INSUFFICIENT_RESOURCES);
+    }
+
+    return {
+      action: {
+        id: this.generateActionId(),
+        username,
+        subredditName,
+        actionType,
+        resourcesSpent: cost,
+        growthContributed,
+        timestamp: now,
+      },
+      gameState,
+      playerResources: {
+        ...resources,
+        [resourceType]: resources[resourceType] - cost,
+        totalContributions: resources.totalContributions + cost,
+        lastActive: now,
+      },
+    };
+  }
+
+  /**
+   * Queue the player's side of an action: the spend, the cooldown and both rate-limit hits
+   */
+  private async queueSpend(
+    tx: TxClientLike,
+    request: ActionCommitRequest,
+    scope: ActionScope,
+    action: ActionHistory,
+    playerResources: PlayerResources,
+    now: Date
+  ): Promise<void> {
+    await tx.set(scope.playerKey, JSON.stringify(playerResources));
+    if (request.cooldownMs > 0) {
+      await tx.set(scope.cooldownKey, (now.getTime() + request.cooldownMs).toString());
+      await tx.expire(scope.cooldownKey, Math.ceil(request.cooldownMs / 1000));
+    }
+    await recordSlidingWindowHit(tx, scope.playerWindow, action.id, now.getTime());
+    await recordSlidingWindowHit(tx, scope.subredditWindow, action.id, now.getTime());
+  }
+
+  private async queuePending(tx: TxClientLike, scope: ActionScope, pending: PendingAction, now: Date): Promise<void> {
+    await tx.set(scope.pendingKey, JSON.stringify(pending));
+    await tx.expire(scope.pendingKey, Math.max(1, Math.ceil((pending.expiresAt - now.getTime()) / 1000)));
+  }
+
+  /**
+   * The garden's side of an action: the updated game state and its events, and
+   * the writes that record it (state log, action log, day counters, activity,
+   * outbox and leaderboards)
+   */
+  private recordAction(
+    request: ActionCommitRequest,
+    scope: ActionScope,
+    action: ActionHistory,
+    gameState: GameState,
+    now: Date
+  ): ActionRecord {
+    const { username, subredditName, cost, counter, growthContributed } = request;
+    const totalGrowth = gameState.totalGrowth + growthContributed;
+    const updatedState: GameState = {
+      ...gameState,
+      ...(counter && { [counter]: gameState[counter] + 1 }),
+      totalGrowth,
+      treeLevel: calculateTreeLevel(totalGrowth, scope.balance.treeLevels),
+      updatedAt: now,
+      version: gameState.version + 1,
+    };
+    const events = redisGameService.buildActionEvents(action, gameState, updatedState, scope.balance);
+
+    return {
+      gameState: updatedState,
+      events,
+      write: async tx => {
+        await tx.set(scope.stateKey, JSON.stringify(updatedState));
+        await stateChangeLogService.queueAppend(tx, gameState, updatedState, action);
+        await actionLogService.queueAppend(tx, action);
+        const date = getGardenDate(now, scope.day);
+        await dailyCounterService.queueAction(tx, subredditName, date, counter, growthContributed);
+        await gardenRegistryService.queueActivity(tx, subredditName, now);
+        await eventBusService.queue(tx, events);
+        if (cost > 0) {
+          await leaderboardService.queueContribution(tx, subredditName, username, cost, now, scope.day);
+        }
+      },
+    };
+  }
+
+  /**
+   * Generate unique action ID
+   */
+  private generateActionId(): string {
+    return `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+// Export singleton instance
+export const actionTransactionService = new ActionTransactionService();
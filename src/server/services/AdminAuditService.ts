@@ -0,0 +1,177 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import {
+  AdminAuditAction,
+  AdminAuditEntry,
+  REDIS_KEYS,
+  ERROR_MESSAGES,
+  GAME_CONFIG
+} from '../../shared/types';
+import { InvalidCursorError } from './ActionLogService';
+
+export type AdminAuditRecord = Omit<AdminAuditEntry, 'id' | 'at'>;
+
+export interface AdminAuditQuery {
+  cursor?: string;
+  limit?: number;
+  action?: AdminAuditAction;
+  moderator?: string;
+  target?: string;
+}
+
+export interface AdminAuditPage {
+  entries: AdminAuditEntry[];
+  nextCursor: string | null;
+}
+
+interface StoredAuditEntry extends Omit<AdminAuditEntry, 'at'> {
+  at: string;
+}
+
+// Upper bound on entries read per query when filtering
+const MAX_SCAN_BATCHES = 10;
+
+/**
+ * Append-only log of moderator admin actions per garden, in a sorted set
+ * scored by time. Entries are only ever added, never edited or trimmed;
+ * changes made in a transaction queue their entry into the same MULTI, so a
+ * change is never applied without its record.
+ */
+export class AdminAuditService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Queue an audit entry inside an open MULTI
+   */
+  async queueRecord(tx: TxClientLike, record: AdminAuditRecord, at: Date = new Date()): Promise<AdminAuditEntry> {
+    const entry = this.createEntry(record, at);
+    await tx.zAdd(REDIS_KEYS.ADMIN_AUDIT_LOG(entry.subredditName), {
+      member: JSON.stringify(entry),
+      score: at.getTime(),
+    });
+    return entry;
+  }
+
+  /**
+   * Record an admin action that was applied outside of a transaction
+   */
+  async record(record: AdminAuditRecord, at: Date = new Date()): Promise<AdminAuditEntry> {
+    const entry = this.createEntry(record, at);
+    await this.withRetry(() =>
+      redis.zAdd(REDIS_KEYS.ADMIN_AUDIT_LOG(entry.subredditName), {
+        member: JSON.stringify(entry),
+        score: at.getTime(),
+      })
+    );
+    return entry;
+  }
+
+  /**
+   * Page through a garden's audit log newest first, optionally filtered
+   */
+  async getEntries(subredditName: string, query: AdminAuditQuery = {}): Promise<AdminAuditPage> {
+    const limit = Math.max(1, Math.floor(query.limit ?? GAME_CONFIG.ADMIN.AUDIT_DEFAULT_PAGE_SIZE));
+    const start = query.cursor ? this.decodeCursor(query.cursor) : { score: Infinity, skip: 0 };
+    const matches = (entry: AdminAuditEntry) =>
+      (!query.action || entry.action === query.action) &&
+      (!query.moderator || entry.moderator.toLowerCase() === query.moderator.toLowerCase()) &&
+      (!query.target || entry.target?.toLowerCase() === query.target.toLowerCase());
+
+    return this.withRetry(async () => {
+      const entries: AdminAuditEntry[] = [];
+      const position = { ...start };
+
+      for (let batch = 0; batch < MAX_SCAN_BATCHES; batch++) {
+        const members = await redis.zRange(
+          REDIS_KEYS.ADMIN_AUDIT_LOG(subredditName),
+          position.score === Infinity ? '+inf' : position.score,
+          '-inf',
+          { by: 'score', reverse: true, limit: { offset: position.skip, count: limit } }
+        );
+
+        for (const [index, member] of members.entries()) {
+          if (member.score === position.score) {
+            position.skip++;
+          } else {
+            position.score = member.score;
+            position.skip = 1;
+          }
+
+          const entry = this.parseEntry(member.member);
+          if (entry && matches(entry)) {
+            entries.push(entry);
+          }
+
+          if (entries.length === limit) {
+            const exhausted = members.length < limit && index === members.length - 1;
+            return { entries, nextCursor: exhausted ? null : this.encodeCursor(position) };
+          }
+        }
+
+        if (members.length < limit) {
+          return { entries, nextCursor: null };
+        }
+      }
+
+      // Scan budget spent; hand back what we have and let the caller continue
+      return { entries, nextCursor: this.encodeCursor(position) };
+    });
+  }
+
+  private createEntry(record: AdminAuditRecord, at: Date): AdminAuditEntry {
+    return {
+      id: `audit_${at.getTime()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...record,
+      at,
+    };
+  }
+
+  private parseEntry(member: string): AdminAuditEntry | null {
+    try {
+      const stored: StoredAuditEntry = JSON.parse(member);
+      return { ...stored, at: new Date(stored.at) };
+    } catch {
+      return null;
+    }
+  }
+
+  private encodeCursor(position: { score: number; skip: number }): string {
+    return `${position.score}:${position.skip}`;
+  }
+
+  private decodeCursor(cursor: string): { score: number; skip: number } {
+    const match = /^(\d+):(\d+)$/.exec(cursor);
+    if (!match) {
+      throw new InvalidCursorError(cursor, 'audit log');
+    }
+    return { score: Number(match[1]), skip: Number(match[2]) };
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const adminAuditService = new AdminAuditService();
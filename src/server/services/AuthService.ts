@@ -0,0 +1,75 @@
+import { redis, reddit } from '@devvit/web/server';
+import { REDIS_KEYS, ERROR_MESSAGES, GAME_CONFIG } from '../../shared/types';
+
+/**
+ * Who the caller is and whether they moderate a subreddit. Moderator status
+ * comes from the Reddit API and is cached in Redis, yes or no, for a few
+ * minutes, so admin routes don't ask Reddit on every request.
+ */
+export class AuthService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * The signed-in Reddit user, or null for logged-out callers and Devvit itself
+   */
+  async getCurrentUsername(): Promise<string | null> {
+    return (await reddit.getCurrentUsername()) ?? null;
+  }
+
+  /**
+   * Whether a user moderates a subreddit, from the cache when it is fresh
+   */
+  async isModerator(subredditName: string, username: string): Promise<boolean> {
+    const key = REDIS_KEYS.MODERATOR_STATUS(subredditName, username);
+    const cached = await this.withRetry(() => redis.get(key));
+    if (cached !== undefined && cached !== null) {
+      return cached === '1';
+    }
+
+    const moderators = await reddit.getModerators({ subredditName, username }).all();
+    const isModerator = moderators.some(moderator => moderator.username.toLowerCase() === username.toLowerCase());
+
+    await this.withRetry(() =>
+      redis.set(key, isModerator ? '1' : '0', {
+        expiration: new Date(Date.now() + GAME_CONFIG.AUTH.MODERATOR_CACHE_SECONDS * 1000),
+      })
+    );
+    return isModerator;
+  }
+
+  /**
+   * Forget a cached moderator status, e.g. after mod permissions change
+   */
+  async forgetModerator(subredditName: string, username: string): Promise<void> {
+    await this.withRetry(() => redis.del(REDIS_KEYS.MODERATOR_STATUS(subredditName, username)));
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
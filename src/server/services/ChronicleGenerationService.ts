@@ -1,7 +1,30 @@
-import { GameState, DailyGrowthStats } from '../../shared/types/api';
+import {
+  GameState,
+  DailyGrowthStats,
+  GardenDaySettings,
+  LeaderboardEntry,
+  LeaderboardWindow,
+  ChronicleTemplateType,
+  ChronicleTemplateInfo,
+  ChronicleTemplateVariable,
+  ChronicleTemplateHelper,
+  WeeklySummary,
+  WeekOverWeekChange
+} from '../../shared/types/api';
+import { GAME_CONFIG } from '../../shared/constants';
+import { compileTemplate, TemplateError, TemplateHelpers } from '../core/template';
 import { redisGameService } from './RedisGameService';
 import { growthCalculationService } from './GrowthCalculationService';
+import { leaderboardService } from './LeaderboardService';
+import { weeklyAggregationService } from './WeeklyAggregationService';
+import { chronicleTemplateService, ChronicleTemplateDraft, CustomChronicleTemplate } from './ChronicleTemplateService';
 import { redditPostingService, RedditPostData } from './RedditPostingService';
+import { chronicleHistoryService } from './ChronicleHistoryService';
+import { milestoneChronicleService } from './MilestoneChronicleService';
+import { eventBusService } from './EventBusService';
+import { gardenRegistryService } from './GardenRegistryService';
+import { createDomainEvent } from '../core/events';
+import { addDays, getGardenDate, getGardenDayStart, getGardenTime, getWeekday } from '../core/calendar';
 import { redis } from '@devvit/web/server';
 
 export interface ChronicleTemplate {
@@ -27,6 +50,16 @@ export interface ChronicleSchedule {
   lastRunTime?: Date;
 }
 
+// Everything a chronicle template can refer to
+export interface ChronicleTemplateData {
+  gameState: GameState;
+  dailyStats?: DailyGrowthStats | undefined;
+  topContributors?: LeaderboardEntry[];
+  milestone?: string;
+  weeklyHistory?: DailyGrowthStats[];
+  week?: WeeklySummary;
+}
+
 export interface GeneratedChronicle {
   title: string;
   content: string;
@@ -40,10 +73,114 @@ export interface GeneratedChronicle {
   };
 }
 
+export interface ChronicleTemplateInput extends ChronicleTemplateDraft {
+  // Use this template for its type's automatic chronicles
+  active?: boolean;
+}
+
+/**
+ * A moderator-supplied template that can't be saved or rendered, with the reason
+ */
+export class TemplateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateValidationError';
+  }
+}
+
+export const CHRONICLE_TEMPLATE_TYPES: readonly ChronicleTemplateType[] = ['daily', 'weekly', 'milestone'];
+
+// Built-in template each type falls back to
+const BUILTIN_TEMPLATE_IDS: Record<ChronicleTemplateType, string> = {
+  daily: 'daily_standard',
+  weekly: 'weekly_summary',
+  milestone: 'milestone_achievement',
+};
+
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+export const CHRONICLE_TEMPLATE_VARIABLES: ChronicleTemplateVariable[] = [
+  { name: 'gameState.subredditName', description: 'Name of the subreddit', types: ['daily', 'weekly', 'milestone'] },
+  { name: 'gameState.treeLevel', description: 'Current Spirit Tree level', types: ['daily', 'weekly', 'milestone'] },
+  { name: 'gameState.totalGrowth', description: 'All-time growth points', types: ['daily', 'weekly', 'milestone'] },
+  { name: 'gameState.seedsPlanted', description: 'All-time seeds planted', types: ['daily', 'weekly', 'milestone'] },
+  { name: 'gameState.spiritsFed', description: 'All-time spirits fed', types: ['daily', 'weekly', 'milestone'] },
+  { name: 'gameState.robotCharged', description: 'All-time robot charges', types: ['daily', 'weekly', 'milestone'] },
+  { name: 'gameState.dailyUpvotes', description: 'Upvotes counted today', types: ['daily', 'weekly', 'milestone'] },
+  { name: 'dailyStats.seedsPlanted', description: 'Seeds planted today', types: ['daily'] },
+  { name: 'dailyStats.spiritsFed', description: 'Spirits fed today', types: ['daily'] },
+  { name: 'dailyStats.robotCharged', description: 'Robot charges today', types: ['daily'] },
+  { name: 'dailyStats.redditUpvotes', description: 'Reddit upvotes today', types: ['daily'] },
+  { name: 'dailyStats.totalGrowth', description: 'Growth generated today', types: ['daily'] },
+  { name: 'dailyStats.activePlayerCount', description: 'Gardeners active today', types: ['daily'] },
+  {
+    name: 'topContributors',
+    description: 'Top gardeners for the period; use with #each, entries have rank, username and score',
+    types: ['daily', 'weekly', 'milestone'],
+  },
+  {
+    name: 'weeklyHistory',
+    description: 'Daily stats for the last 7 days; use with #each, entries have the dailyStats fields and date',
+    types: ['weekly'],
+  },
+  { name: 'week.startDate', description: 'First day of the week covered (YYYY-MM-DD)', types: ['weekly'] },
+  { name: 'week.endDate', description: 'Last day of the week covered (YYYY-MM-DD)', types: ['weekly'] },
+  {
+    name: 'week.totals',
+    description: 'Week totals: seedsPlanted, spiritsFed, robotCharged, redditUpvotes and totalGrowth',
+    types: ['weekly'],
+  },
+  { name: 'week.previousTotals', description: 'The same totals for the week before', types: ['weekly'] },
+  {
+    name: 'week.change',
+    description: 'Change from the week before for each total; use with formatChange, e.g. week.change.totalGrowth',
+    types: ['weekly'],
+  },
+  { name: 'week.bestDay', description: 'Day with the most growth (dailyStats fields and date), if any', types: ['weekly'] },
+  { name: 'week.activePlayers', description: 'Distinct gardeners who acted this week', types: ['weekly'] },
+  { name: 'week.previousActivePlayers', description: 'Distinct gardeners who acted the week before', types: ['weekly'] },
+  { name: 'week.newPlayers', description: 'Gardeners whose first action was this week', types: ['weekly'] },
+  { name: 'week.averageActivePlayers', description: 'Average daily active gardeners', types: ['weekly'] },
+  { name: 'week.peakActivePlayers', description: 'Most active gardeners on a single day', types: ['weekly'] },
+  {
+    name: 'week.topContributors',
+    description: 'Top gardeners by growth this week; use with #each, entries have rank, username, growth and actions',
+    types: ['weekly'],
+  },
+  { name: 'milestone', description: 'Name of the milestone reached', types: ['milestone'] },
+];
+
+export const CHRONICLE_TEMPLATE_HELPERS: ChronicleTemplateHelper[] = [
+  { name: 'formatNumber', usage: '{{formatNumber gameState.seedsPlanted}}', description: 'Number with thousands separators' },
+  { name: 'formatGrowth', usage: '{{formatGrowth gameState.totalGrowth}}', description: 'Growth with one decimal place' },
+  { name: 'getTreeEmoji', usage: '{{getTreeEmoji gameState.treeLevel}}', description: 'Tree emoji for a level' },
+  { name: 'getProgressBar', usage: '{{getProgressBar gameState.treeLevel}}', description: 'Tree growth progress bar' },
+  { name: 'formatChange', usage: '{{formatChange week.change.totalGrowth}}', description: 'Signed week-over-week change, e.g. +12%' },
+];
+
+const requireNumber = (value: unknown): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`expected a number, got ${String(value)}`);
+  }
+  return value;
+};
+
+const formatChange = (value: unknown): string => {
+  const change = value as WeekOverWeekChange | null;
+  if (typeof change !== 'object' || change === null || typeof change.difference !== 'number') {
+    throw new Error('expected a week-over-week change, such as week.change.totalGrowth');
+  }
+  if (change.percent === null) {
+    return change.difference > 0 ? 'new this week' : 'no change';
+  }
+  return `${change.percent > 0 ? '+' : ''}${Math.round(change.percent)}%`;
+};
+
 export class ChronicleGenerationService {
   private readonly templates: Map<string, ChronicleTemplate> = new Map();
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000;
+  private readonly topContributorLimit = 5;
 
   constructor() {
     this.initializeTemplates();
@@ -59,16 +196,16 @@ export class ChronicleGenerationService {
         throw new Error(`Game state not found for subreddit: ${subredditName}`);
       }
 
-      const dailyStats = await growthCalculationService.getDailyStats(subredditName);
-      const template = this.templates.get('daily_standard')!;
+      const template = await this.getActiveTemplate(subredditName, 'daily');
+      const data = await this.buildTemplateData(subredditName, 'daily', gameState);
       
-      const chronicle = await this.generateFromTemplate(template, gameState, dailyStats);
+      const chronicle = this.renderChronicleTemplate(template, data);
       
       return {
         ...chronicle,
         type: 'daily',
         gameState,
-        dailyStats,
+        ...(data.dailyStats && { dailyStats: data.dailyStats }),
         metadata: {
           generatedAt: new Date(),
           templateUsed: template.id,
@@ -91,8 +228,9 @@ export class ChronicleGenerationService {
         throw new Error(`Game state not found for subreddit: ${subredditName}`);
       }
 
-      const template = this.templates.get('milestone_achievement')!;
-      const chronicle = await this.generateFromTemplate(template, gameState, undefined, { milestone });
+      const template = await this.getActiveTemplate(subredditName, 'milestone');
+      const data = await this.buildTemplateData(subredditName, 'milestone', gameState, milestone);
+      const chronicle = this.renderChronicleTemplate(template, data);
       
       return {
         ...chronicle,
@@ -117,11 +255,10 @@ export class ChronicleGenerationService {
         throw new Error(`Game state not found for subredditName: ${subredditName}`);
       }
 
-      // Get weekly stats
-      const weeklyHistory = await growthCalculationService.getGrowthHistory(subredditName, 7);
-      const template = this.templates.get('weekly_summary')!;
+      const template = await this.getActiveTemplate(subredditName, 'weekly');
+      const data = await this.buildTemplateData(subredditName, 'weekly', gameState);
       
-      const chronicle = await this.generateFromTemplate(template, gameState, undefined, { weeklyHistory });
+      const chronicle = this.renderChronicleTemplate(template, data);
       
       return {
         ...chronicle,
@@ -137,56 +274,91 @@ export class ChronicleGenerationService {
   }
 
   /**
-   * Check if any chronicles should be automatically generated and posted
+   * Check if any chronicles are due at `now` and generate and post them,
+   * then post any queued milestone chronicles
    */
-  async processScheduledChronicles(subredditName: string): Promise<void> {
-    return this.withRetry(async () => {
+  async processScheduledChronicles(subredditName: string, now: Date = new Date()): Promise<void> {
+    await this.withRetry(async () => {
       const schedules = await this.getChronicleSchedules(subredditName);
-      const now = new Date();
+      const day = await gardenRegistryService.getDaySettings(subredditName);
 
       for (const schedule of schedules) {
         if (!schedule.isActive || schedule.nextRunTime > now) {
           continue;
         }
 
-        try {
-          let chronicle: GeneratedChronicle;
-          
-          switch (schedule.scheduleType) {
-            case 'daily':
-              chronicle = await this.generateDailyChronicle(subredditName);
-              break;
-            case 'weekly':
-              chronicle = await this.generateWeeklyChronicle(subredditName);
-              break;
-            default:
-              continue;
-          }
+        // Claim the period first, so a retry or an overlapping run can't post it again
+        const period = getGardenDate(schedule.nextRunTime, day);
+        const claim = await chronicleHistoryService.claim(subredditName, schedule.scheduleType, period, now);
+        if (!claim.claimed) {
+          // Posted, or being posted, by another run; move the schedule on so a
+          // run that died mid-post doesn't hold it at this period forever
+          await this.updateScheduleNextRun(schedule, now, day);
+          console.log(`Chronicle ${claim.record.id} for ${subredditName} is already ${claim.record.status}, skipping`);
+          continue;
+        }
 
-          // Post the chronicle to Reddit
-          const postData: RedditPostData = {
-            title: chronicle.title,
-            content: chronicle.content,
-            subredditName,
-            postType: schedule.scheduleType === 'daily' ? 'daily_summary' : 'community_update',
-          };
-
-          const postResult = await redditPostingService.postCommunityUpdate(postData);
-          
-          if (postResult.success) {
+        const posted = await this.postClaimedChronicle(
+          subredditName,
+          claim.record.id,
+          () =>
+            schedule.scheduleType === 'daily'
+              ? this.generateDailyChronicle(subredditName)
+              : this.generateWeeklyChronicle(subredditName),
+          schedule.scheduleType === 'daily' ? 'daily_summary' : 'community_update',
+          now
+        );
+
+        if (posted) {
+          try {
             // Update schedule for next run
-            await this.updateScheduleNextRun(schedule);
-            
-            // Log successful chronicle posting
-            console.log(`Chronicle posted successfully for ${subredditName}: ${postResult.postUrl}`);
-          } else {
-            console.error(`Failed to post chronicle for ${subredditName}: ${postResult.error}`);
+            await this.updateScheduleNextRun(schedule, now, day);
+          } catch (error) {
+            // The claim stops a repost; the next tick moves the schedule on
+            console.error(`Failed to advance the ${schedule.scheduleType} chronicle schedule for ${subredditName}:`, error);
           }
-        } catch (error) {
-          console.error(`Error processing scheduled chronicle for ${subredditName}:`, error);
         }
       }
     });
+
+    await this.processMilestoneChronicles(subredditName, now);
+  }
+
+  /**
+   * Post a chronicle for each queued milestone the garden's moderators have
+   * left switched on. Each milestone is posted at most once per garden; a
+   * failed post stays queued for the next tick, up to a few attempts.
+   */
+  async processMilestoneChronicles(subredditName: string, now: Date = new Date()): Promise<void> {
+    const [queued, config] = await Promise.all([
+      milestoneChronicleService.getQueued(subredditName),
+      milestoneChronicleService.getConfig(subredditName),
+    ]);
+
+    for (const { milestone } of queued) {
+      if (!milestoneChronicleService.isAutoPosted(config, milestone)) {
+        await milestoneChronicleService.remove(subredditName, [milestone.id]);
+        continue;
+      }
+
+      const claim = await chronicleHistoryService.claim(subredditName, 'milestone', milestone.id, now);
+      if (!claim.claimed) {
+        await milestoneChronicleService.remove(subredditName, [milestone.id]);
+        continue;
+      }
+
+      const posted = await this.postClaimedChronicle(
+        subredditName,
+        claim.record.id,
+        () => this.generateMilestoneChronicle(subredditName, milestone.label),
+        'milestone',
+        now
+      );
+
+      if (posted || claim.record.attempts >= GAME_CONFIG.MILESTONES.MAX_POST_ATTEMPTS) {
+        await milestoneChronicleService.remove(subredditName, [milestone.id]);
+      }
+    }
   }
 
   /**
@@ -201,7 +373,9 @@ export class ChronicleGenerationService {
       const schedule: ChronicleSchedule = {
         subredditName,
         scheduleType,
-        nextRunTime: startTime || this.calculateNextRunTime(scheduleType),
+        nextRunTime:
+          startTime ||
+          this.calculateNextRunTime(scheduleType, new Date(), await gardenRegistryService.getDaySettings(subredditName)),
         isActive: true,
       };
 
@@ -210,46 +384,484 @@ export class ChronicleGenerationService {
   }
 
   /**
-   * Generate chronicle content from template
+   * Move a garden's active schedules onto its current day settings. A run
+   * still to come today keeps today's slot; one already posted for its garden
+   * day is refused by the post history and moves on.
    */
-  private async generateFromTemplate(
-    template: ChronicleTemplate,
+  async rescheduleChronicles(subredditName: string, now: Date = new Date()): Promise<void> {
+    return this.withRetry(async () => {
+      const day = await gardenRegistryService.getDaySettings(subredditName);
+      const yesterdayStart = getGardenDayStart(addDays(getGardenDate(now, day), -1), day);
+
+      for (const schedule of await this.getChronicleSchedules(subredditName)) {
+        if (schedule.isActive) {
+          schedule.nextRunTime = this.calculateNextRunTime(schedule.scheduleType, yesterdayStart, day);
+          await this.saveChronicleSchedule(schedule);
+        }
+      }
+    });
+  }
+
+  /**
+   * Built-in chronicle templates
+   */
+  getTemplates(): ChronicleTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  /**
+   * A garden's templates: the built-ins, with any moderator edits applied, plus its custom templates
+   */
+  async listTemplates(subredditName: string): Promise<ChronicleTemplateInfo[]> {
+    const [custom, activeIds] = await Promise.all([
+      chronicleTemplateService.getCustomTemplates(subredditName),
+      chronicleTemplateService.getActiveTemplateIds(subredditName),
+    ]);
+    const customById = new Map(custom.map(template => [template.id, template]));
+    const isActive = (id: string, type: ChronicleTemplateType) => (activeIds[type] ?? BUILTIN_TEMPLATE_IDS[type]) === id;
+
+    const builtins = CHRONICLE_TEMPLATE_TYPES.map(type => {
+      const id = BUILTIN_TEMPLATE_IDS[type];
+      const override = customById.get(id);
+      return override
+        ? this.toTemplateInfo(override, isActive(id, type))
+        : this.toTemplateInfo(this.templates.get(id)!, isActive(id, type));
+    });
+    const customOnly = custom
+      .filter(template => !this.isBuiltinId(template.id))
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(template => this.toTemplateInfo(template, isActive(template.id, template.type)));
+
+    return [...builtins, ...customOnly];
+  }
+
+  /**
+   * One of a garden's templates, or null if there is no such template
+   */
+  async getTemplate(subredditName: string, templateId: string): Promise<ChronicleTemplateInfo | null> {
+    const templates = await this.listTemplates(subredditName);
+    return templates.find(template => template.id === templateId) ?? null;
+  }
+
+  /**
+   * Validate and save a new version of a garden's template. Saving a built-in
+   * id overrides the default for this garden only.
+   */
+  async saveTemplate(
+    subredditName: string,
+    templateId: string,
+    input: ChronicleTemplateInput,
+    updatedBy: string
+  ): Promise<ChronicleTemplateInfo> {
+    const draft = this.validateTemplate(templateId, input);
+    await chronicleTemplateService.saveVersion(subredditName, templateId, draft, updatedBy);
+
+    if (input.active) {
+      await chronicleTemplateService.setActiveTemplate(subredditName, draft.type, templateId);
+    }
+
+    return (await this.getTemplate(subredditName, templateId))!;
+  }
+
+  /**
+   * Delete a garden's template; a built-in id goes back to the default.
+   * Returns false if the garden had no such custom template.
+   */
+  async deleteTemplate(subredditName: string, templateId: string, deletedBy: string): Promise<boolean> {
+    const existing = await chronicleTemplateService.getCustomTemplate(subredditName, templateId);
+    if (!existing) {
+      return false;
+    }
+
+    const deleted = await chronicleTemplateService.deleteTemplate(subredditName, templateId, deletedBy);
+    const activeIds = await chronicleTemplateService.getActiveTemplateIds(subredditName);
+    if (deleted && activeIds[existing.type] === templateId && !this.isBuiltinId(templateId)) {
+      await chronicleTemplateService.clearActiveTemplate(subredditName, existing.type);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Make an earlier version of a template current again, as a new version.
+   * Returns null if that version isn't in the template's history.
+   */
+  async rollbackTemplate(
+    subredditName: string,
+    templateId: string,
+    version: number,
+    updatedBy: string
+  ): Promise<ChronicleTemplateInfo | null> {
+    const target = await chronicleTemplateService.getVersion(subredditName, templateId, version);
+    if (!target) {
+      return null;
+    }
+    if (target.deleted) {
+      throw new TemplateValidationError(`Version ${version} records the template being deleted; pick an earlier one`);
+    }
+
+    const draft = this.validateTemplate(templateId, target);
+    await chronicleTemplateService.saveVersion(subredditName, templateId, draft, updatedBy, version);
+    return (await this.getTemplate(subredditName, templateId))!;
+  }
+
+  /**
+   * Render a saved template, or an unsaved draft, against the garden's live
+   * state without posting anything. Returns null if the garden has no game state.
+   */
+  async previewTemplate(
+    subredditName: string,
+    source: { templateId: string } | { draft: ChronicleTemplateDraft }
+  ): Promise<{ type: ChronicleTemplateType; title: string; content: string } | null> {
+    let template: ChronicleTemplateDraft;
+    if ('templateId' in source) {
+      const saved = await this.getTemplate(subredditName, source.templateId);
+      if (!saved) {
+        throw new TemplateValidationError(`Unknown template "${source.templateId}"`);
+      }
+      template = saved;
+    } else {
+      template = this.validateDraftShape(source.draft);
+    }
+
+    const gameState = await redisGameService.getGameState(subredditName);
+    if (!gameState) {
+      return null;
+    }
+
+    const data = await this.buildTemplateData(subredditName, template.type, gameState, 'Preview milestone');
+    try {
+      return { type: template.type, ...this.renderChronicleTemplate(template, data) };
+    } catch (error) {
+      throw this.toValidationError(error);
+    }
+  }
+
+  /**
+   * Generate and post a chronicle whose period is already claimed, recording
+   * the outcome in the chronicle history. Returns whether it was posted.
+   */
+  private async postClaimedChronicle(
+    subredditName: string,
+    claimId: string,
+    generate: () => Promise<GeneratedChronicle>,
+    postType: RedditPostData['postType'],
+    now: Date
+  ): Promise<boolean> {
+    let templateId: string | undefined;
+    let posted = false;
+
+    try {
+      const chronicle = await generate();
+      templateId = chronicle.metadata.templateUsed;
+
+      // Post the chronicle to Reddit
+      const postResult = await redditPostingService.postCommunityUpdate({
+        title: chronicle.title,
+        content: chronicle.content,
+        subredditName,
+        postType,
+      });
+
+      if (!postResult.success) {
+        await chronicleHistoryService.markFailed(
+          subredditName,
+          claimId,
+          postResult.error ?? 'Unknown posting error',
+          templateId
+        );
+        console.error(`Failed to post chronicle for ${subredditName}: ${postResult.error}`);
+        return false;
+      }
+
+      posted = true;
+      await chronicleHistoryService.markPosted(subredditName, claimId, {
+        templateId,
+        title: chronicle.title,
+        postId: postResult.postId!,
+        postUrl: postResult.postUrl!,
+      }, now);
+
+      // Log successful chronicle posting
+      console.log(`Chronicle posted successfully for ${subredditName}: ${postResult.postUrl}`);
+
+      await eventBusService.publish([
+        createDomainEvent(
+          'ChroniclePosted',
+          subredditName,
+          {
+            recordId: claimId,
+            chronicleType: chronicle.type,
+            title: chronicle.title,
+            postId: postResult.postId!,
+            postUrl: postResult.postUrl!,
+          },
+          now
+        ),
+      ]);
+      return true;
+    } catch (error) {
+      console.error(`Error processing chronicle ${claimId} for ${subredditName}:`, error);
+      if (posted) {
+        // The post is live; keep the claim so nothing posts it again
+        return true;
+      }
+
+      await chronicleHistoryService
+        .markFailed(subredditName, claimId, error instanceof Error ? error.message : String(error), templateId)
+        .catch(markError => console.error(`Failed to release chronicle claim ${claimId}:`, markError));
+      return false;
+    }
+  }
+
+  /**
+   * The template a garden uses for a type's automatic chronicles
+   */
+  private async getActiveTemplate(
+    subredditName: string,
+    type: ChronicleTemplateType
+  ): Promise<ChronicleTemplate | CustomChronicleTemplate> {
+    const builtin = this.templates.get(BUILTIN_TEMPLATE_IDS[type])!;
+
+    try {
+      const activeIds = await chronicleTemplateService.getActiveTemplateIds(subredditName);
+      const id = activeIds[type] ?? builtin.id;
+      const custom = await chronicleTemplateService.getCustomTemplate(subredditName, id);
+      if (custom && custom.type === type) {
+        return custom;
+      }
+    } catch (error) {
+      console.error(`Failed to load custom ${type} template for ${subredditName}, using the default:`, error);
+    }
+
+    return builtin;
+  }
+
+  /**
+   * Data a template of the given type is rendered with
+   */
+  private async buildTemplateData(
+    subredditName: string,
+    type: ChronicleTemplateType,
     gameState: GameState,
-    dailyStats?: DailyGrowthStats,
-    additionalData?: Record<string, any>
-  ): Promise<{ title: string; content: string }> {
-    const context = {
-      gameState,
-      dailyStats,
-      ...additionalData,
-      // Helper functions for templates
-      formatNumber: (num: number) => num.toLocaleString(),
-      formatGrowth: (growth: number) => growth.toFixed(1),
-      getTreeEmoji: (level: number) => this.getTreeEmoji(level),
-      getProgressBar: (level: number) => this.generateProgressBar(level),
+    milestone?: string
+  ): Promise<ChronicleTemplateData> {
+    switch (type) {
+      case 'daily':
+        return {
+          gameState,
+          dailyStats: await growthCalculationService.getDailyStats(subredditName),
+          topContributors: await this.getTopContributors(subredditName, 'daily'),
+        };
+      case 'weekly': {
+        const week = await weeklyAggregationService.getWeeklySummary(subredditName);
+        return {
+          gameState,
+          week,
+          weeklyHistory: week.days,
+          // The leaderboard for the week the summary covers, not the one just starting
+          topContributors: await this.getTopContributors(subredditName, 'weekly', new Date(`${week.startDate}T12:00:00Z`)),
+        };
+      }
+      case 'milestone':
+        return {
+          gameState,
+          ...(milestone !== undefined && { milestone }),
+          topContributors: await this.getTopContributors(subredditName, 'alltime'),
+        };
+    }
+  }
+
+  /**
+   * Check a moderator's template: well-formed fields, a built-in id keeps its
+   * type, and it renders against sample data for its type
+   */
+  private validateTemplate(templateId: string, input: ChronicleTemplateDraft): ChronicleTemplateDraft {
+    if (!TEMPLATE_ID_PATTERN.test(templateId)) {
+      throw new TemplateValidationError(
+        'Template id must be 1-40 lowercase letters, digits, dashes or underscores'
+      );
+    }
+
+    const draft = this.validateDraftShape(input);
+    const builtin = this.templates.get(templateId);
+    if (builtin && builtin.type !== draft.type) {
+      throw new TemplateValidationError(`"${templateId}" is the built-in ${builtin.type} template and must stay ${builtin.type}`);
+    }
+
+    try {
+      this.renderChronicleTemplate(draft, this.sampleTemplateData(draft.type));
+    } catch (error) {
+      throw this.toValidationError(error);
+    }
+
+    return draft;
+  }
+
+  private validateDraftShape(input: Partial<ChronicleTemplateDraft>): ChronicleTemplateDraft {
+    const { MAX_NAME_LENGTH, MAX_TEMPLATE_LENGTH } = GAME_CONFIG.CHRONICLE_TEMPLATES;
+    const { name, type, titleTemplate, contentTemplate } = input;
+
+    if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+      throw new TemplateValidationError(`Template name is required and at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (!type || !CHRONICLE_TEMPLATE_TYPES.includes(type)) {
+      throw new TemplateValidationError(`Template type must be one of: ${CHRONICLE_TEMPLATE_TYPES.join(', ')}`);
+    }
+    if (typeof titleTemplate !== 'string' || !titleTemplate.trim() || titleTemplate.length > 300) {
+      throw new TemplateValidationError('Title template is required and at most 300 characters');
+    }
+    if (typeof contentTemplate !== 'string' || !contentTemplate.trim() || contentTemplate.length > MAX_TEMPLATE_LENGTH) {
+      throw new TemplateValidationError(`Content template is required and at most ${MAX_TEMPLATE_LENGTH} characters`);
+    }
+
+    return { name: name.trim(), type, titleTemplate, contentTemplate };
+  }
+
+  private sampleTemplateData(type: ChronicleTemplateType): ChronicleTemplateData {
+    const now = new Date();
+    const stats: DailyGrowthStats = {
+      date: now.toISOString().split('T')[0]!,
+      seedsPlanted: 120,
+      spiritsFed: 45,
+      robotCharged: 12,
+      redditUpvotes: 30,
+      totalGrowth: 210.5,
+      activePlayerCount: 18,
+    };
+    const gameState: GameState = {
+      subredditName: 'sample_garden',
+      treeLevel: 3,
+      totalGrowth: 1520.5,
+      seedsPlanted: 900,
+      spiritsFed: 300,
+      robotCharged: 80,
+      dailyUpvotes: 30,
+      lastGrowthCalculation: now,
+      createdAt: now,
+      updatedAt: now,
+      version: 0,
+    };
+    const topContributors: LeaderboardEntry[] = [
+      { rank: 1, username: 'sample_gardener', score: 250 },
+      { rank: 2, username: 'another_gardener', score: 120 },
+    ];
+
+    switch (type) {
+      case 'daily':
+        return { gameState, dailyStats: stats, topContributors };
+      case 'weekly': {
+        const totals = {
+          seedsPlanted: stats.seedsPlanted,
+          spiritsFed: stats.spiritsFed,
+          robotCharged: stats.robotCharged,
+          redditUpvotes: stats.redditUpvotes,
+          totalGrowth: stats.totalGrowth,
+        };
+        const change = { difference: 10, percent: 5 };
+        const week: WeeklySummary = {
+          startDate: stats.date,
+          endDate: stats.date,
+          days: [stats],
+          totals,
+          previousTotals: totals,
+          change: { seedsPlanted: change, spiritsFed: change, robotCharged: change, redditUpvotes: change, totalGrowth: change },
+          bestDay: stats,
+          averageActivePlayers: stats.activePlayerCount,
+          peakActivePlayers: stats.activePlayerCount,
+          activePlayers: stats.activePlayerCount,
+          previousActivePlayers: stats.activePlayerCount,
+          newPlayers: 2,
+          topContributors: [{ rank: 1, username: 'sample_gardener', growth: 120.5, actions: 40 }],
+        };
+        return { gameState, week, weeklyHistory: [stats], topContributors };
+      }
+      case 'milestone':
+        return { gameState, milestone: 'Tree reached level 3', topContributors };
+    }
+  }
+
+  private toValidationError(error: unknown): Error {
+    return error instanceof TemplateError ? new TemplateValidationError(error.message) : (error as Error);
+  }
+
+  private toTemplateInfo(
+    template: ChronicleTemplate | CustomChronicleTemplate,
+    active: boolean
+  ): ChronicleTemplateInfo {
+    const custom = 'version' in template ? template : null;
+    return {
+      id: template.id,
+      name: template.name,
+      type: template.type as ChronicleTemplateType,
+      titleTemplate: template.titleTemplate,
+      contentTemplate: template.contentTemplate,
+      source: custom ? 'custom' : 'builtin',
+      active,
+      version: custom ? custom.version : 0,
+      ...(custom && { updatedAt: custom.updatedAt, updatedBy: custom.updatedBy }),
     };
+  }
 
-    const title = this.processTemplate(template.titleTemplate, context);
-    const content = this.processTemplate(template.contentTemplate, context);
+  private isBuiltinId(templateId: string): boolean {
+    return this.templates.has(templateId);
+  }
 
-    return { title, content };
+  /**
+   * Render a template's title and content. Titles are plain text on Reddit, so
+   * only the content escapes markdown in looked-up values.
+   */
+  renderChronicleTemplate(
+    template: Pick<ChronicleTemplate, 'titleTemplate' | 'contentTemplate'>,
+    data: ChronicleTemplateData
+  ): { title: string; content: string } {
+    // Every field is present so templates can test optional ones with #if
+    const context: Record<string, unknown> = {
+      dailyStats: undefined,
+      topContributors: [],
+      milestone: undefined,
+      weeklyHistory: [],
+      ...data,
+    };
+    const helpers = this.getTemplateHelpers();
+
+    return {
+      title: compileTemplate(template.titleTemplate).render(context, { helpers, escapeMarkdown: false }),
+      content: compileTemplate(template.contentTemplate).render(context, { helpers }),
+    };
   }
 
   /**
-   * Process template string with context variables
+   * Helper functions available to templates
    */
-  private processTemplate(template: string, context: Record<string, any>): string {
-    return template.replace(/\{\{(\w+(?:\.\w+)*)\}\}/g, (match, path) => {
-      const value = this.getNestedValue(context, path);
-      return value !== undefined ? String(value) : match;
-    });
+  private getTemplateHelpers(): TemplateHelpers {
+    return {
+      formatNumber: (num: unknown) => requireNumber(num).toLocaleString('en-US'),
+      formatGrowth: (growth: unknown) => requireNumber(growth).toFixed(1),
+      getTreeEmoji: (level: unknown) => this.getTreeEmoji(requireNumber(level)),
+      getProgressBar: (level: unknown) => this.generateProgressBar(requireNumber(level)),
+      formatChange,
+    };
   }
 
   /**
-   * Get nested value from object using dot notation
+   * Top contributors for a chronicle; an unavailable leaderboard just leaves the section out
    */
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  private async getTopContributors(
+    subredditName: string,
+    window: LeaderboardWindow,
+    at: Date = new Date()
+  ): Promise<LeaderboardEntry[]> {
+    try {
+      const page = await leaderboardService.getLeaderboard(subredditName, window, {
+        limit: this.topContributorLimit,
+        now: at,
+      });
+      return page.entries.filter(entry => entry.score > 0);
+    } catch (error) {
+      console.error(`Failed to load top contributors for ${subredditName}:`, error);
+      return [];
+    }
   }
 
   /**
@@ -283,6 +895,13 @@ Our community garden continues to flourish thanks to everyone's contributions! H
 
 {{getProgressBar gameState.treeLevel}}
 
+{{#if topContributors}}
+## 🏆 Today's Top Gardeners
+{{#each topContributors}}
+{{@number}}. u/{{username}} — {{formatNumber score}} 🍯
+{{/each}}
+
+{{/if}}
 ## 🎯 What's Next?
 Keep nurturing our Spirit Tree! Every action counts:
 - 🌿 **Plant seeds** to expand our garden
@@ -318,6 +937,13 @@ Our community garden has reached new heights thanks to everyone's dedication and
 
 {{getProgressBar gameState.treeLevel}}
 
+{{#if topContributors}}
+## 💛 Our Top Gardeners
+{{#each topContributors}}
+{{@number}}. u/{{username}} — {{formatNumber score}} 🍯
+{{/each}}
+
+{{/if}}
 This milestone represents the collective effort of our entire community. Every seed planted, every spirit fed, and every robot charge has contributed to this moment!
 
 ## 🚀 Keep the Momentum Going!
@@ -343,15 +969,29 @@ Let's celebrate this achievement and keep growing together:
 
 What an incredible week for our community garden! Let's celebrate our collective achievements:
 
-## 📈 Weekly Highlights
+## 📈 This Week ({{week.startDate}} to {{week.endDate}})
+- **📈 Growth:** {{formatGrowth week.totals.totalGrowth}} ({{formatChange week.change.totalGrowth}} vs last week)
+- **🌱 Seeds Planted:** {{formatNumber week.totals.seedsPlanted}} ({{formatChange week.change.seedsPlanted}})
+- **👻 Spirits Fed:** {{formatNumber week.totals.spiritsFed}} ({{formatChange week.change.spiritsFed}})
+- **🤖 Robot Charges:** {{formatNumber week.totals.robotCharged}} ({{formatChange week.change.robotCharged}})
+- **👥 Active Gardeners:** {{formatNumber week.activePlayers}}, {{formatNumber week.newPlayers}} of them new
+{{#if week.bestDay}}
+- **⭐ Best Day:** {{week.bestDay.date}}, with {{formatGrowth week.bestDay.totalGrowth}} growth
+{{/if}}
+
+## 🌳 Garden Status
 - **Current Tree Level:** {{gameState.treeLevel}}
 - **Total Growth:** {{formatGrowth gameState.totalGrowth}}
-- **Seeds in Garden:** {{formatNumber gameState.seedsPlanted}}
-- **Spirits Fed:** {{formatNumber gameState.spiritsFed}}
-- **Robot Power Level:** {{formatNumber gameState.robotCharged}}
 
 {{getProgressBar gameState.treeLevel}}
 
+{{#if week.topContributors}}
+## 🏆 Gardeners of the Week
+{{#each week.topContributors}}
+{{@number}}. u/{{username}} — {{formatGrowth growth}} growth from {{formatNumber actions}} actions
+{{/each}}
+
+{{/if}}
 ## 🌟 Community Impact
 Our garden represents the power of collaboration! Every member who planted a seed, fed a spirit, or charged our robot has contributed to this beautiful shared space.
 
@@ -396,24 +1036,19 @@ The coming week brings new opportunities to grow:
   }
 
   /**
-   * Calculate next run time based on schedule type
+   * Calculate next run time based on schedule type, in the garden's day
    */
-  private calculateNextRunTime(scheduleType: 'daily' | 'weekly'): Date {
-    const now = new Date();
-    const nextRun = new Date(now);
+  private calculateNextRunTime(scheduleType: 'daily' | 'weekly', from: Date, day: GardenDaySettings): Date {
+    const today = getGardenDate(from, day);
 
     if (scheduleType === 'daily') {
-      // Schedule for next day at 9 AM UTC
-      nextRun.setUTCDate(nextRun.getUTCDate() + 1);
-      nextRun.setUTCHours(9, 0, 0, 0);
-    } else if (scheduleType === 'weekly') {
-      // Schedule for next Monday at 9 AM UTC
-      const daysUntilMonday = (8 - nextRun.getUTCDay()) % 7 || 7;
-      nextRun.setUTCDate(nextRun.getUTCDate() + daysUntilMonday);
-      nextRun.setUTCHours(9, 0, 0, 0);
+      // Schedule for the next garden day at 9 AM garden time
+      return getGardenTime(addDays(today, 1), GAME_CONFIG.GARDEN_DAY.CHRONICLE_HOUR, day);
     }
 
-    return nextRun;
+    // Schedule for next Monday at 9 AM garden time
+    const daysUntilMonday = (8 - getWeekday(today)) % 7 || 7;
+    return getGardenTime(addDays(today, daysUntilMonday), GAME_CONFIG.GARDEN_DAY.CHRONICLE_HOUR, day);
   }
 
   /**
@@ -452,9 +1087,9 @@ The coming week brings new opportunities to grow:
   /**
    * Update schedule for next run
    */
-  private async updateScheduleNextRun(schedule: ChronicleSchedule): Promise<void> {
-    schedule.lastRunTime = new Date();
-    schedule.nextRunTime = this.calculateNextRunTime(schedule.scheduleType);
+  private async updateScheduleNextRun(schedule: ChronicleSchedule, now: Date, day: GardenDaySettings): Promise<void> {
+    schedule.lastRunTime = now;
+    schedule.nextRunTime = this.calculateNextRunTime(schedule.scheduleType, now, day);
     
     await this.saveChronicleSchedule(schedule);
   }
@@ -0,0 +1,237 @@
+import { redis } from '@devvit/web/server';
+import {
+  ChroniclePostRecord,
+  ChronicleTemplateType,
+  REDIS_KEYS,
+  ERROR_MESSAGES,
+  GAME_CONFIG
+} from '../../shared/types';
+import { withOptimisticTransaction } from '../core/transaction';
+import { InvalidCursorError } from './ActionLogService';
+
+export interface ChronicleClaim {
+  // False when another run already posted, or is posting, this period
+  claimed: boolean;
+  record: ChroniclePostRecord;
+}
+
+export interface ChroniclePostDetails {
+  templateId: string;
+  title: string;
+  postId: string;
+  postUrl: string;
+}
+
+export interface ChronicleHistoryPage {
+  posts: ChroniclePostRecord[];
+  nextCursor: string | null;
+}
+
+interface StoredPostRecord extends Omit<ChroniclePostRecord, 'claimedAt' | 'postedAt'> {
+  claimedAt: string;
+  postedAt?: string;
+}
+
+/**
+ * Per-garden record of chronicle posts, doubling as the idempotency guard for
+ * posting them.
+ *
+ * A run claims `type:period` before calling Reddit. The claim is only granted
+ * when the period has no record yet or its last attempt failed, so retries,
+ * overlapping ticks and a crash after a successful submit never post the same
+ * chronicle twice. A claim left pending by a crashed run is not retaken: we
+ * can't tell whether the post went out, and a missed chronicle beats a duplicate.
+ */
+export class ChronicleHistoryService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Id of a chronicle period within a garden
+   */
+  getPeriodId(type: ChronicleTemplateType, period: string): string {
+    return `${type}:${period}`;
+  }
+
+  /**
+   * Claim a chronicle period for posting
+   */
+  async claim(
+    subredditName: string,
+    type: ChronicleTemplateType,
+    period: string,
+    now: Date = new Date()
+  ): Promise<ChronicleClaim> {
+    const postsKey = REDIS_KEYS.CHRONICLE_POSTS(subredditName);
+    const indexKey = REDIS_KEYS.CHRONICLE_POST_INDEX(subredditName);
+    const id = this.getPeriodId(type, period);
+
+    return withOptimisticTransaction<ChronicleClaim>([postsKey], async () => {
+      const data = await redis.hGet(postsKey, id);
+      const existing: StoredPostRecord | null = data ? JSON.parse(data) : null;
+
+      if (existing && existing.status !== 'failed') {
+        return {
+          // Rewriting the same value keeps EXEC's reply non-empty
+          write: async tx => void (await tx.hSet(postsKey, { [id]: data! })),
+          result: { claimed: false, record: this.toRecord(existing) },
+        };
+      }
+
+      const record: StoredPostRecord = {
+        id,
+        subredditName,
+        type,
+        period,
+        status: 'pending',
+        attempts: (existing?.attempts ?? 0) + 1,
+        claimedAt: now.toISOString(),
+      };
+      const overflow = await redis.zRange(indexKey, 0, -GAME_CONFIG.CHRONICLE_HISTORY.MAX_ENTRIES, {
+        by: 'rank',
+      });
+      // Oldest entries past the cap once this claim is added
+      const expired = overflow.map(entry => entry.member).filter(member => member !== id);
+
+      return {
+        write: async tx => {
+          await tx.hSet(postsKey, { [id]: JSON.stringify(record) });
+          await tx.zAdd(indexKey, { member: id, score: now.getTime() });
+          if (expired.length > 0) {
+            await tx.zRem(indexKey, expired);
+            await tx.hDel(postsKey, expired);
+          }
+        },
+        result: { claimed: true, record: this.toRecord(record) },
+      };
+    });
+  }
+
+  /**
+   * Record that a claimed chronicle was posted
+   */
+  async markPosted(
+    subredditName: string,
+    id: string,
+    details: ChroniclePostDetails,
+    at: Date = new Date()
+  ): Promise<void> {
+    await this.update(subredditName, id, record => ({
+      ...record,
+      status: 'posted',
+      templateId: details.templateId,
+      title: details.title,
+      postId: details.postId,
+      postUrl: details.postUrl,
+      postedAt: at.toISOString(),
+    }));
+  }
+
+  /**
+   * Record that posting a claimed chronicle failed, releasing the claim for a retry
+   */
+  async markFailed(subredditName: string, id: string, error: string, templateId?: string): Promise<void> {
+    await this.update(subredditName, id, record => ({
+      ...record,
+      status: 'failed',
+      error,
+      ...(templateId && { templateId }),
+    }));
+  }
+
+  /**
+   * A garden's chronicle posts, newest claim first
+   */
+  async getHistory(
+    subredditName: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<ChronicleHistoryPage> {
+    const limit = Math.max(1, Math.floor(options.limit ?? GAME_CONFIG.CHRONICLE_HISTORY.DEFAULT_PAGE_SIZE));
+    const offset = options.cursor === undefined ? 0 : this.decodeCursor(options.cursor);
+
+    return this.withRetry(async () => {
+      const entries = await redis.zRange(
+        REDIS_KEYS.CHRONICLE_POST_INDEX(subredditName),
+        offset,
+        offset + limit,
+        { by: 'rank', reverse: true }
+      );
+      const ids = entries.slice(0, limit).map(entry => entry.member);
+      const values = ids.length > 0 ? await redis.hMGet(REDIS_KEYS.CHRONICLE_POSTS(subredditName), ids) : [];
+      const posts = values
+        .filter((value): value is string => !!value)
+        .map(value => this.toRecord(JSON.parse(value)));
+
+      return { posts, nextCursor: entries.length > limit ? String(offset + limit) : null };
+    });
+  }
+
+  /**
+   * A single period's record, or null if it was never claimed
+   */
+  async getRecord(subredditName: string, id: string): Promise<ChroniclePostRecord | null> {
+    return this.withRetry(async () => {
+      const data = await redis.hGet(REDIS_KEYS.CHRONICLE_POSTS(subredditName), id);
+      return data ? this.toRecord(JSON.parse(data)) : null;
+    });
+  }
+
+  private async update(
+    subredditName: string,
+    id: string,
+    change: (record: StoredPostRecord) => StoredPostRecord
+  ): Promise<void> {
+    return this.withRetry(async () => {
+      const postsKey = REDIS_KEYS.CHRONICLE_POSTS(subredditName);
+      const data = await redis.hGet(postsKey, id);
+      if (!data) {
+        throw new Error(`No chronicle claim ${id} for ${subredditName}`);
+      }
+      await redis.hSet(postsKey, { [id]: JSON.stringify(change(JSON.parse(data))) });
+    });
+  }
+
+  private toRecord(stored: StoredPostRecord): ChroniclePostRecord {
+    const { claimedAt, postedAt, ...rest } = stored;
+    return {
+      ...rest,
+      claimedAt: new Date(claimedAt),
+      ...(postedAt && { postedAt: new Date(postedAt) }),
+    };
+  }
+
+  private decodeCursor(cursor: string): number {
+    if (!/^\d+$/.test(cursor)) {
+      throw new InvalidCursorError(cursor, 'chronicle history');
+    }
+    return Number(cursor);
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const chronicleHistoryService = new ChronicleHistoryService();
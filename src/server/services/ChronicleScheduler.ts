@@ -1,104 +1,284 @@
+import { redis } from '@devvit/web/server';
+import { REDIS_KEYS, ScheduledJobName, ScheduledJobStatus, SchedulerStatus } from '../../shared/types';
+import { Clock, systemClock } from '../core/clock';
+import { nextCronRun } from '../core/cron';
 import { chronicleGenerationService } from './ChronicleGenerationService';
+import { gardenRegistryService } from './GardenRegistryService';
+import { maintenanceService } from './MaintenanceService';
+import { eventBusService } from './EventBusService';
 
+export interface ScheduledJobDefinition {
+  name: ScheduledJobName;
+  // Task name in the scheduler section of devvit.json
+  task: string;
+  cron: string;
+  endpoint: string;
+  // A crashed run's lock expires after this, so later ticks aren't blocked forever
+  lockTtlSeconds: number;
+}
+
+/**
+ * Jobs run by Devvit's scheduler. Each one must have a matching task in
+ * devvit.json; the cron there is what actually fires the endpoint.
+ */
+export const SCHEDULED_JOBS: readonly ScheduledJobDefinition[] = [
+  {
+    name: 'chronicles',
+    task: 'chronicle-tick',
+    cron: '*/5 * * * *',
+    endpoint: '/internal/scheduler/chronicles',
+    lockTtlSeconds: 4 * 60,
+  },
+  {
+    name: 'maintenance',
+    task: 'garden-maintenance',
+    cron: '30 4 * * *',
+    endpoint: '/internal/scheduler/maintenance',
+    lockTtlSeconds: 30 * 60,
+  },
+];
+
+export interface JobSummary {
+  gardens: number;
+  failures: string[];
+}
+
+export interface JobRunResult {
+  job: ScheduledJobName;
+  outcome: 'ok' | 'error' | 'skipped';
+  // Why a run was skipped: the job is stopped, or another run holds its lock
+  reason?: 'disabled' | 'locked';
+  ranAt: Date;
+  durationMs: number;
+  error?: string;
+  summary?: JobSummary;
+}
+
+interface StoredJobState {
+  enabled: boolean;
+  lastRunAt?: string;
+  lastOutcome?: 'ok' | 'error';
+  lastError?: string;
+  lastDurationMs?: number;
+}
+
+/**
+ * Runs chronicle and maintenance work as Devvit scheduled jobs.
+ *
+ * Devvit's scheduler fires each job's endpoint on its cron, so nothing lives in
+ * the server process: enabled/stopped state and the last run are kept in Redis,
+ * and each run takes a Redis lock so overlapping ticks or a second instance
+ * can't post the same chronicle twice. Time comes from an injectable clock.
+ */
 export class ChronicleScheduler {
-  private intervalId: NodeJS.Timeout | null = null;
-  private readonly checkInterval = 60000; // Check every minute
-  private isRunning = false;
+  constructor(private readonly clock: Clock = systemClock) {}
 
   /**
-   * Start the chronicle scheduler
+   * Run one job now, unless it is stopped or already running
    */
-  start(): void {
-    if (this.isRunning) {
-      console.log('Chronicle scheduler is already running');
-      return;
+  async runJob(name: ScheduledJobName): Promise<JobRunResult> {
+    const definition = this.getDefinition(name);
+    const ranAt = this.clock.now();
+    const state = await this.getJobState(name);
+
+    if (!state.enabled) {
+      return { job: name, outcome: 'skipped', reason: 'disabled', ranAt, durationMs: 0 };
+    }
+
+    const lockKey = REDIS_KEYS.SCHEDULER_LOCK(name);
+    const lockToken = `${ranAt.getTime()}:${Math.random().toString(36).slice(2)}`;
+    const acquired = await redis.set(lockKey, lockToken, {
+      nx: true,
+      expiration: new Date(ranAt.getTime() + definition.lockTtlSeconds * 1000),
+    });
+    if (!acquired) {
+      console.log(`Scheduled job ${name} is already running, skipping this tick`);
+      return { job: name, outcome: 'skipped', reason: 'locked', ranAt, durationMs: 0 };
+    }
+
+    let result: JobRunResult;
+    try {
+      const summary = await this.executeJob(name, ranAt);
+      result = { job: name, outcome: 'ok', ranAt, durationMs: this.elapsedSince(ranAt), summary };
+    } catch (error) {
+      console.error(`Scheduled job ${name} failed:`, error);
+      result = {
+        job: name,
+        outcome: 'error',
+        ranAt,
+        durationMs: this.elapsedSince(ranAt),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      if ((await redis.get(lockKey)) === lockToken) {
+        await redis.del(lockKey);
+      }
     }
 
-    console.log('Starting chronicle scheduler...');
-    this.isRunning = true;
-    
-    this.intervalId = setInterval(async () => {
-      await this.processAllSubreddits();
-    }, this.checkInterval);
+    // Re-read so a stop issued while this run was in flight sticks
+    const { lastError: _previousError, ...current } = await this.getJobState(name);
+    await this.saveJobState(name, {
+      ...current,
+      lastRunAt: ranAt.toISOString(),
+      lastOutcome: result.outcome === 'error' ? 'error' : 'ok',
+      ...(result.error && { lastError: result.error }),
+      lastDurationMs: result.durationMs,
+    });
+
+    return result;
   }
 
   /**
-   * Stop the chronicle scheduler
+   * Resume every job; Devvit keeps firing them, they just stop skipping
    */
-  stop(): void {
-    if (!this.isRunning) {
-      console.log('Chronicle scheduler is not running');
-      return;
-    }
+  async start(): Promise<SchedulerStatus> {
+    await this.setEnabled(true);
+    return this.getStatus();
+  }
 
-    console.log('Stopping chronicle scheduler...');
-    this.isRunning = false;
-    
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
+  /**
+   * Stop every job; scheduled ticks are skipped until started again
+   */
+  async stop(): Promise<SchedulerStatus> {
+    await this.setEnabled(false);
+    return this.getStatus();
   }
 
   /**
-   * Process scheduled chronicles for all active subreddits
+   * Manually trigger chronicle processing for a specific subreddit
    */
-  private async processAllSubreddits(): Promise<void> {
+  async triggerForSubreddit(subredditName: string): Promise<void> {
+    await this.drainEvents(subredditName, this.clock.now());
     try {
-      // Get list of active subreddits
-      const activeSubreddits = await this.getActiveSubreddits();
-      
-      // Process each subreddit
-      for (const subredditName of activeSubreddits) {
-        try {
-          await chronicleGenerationService.processScheduledChronicles(subredditName);
-        } catch (error) {
-          console.error(`Error processing chronicles for ${subredditName}:`, error);
-        }
-      }
+      await chronicleGenerationService.processScheduledChronicles(subredditName, this.clock.now());
+      await gardenRegistryService.recordScheduleRun(subredditName, { status: 'ok' }, this.clock.now());
+      console.log(`Chronicle processing triggered for ${subredditName}`);
     } catch (error) {
-      console.error('Error in chronicle scheduler:', error);
+      console.error(`Error triggering chronicles for ${subredditName}:`, error);
+      await this.recordFailedRun(subredditName, error);
+      throw error;
     }
   }
 
   /**
-   * Get list of active subreddits that have game states
+   * Persisted state of every job, with the next time Devvit will fire it
    */
-  private async getActiveSubreddits(): Promise<string[]> {
-    try {
-      // This is a simplified implementation
-      // In a real system, you might want to maintain a registry of active subreddits
-      // For now, we'll return an empty array and rely on manual triggering
-      return [];
-    } catch (error) {
-      console.error('Error getting active subreddits:', error);
-      return [];
+  async getStatus(): Promise<SchedulerStatus> {
+    const now = this.clock.now();
+    const jobs: ScheduledJobStatus[] = [];
+
+    for (const definition of SCHEDULED_JOBS) {
+      const state = await this.getJobState(definition.name);
+      const running = (await redis.exists(REDIS_KEYS.SCHEDULER_LOCK(definition.name))) > 0;
+
+      jobs.push({
+        name: definition.name,
+        cron: definition.cron,
+        enabled: state.enabled,
+        running,
+        nextRunAt: state.enabled ? nextCronRun(definition.cron, now) : null,
+        ...(state.lastRunAt && { lastRunAt: new Date(state.lastRunAt) }),
+        ...(state.lastOutcome && { lastOutcome: state.lastOutcome }),
+        ...(state.lastError && { lastError: state.lastError }),
+        ...(state.lastDurationMs !== undefined && { lastDurationMs: state.lastDurationMs }),
+      });
+    }
+
+    return { isRunning: jobs.some(job => job.enabled), jobs };
+  }
+
+  private async executeJob(name: ScheduledJobName, now: Date): Promise<JobSummary> {
+    switch (name) {
+      case 'chronicles':
+        return this.processAllSubreddits(now);
+      case 'maintenance':
+        return maintenanceService.runForAllGardens();
     }
   }
 
   /**
-   * Manually trigger chronicle processing for a specific subreddit
+   * Process scheduled chronicles for every active garden in the registry
    */
-  async triggerForSubreddit(subredditName: string): Promise<void> {
+  private async processAllSubreddits(now: Date): Promise<JobSummary> {
+    const activeSubreddits = await gardenRegistryService.getActiveSubreddits();
+    const summary: JobSummary = { gardens: activeSubreddits.length, failures: [] };
+
+    for (const subredditName of activeSubreddits) {
+      await this.drainEvents(subredditName, now);
+      try {
+        await chronicleGenerationService.processScheduledChronicles(subredditName, now);
+        await gardenRegistryService.recordScheduleRun(subredditName, { status: 'ok' }, now);
+      } catch (error) {
+        console.error(`Error processing chronicles for ${subredditName}:`, error);
+        summary.failures.push(subredditName);
+        await this.recordFailedRun(subredditName, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Redeliver domain events left in a garden's outbox, so queued milestones are
+   * posted this tick; a failure here doesn't stop the garden's chronicles
+   */
+  private async drainEvents(subredditName: string, now: Date): Promise<void> {
     try {
-      await chronicleGenerationService.processScheduledChronicles(subredditName);
-      console.log(`Chronicle processing triggered for ${subredditName}`);
+      const { delivered, retrying, deadLettered } = await eventBusService.drain(subredditName, now);
+      if (delivered + retrying + deadLettered > 0) {
+        console.log(
+          `Event outbox for ${subredditName}: ${delivered} delivered, ${retrying} retrying, ${deadLettered} parked`
+        );
+      }
     } catch (error) {
-      console.error(`Error triggering chronicles for ${subredditName}:`, error);
-      throw error;
+      console.error(`Error draining the event outbox for ${subredditName}:`, error);
     }
   }
 
   /**
-   * Get scheduler status
+   * Record a failed run in the registry without masking the original error
    */
-  getStatus(): { isRunning: boolean; checkInterval: number } {
-    return {
-      isRunning: this.isRunning,
-      checkInterval: this.checkInterval,
-    };
+  private async recordFailedRun(subredditName: string, error: unknown): Promise<void> {
+    try {
+      await gardenRegistryService.recordScheduleRun(
+        subredditName,
+        { status: 'error', error: error instanceof Error ? error.message : String(error) },
+        this.clock.now()
+      );
+    } catch (registryError) {
+      console.error(`Error recording schedule status for ${subredditName}:`, registryError);
+    }
+  }
+
+  private async setEnabled(enabled: boolean): Promise<void> {
+    for (const definition of SCHEDULED_JOBS) {
+      const state = await this.getJobState(definition.name);
+      await this.saveJobState(definition.name, { ...state, enabled });
+    }
+  }
+
+  private async getJobState(name: ScheduledJobName): Promise<StoredJobState> {
+    const data = await redis.hGet(REDIS_KEYS.SCHEDULER_JOBS, name);
+    // Jobs are enabled until someone stops them
+    return data ? { enabled: true, ...JSON.parse(data) } : { enabled: true };
+  }
+
+  private async saveJobState(name: ScheduledJobName, state: StoredJobState): Promise<void> {
+    await redis.hSet(REDIS_KEYS.SCHEDULER_JOBS, { [name]: JSON.stringify(state) });
+  }
+
+  private getDefinition(name: ScheduledJobName): ScheduledJobDefinition {
+    const definition = SCHEDULED_JOBS.find(job => job.name === name);
+    if (!definition) {
+      throw new Error(`Unknown scheduled job: ${name}`);
+    }
+    return definition;
+  }
+
+  private elapsedSince(start: Date): number {
+    return Math.max(0, this.clock.now().getTime() - start.getTime());
   }
 }
 
 // Export singleton instance
-export const chronicleScheduler = new ChronicleScheduler();
\ No newline at end of file
+export const chronicleScheduler = new ChronicleScheduler();
@@ -0,0 +1,269 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import {
+  ChronicleTemplateType,
+  ChronicleTemplateVersion,
+  REDIS_KEYS,
+  ERROR_MESSAGES,
+  GAME_CONFIG
+} from '../../shared/types';
+import { withOptimisticTransaction } from '../core/transaction';
+
+export interface ChronicleTemplateDraft {
+  name: string;
+  type: ChronicleTemplateType;
+  titleTemplate: string;
+  contentTemplate: string;
+}
+
+export interface CustomChronicleTemplate extends ChronicleTemplateDraft {
+  id: string;
+  version: number;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+interface StoredTemplateVersion extends ChronicleTemplateDraft {
+  version: number;
+  updatedAt: string;
+  updatedBy: string;
+  restoredFrom?: number;
+  deleted?: boolean;
+}
+
+/**
+ * Per-garden chronicle templates edited by moderators.
+ *
+ * The current version of each template lives in one hash per garden; every
+ * save, rollback and delete is also appended to a per-template history sorted
+ * set scored by version number, so any earlier version can be restored. This
+ * service only stores templates; validation and rendering belong to
+ * ChronicleGenerationService, which also owns the built-in defaults.
+ */
+export class ChronicleTemplateService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Every custom template saved for a garden
+   */
+  async getCustomTemplates(subredditName: string): Promise<CustomChronicleTemplate[]> {
+    return this.withRetry(async () => {
+      const all = await redis.hGetAll(REDIS_KEYS.CHRONICLE_TEMPLATES(subredditName));
+      return Object.entries(all).map(([id, data]) => this.toCustomTemplate(id, JSON.parse(data)));
+    });
+  }
+
+  /**
+   * The current custom version of a template, or null if the garden uses the default
+   */
+  async getCustomTemplate(subredditName: string, templateId: string): Promise<CustomChronicleTemplate | null> {
+    return this.withRetry(async () => {
+      const data = await redis.hGet(REDIS_KEYS.CHRONICLE_TEMPLATES(subredditName), templateId);
+      return data ? this.toCustomTemplate(templateId, JSON.parse(data)) : null;
+    });
+  }
+
+  /**
+   * Store a new version of a template and make it current
+   */
+  async saveVersion(
+    subredditName: string,
+    templateId: string,
+    draft: ChronicleTemplateDraft,
+    updatedBy: string,
+    restoredFrom?: number
+  ): Promise<CustomChronicleTemplate> {
+    const historyKey = REDIS_KEYS.CHRONICLE_TEMPLATE_HISTORY(subredditName, templateId);
+    const templatesKey = REDIS_KEYS.CHRONICLE_TEMPLATES(subredditName);
+
+    return withOptimisticTransaction([historyKey], async () => {
+      const stored: StoredTemplateVersion = {
+        name: draft.name,
+        type: draft.type,
+        titleTemplate: draft.titleTemplate,
+        contentTemplate: draft.contentTemplate,
+        version: (await this.getLatestVersionNumber(historyKey)) + 1,
+        updatedAt: new Date().toISOString(),
+        updatedBy,
+        ...(restoredFrom !== undefined && { restoredFrom }),
+      };
+
+      return {
+        write: async tx => {
+          await tx.hSet(templatesKey, { [templateId]: JSON.stringify(stored) });
+          await this.queueHistoryEntry(tx, historyKey, stored);
+        },
+        result: this.toCustomTemplate(templateId, stored),
+      };
+    });
+  }
+
+  /**
+   * Remove a garden's custom template, recording the deletion in its history.
+   * Returns false if there was nothing to delete.
+   */
+  async deleteTemplate(subredditName: string, templateId: string, deletedBy: string): Promise<boolean> {
+    const historyKey = REDIS_KEYS.CHRONICLE_TEMPLATE_HISTORY(subredditName, templateId);
+    const templatesKey = REDIS_KEYS.CHRONICLE_TEMPLATES(subredditName);
+
+    return withOptimisticTransaction([historyKey, templatesKey], async () => {
+      const data = await redis.hGet(templatesKey, templateId);
+      if (!data) {
+        // Deleting the absent field is a no-op, but keeps EXEC's reply non-empty
+        return { write: async tx => void (await tx.hDel(templatesKey, [templateId])), result: false };
+      }
+
+      const current: StoredTemplateVersion = JSON.parse(data);
+      const marker: StoredTemplateVersion = {
+        name: current.name,
+        type: current.type,
+        titleTemplate: current.titleTemplate,
+        contentTemplate: current.contentTemplate,
+        version: (await this.getLatestVersionNumber(historyKey)) + 1,
+        updatedAt: new Date().toISOString(),
+        updatedBy: deletedBy,
+        deleted: true,
+      };
+
+      return {
+        write: async tx => {
+          await tx.hDel(templatesKey, [templateId]);
+          await this.queueHistoryEntry(tx, historyKey, marker);
+        },
+        result: true,
+      };
+    });
+  }
+
+  /**
+   * A template's version history, newest first
+   */
+  async getHistory(subredditName: string, templateId: string): Promise<ChronicleTemplateVersion[]> {
+    return this.withRetry(async () => {
+      const entries = await redis.zRange(
+        REDIS_KEYS.CHRONICLE_TEMPLATE_HISTORY(subredditName, templateId),
+        0,
+        -1,
+        { by: 'rank', reverse: true }
+      );
+      return entries.map(entry => this.toVersion(JSON.parse(entry.member)));
+    });
+  }
+
+  /**
+   * One version from a template's history, or null if it isn't kept
+   */
+  async getVersion(
+    subredditName: string,
+    templateId: string,
+    version: number
+  ): Promise<ChronicleTemplateVersion | null> {
+    return this.withRetry(async () => {
+      const entries = await redis.zRange(
+        REDIS_KEYS.CHRONICLE_TEMPLATE_HISTORY(subredditName, templateId),
+        version,
+        version,
+        { by: 'score' }
+      );
+      const entry = entries[0];
+      return entry ? this.toVersion(JSON.parse(entry.member)) : null;
+    });
+  }
+
+  /**
+   * Template id chosen per type for a garden's automatic chronicles
+   */
+  async getActiveTemplateIds(subredditName: string): Promise<Partial<Record<ChronicleTemplateType, string>>> {
+    return this.withRetry(async () => {
+      return redis.hGetAll(REDIS_KEYS.CHRONICLE_TEMPLATE_ACTIVE(subredditName));
+    });
+  }
+
+  /**
+   * Use a template for a type's automatic chronicles
+   */
+  async setActiveTemplate(subredditName: string, type: ChronicleTemplateType, templateId: string): Promise<void> {
+    return this.withRetry(async () => {
+      await redis.hSet(REDIS_KEYS.CHRONICLE_TEMPLATE_ACTIVE(subredditName), { [type]: templateId });
+    });
+  }
+
+  /**
+   * Go back to the built-in template for a type
+   */
+  async clearActiveTemplate(subredditName: string, type: ChronicleTemplateType): Promise<void> {
+    return this.withRetry(async () => {
+      await redis.hDel(REDIS_KEYS.CHRONICLE_TEMPLATE_ACTIVE(subredditName), [type]);
+    });
+  }
+
+  private async getLatestVersionNumber(historyKey: string): Promise<number> {
+    const [latest] = await redis.zRange(historyKey, 0, 0, { by: 'rank', reverse: true });
+    return latest ? latest.score : 0;
+  }
+
+  private async queueHistoryEntry(
+    tx: TxClientLike,
+    historyKey: string,
+    entry: StoredTemplateVersion
+  ): Promise<void> {
+    await tx.zAdd(historyKey, { member: JSON.stringify(entry), score: entry.version });
+    // Keep only the newest versions
+    await tx.zRemRangeByRank(historyKey, 0, -(GAME_CONFIG.CHRONICLE_TEMPLATES.MAX_VERSIONS + 1));
+  }
+
+  private toCustomTemplate(id: string, stored: StoredTemplateVersion): CustomChronicleTemplate {
+    return {
+      id,
+      name: stored.name,
+      type: stored.type,
+      titleTemplate: stored.titleTemplate,
+      contentTemplate: stored.contentTemplate,
+      version: stored.version,
+      updatedAt: new Date(stored.updatedAt),
+      updatedBy: stored.updatedBy,
+    };
+  }
+
+  private toVersion(stored: StoredTemplateVersion): ChronicleTemplateVersion {
+    return {
+      version: stored.version,
+      name: stored.name,
+      type: stored.type,
+      titleTemplate: stored.titleTemplate,
+      contentTemplate: stored.contentTemplate,
+      updatedAt: new Date(stored.updatedAt),
+      updatedBy: stored.updatedBy,
+      ...(stored.restoredFrom !== undefined && { restoredFrom: stored.restoredFrom }),
+      ...(stored.deleted && { deleted: true }),
+    };
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const chronicleTemplateService = new ChronicleTemplateService();
@@ -0,0 +1,119 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import { REDIS_KEYS, ERROR_MESSAGES, GAME_CONFIG } from '../../shared/types';
+import type { GameStateCounter } from './ActionTransactionService';
+
+/**
+ * What happened in a garden on one day. Action growth is kept in hundredths,
+ * since hash increments are integers.
+ */
+export interface DailyCounters {
+  date: string;
+  seedsPlanted: number;
+  spiritsFed: number;
+  robotCharged: number;
+  redditUpvotes: number;
+  actions: number;
+  actionGrowth: number;
+}
+
+type CounterField = GameStateCounter | 'redditUpvotes' | 'actions' | 'growthHundredths';
+
+/**
+ * Per-day activity counters, one hash per garden day (see core/calendar.ts).
+ *
+ * Actions and upvotes increment the day they happen on, inside the same MULTI
+ * as the game state change, so the counters always agree with the all-time
+ * totals. Closing a day turns its counters into the DAILY_GROWTH snapshot.
+ */
+export class DailyCounterService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Count an action towards a garden day inside an open MULTI. A negative
+   * count (with the matching growth) takes purged actions back off the day.
+   */
+  async queueAction(
+    tx: TxClientLike,
+    subredditName: string,
+    date: string,
+    counter: GameStateCounter | undefined,
+    growthContributed: number,
+    count: number = 1
+  ): Promise<void> {
+    const key = REDIS_KEYS.DAILY_COUNTERS(subredditName, date);
+    if (counter) {
+      await tx.hIncrBy(key, counter, count);
+    }
+    await tx.hIncrBy(key, 'actions', count);
+    await tx.hIncrBy(key, 'growthHundredths', Math.round(growthContributed * 100));
+    await tx.expire(key, GAME_CONFIG.DAILY_GROWTH.COUNTER_TTL_DAYS * 24 * 60 * 60);
+  }
+
+  /**
+   * Count upvotes towards a garden day inside an open MULTI
+   */
+  async queueUpvotes(tx: TxClientLike, subredditName: string, date: string, upvotes: number): Promise<void> {
+    const key = REDIS_KEYS.DAILY_COUNTERS(subredditName, date);
+    await tx.hIncrBy(key, 'redditUpvotes', upvotes);
+    await tx.expire(key, GAME_CONFIG.DAILY_GROWTH.COUNTER_TTL_DAYS * 24 * 60 * 60);
+  }
+
+  /**
+   * A day's counters, or null if nothing was counted that day
+   */
+  async getCounters(subredditName: string, date: string): Promise<DailyCounters | null> {
+    return this.withRetry(async () => {
+      const stored = await redis.hGetAll(REDIS_KEYS.DAILY_COUNTERS(subredditName, date));
+      if (Object.keys(stored).length === 0) {
+        return null;
+      }
+
+      const value = (field: CounterField) => parseInt(stored[field] ?? '0') || 0;
+      return {
+        date,
+        seedsPlanted: value('seedsPlanted'),
+        spiritsFed: value('spiritsFed'),
+        robotCharged: value('robotCharged'),
+        redditUpvotes: value('redditUpvotes'),
+        actions: value('actions'),
+        actionGrowth: value('growthHundredths') / 100,
+      };
+    });
+  }
+
+  /**
+   * Counters for a day with no activity
+   */
+  emptyCounters(date: string): DailyCounters {
+    return { date, seedsPlanted: 0, spiritsFed: 0, robotCharged: 0, redditUpvotes: 0, actions: 0, actionGrowth: 0 };
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const dailyCounterService = new DailyCounterService();
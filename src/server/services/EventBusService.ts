@@ -0,0 +1,257 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import { REDIS_KEYS, ERROR_MESSAGES, GAME_CONFIG } from '../../shared/types';
+import type { DomainEvent, DomainEventHandler, DomainEventType } from '../core/events';
+
+export interface OutboxEntry {
+  event: DomainEvent;
+  // Subscribers that have handled the event, by name
+  completed: string[];
+  attempts: number;
+  lastError?: string;
+}
+
+export interface OutboxDrainSummary {
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+type DeliveryOutcome = keyof OutboxDrainSummary | 'missing';
+type StoredHandler = (event: DomainEvent) => Promise<void>;
+
+/**
+ * In-process bus for domain events, backed by a durable outbox in Redis.
+ *
+ * Publishers write events to the outbox in the same MULTI as the state change
+ * they describe (or straight after it), then deliver them in the request. Each
+ * subscriber's success is recorded, so a retry only re-runs the handlers that
+ * failed. Anything the request didn't finish, because a handler threw or the
+ * request died after commit, is picked up by the chronicle tick's drain once
+ * its redelivery time passes. Handlers therefore run at least once and must
+ * tolerate repeats; an event that keeps failing is parked with the dead letters.
+ */
+export class EventBusService {
+  private readonly handlers: Map<DomainEventType, Map<string, StoredHandler>> = new Map();
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Register (or replace) a named handler for one event type; returns an unsubscribe function.
+   * The name records the handler's progress in the outbox, so keep it stable across deploys.
+   */
+  subscribe<T extends DomainEventType>(type: T, name: string, handler: DomainEventHandler<T>): () => void {
+    const forType = this.handlers.get(type) ?? new Map<string, StoredHandler>();
+    const stored = handler as StoredHandler;
+    forType.set(name, stored);
+    this.handlers.set(type, forType);
+
+    return () => {
+      if (forType.get(name) === stored) {
+        forType.delete(name);
+      }
+    };
+  }
+
+  /**
+   * Names of the handlers subscribed to an event type
+   */
+  getSubscribers(type: DomainEventType): string[] {
+    return [...(this.handlers.get(type)?.keys() ?? [])];
+  }
+
+  /**
+   * Write events to the outbox inside an open MULTI; deliver them once it commits
+   */
+  async queue(tx: TxClientLike, events: DomainEvent[]): Promise<void> {
+    for (const event of events) {
+      await tx.hSet(REDIS_KEYS.EVENT_DATA(event.subredditName), {
+        [event.id]: this.serialize({ event, completed: [], attempts: 0 }),
+      });
+      await tx.zAdd(REDIS_KEYS.EVENT_OUTBOX(event.subredditName), {
+        member: event.id,
+        score: this.firstRedeliveryTime(event),
+      });
+    }
+  }
+
+  /**
+   * Write events to the outbox in their own write, then deliver them
+   */
+  async publish(events: DomainEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    await this.withRetry(async () => {
+      for (const event of events) {
+        await redis.hSet(REDIS_KEYS.EVENT_DATA(event.subredditName), {
+          [event.id]: this.serialize({ event, completed: [], attempts: 0 }),
+        });
+        await redis.zAdd(REDIS_KEYS.EVENT_OUTBOX(event.subredditName), {
+          member: event.id,
+          score: this.firstRedeliveryTime(event),
+        });
+      }
+    });
+
+    await this.deliver(events);
+  }
+
+  /**
+   * Deliver events that are already in the outbox. Never throws: whatever
+   * isn't delivered now stays in the outbox for the drain.
+   */
+  async deliver(events: DomainEvent[], now: Date = new Date()): Promise<void> {
+    for (const event of events) {
+      try {
+        await this.dispatch(event.subredditName, event.id, now);
+      } catch (error) {
+        console.error(`Failed to deliver event ${event.type} ${event.id} for ${event.subredditName}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Deliver a garden's events whose redelivery time has passed, oldest first
+   */
+  async drain(subredditName: string, now: Date = new Date()): Promise<OutboxDrainSummary> {
+    const due = await this.withRetry(() =>
+      redis.zRange(REDIS_KEYS.EVENT_OUTBOX(subredditName), 0, now.getTime(), {
+        by: 'score',
+        limit: { offset: 0, count: GAME_CONFIG.EVENTS.DRAIN_BATCH_SIZE },
+      })
+    );
+
+    const summary: OutboxDrainSummary = { delivered: 0, retrying: 0, deadLettered: 0 };
+    for (const { member } of due) {
+      const outcome = await this.dispatch(subredditName, member, now);
+      if (outcome !== 'missing') {
+        summary[outcome]++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Number of a garden's events still waiting for a handler
+   */
+  async getPendingCount(subredditName: string): Promise<number> {
+    return this.withRetry(() => redis.zCard(REDIS_KEYS.EVENT_OUTBOX(subredditName)));
+  }
+
+  /**
+   * A garden's events that ran out of delivery attempts
+   */
+  async getDeadLetters(subredditName: string): Promise<OutboxEntry[]> {
+    return this.withRetry(async () => {
+      const entries = await redis.hGetAll(REDIS_KEYS.EVENT_DEAD_LETTERS(subredditName));
+      return Object.values(entries)
+        .map(data => this.parse(data))
+        .sort((a, b) => a.event.occurredAt.getTime() - b.event.occurredAt.getTime());
+    });
+  }
+
+  /**
+   * Run the handlers that haven't yet handled one event and record how far it got
+   */
+  private async dispatch(subredditName: string, eventId: string, now: Date): Promise<DeliveryOutcome> {
+    const dataKey = REDIS_KEYS.EVENT_DATA(subredditName);
+    const outboxKey = REDIS_KEYS.EVENT_OUTBOX(subredditName);
+
+    const data = await this.withRetry(() => redis.hGet(dataKey, eventId));
+    if (!data) {
+      // Finished by another delivery
+      await this.withRetry(() => redis.zRem(outboxKey, [eventId]));
+      return 'missing';
+    }
+
+    const entry = this.parse(data);
+    const errors: string[] = [];
+    for (const [name, handler] of this.handlers.get(entry.event.type) ?? []) {
+      if (entry.completed.includes(name)) {
+        continue;
+      }
+      try {
+        await handler(entry.event);
+        entry.completed.push(name);
+      } catch (error) {
+        console.error(`Event handler ${name} failed for ${entry.event.type} ${eventId}:`, error);
+        errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (errors.length === 0) {
+      await this.withRetry(async () => {
+        await redis.hDel(dataKey, [eventId]);
+        await redis.zRem(outboxKey, [eventId]);
+      });
+      return 'delivered';
+    }
+
+    entry.attempts++;
+    entry.lastError = errors.join('; ');
+
+    if (entry.attempts >= GAME_CONFIG.EVENTS.MAX_ATTEMPTS) {
+      await this.withRetry(async () => {
+        await redis.hSet(REDIS_KEYS.EVENT_DEAD_LETTERS(subredditName), { [eventId]: this.serialize(entry) });
+        await redis.hDel(dataKey, [eventId]);
+        await redis.zRem(outboxKey, [eventId]);
+      });
+      console.error(`Event ${entry.event.type} ${eventId} for ${subredditName} failed ${entry.attempts} times, parked`);
+      return 'deadLettered';
+    }
+
+    const backoff = GAME_CONFIG.EVENTS.REDELIVERY_DELAY_MS * Math.pow(2, entry.attempts - 1);
+    await this.withRetry(async () => {
+      await redis.hSet(dataKey, { [eventId]: this.serialize(entry) });
+      await redis.zAdd(outboxKey, { member: eventId, score: now.getTime() + backoff });
+    });
+    return 'retrying';
+  }
+
+  /**
+   * The drain leaves a new event alone for a while, so it doesn't race the publishing request
+   */
+  private firstRedeliveryTime(event: DomainEvent): number {
+    return event.occurredAt.getTime() + GAME_CONFIG.EVENTS.REDELIVERY_DELAY_MS;
+  }
+
+  private serialize(entry: OutboxEntry): string {
+    return JSON.stringify(entry);
+  }
+
+  private parse(data: string): OutboxEntry {
+    const entry = JSON.parse(data) as OutboxEntry;
+    entry.event.occurredAt = new Date(entry.event.occurredAt);
+    return entry;
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const eventBusService = new EventBusService();
@@ -1,6 +1,7 @@
 import { redisGameService } from './RedisGameService';
 import { playerResourceService } from './PlayerResourceService';
-import { GAME_CONFIG } from '../../shared/types';
+import { actionEngine } from './ActionEngine';
+import { gardenBalanceService } from './GardenBalanceService';
 
 /**
  * Integration service that combines game state and player resource management
@@ -46,58 +47,16 @@ export class GameServiceIntegration {
     actionType: 'plant' | 'feed' | 'charge' | 'post'
   ) {
     try {
-      // Check if player is on cooldown
-      const onCooldown = await redisGameService.checkActionCooldown(username, subredditName);
-      if (onCooldown) {
-        return {
-          success: false,
-          error: 'Action is on cooldown'
-        };
-      }
-
-      // Check if player can afford the action
-      const canAfford = await playerResourceService.canAffordAction(username, subredditName, actionType);
-      if (!canAfford) {
-        return {
-          success: false,
-          error: 'Insufficient resources'
-        };
-      }
-
-      // Process the resource transaction
-      const { resources, cost } = await playerResourceService.processActionTransaction(
-        username, 
-        subredditName, 
-        actionType
-      );
-
-      // Calculate growth contribution
-      const growthContribution = this.calculateGrowthContribution(actionType);
-
-      // Record the action in history
-      const actionHistory = await redisGameService.recordAction({
-        username,
-        subredditName,
-        actionType,
-        resourcesSpent: cost,
-        growthContributed: growthContribution
-      });
-
-      // Set cooldown for the action
-      await redisGameService.setActionCooldown(username, subredditName, 60000); // 1 minute cooldown
-
-      // Track player as active
-      await redisGameService.trackActivePlayer(username, subredditName);
-
-      // Get updated game state
-      const gameState = await redisGameService.getGameState(subredditName);
+      // Same engine as the HTTP routes: validation, atomic commit and post-commit hooks
+      const { commit, outcome } = await actionEngine.execute(actionType, username, subredditName);
 
       return {
         success: true,
-        gameState,
-        playerResources: resources,
-        actionHistory,
-        growthContributed: growthContribution
+        gameState: commit.gameState,
+        playerResources: commit.playerResources,
+        actionHistory: commit.action,
+        growthContributed: commit.action.growthContributed,
+        message: outcome.message
       };
     } catch (error) {
       return {
@@ -137,13 +96,14 @@ export class GameServiceIntegration {
     try {
       const playerResources = await playerResourceService.getPlayerResources(username, subredditName);
       const playerRank = await playerResourceService.getPlayerRank(username, subredditName);
-      const onCooldown = await redisGameService.checkActionCooldown(username, subredditName);
+      const cooldowns = await redisGameService.getActionCooldowns(username, subredditName);
 
       return {
         success: true,
         playerResources,
         playerRank,
-        onCooldown
+        cooldowns,
+        onCooldown: Object.values(cooldowns).some(remainingMs => remainingMs > 0)
       };
     } catch (error) {
       return {
@@ -164,18 +124,14 @@ export class GameServiceIntegration {
         upvoteCount
       );
 
-      // Update daily upvotes in game state
-      const gameState = await redisGameService.getGameState(subredditName);
-      if (gameState) {
-        await redisGameService.updateGameState(subredditName, {
-          dailyUpvotes: gameState.dailyUpvotes + upvoteCount
-        });
-      }
+      // Count the upvotes towards today's growth
+      await redisGameService.recordUpvotes(subredditName, upvoteCount);
+      const { upvoteCinnamon } = await gardenBalanceService.getBalance(subredditName);
 
       return {
         success: true,
         playerResources: updatedResources,
-        cinnamonAwarded: upvoteCount * GAME_CONFIG.RESOURCE_REWARDS.UPVOTE_CINNAMON
+        cinnamonAwarded: upvoteCount * upvoteCinnamon
       };
     } catch (error) {
       return {
@@ -184,24 +140,6 @@ export class GameServiceIntegration {
       };
     }
   }
-
-  /**
-   * Calculate growth contribution based on action type
-   */
-  private calculateGrowthContribution(actionType: string): number {
-    switch (actionType) {
-      case 'plant':
-        return GAME_CONFIG.GROWTH_MULTIPLIERS.SEEDS_PLANTED;
-      case 'feed':
-        return GAME_CONFIG.GROWTH_MULTIPLIERS.SPIRITS_FED;
-      case 'charge':
-        return GAME_CONFIG.GROWTH_MULTIPLIERS.ROBOT_CHARGED;
-      case 'post':
-        return 0; // Post doesn't directly contribute to growth
-      default:
-        return 0;
-    }
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,426 @@
+import { redis } from '@devvit/web/server';
+import {
+  ActionHistory,
+  GameState,
+  GardenGrowthRebuild,
+  PlayerPurgeResult,
+  PlayerResources,
+  ResourceAdjustment,
+  GAME_CONFIG,
+  REDIS_KEYS
+} from '../../shared/types';
+import { calculateTreeLevel } from '../../shared/utils/growth';
+import { withOptimisticTransaction } from '../core/transaction';
+import { addDays, getGardenDate } from '../core/calendar';
+import { InvalidAdminRequestError, requireReason, requireUsername } from '../core/admin';
+import { actionEngine } from './ActionEngine';
+import type { GameStateCounter } from './ActionTransactionService';
+import { adminAuditService } from './AdminAuditService';
+import { dailyCounterService } from './DailyCounterService';
+import { gardenBalanceService } from './GardenBalanceService';
+import { gardenRegistryService } from './GardenRegistryService';
+import { growthCalculationService } from './GrowthCalculationService';
+import { leaderboardService } from './LeaderboardService';
+import { playerResourceService } from './PlayerResourceService';
+import { redisGameService } from './RedisGameService';
+import { stateChangeLogService } from './StateChangeLogService';
+
+const ADJUSTABLE_RESOURCES = ['cinnamon', 'seeds', 'energy'] as const;
+
+/**
+ * Moderator operations that rewrite a garden's or a player's state: resetting
+ * or rebuilding the tree, adjusting a player's resources and purging a
+ * player's contributions. Each runs as one optimistic transaction with its
+ * audit entry queued into the same MULTI.
+ */
+export class GardenAdminService {
+  /**
+   * Start a garden's tree over: counters, growth and pending upvotes go back
+   * to zero and today's unclosed counters are dropped. Players keep their
+   * resources and the action log and past daily snapshots stay as history.
+   * Null if the garden has no game state.
+   */
+  async resetGarden(
+    subredditName: string,
+    moderator: string,
+    reasonInput: unknown,
+    now: Date = new Date()
+  ): Promise<GameState | null> {
+    const reason = requireReason(reasonInput);
+    const stateKey = REDIS_KEYS.SUBREDDIT_STATE(subredditName);
+    if (!(await redisGameService.getGameState(subredditName))) {
+      return null;
+    }
+    const today = getGardenDate(now, await gardenRegistryService.getDaySettings(subredditName));
+    const unclosedDays = Array.from({ length: GAME_CONFIG.DAILY_GROWTH.CATCH_UP_DAYS + 1 }, (_, daysAgo) =>
+      REDIS_KEYS.DAILY_COUNTERS(subredditName, addDays(today, -daysAgo))
+    );
+
+    return withOptimisticTransaction([stateKey], async () => {
+      const gameState = await this.requireGameState(subredditName);
+      const resetState: GameState = {
+        ...gameState,
+        treeLevel: 1,
+        totalGrowth: 0,
+        seedsPlanted: 0,
+        spiritsFed: 0,
+        robotCharged: 0,
+        dailyUpvotes: 0,
+        lastGrowthCalculation: now,
+        // A rebuild reads daily snapshots from here on
+        createdAt: now,
+        updatedAt: now,
+        version: gameState.version + 1,
+      };
+
+      return {
+        write: async tx => {
+          await tx.set(stateKey, JSON.stringify(resetState));
+          await stateChangeLogService.queueAppend(tx, gameState, resetState);
+          await tx.del(...unclosedDays);
+          await adminAuditService.queueRecord(
+            tx,
+            {
+              subredditName,
+              action: 'garden.reset',
+              moderator,
+              reason,
+              details: {
+                previousTotalGrowth: gameState.totalGrowth,
+                previousTreeLevel: gameState.treeLevel,
+                previousCounters: {
+                  seedsPlanted: gameState.seedsPlanted,
+                  spiritsFed: gameState.spiritsFed,
+                  robotCharged: gameState.robotCharged,
+                  dailyUpvotes: gameState.dailyUpvotes,
+                },
+              },
+            },
+            now
+          );
+        },
+        result: resetState,
+      };
+    });
+  }
+
+  /**
+   * Recompute total growth and tree level with the garden's current balance:
+   * the all-time action counters plus the upvotes of every closed day since
+   * the garden started. Upvotes of days not yet closed stay pending. Use it
+   * after a balance change, or to undo drift. Null if the garden has no game state.
+   */
+  async rebuildGarden(
+    subredditName: string,
+    moderator: string,
+    reasonInput: unknown,
+    now: Date = new Date()
+  ): Promise<GardenGrowthRebuild | null> {
+    const reason = requireReason(reasonInput);
+    const stateKey = REDIS_KEYS.SUBREDDIT_STATE(subredditName);
+    if (!(await redisGameService.getGameState(subredditName))) {
+      return null;
+    }
+    const day = await gardenRegistryService.getDaySettings(subredditName);
+    const balance = await gardenBalanceService.getBalance(subredditName);
+
+    return withOptimisticTransaction([stateKey], async () => {
+      const gameState = await this.requireGameState(subredditName);
+      const closedUpvotes = await this.sumClosedUpvotes(
+        subredditName,
+        getGardenDate(gameState.createdAt, day),
+        addDays(getGardenDate(now, day), -1)
+      );
+
+      const totalGrowth = growthCalculationService.calculateGrowth(
+        gameState.seedsPlanted,
+        gameState.spiritsFed,
+        gameState.robotCharged,
+        closedUpvotes,
+        balance
+      );
+      const rebuiltState: GameState = {
+        ...gameState,
+        totalGrowth,
+        treeLevel: calculateTreeLevel(totalGrowth, balance.treeLevels),
+        updatedAt: now,
+        version: gameState.version + 1,
+      };
+      const rebuild: GardenGrowthRebuild = {
+        previousTotalGrowth: gameState.totalGrowth,
+        totalGrowth,
+        previousTreeLevel: gameState.treeLevel,
+        treeLevel: rebuiltState.treeLevel,
+      };
+
+      return {
+        write: async tx => {
+          await tx.set(stateKey, JSON.stringify(rebuiltState));
+          await stateChangeLogService.queueAppend(tx, gameState, rebuiltState);
+          await adminAuditService.queueRecord(
+            tx,
+            { subredditName, action: 'garden.rebuild', moderator, reason, details: { ...rebuild, closedUpvotes } },
+            now
+          );
+        },
+        result: rebuild,
+      };
+    });
+  }
+
+  /**
+   * Add to or take from a player's resources; null if the player never joined
+   */
+  async adjustResources(
+    subredditName: string,
+    username: string,
+    deltasInput: unknown,
+    moderator: string,
+    reasonInput: unknown,
+    now: Date = new Date()
+  ): Promise<PlayerResources | null> {
+    const target = requireUsername(username);
+    const deltas = this.validateAdjustment(deltasInput);
+    const reason = requireReason(reasonInput);
+    const playerKey = REDIS_KEYS.PLAYER_RESOURCES(target, subredditName);
+    const { maxCinnamon } = (await gardenBalanceService.getBalance(subredditName)).limits;
+    if (!(await playerResourceService.getPlayerResources(target, subredditName))) {
+      return null;
+    }
+
+    return withOptimisticTransaction([playerKey], async () => {
+      const resources = await this.requirePlayerResources(target, subredditName);
+
+      const adjusted: PlayerResources = { ...resources };
+      for (const resource of ADJUSTABLE_RESOURCES) {
+        adjusted[resource] = resources[resource] + (deltas[resource] ?? 0);
+        if (adjusted[resource] < 0) {
+          throw new InvalidAdminRequestError(`${target} has only ${resources[resource]} ${resource}`);
+        }
+      }
+      if (adjusted.cinnamon > maxCinnamon && (deltas.cinnamon ?? 0) > 0) {
+        throw new InvalidAdminRequestError(`cinnamon cannot exceed the garden's limit of ${maxCinnamon}`);
+      }
+
+      return {
+        write: async tx => {
+          await tx.set(playerKey, JSON.stringify(adjusted));
+          await adminAuditService.queueRecord(
+            tx,
+            { subredditName, action: 'player.adjust', moderator, target, reason, details: { deltas } },
+            now
+          );
+        },
+        result: adjusted,
+      };
+    });
+  }
+
+  /**
+   * Take a player's logged actions out of the garden: the log entries go,
+   * their growth and counters come off the tree (and off days not yet closed)
+   * and the player leaves the leaderboards. Actions already trimmed from the
+   * log can't be traced and stay counted. Null if the player never joined.
+   */
+  async purgeContributions(
+    subredditName: string,
+    username: string,
+    moderator: string,
+    reasonInput: unknown,
+    now: Date = new Date()
+  ): Promise<PlayerPurgeResult | null> {
+    const target = requireUsername(username);
+    const reason = requireReason(reasonInput);
+    const stateKey = REDIS_KEYS.SUBREDDIT_STATE(subredditName);
+    const playerKey = REDIS_KEYS.PLAYER_RESOURCES(target, subredditName);
+    const playerLogKey = REDIS_KEYS.ACTION_LOG_BY_PLAYER(subredditName, target);
+    const day = await gardenRegistryService.getDaySettings(subredditName);
+    const balance = await gardenBalanceService.getBalance(subredditName);
+    const oldestUnclosed = addDays(getGardenDate(now, day), -GAME_CONFIG.DAILY_GROWTH.CATCH_UP_DAYS);
+
+    if (!(await playerResourceService.getPlayerResources(target, subredditName))) {
+      return null;
+    }
+
+    const purge = await withOptimisticTransaction([stateKey, playerKey, playerLogKey], async () => {
+      const resources = await this.requirePlayerResources(target, subredditName);
+      const gameState = await this.requireGameState(subredditName);
+      const logged = await redis.zRange(playerLogKey, 0, -1, { by: 'rank' });
+
+      const actions = logged
+        .map(({ member }) => ({ member, action: this.parseAction(member) }))
+        .filter((entry): entry is { member: string; action: ActionHistory } => entry.action !== null);
+
+      const purgedState: GameState = { ...gameState, updatedAt: now, version: gameState.version + 1 };
+      const days = new Map<string, { counter: GameStateCounter | undefined; count: number; growth: number }[]>();
+      let growthRemoved = 0;
+
+      for (const { action } of actions) {
+        const counter = this.counterFor(action.actionType);
+        if (counter) {
+          purgedState[counter] = Math.max(0, purgedState[counter] - 1);
+        }
+        growthRemoved += action.growthContributed;
+
+        const date = getGardenDate(action.timestamp, day);
+        if (date >= oldestUnclosed) {
+          const tallies = days.get(date) ?? [];
+          const tally = tallies.find(entry => entry.counter === counter);
+          if (tally) {
+            tally.count++;
+            tally.growth += action.growthContributed;
+          } else {
+            tallies.push({ counter, count: 1, growth: action.growthContributed });
+          }
+          days.set(date, tallies);
+        }
+      }
+
+      growthRemoved = Math.round(growthRemoved * 100) / 100;
+      purgedState.totalGrowth = Math.max(0, Math.round((gameState.totalGrowth - growthRemoved) * 100) / 100);
+      purgedState.treeLevel = calculateTreeLevel(purgedState.totalGrowth, balance.treeLevels);
+
+      // Closed days keep their snapshot; only days still counting are corrected
+      const openDays = new Set<string>();
+      for (const date of days.keys()) {
+        if (
+          (await dailyCounterService.getCounters(subredditName, date)) &&
+          !(await redis.get(REDIS_KEYS.DAILY_GROWTH(subredditName, date)))
+        ) {
+          openDays.add(date);
+        }
+      }
+
+      const result: PlayerPurgeResult = {
+        username: target,
+        actionsRemoved: actions.length,
+        growthRemoved,
+        contributionsRemoved: resources.totalContributions,
+      };
+
+      return {
+        write: async tx => {
+          for (const { action, member } of actions) {
+            await tx.zRem(REDIS_KEYS.ACTION_LOG(subredditName), [member]);
+            await tx.zRem(REDIS_KEYS.ACTION_LOG_BY_TYPE(subredditName, action.actionType), [member]);
+            await tx.zRem(playerLogKey, [member]);
+          }
+          for (const [date, tallies] of days) {
+            if (openDays.has(date)) {
+              for (const { counter, count, growth } of tallies) {
+                await dailyCounterService.queueAction(tx, subredditName, date, counter, -growth, -count);
+              }
+            }
+          }
+          await tx.set(stateKey, JSON.stringify(purgedState));
+          await stateChangeLogService.queueAppend(tx, gameState, purgedState);
+          await tx.set(playerKey, JSON.stringify({ ...resources, totalContributions: 0 }));
+          await adminAuditService.queueRecord(
+            tx,
+            {
+              subredditName,
+              action: 'player.purge',
+              moderator,
+              target,
+              reason,
+              details: {
+                actionsRemoved: result.actionsRemoved,
+                growthRemoved,
+                contributionsRemoved: result.contributionsRemoved,
+                previousTotalGrowth: gameState.totalGrowth,
+              },
+            },
+            now
+          );
+        },
+        result,
+      };
+    });
+
+    await leaderboardService.removePlayer(subredditName, target, now);
+    return purge;
+  }
+
+  private validateAdjustment(input: unknown): ResourceAdjustment {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new InvalidAdminRequestError('Resource adjustment must be an object');
+    }
+
+    const limit = GAME_CONFIG.BALANCE.MAX_CINNAMON_LIMIT;
+    const deltas: ResourceAdjustment = {};
+    for (const [resource, value] of Object.entries(input)) {
+      if (!(ADJUSTABLE_RESOURCES as readonly string[]).includes(resource)) {
+        throw new InvalidAdminRequestError(`Unknown resource: ${resource}`);
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value) || Math.abs(value) > limit) {
+        throw new InvalidAdminRequestError(`${resource} must be a whole number between -${limit} and ${limit}`);
+      }
+      if (value !== 0) {
+        deltas[resource as keyof ResourceAdjustment] = value;
+      }
+    }
+
+    if (Object.keys(deltas).length === 0) {
+      throw new InvalidAdminRequestError('Resource adjustment changes nothing');
+    }
+    return deltas;
+  }
+
+  /**
+   * Upvotes of the closed days in a range, read from their snapshots
+   */
+  private async sumClosedUpvotes(subredditName: string, from: string, to: string): Promise<number> {
+    const earliest = addDays(to, -GAME_CONFIG.ADMIN.REBUILD_MAX_DAYS);
+    const keys: string[] = [];
+    for (let date = from < earliest ? earliest : from; date <= to; date = addDays(date, 1)) {
+      keys.push(REDIS_KEYS.DAILY_GROWTH(subredditName, date));
+    }
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    const snapshots = await redis.mGet(keys);
+    return snapshots.reduce((sum, data) => {
+      if (!data) {
+        return sum;
+      }
+      try {
+        return sum + (JSON.parse(data).redditUpvotes ?? 0);
+      } catch {
+        return sum;
+      }
+    }, 0);
+  }
+
+  private counterFor(actionType: string): GameStateCounter | undefined {
+    return actionEngine.getDefinition(actionType)?.counter;
+  }
+
+  private parseAction(member: string): ActionHistory | null {
+    try {
+      const action = JSON.parse(member);
+      return { ...action, timestamp: new Date(action.timestamp) };
+    } catch {
+      return null;
+    }
+  }
+
+  private async requirePlayerResources(username: string, subredditName: string): Promise<PlayerResources> {
+    const resources = await playerResourceService.getPlayerResources(username, subredditName);
+    if (!resources) {
+      throw new Error(`Player resources not found: ${username} in ${subredditName}`);
+    }
+    return resources;
+  }
+
+  private async requireGameState(subredditName: string): Promise<GameState> {
+    const gameState = await redisGameService.getGameState(subredditName);
+    if (!gameState) {
+      throw new Error(`Game state not found for subreddit: ${subredditName}`);
+    }
+    return gameState;
+  }
+}
+
+// Export singleton instance
+export const gardenAdminService = new GardenAdminService();
@@ -0,0 +1,283 @@
+import { redis } from '@devvit/web/server';
+import {
+  ActionBalance,
+  GardenBalance,
+  GardenBalanceLimits,
+  GardenBalanceOverrides,
+  GardenBalanceResponse,
+  PlayerActionType,
+  ACTION_CATALOG,
+  DEFAULT_GARDEN_BALANCE,
+  GAME_CONFIG,
+  REDIS_KEYS,
+  ERROR_MESSAGES,
+  resolveGardenBalance
+} from '../../shared/types';
+
+export class InvalidBalanceConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBalanceConfigError';
+  }
+}
+
+// Stored form: the overrides plus who last changed them
+interface StoredGardenBalance {
+  overrides: GardenBalanceOverrides;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+interface NumberRule {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+const { BALANCE } = GAME_CONFIG;
+
+const ACTION_RULES: Record<keyof ActionBalance, NumberRule> = {
+  cost: { min: 0, max: BALANCE.MAX_ACTION_COST, integer: true },
+  cooldownMs: { min: 0, max: BALANCE.MAX_COOLDOWN_MS, integer: true },
+  growthContribution: { min: 0, max: BALANCE.MAX_GROWTH_PER_ACTION },
+};
+
+const LIMIT_RULES: Record<keyof GardenBalanceLimits, NumberRule> = {
+  maxCinnamon: { min: 1, max: BALANCE.MAX_CINNAMON_LIMIT, integer: true },
+  maxActionsPerMinute: { min: 1, max: BALANCE.MAX_ACTIONS_PER_MINUTE, integer: true },
+  maxSubredditActionsPerMinute: { min: 1, max: BALANCE.MAX_SUBREDDIT_ACTIONS_PER_MINUTE, integer: true },
+};
+
+const VALUE_RULES = {
+  upvoteGrowth: { min: 0, max: BALANCE.MAX_UPVOTE_GROWTH },
+  startingCinnamon: { min: 0, max: BALANCE.MAX_REWARD, integer: true },
+  dailyBonus: { min: 0, max: BALANCE.MAX_REWARD, integer: true },
+  upvoteCinnamon: { min: 0, max: BALANCE.MAX_REWARD },
+} satisfies Record<string, NumberRule>;
+
+const OVERRIDE_FIELDS = ['actions', 'treeLevels', 'limits', ...Object.keys(VALUE_RULES)];
+
+/**
+ * Per-garden game balance. Moderators store overrides for action costs,
+ * cooldowns and growth, upvote growth, tree level thresholds, rewards and
+ * limits; every service resolves the garden's balance from Redis when it
+ * needs it, so a change applies to the next action without a redeploy.
+ */
+export class GardenBalanceService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * A garden's effective balance
+   */
+  async getBalance(subredditName: string): Promise<GardenBalance> {
+    return resolveGardenBalance(await this.getOverrides(subredditName));
+  }
+
+  /**
+   * The values a garden's moderators changed; empty if none
+   */
+  async getOverrides(subredditName: string): Promise<GardenBalanceOverrides> {
+    const stored = await this.getStored(subredditName);
+    return stored?.overrides ?? {};
+  }
+
+  /**
+   * Effective balance, overrides and defaults, for the moderator API
+   */
+  async getSettings(subredditName: string): Promise<GardenBalanceResponse> {
+    return this.toResponse(subredditName, await this.getStored(subredditName));
+  }
+
+  /**
+   * Replace a garden's overrides. Anything left out goes back to the default.
+   */
+  async setOverrides(
+    subredditName: string,
+    input: unknown,
+    updatedBy: string,
+    now: Date = new Date()
+  ): Promise<GardenBalanceResponse> {
+    const stored: StoredGardenBalance = {
+      overrides: this.validateOverrides(input),
+      updatedAt: now.toISOString(),
+      updatedBy,
+    };
+
+    await this.withRetry(() => redis.set(REDIS_KEYS.GARDEN_BALANCE(subredditName), JSON.stringify(stored)));
+    return this.toResponse(subredditName, stored);
+  }
+
+  /**
+   * Drop a garden's overrides so it plays with the defaults again
+   */
+  async reset(subredditName: string): Promise<GardenBalanceResponse> {
+    await this.withRetry(() => redis.del(REDIS_KEYS.GARDEN_BALANCE(subredditName)));
+    return this.toResponse(subredditName, null);
+  }
+
+  private async getStored(subredditName: string): Promise<StoredGardenBalance | null> {
+    const data = await this.withRetry(() => redis.get(REDIS_KEYS.GARDEN_BALANCE(subredditName)));
+    if (!data) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(data) as StoredGardenBalance;
+    } catch {
+      console.error(`Ignoring unreadable balance overrides for ${subredditName}`);
+      return null;
+    }
+  }
+
+  private toResponse(subredditName: string, stored: StoredGardenBalance | null): GardenBalanceResponse {
+    const overrides = stored?.overrides ?? {};
+    return {
+      subredditName,
+      balance: resolveGardenBalance(overrides),
+      overrides,
+      defaults: DEFAULT_GARDEN_BALANCE,
+      ...(stored && { updatedAt: new Date(stored.updatedAt), updatedBy: stored.updatedBy }),
+    };
+  }
+
+  private validateOverrides(input: unknown): GardenBalanceOverrides {
+    const fields = this.requireObject('Balance overrides', input, OVERRIDE_FIELDS);
+    const overrides: GardenBalanceOverrides = {};
+
+    if (fields.actions !== undefined) {
+      const actions = this.validateActions(fields.actions);
+      if (Object.keys(actions).length > 0) {
+        overrides.actions = actions;
+      }
+    }
+    if (fields.treeLevels !== undefined) {
+      overrides.treeLevels = this.validateTreeLevels(fields.treeLevels);
+    }
+    for (const [field, rule] of Object.entries(VALUE_RULES) as [keyof typeof VALUE_RULES, NumberRule][]) {
+      if (fields[field] !== undefined) {
+        overrides[field] = this.validateNumber(field, fields[field], rule);
+      }
+    }
+    if (fields.limits !== undefined) {
+      const limits = this.validateSection('limits', fields.limits, LIMIT_RULES);
+      if (Object.keys(limits).length > 0) {
+        overrides.limits = limits;
+      }
+    }
+
+    // Settings that only make sense together are checked on the merged result
+    const balance = resolveGardenBalance(overrides);
+    if (balance.startingCinnamon > balance.limits.maxCinnamon) {
+      throw new InvalidBalanceConfigError('startingCinnamon cannot exceed limits.maxCinnamon');
+    }
+    for (const [type, action] of Object.entries(balance.actions)) {
+      if (action.cost > balance.limits.maxCinnamon) {
+        throw new InvalidBalanceConfigError(`actions.${type}.cost cannot exceed limits.maxCinnamon`);
+      }
+    }
+    if (balance.limits.maxActionsPerMinute > balance.limits.maxSubredditActionsPerMinute) {
+      throw new InvalidBalanceConfigError(
+        'limits.maxActionsPerMinute cannot exceed limits.maxSubredditActionsPerMinute'
+      );
+    }
+
+    return overrides;
+  }
+
+  private validateActions(input: unknown): Partial<Record<PlayerActionType, Partial<ActionBalance>>> {
+    const fields = this.requireObject('actions', input, Object.keys(ACTION_CATALOG));
+    const actions: Partial<Record<PlayerActionType, Partial<ActionBalance>>> = {};
+
+    for (const [type, value] of Object.entries(fields) as [PlayerActionType, unknown][]) {
+      const action = this.validateSection(`actions.${type}`, value, ACTION_RULES);
+      if (Object.keys(action).length > 0) {
+        actions[type] = action;
+      }
+    }
+    return actions;
+  }
+
+  private validateTreeLevels(input: unknown): number[] {
+    const count = DEFAULT_GARDEN_BALANCE.treeLevels.length;
+    if (
+      !Array.isArray(input) ||
+      input.length !== count ||
+      input.some(value => typeof value !== 'number' || !Number.isFinite(value))
+    ) {
+      throw new InvalidBalanceConfigError(`treeLevels must list the growth required for each of the ${count} levels`);
+    }
+
+    const levels = input as number[];
+    if (levels[0] !== 0 || levels.some((value, index) => index > 0 && value <= levels[index - 1]!)) {
+      throw new InvalidBalanceConfigError('treeLevels must start at 0 and keep increasing');
+    }
+    return [...levels];
+  }
+
+  private validateSection<K extends string>(
+    name: string,
+    input: unknown,
+    rules: Record<K, NumberRule>
+  ): Partial<Record<K, number>> {
+    const fields = this.requireObject(name, input, Object.keys(rules));
+    const section: Partial<Record<K, number>> = {};
+
+    for (const [field, rule] of Object.entries(rules) as [K, NumberRule][]) {
+      if (fields[field] !== undefined) {
+        section[field] = this.validateNumber(`${name}.${field}`, fields[field], rule);
+      }
+    }
+    return section;
+  }
+
+  private validateNumber(name: string, value: unknown, { min, max, integer }: NumberRule): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      throw new InvalidBalanceConfigError(`${name} must be ${integer ? 'a whole number' : 'a number'}`);
+    }
+    if (value < min || value > max) {
+      throw new InvalidBalanceConfigError(`${name} must be between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  private requireObject(name: string, input: unknown, allowed: string[]): Record<string, unknown> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new InvalidBalanceConfigError(`${name} must be an object`);
+    }
+
+    const unknown = Object.keys(input).find(key => !allowed.includes(key));
+    if (unknown) {
+      throw new InvalidBalanceConfigError(`Unknown setting in ${name}: ${unknown}`);
+    }
+    return input as Record<string, unknown>;
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const gardenBalanceService = new GardenBalanceService();
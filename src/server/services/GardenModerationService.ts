@@ -0,0 +1,260 @@
+import { redis } from '@devvit/web/server';
+import {
+  GardenPause,
+  PlayerBan,
+  REDIS_KEYS,
+  ERROR_MESSAGES
+} from '../../shared/types';
+import { optionalDurationMs, optionalReason, requireReason, requireUsername } from '../core/admin';
+import { ActionRejectedError } from './ActionTransactionService';
+import { adminAuditService } from './AdminAuditService';
+
+interface StoredPlayerBan extends Omit<PlayerBan, 'bannedAt' | 'expiresAt'> {
+  bannedAt: string;
+  expiresAt?: string;
+}
+
+interface StoredGardenPause extends Omit<GardenPause, 'pausedAt' | 'resumesAt'> {
+  pausedAt: string;
+  resumesAt?: string;
+}
+
+/**
+ * Player bans and garden pauses set by moderators. Both are checked by the
+ * action engine before every commit; a ban or pause with a duration simply
+ * stops applying once it runs out. Every change is written to the audit log.
+ */
+export class GardenModerationService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Refuse game actions from a banned player or in a paused garden
+   */
+  async assertCanAct(subredditName: string, username: string, now: Date = new Date()): Promise<void> {
+    if (await this.getPause(subredditName, now)) {
+      throw new ActionRejectedError('paused', ERROR_MESSAGES.GARDEN_PAUSED);
+    }
+    if (await this.getBan(subredditName, username, now)) {
+      throw new ActionRejectedError('banned', ERROR_MESSAGES.PLAYER_BANNED);
+    }
+  }
+
+  /**
+   * Ban a player from game actions, until lifted or for a number of minutes
+   */
+  async banPlayer(
+    subredditName: string,
+    username: string,
+    moderator: string,
+    reasonInput: unknown,
+    durationMinutes?: unknown,
+    now: Date = new Date()
+  ): Promise<PlayerBan> {
+    const target = requireUsername(username);
+    const reason = requireReason(reasonInput);
+    const durationMs = optionalDurationMs(durationMinutes);
+
+    const ban: PlayerBan = {
+      username: target,
+      bannedBy: moderator,
+      reason,
+      bannedAt: now,
+      ...(durationMs !== undefined && { expiresAt: new Date(now.getTime() + durationMs) }),
+    };
+
+    await this.withRetry(() =>
+      redis.hSet(REDIS_KEYS.PLAYER_BANS(subredditName), { [target.toLowerCase()]: JSON.stringify(ban) })
+    );
+    await adminAuditService.record(
+      {
+        subredditName,
+        action: 'player.ban',
+        moderator,
+        target,
+        reason,
+        details: { ...(ban.expiresAt && { expiresAt: ban.expiresAt.toISOString() }) },
+      },
+      now
+    );
+    return ban;
+  }
+
+  /**
+   * Lift a player's ban; false if they were not banned
+   */
+  async unbanPlayer(
+    subredditName: string,
+    username: string,
+    moderator: string,
+    reasonInput?: unknown,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const target = requireUsername(username);
+    const reason = optionalReason(reasonInput);
+
+    if (!(await this.getBan(subredditName, target, now))) {
+      return false;
+    }
+
+    await this.withRetry(() => redis.hDel(REDIS_KEYS.PLAYER_BANS(subredditName), [target.toLowerCase()]));
+    await adminAuditService.record(
+      { subredditName, action: 'player.unban', moderator, target, ...(reason && { reason }), details: {} },
+      now
+    );
+    return true;
+  }
+
+  /**
+   * A player's ban, if one is in effect
+   */
+  async getBan(subredditName: string, username: string, now: Date = new Date()): Promise<PlayerBan | null> {
+    const data = await this.withRetry(() =>
+      redis.hGet(REDIS_KEYS.PLAYER_BANS(subredditName), username.toLowerCase())
+    );
+    const ban = data ? this.parseBan(data) : null;
+    return ban && this.isActive(ban.expiresAt, now) ? ban : null;
+  }
+
+  /**
+   * Bans in effect in a garden, most recent first
+   */
+  async listBans(subredditName: string, now: Date = new Date()): Promise<PlayerBan[]> {
+    const stored = await this.withRetry(() => redis.hGetAll(REDIS_KEYS.PLAYER_BANS(subredditName)));
+
+    return Object.values(stored)
+      .map(data => this.parseBan(data))
+      .filter((ban): ban is PlayerBan => ban !== null && this.isActive(ban.expiresAt, now))
+      .sort((a, b) => b.bannedAt.getTime() - a.bannedAt.getTime());
+  }
+
+  /**
+   * Pause every game action in a garden, until resumed or for a number of minutes
+   */
+  async pauseGarden(
+    subredditName: string,
+    moderator: string,
+    reasonInput: unknown,
+    durationMinutes?: unknown,
+    now: Date = new Date()
+  ): Promise<GardenPause> {
+    const reason = requireReason(reasonInput);
+    const durationMs = optionalDurationMs(durationMinutes);
+    const resumesAt = durationMs !== undefined ? new Date(now.getTime() + durationMs) : undefined;
+
+    const pause: GardenPause = {
+      pausedBy: moderator,
+      reason,
+      pausedAt: now,
+      ...(resumesAt && { resumesAt }),
+    };
+
+    await this.withRetry(() =>
+      redis.set(REDIS_KEYS.GARDEN_PAUSE(subredditName), JSON.stringify(pause), {
+        ...(resumesAt && { expiration: resumesAt }),
+      })
+    );
+    await adminAuditService.record(
+      {
+        subredditName,
+        action: 'garden.pause',
+        moderator,
+        reason,
+        details: { ...(resumesAt && { resumesAt: resumesAt.toISOString() }) },
+      },
+      now
+    );
+    return pause;
+  }
+
+  /**
+   * Lift a garden's pause; false if it was not paused
+   */
+  async resumeGarden(
+    subredditName: string,
+    moderator: string,
+    reasonInput?: unknown,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const reason = optionalReason(reasonInput);
+
+    if (!(await this.getPause(subredditName, now))) {
+      return false;
+    }
+
+    await this.withRetry(() => redis.del(REDIS_KEYS.GARDEN_PAUSE(subredditName)));
+    await adminAuditService.record(
+      { subredditName, action: 'garden.resume', moderator, ...(reason && { reason }), details: {} },
+      now
+    );
+    return true;
+  }
+
+  /**
+   * A garden's pause, if one is in effect
+   */
+  async getPause(subredditName: string, now: Date = new Date()): Promise<GardenPause | null> {
+    const data = await this.withRetry(() => redis.get(REDIS_KEYS.GARDEN_PAUSE(subredditName)));
+    if (!data) {
+      return null;
+    }
+
+    try {
+      const { pausedAt, resumesAt, ...stored }: StoredGardenPause = JSON.parse(data);
+      const pause: GardenPause = {
+        ...stored,
+        pausedAt: new Date(pausedAt),
+        ...(resumesAt && { resumesAt: new Date(resumesAt) }),
+      };
+      return this.isActive(pause.resumesAt, now) ? pause : null;
+    } catch {
+      console.error(`Ignoring unreadable pause for ${subredditName}`);
+      return null;
+    }
+  }
+
+  private parseBan(data: string): PlayerBan | null {
+    try {
+      const { bannedAt, expiresAt, ...stored }: StoredPlayerBan = JSON.parse(data);
+      return {
+        ...stored,
+        bannedAt: new Date(bannedAt),
+        ...(expiresAt && { expiresAt: new Date(expiresAt) }),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private isActive(endsAt: Date | undefined, now: Date): boolean {
+    return !endsAt || endsAt.getTime() > now.getTime();
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const gardenModerationService = new GardenModerationService();
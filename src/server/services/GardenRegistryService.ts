@@ -0,0 +1,326 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import {
+  GardenDaySettings,
+  GardenRegistryEntry,
+  GardenScheduleStatus,
+  GardenStatus,
+  REDIS_KEYS,
+  ERROR_MESSAGES
+} from '../../shared/types';
+import { DEFAULT_GARDEN_DAY, isValidTimeZone, normalizeTimeZone } from '../core/calendar';
+
+export type GardenRegistrationSource = 'install' | 'init';
+
+export interface GardenListQuery {
+  status?: GardenStatus;
+}
+
+export class InvalidGardenDayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidGardenDayError';
+  }
+}
+
+// Stored form of an entry; last activity lives in the activity sorted set instead
+interface StoredGardenEntry {
+  subredditName: string;
+  status: GardenStatus;
+  installedAt: string;
+  schedule: {
+    lastRunAt?: string;
+    lastRunStatus?: 'ok' | 'error';
+    lastError?: string;
+  };
+  deactivatedAt?: string;
+  deactivatedBy?: string;
+  // Absent until moderators set it; the garden then uses the default day
+  day?: GardenDaySettings;
+}
+
+/**
+ * Registry of every garden (subreddit) the app is running in.
+ * Entries live in one hash keyed by subreddit so the scheduler, maintenance
+ * jobs and cross-garden features can enumerate them; last activity is kept in
+ * a sorted set so player actions can bump it from inside their own MULTI
+ * without rewriting the entry.
+ */
+export class GardenRegistryService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Register a garden if it isn't known yet. A reinstall reactivates a
+   * deactivated garden; a plain game init leaves its status alone.
+   */
+  async register(
+    subredditName: string,
+    source: GardenRegistrationSource,
+    now: Date = new Date()
+  ): Promise<GardenRegistryEntry> {
+    return this.withRetry(async () => {
+      const stored: StoredGardenEntry = {
+        subredditName,
+        status: 'active',
+        installedAt: now.toISOString(),
+        schedule: {},
+      };
+
+      const created = await redis.hSetNX(REDIS_KEYS.GARDEN_REGISTRY, subredditName, JSON.stringify(stored));
+      if (created) {
+        console.log(`Registered garden ${subredditName} (${source})`);
+        return this.toEntry(stored, null);
+      }
+
+      const existing = await this.getStoredEntry(subredditName);
+      if (existing && source === 'install' && existing.status === 'inactive') {
+        const { deactivatedAt: _deactivatedAt, deactivatedBy: _deactivatedBy, ...rest } = existing;
+        const reactivated: StoredGardenEntry = { ...rest, status: 'active' };
+        await this.saveStoredEntry(reactivated);
+        return this.toEntry(reactivated, await this.getLastActivity(subredditName));
+      }
+
+      return this.toEntry(existing ?? stored, await this.getLastActivity(subredditName));
+    });
+  }
+
+  /**
+   * Queue a last-activity bump inside an open MULTI
+   */
+  async queueActivity(tx: TxClientLike, subredditName: string, at: Date = new Date()): Promise<void> {
+    await tx.zAdd(REDIS_KEYS.GARDEN_ACTIVITY, { member: subredditName, score: at.getTime() });
+  }
+
+  /**
+   * Record activity in a garden outside of an action transaction
+   */
+  async touch(subredditName: string, at: Date = new Date()): Promise<void> {
+    return this.withRetry(async () => {
+      await redis.zAdd(REDIS_KEYS.GARDEN_ACTIVITY, { member: subredditName, score: at.getTime() });
+    });
+  }
+
+  /**
+   * A single registry entry, or null if the garden was never registered
+   */
+  async getGarden(subredditName: string): Promise<GardenRegistryEntry | null> {
+    return this.withRetry(async () => {
+      const stored = await this.getStoredEntry(subredditName);
+      return stored ? this.toEntry(stored, await this.getLastActivity(subredditName)) : null;
+    });
+  }
+
+  /**
+   * Registered gardens, most recently active first
+   */
+  async listGardens(query: GardenListQuery = {}): Promise<GardenRegistryEntry[]> {
+    return this.withRetry(async () => {
+      const all = await redis.hGetAll(REDIS_KEYS.GARDEN_REGISTRY);
+      const gardens: GardenRegistryEntry[] = [];
+
+      for (const data of Object.values(all)) {
+        const stored = this.parseStoredEntry(data);
+        if (!stored || (query.status && stored.status !== query.status)) {
+          continue;
+        }
+        gardens.push(this.toEntry(stored, await this.getLastActivity(stored.subredditName)));
+      }
+
+      return gardens.sort(
+        (a, b) =>
+          (b.lastActivityAt?.getTime() ?? 0) - (a.lastActivityAt?.getTime() ?? 0) ||
+          a.subredditName.localeCompare(b.subredditName)
+      );
+    });
+  }
+
+  /**
+   * Names of every active garden, for jobs that run across all of them
+   */
+  async getActiveSubreddits(): Promise<string[]> {
+    const gardens = await this.listGardens({ status: 'active' });
+    return gardens.map(garden => garden.subredditName);
+  }
+
+  /**
+   * Record the outcome of a scheduled run for a garden
+   */
+  async recordScheduleRun(
+    subredditName: string,
+    outcome: { status: 'ok' } | { status: 'error'; error: string },
+    at: Date = new Date()
+  ): Promise<void> {
+    return this.withRetry(async () => {
+      const stored = await this.getStoredEntry(subredditName);
+      if (!stored) {
+        return;
+      }
+
+      stored.schedule = {
+        lastRunAt: at.toISOString(),
+        lastRunStatus: outcome.status,
+        ...(outcome.status === 'error' && { lastError: outcome.error }),
+      };
+      await this.saveStoredEntry(stored);
+    });
+  }
+
+  /**
+   * When a garden's day rolls over; the default for a garden that never set it
+   */
+  async getDaySettings(subredditName: string): Promise<GardenDaySettings> {
+    return this.withRetry(async () => {
+      const stored = await this.getStoredEntry(subredditName);
+      return stored?.day ?? DEFAULT_GARDEN_DAY;
+    });
+  }
+
+  /**
+   * Set a garden's timezone and cutoff hour. Returns null if the garden is unknown.
+   */
+  async setDaySettings(subredditName: string, settings: unknown): Promise<GardenRegistryEntry | null> {
+    const day = this.validateDaySettings(settings);
+
+    return this.withRetry(async () => {
+      const stored = await this.getStoredEntry(subredditName);
+      if (!stored) {
+        return null;
+      }
+
+      const updated: StoredGardenEntry = { ...stored, day };
+      await this.saveStoredEntry(updated);
+      return this.toEntry(updated, await this.getLastActivity(subredditName));
+    });
+  }
+
+  /**
+   * Take a garden out of scheduled and maintenance runs. Returns null if unknown.
+   */
+  async deactivate(
+    subredditName: string,
+    deactivatedBy: string,
+    now: Date = new Date()
+  ): Promise<GardenRegistryEntry | null> {
+    return this.withRetry(async () => {
+      const stored = await this.getStoredEntry(subredditName);
+      if (!stored) {
+        return null;
+      }
+
+      const updated: StoredGardenEntry = {
+        ...stored,
+        status: 'inactive',
+        deactivatedAt: now.toISOString(),
+        deactivatedBy,
+      };
+      await this.saveStoredEntry(updated);
+      return this.toEntry(updated, await this.getLastActivity(subredditName));
+    });
+  }
+
+  /**
+   * Put a deactivated garden back into scheduled runs. Returns null if unknown.
+   */
+  async activate(subredditName: string): Promise<GardenRegistryEntry | null> {
+    return this.withRetry(async () => {
+      const stored = await this.getStoredEntry(subredditName);
+      if (!stored) {
+        return null;
+      }
+
+      const { deactivatedAt: _deactivatedAt, deactivatedBy: _deactivatedBy, ...rest } = stored;
+      const updated: StoredGardenEntry = { ...rest, status: 'active' };
+      await this.saveStoredEntry(updated);
+      return this.toEntry(updated, await this.getLastActivity(subredditName));
+    });
+  }
+
+  private validateDaySettings(input: unknown): GardenDaySettings {
+    if (typeof input !== 'object' || input === null) {
+      throw new InvalidGardenDayError('Day settings must be an object');
+    }
+
+    const { timezone, cutoffHour } = input as Record<string, unknown>;
+    if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+      throw new InvalidGardenDayError('timezone must be an IANA timezone such as America/New_York');
+    }
+    if (typeof cutoffHour !== 'number' || !Number.isInteger(cutoffHour) || cutoffHour < 0 || cutoffHour > 23) {
+      throw new InvalidGardenDayError('cutoffHour must be a whole hour from 0 to 23');
+    }
+
+    return { timezone: normalizeTimeZone(timezone), cutoffHour };
+  }
+
+  private async getStoredEntry(subredditName: string): Promise<StoredGardenEntry | null> {
+    const data = await redis.hGet(REDIS_KEYS.GARDEN_REGISTRY, subredditName);
+    return data ? this.parseStoredEntry(data) : null;
+  }
+
+  private async saveStoredEntry(stored: StoredGardenEntry): Promise<void> {
+    await redis.hSet(REDIS_KEYS.GARDEN_REGISTRY, { [stored.subredditName]: JSON.stringify(stored) });
+  }
+
+  private async getLastActivity(subredditName: string): Promise<Date | null> {
+    const score = await redis.zScore(REDIS_KEYS.GARDEN_ACTIVITY, subredditName);
+    return score === undefined ? null : new Date(score);
+  }
+
+  private parseStoredEntry(data: string): StoredGardenEntry | null {
+    try {
+      const parsed = JSON.parse(data);
+      if (!parsed || typeof parsed.subredditName !== 'string' || typeof parsed.installedAt !== 'string') {
+        return null;
+      }
+      return { schedule: {}, ...parsed };
+    } catch {
+      return null;
+    }
+  }
+
+  private toEntry(stored: StoredGardenEntry, lastActivityAt: Date | null): GardenRegistryEntry {
+    const schedule: GardenScheduleStatus = {
+      ...(stored.schedule.lastRunAt && { lastRunAt: new Date(stored.schedule.lastRunAt) }),
+      ...(stored.schedule.lastRunStatus && { lastRunStatus: stored.schedule.lastRunStatus }),
+      ...(stored.schedule.lastError && { lastError: stored.schedule.lastError }),
+    };
+
+    return {
+      subredditName: stored.subredditName,
+      status: stored.status,
+      installedAt: new Date(stored.installedAt),
+      lastActivityAt,
+      schedule,
+      day: stored.day ?? DEFAULT_GARDEN_DAY,
+      ...(stored.deactivatedAt && { deactivatedAt: new Date(stored.deactivatedAt) }),
+      ...(stored.deactivatedBy && { deactivatedBy: stored.deactivatedBy }),
+    };
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const gardenRegistryService = new GardenRegistryService();
@@ -1,11 +1,38 @@
 import { 
   DailyGrowthStats,
+  GameState,
+  GardenBalance,
+  GardenDaySettings,
+  ReachedMilestone,
+  DEFAULT_GARDEN_BALANCE,
   GAME_CONFIG,
   REDIS_KEYS
 } from '../../shared/types';
+import { findMilestonesCrossed } from '../../shared/utils/milestones';
+import { calculateTreeLevel } from '../../shared/utils/growth';
 import { redisGameService } from './RedisGameService';
+import { actionLogService } from './ActionLogService';
+import { dailyCounterService, DailyCounters } from './DailyCounterService';
+import { eventBusService } from './EventBusService';
+import { gardenRegistryService } from './GardenRegistryService';
+import { gardenBalanceService } from './GardenBalanceService';
+import { stateChangeLogService } from './StateChangeLogService';
+import { withOptimisticTransaction } from '../core/transaction';
+import { addDays, getGardenDate, getGardenDayStart } from '../core/calendar';
+import type { DomainEvent } from '../core/events';
 import { redis } from '@devvit/web/server';
 
+/**
+ * Result of the one-time repair of a garden's total growth
+ */
+export interface GrowthRepairResult {
+  subredditName: string;
+  previousTotalGrowth: number;
+  totalGrowth: number;
+  previousTreeLevel: number;
+  treeLevel: number;
+}
+
 /**
  * Service for calculating and processing community growth
  * Handles daily growth calculations, tree level updates, and growth persistence
@@ -15,115 +42,138 @@ export class GrowthCalculationService {
   private readonly retryDelay = 1000;
 
   /**
-   * Calculate growth using the specified formula:
+   * Calculate growth using the specified formula, with a garden's balance:
    * growth = seedsPlanted * 1.5 + spiritsFed * 2 + robotCharged * 3 + redditUpvotes * 0.1
    */
   calculateGrowth(
     seedsPlanted: number,
     spiritsFed: number,
     robotCharged: number,
-    redditUpvotes: number
+    redditUpvotes: number,
+    balance: GardenBalance = DEFAULT_GARDEN_BALANCE
   ): number {
     const growth = 
-      seedsPlanted * GAME_CONFIG.GROWTH_MULTIPLIERS.SEEDS_PLANTED +
-      spiritsFed * GAME_CONFIG.GROWTH_MULTIPLIERS.SPIRITS_FED +
-      robotCharged * GAME_CONFIG.GROWTH_MULTIPLIERS.ROBOT_CHARGED +
-      redditUpvotes * GAME_CONFIG.GROWTH_MULTIPLIERS.REDDIT_UPVOTES;
+      seedsPlanted * balance.actions.plant.growthContribution +
+      spiritsFed * balance.actions.feed.growthContribution +
+      robotCharged * balance.actions.charge.growthContribution +
+      redditUpvotes * balance.upvoteGrowth;
 
     return Math.round(growth * 100) / 100; // Round to 2 decimal places
   }
 
   /**
-   * Calculate tree level based on total growth
+   * Calculate tree level based on total growth, at a garden's thresholds
    */
-  calculateTreeLevel(totalGrowth: number): number {
-    const levels = Object.values(GAME_CONFIG.TREE_LEVELS);
-    
-    // Sort levels by growth required (descending) to find the highest level achieved
-    const sortedLevels = levels.sort((a, b) => b.growthRequired - a.growthRequired);
-    
-    for (const level of sortedLevels) {
-      if (totalGrowth >= level.growthRequired) {
-        return level.level;
+  calculateTreeLevel(totalGrowth: number, balance: GardenBalance = DEFAULT_GARDEN_BALANCE): number {
+    return calculateTreeLevel(totalGrowth, balance.treeLevels);
+  }
+
+  /**
+   * Close yesterday, and any earlier day in the catch-up window that was
+   * missed, turning each day's counters into its DAILY_GROWTH snapshot.
+   * Action growth already counted towards the total when the action
+   * committed; closing a day only adds that day's upvote growth. Closing a
+   * day twice returns the stored snapshot.
+   */
+  async processDailyGrowth(subredditName: string, now: Date = new Date()): Promise<DailyGrowthStats> {
+    await this.repairInflatedGrowth(subredditName, now);
+
+    const day = await gardenRegistryService.getDaySettings(subredditName);
+    const today = getGardenDate(now, day);
+    for (let daysAgo = GAME_CONFIG.DAILY_GROWTH.CATCH_UP_DAYS; daysAgo > 1; daysAgo--) {
+      const counters = await dailyCounterService.getCounters(subredditName, addDays(today, -daysAgo));
+      if (counters) {
+        await this.closeDay(subredditName, counters, day, now);
       }
     }
-    
-    return 1; // Default to seedling
+
+    const yesterday = addDays(today, -1);
+    const counters =
+      (await dailyCounterService.getCounters(subredditName, yesterday)) ?? dailyCounterService.emptyCounters(yesterday);
+    return this.closeDay(subredditName, counters, day, now);
   }
 
   /**
-   * Process daily growth calculation for a subreddit
+   * Recompute total growth from the all-time counters for a garden whose
+   * total was inflated by the old daily pass, which added the all-time
+   * counters again every day. Upvotes still waiting in an unclosed day stay
+   * in dailyUpvotes. The counters are weighed at the default multipliers,
+   * which were the only ones before gardens had balance overrides. Runs once
+   * per garden; gardens created since are marked repaired when they are
+   * created. Null if it already ran.
    */
-  async processDailyGrowth(subredditName: string): Promise<DailyGrowthStats> {
-    return this.withRetry(async () => {
+  async repairInflatedGrowth(subredditName: string, now: Date = new Date()): Promise<GrowthRepairResult | null> {
+    const stateKey = REDIS_KEYS.SUBREDDIT_STATE(subredditName);
+    const repairedKey = REDIS_KEYS.GROWTH_REPAIRED(subredditName);
+    if (await redis.get(repairedKey)) {
+      return null;
+    }
+
+    const pendingUpvotes = await this.getUnclosedUpvotes(subredditName, now);
+    const balance = await gardenBalanceService.getBalance(subredditName);
+
+    const repair = await withOptimisticTransaction<GrowthRepairResult | null>([stateKey, repairedKey], async () => {
+      const repairedAt = await redis.get(repairedKey);
+      if (repairedAt) {
+        return { write: async tx => void (await tx.set(repairedKey, repairedAt)), result: null };
+      }
+
       const gameState = await redisGameService.getGameState(subredditName);
       if (!gameState) {
         throw new Error(`Game state not found for subreddit: ${subredditName}`);
       }
 
-      const today = new Date().toISOString().split('T')[0]!; // YYYY-MM-DD format
-      
-      // Check if we've already processed today's growth
-      const existingStats = await this.getDailyGrowthStats(subredditName, today);
-      if (existingStats) {
-        return existingStats;
-      }
-
-      // Calculate today's growth
-      const dailyGrowth = this.calculateGrowth(
+      const totalGrowth = this.calculateGrowth(
         gameState.seedsPlanted,
         gameState.spiritsFed,
         gameState.robotCharged,
-        gameState.dailyUpvotes
+        Math.max(0, gameState.dailyUpvotes - pendingUpvotes),
+        DEFAULT_GARDEN_BALANCE
       );
-
-      // Get active player count
-      const activePlayerCount = await redisGameService.getActivePlayerCount(subredditName);
-
-      // Create daily growth stats
-      const dailyStats: DailyGrowthStats = {
-        date: today,
-        seedsPlanted: gameState.seedsPlanted,
-        spiritsFed: gameState.spiritsFed,
-        robotCharged: gameState.robotCharged,
-        redditUpvotes: gameState.dailyUpvotes,
-        totalGrowth: dailyGrowth,
-        activePlayerCount
+      const updatedState: GameState = {
+        ...gameState,
+        totalGrowth,
+        treeLevel: this.calculateTreeLevel(totalGrowth, balance),
+        dailyUpvotes: Math.min(gameState.dailyUpvotes, pendingUpvotes),
+        updatedAt: now,
+        version: gameState.version + 1,
       };
 
-      // Save daily stats
-      await this.saveDailyGrowthStats(subredditName, today, dailyStats);
-
-      // Update game state with new totals and reset daily counters
-      const newTotalGrowth = gameState.totalGrowth + dailyGrowth;
-      const newTreeLevel = this.calculateTreeLevel(newTotalGrowth);
-
-      await redisGameService.updateGameState(subredditName, {
-        totalGrowth: newTotalGrowth,
-        treeLevel: newTreeLevel,
-        lastGrowthCalculation: new Date(),
-        // Reset daily counters (optional - depends on game design)
-        // dailyUpvotes: 0
-      });
-
-      return dailyStats;
+      return {
+        write: async tx => {
+          await tx.set(stateKey, JSON.stringify(updatedState));
+          await stateChangeLogService.queueAppend(tx, gameState, updatedState);
+          await tx.set(repairedKey, now.toISOString());
+        },
+        result: {
+          subredditName,
+          previousTotalGrowth: gameState.totalGrowth,
+          totalGrowth,
+          previousTreeLevel: gameState.treeLevel,
+          treeLevel: updatedState.treeLevel,
+        },
+      };
     });
+
+    if (repair && repair.previousTotalGrowth !== repair.totalGrowth) {
+      console.log(
+        `Repaired growth for ${subredditName}: ${repair.previousTotalGrowth} -> ${repair.totalGrowth} ` +
+          `(level ${repair.previousTreeLevel} -> ${repair.treeLevel})`
+      );
+    }
+    return repair;
   }
 
   /**
    * Get growth history for a subreddit
    */
-  async getGrowthHistory(subredditName: string, days: number = 7): Promise<DailyGrowthStats[]> {
+  async getGrowthHistory(subredditName: string, days: number = 7, now: Date = new Date()): Promise<DailyGrowthStats[]> {
     return this.withRetry(async () => {
       const history: DailyGrowthStats[] = [];
-      const today = new Date();
+      const today = getGardenDate(now, await gardenRegistryService.getDaySettings(subredditName));
 
       for (let i = 0; i < days; i++) {
-        const date = new Date(today);
-        date.setDate(date.getDate() - i);
-        const dateStr = date.toISOString().split('T')[0]!;
-
-        const stats = await this.getDailyGrowthStats(subredditName, dateStr);
+        const stats = await this.getDailyGrowthStats(subredditName, addDays(today, -i));
         if (stats) {
           history.push(stats);
         }
@@ -148,13 +198,8 @@ export class GrowthCalculationService {
         throw new Error(`Game state not found for subreddit: ${subredditName}`);
       }
 
-      // Calculate current day's potential growth
-      const currentDayGrowth = this.calculateGrowth(
-        gameState.seedsPlanted,
-        gameState.spiritsFed,
-        gameState.robotCharged,
-        gameState.dailyUpvotes
-      );
+      // Growth counted so far today
+      const { totalGrowth: currentDayGrowth } = await this.getDailyStats(subredditName);
 
       // Get recent history to calculate average
       const history = await this.getGrowthHistory(subredditName, 7);
@@ -166,16 +211,15 @@ export class GrowthCalculationService {
         projectedDailyGrowth = Math.max(averageGrowth, currentDayGrowth);
       }
 
-      // Find next level
-      const currentLevel = gameState.treeLevel;
-      const levels = Object.values(GAME_CONFIG.TREE_LEVELS);
-      const nextLevel = levels.find(level => level.level > currentLevel);
+      // Find next level; levels are numbered from 1, so the next one's threshold is at the current level
+      const { treeLevels } = await gardenBalanceService.getBalance(subredditName);
+      const nextLevelThreshold = treeLevels[gameState.treeLevel];
       
       let daysToNextLevel = Infinity;
       let nextLevelGrowthRequired = 0;
       
-      if (nextLevel && projectedDailyGrowth > 0) {
-        nextLevelGrowthRequired = nextLevel.growthRequired;
+      if (nextLevelThreshold !== undefined && projectedDailyGrowth > 0) {
+        nextLevelGrowthRequired = nextLevelThreshold;
         const growthNeeded = nextLevelGrowthRequired - gameState.totalGrowth;
         daysToNextLevel = Math.ceil(growthNeeded / projectedDailyGrowth);
       }
@@ -192,92 +236,160 @@ export class GrowthCalculationService {
   /**
    * Check if a milestone has been reached
    */
-  async checkMilestones(_subredditName: string, previousTotalGrowth: number, newTotalGrowth: number): Promise<{
+  async checkMilestones(subredditName: string, previousTotalGrowth: number, newTotalGrowth: number): Promise<{
     levelUp: boolean;
     newLevel?: number;
     milestoneReached?: string;
+    milestones: ReachedMilestone[];
   }> {
-    const previousLevel = this.calculateTreeLevel(previousTotalGrowth);
-    const newLevel = this.calculateTreeLevel(newTotalGrowth);
+    const balance = await gardenBalanceService.getBalance(subredditName);
+    const previousLevel = this.calculateTreeLevel(previousTotalGrowth, balance);
+    const newLevel = this.calculateTreeLevel(newTotalGrowth, balance);
+    const milestones = findMilestonesCrossed(previousTotalGrowth, newTotalGrowth, balance.treeLevels);
     
     const result: {
       levelUp: boolean;
       newLevel?: number;
       milestoneReached?: string;
+      milestones: ReachedMilestone[];
     } = {
-      levelUp: newLevel > previousLevel
+      levelUp: newLevel > previousLevel,
+      milestones,
     };
 
     if (newLevel > previousLevel) {
       result.newLevel = newLevel;
     }
 
-    if (result.levelUp && result.newLevel) {
-      const levelNames = {
-        1: 'Seedling',
-        2: 'Sapling',
-        3: 'Young Tree',
-        4: 'Mature Tree',
-        5: 'Ancient Tree',
-        6: 'Spirit Tree'
-      };
-      result.milestoneReached = `Tree evolved to ${levelNames[result.newLevel as keyof typeof levelNames]}!`;
-    }
-
-    // Check for other milestones
-    const milestones = [100, 250, 500, 1000, 2500, 5000];
-    for (const milestone of milestones) {
-      if (previousTotalGrowth < milestone && newTotalGrowth >= milestone) {
-        result.milestoneReached = `Community reached ${milestone} total growth!`;
-        break;
-      }
+    // A growth threshold takes precedence over the level-up in the message
+    const announced =
+      milestones.find(milestone => milestone.kind === 'growth') ??
+      milestones.filter(milestone => milestone.kind === 'level').pop();
+    if (announced) {
+      result.milestoneReached = `${announced.label}!`;
     }
 
     return result;
   }
 
   /**
-   * Get current day's stats for posting
+   * Today's stats so far, for posting
    */
-  async getDailyStats(subredditName: string): Promise<DailyGrowthStats> {
+  async getDailyStats(subredditName: string, now: Date = new Date()): Promise<DailyGrowthStats> {
     return this.withRetry(async () => {
-      const gameState = await redisGameService.getGameState(subredditName);
-      if (!gameState) {
-        throw new Error(`Game state not found for subreddit: ${subredditName}`);
-      }
+      const today = getGardenDate(now, await gardenRegistryService.getDaySettings(subredditName));
+      const counters =
+        (await dailyCounterService.getCounters(subredditName, today)) ?? dailyCounterService.emptyCounters(today);
+      const activePlayerCount = await redisGameService.getActivePlayerCount(subredditName);
 
-      const today = new Date().toISOString().split('T')[0]!;
-      
-      // Try to get existing daily stats first
-      const existingStats = await this.getDailyGrowthStats(subredditName, today);
-      if (existingStats) {
-        return existingStats;
+      return this.toDailyStats(counters, activePlayerCount, await gardenBalanceService.getBalance(subredditName));
+    });
+  }
+
+  /**
+   * Write a day's snapshot and add its upvote growth to the total, once.
+   * Level-ups and milestones the upvotes crossed go out as domain events.
+   */
+  private async closeDay(
+    subredditName: string,
+    counters: DailyCounters,
+    day: GardenDaySettings,
+    now: Date
+  ): Promise<DailyGrowthStats> {
+    const stateKey = REDIS_KEYS.SUBREDDIT_STATE(subredditName);
+    const snapshotKey = REDIS_KEYS.DAILY_GROWTH(subredditName, counters.date);
+    const activePlayerCount = await this.countPlayersOn(subredditName, counters.date, day);
+    const balance = await gardenBalanceService.getBalance(subredditName);
+
+    const closed = await withOptimisticTransaction<{ stats: DailyGrowthStats; events: DomainEvent[] }>(
+      [stateKey, snapshotKey],
+      async () => {
+        const existing = await redis.get(snapshotKey);
+        if (existing) {
+          return {
+            write: async tx => void (await tx.set(snapshotKey, existing)),
+            result: { stats: JSON.parse(existing), events: [] },
+          };
+        }
+
+        const gameState = await redisGameService.getGameState(subredditName);
+        if (!gameState) {
+          throw new Error(`Game state not found for subreddit: ${subredditName}`);
+        }
+
+        const stats = this.toDailyStats(counters, activePlayerCount, balance);
+        const upvoteGrowth = this.calculateGrowth(0, 0, 0, counters.redditUpvotes, balance);
+        const totalGrowth = Math.round((gameState.totalGrowth + upvoteGrowth) * 100) / 100;
+        const updatedState: GameState = {
+          ...gameState,
+          totalGrowth,
+          treeLevel: this.calculateTreeLevel(totalGrowth, balance),
+          dailyUpvotes: Math.max(0, gameState.dailyUpvotes - counters.redditUpvotes),
+          lastGrowthCalculation: now,
+          updatedAt: now,
+          version: gameState.version + 1,
+        };
+        const events = redisGameService.buildGrowthEvents(gameState, updatedState, now, balance);
+
+        return {
+          write: async tx => {
+            await tx.set(snapshotKey, JSON.stringify(stats));
+            await tx.set(stateKey, JSON.stringify(updatedState));
+            await stateChangeLogService.queueAppend(tx, gameState, updatedState);
+            await eventBusService.queue(tx, events);
+          },
+          result: { stats, events },
+        };
       }
+    );
 
-      // Calculate current day's growth
-      const dailyGrowth = this.calculateGrowth(
-        gameState.seedsPlanted,
-        gameState.spiritsFed,
-        gameState.robotCharged,
-        gameState.dailyUpvotes
-      );
+    await eventBusService.deliver(closed.events, now);
+    return closed.stats;
+  }
 
-      // Get active player count
-      const activePlayerCount = await redisGameService.getActivePlayerCount(subredditName);
+  /**
+   * A day's counters as growth stats; growth is the day's actions plus its upvotes
+   */
+  private toDailyStats(counters: DailyCounters, activePlayerCount: number, balance: GardenBalance): DailyGrowthStats {
+    return {
+      date: counters.date,
+      seedsPlanted: counters.seedsPlanted,
+      spiritsFed: counters.spiritsFed,
+      robotCharged: counters.robotCharged,
+      redditUpvotes: counters.redditUpvotes,
+      totalGrowth:
+        Math.round((counters.actionGrowth + this.calculateGrowth(0, 0, 0, counters.redditUpvotes, balance)) * 100) / 100,
+      activePlayerCount,
+    };
+  }
 
-      // Create daily stats
-      const dailyStats: DailyGrowthStats = {
-        date: today,
-        seedsPlanted: gameState.seedsPlanted,
-        spiritsFed: gameState.spiritsFed,
-        robotCharged: gameState.robotCharged,
-        redditUpvotes: gameState.dailyUpvotes,
-        totalGrowth: dailyGrowth,
-        activePlayerCount
-      };
+  /**
+   * Distinct players in the action log on a garden day
+   */
+  private async countPlayersOn(subredditName: string, date: string, day: GardenDaySettings): Promise<number> {
+    const actions = await actionLogService.getActionsBetween(
+      subredditName,
+      getGardenDayStart(date, day),
+      getGardenDayStart(addDays(date, 1), day)
+    );
+    return new Set(actions.map(action => action.username)).size;
+  }
 
-      return dailyStats;
-    });
+  /**
+   * Upvotes counted on days in the catch-up window that haven't been closed
+   */
+  private async getUnclosedUpvotes(subredditName: string, now: Date): Promise<number> {
+    const today = getGardenDate(now, await gardenRegistryService.getDaySettings(subredditName));
+    let upvotes = 0;
+
+    for (let daysAgo = 0; daysAgo <= GAME_CONFIG.DAILY_GROWTH.CATCH_UP_DAYS; daysAgo++) {
+      const date = addDays(today, -daysAgo);
+      const counters = await dailyCounterService.getCounters(subredditName, date);
+      if (counters && !(await this.getDailyGrowthStats(subredditName, date))) {
+        upvotes += counters.redditUpvotes;
+      }
+    }
+    return upvotes;
   }
 
   /**
@@ -296,16 +408,6 @@ export class GrowthCalculationService {
     });
   }
 
-  /**
-   * Save daily growth stats
-   */
-  private async saveDailyGrowthStats(subredditName: string, date: string, stats: DailyGrowthStats): Promise<void> {
-    return this.withRetry(async () => {
-      const key = REDIS_KEYS.DAILY_GROWTH(subredditName, date);
-      await redis.set(key, JSON.stringify(stats));
-    });
-  }
-
   /**
    * Retry wrapper for Redis operations with exponential backoff
    */
@@ -0,0 +1,265 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import {
+  GardenDaySettings,
+  LeaderboardEntry,
+  LeaderboardWindow,
+  REDIS_KEYS,
+  ERROR_MESSAGES,
+  GAME_CONFIG
+} from '../../shared/types';
+import { DEFAULT_GARDEN_DAY, getGardenDate, getIsoWeek } from '../core/calendar';
+import { gardenRegistryService } from './GardenRegistryService';
+
+export interface LeaderboardQuery {
+  limit?: number;
+  // Centre the page on this player instead of starting from the top
+  aroundUsername?: string;
+  // Player whose own standing is reported alongside the page
+  username?: string;
+  now?: Date;
+}
+
+export interface LeaderboardPage {
+  window: LeaderboardWindow;
+  periodId: string;
+  entries: LeaderboardEntry[];
+  me: LeaderboardEntry | null;
+  totalPlayers: number;
+}
+
+export const LEADERBOARD_WINDOWS: readonly LeaderboardWindow[] = ['daily', 'weekly', 'alltime'];
+
+/**
+ * Period a leaderboard window covers at `date`: the garden day, the ISO week
+ * of the garden day, or 'all'
+ */
+export const getLeaderboardPeriod = (
+  window: LeaderboardWindow,
+  date: Date,
+  day: GardenDaySettings = DEFAULT_GARDEN_DAY
+): string => {
+  if (window === 'alltime') {
+    return 'all';
+  }
+
+  const gardenDate = getGardenDate(date, day);
+  return window === 'daily' ? gardenDate : getIsoWeek(gardenDate);
+};
+
+// Pre-leaderboard JSON array of usernames, backfilled into the all-time board
+const LEGACY_PLAYER_INDEX = (subredditName: string) => `cinnarito:subreddit:${subredditName}:players`;
+
+/**
+ * Daily, weekly and all-time contribution leaderboards in Redis sorted sets.
+ * Contributions are queued into the action's own MULTI, daily and weekly boards
+ * live under a key per garden day or week so they roll over on their own and expire once
+ * stale, and ranks/pages are single ZRANK/ZRANGE reads. The all-time board also
+ * serves as the garden's player roster.
+ */
+export class LeaderboardService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Queue a player's contribution to every window inside an open MULTI
+   */
+  async queueContribution(
+    tx: TxClientLike,
+    subredditName: string,
+    username: string,
+    amount: number,
+    at: Date = new Date(),
+    day: GardenDaySettings = DEFAULT_GARDEN_DAY
+  ): Promise<void> {
+    for (const window of LEADERBOARD_WINDOWS) {
+      const key = this.boardKey(subredditName, window, at, day);
+      await tx.zIncrBy(key, username, amount);
+
+      if (window !== 'alltime') {
+        await tx.expire(key, this.ttlSeconds(window));
+      }
+    }
+  }
+
+  /**
+   * Make sure a player appears on the all-time board, without changing their score
+   */
+  async registerPlayer(subredditName: string, username: string): Promise<void> {
+    return this.withRetry(async () => {
+      await redis.zIncrBy(this.boardKey(subredditName, 'alltime'), username, 0);
+    });
+  }
+
+  /**
+   * Remove a player from every current board
+   */
+  async removePlayer(subredditName: string, username: string, now: Date = new Date()): Promise<void> {
+    return this.withRetry(async () => {
+      const day = await gardenRegistryService.getDaySettings(subredditName);
+      for (const window of LEADERBOARD_WINDOWS) {
+        await redis.zRem(this.boardKey(subredditName, window, now, day), [username]);
+      }
+    });
+  }
+
+  /**
+   * Page of a leaderboard window, from the top or centred on a player
+   */
+  async getLeaderboard(
+    subredditName: string,
+    window: LeaderboardWindow,
+    query: LeaderboardQuery = {}
+  ): Promise<LeaderboardPage> {
+    const now = query.now ?? new Date();
+    const limit = Math.min(
+      Math.max(1, Math.floor(query.limit ?? GAME_CONFIG.LEADERBOARD.DEFAULT_LIMIT)),
+      GAME_CONFIG.LEADERBOARD.MAX_LIMIT
+    );
+
+    return this.withRetry(async () => {
+      const day = await gardenRegistryService.getDaySettings(subredditName);
+      const key = this.boardKey(subredditName, window, now, day);
+      const totalPlayers = await redis.zCard(key);
+      const me = query.username ? await this.rankOf(key, query.username, totalPlayers) : null;
+      const around =
+        query.aroundUsername === query.username
+          ? me
+          : query.aroundUsername
+            ? await this.rankOf(key, query.aroundUsername, totalPlayers)
+            : null;
+
+      let start = 0;
+      if (around) {
+        start = Math.max(0, Math.min(around.rank - 1 - Math.floor(limit / 2), totalPlayers - limit));
+      }
+
+      const members = await redis.zRange(key, start, start + limit - 1, { by: 'rank', reverse: true });
+      const entries = members.map((member, index) => ({
+        rank: start + index + 1,
+        username: member.member,
+        score: member.score,
+      }));
+
+      return {
+        window,
+        periodId: getLeaderboardPeriod(window, now, day),
+        entries,
+        me,
+        totalPlayers,
+      };
+    });
+  }
+
+  /**
+   * A player's standing in a window, or null if they are not on the board
+   */
+  async getRank(
+    subredditName: string,
+    username: string,
+    window: LeaderboardWindow = 'alltime',
+    now: Date = new Date()
+  ): Promise<LeaderboardEntry | null> {
+    return this.withRetry(async () => {
+      const day = await gardenRegistryService.getDaySettings(subredditName);
+      const key = this.boardKey(subredditName, window, now, day);
+      return this.rankOf(key, username, await redis.zCard(key));
+    });
+  }
+
+  /**
+   * Usernames on the all-time board, highest contribution first
+   */
+  async getTopUsernames(subredditName: string, limit: number): Promise<string[]> {
+    return this.withRetry(async () => {
+      const members = await redis.zRange(this.boardKey(subredditName, 'alltime'), 0, limit - 1, {
+        by: 'rank',
+        reverse: true,
+      });
+      return members.map(member => member.member);
+    });
+  }
+
+  /**
+   * Seed the all-time board from the legacy JSON player index, if one exists
+   */
+  async backfillFromLegacyIndex(
+    subredditName: string,
+    contributionsOf: (username: string) => Promise<number | null>
+  ): Promise<number> {
+    return this.withRetry(async () => {
+      const legacyKey = LEGACY_PLAYER_INDEX(subredditName);
+      const data = await redis.get(legacyKey);
+      if (!data) {
+        return 0;
+      }
+
+      const parsed: unknown = JSON.parse(data);
+      const usernames = Array.isArray(parsed) ? parsed.filter((u): u is string => typeof u === 'string') : [];
+      const members: { member: string; score: number }[] = [];
+      for (const username of usernames) {
+        const contributions = await contributionsOf(username);
+        if (contributions !== null) {
+          members.push({ member: username, score: contributions });
+        }
+      }
+
+      if (members.length > 0) {
+        await redis.zAdd(this.boardKey(subredditName, 'alltime'), ...members);
+      }
+      await redis.del(legacyKey);
+
+      return members.length;
+    });
+  }
+
+  private async rankOf(key: string, username: string, totalPlayers: number): Promise<LeaderboardEntry | null> {
+    const [ascendingRank, score] = await Promise.all([redis.zRank(key, username), redis.zScore(key, username)]);
+    if (ascendingRank === undefined || score === undefined) {
+      return null;
+    }
+    return { rank: totalPlayers - ascendingRank, username, score };
+  }
+
+  private boardKey(
+    subredditName: string,
+    window: LeaderboardWindow,
+    at: Date = new Date(),
+    day: GardenDaySettings = DEFAULT_GARDEN_DAY
+  ): string {
+    return REDIS_KEYS.LEADERBOARD(subredditName, window, getLeaderboardPeriod(window, at, day));
+  }
+
+  private ttlSeconds(window: Exclude<LeaderboardWindow, 'alltime'>): number {
+    return window === 'daily'
+      ? GAME_CONFIG.LEADERBOARD.DAILY_TTL_SECONDS
+      : GAME_CONFIG.LEADERBOARD.WEEKLY_TTL_SECONDS;
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const leaderboardService = new LeaderboardService();
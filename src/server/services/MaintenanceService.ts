@@ -0,0 +1,35 @@
+import { gardenRegistryService } from './GardenRegistryService';
+import { growthCalculationService } from './GrowthCalculationService';
+
+export interface MaintenanceReport {
+  gardens: number;
+  failures: string[];
+}
+
+/**
+ * Housekeeping that runs across every active garden in the registry
+ */
+export class MaintenanceService {
+  /**
+   * Close the previous day's growth in every active garden. One failing
+   * garden doesn't stop the pass; it is reported in `failures`.
+   */
+  async runForAllGardens(now: Date = new Date()): Promise<MaintenanceReport> {
+    const subreddits = await gardenRegistryService.getActiveSubreddits();
+    const report: MaintenanceReport = { gardens: subreddits.length, failures: [] };
+
+    for (const subredditName of subreddits) {
+      try {
+        await growthCalculationService.processDailyGrowth(subredditName, now);
+      } catch (error) {
+        console.error(`Maintenance failed for ${subredditName}:`, error);
+        report.failures.push(subredditName);
+      }
+    }
+
+    return report;
+  }
+}
+
+// Export singleton instance
+export const maintenanceService = new MaintenanceService();
@@ -0,0 +1,169 @@
+import { redis } from '@devvit/web/server';
+import {
+  MilestoneChronicleConfig,
+  ReachedMilestone,
+  REDIS_KEYS,
+  ERROR_MESSAGES
+} from '../../shared/types';
+import { MILESTONE_GROWTH_THRESHOLDS, MILESTONE_LEVELS, parseMilestoneId } from '../../shared/utils/milestones';
+
+export interface QueuedMilestone {
+  milestone: ReachedMilestone;
+  queuedAt: Date;
+}
+
+/**
+ * A moderator's milestone configuration that can't be saved, with the reason
+ */
+export class InvalidMilestoneConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMilestoneConfigError';
+  }
+}
+
+/**
+ * Queue of milestones waiting for an automatic chronicle, plus each garden's
+ * choice of which milestones auto-post.
+ *
+ * Milestones are queued by the chronicles subscriber to MilestoneReached events,
+ * so at least once per crossing. The chronicle tick drains the queue, claiming
+ * each milestone in the chronicle history first, so a milestone is posted at
+ * most once per garden however many times it is queued.
+ */
+export class MilestoneChronicleService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Queue milestones for a chronicle; queueing one that is already queued just moves it
+   */
+  async enqueue(subredditName: string, milestones: ReachedMilestone[], at: Date = new Date()): Promise<void> {
+    if (milestones.length === 0) {
+      return;
+    }
+
+    return this.withRetry(async () => {
+      await redis.zAdd(
+        REDIS_KEYS.CHRONICLE_MILESTONE_QUEUE(subredditName),
+        ...milestones.map(milestone => ({ member: milestone.id, score: at.getTime() }))
+      );
+    });
+  }
+
+  /**
+   * Queued milestones, oldest first
+   */
+  async getQueued(subredditName: string): Promise<QueuedMilestone[]> {
+    return this.withRetry(async () => {
+      const entries = await redis.zRange(REDIS_KEYS.CHRONICLE_MILESTONE_QUEUE(subredditName), 0, -1, { by: 'rank' });
+      return entries.flatMap(entry => {
+        const milestone = parseMilestoneId(entry.member);
+        return milestone ? [{ milestone, queuedAt: new Date(entry.score) }] : [];
+      });
+    });
+  }
+
+  /**
+   * Take milestones off the queue
+   */
+  async remove(subredditName: string, milestoneIds: string[]): Promise<void> {
+    return this.withRetry(async () => {
+      await redis.zRem(REDIS_KEYS.CHRONICLE_MILESTONE_QUEUE(subredditName), milestoneIds);
+    });
+  }
+
+  /**
+   * A garden's milestone configuration; every milestone auto-posts until a moderator changes it
+   */
+  async getConfig(subredditName: string): Promise<MilestoneChronicleConfig> {
+    return this.withRetry(async () => {
+      const data = await redis.get(REDIS_KEYS.CHRONICLE_MILESTONE_CONFIG(subredditName));
+      return data ? { ...this.getDefaultConfig(), ...JSON.parse(data) } : this.getDefaultConfig();
+    });
+  }
+
+  /**
+   * Validate and save a garden's milestone configuration
+   */
+  async setConfig(subredditName: string, config: unknown): Promise<MilestoneChronicleConfig> {
+    const validated = this.validateConfig(config);
+
+    return this.withRetry(async () => {
+      await redis.set(REDIS_KEYS.CHRONICLE_MILESTONE_CONFIG(subredditName), JSON.stringify(validated));
+      return validated;
+    });
+  }
+
+  getDefaultConfig(): MilestoneChronicleConfig {
+    return {
+      enabled: true,
+      levels: [...MILESTONE_LEVELS],
+      growthThresholds: [...MILESTONE_GROWTH_THRESHOLDS],
+    };
+  }
+
+  /**
+   * Whether a milestone posts a chronicle under a configuration
+   */
+  isAutoPosted(config: MilestoneChronicleConfig, milestone: ReachedMilestone): boolean {
+    if (!config.enabled) {
+      return false;
+    }
+    return milestone.kind === 'level'
+      ? config.levels.includes(milestone.value)
+      : config.growthThresholds.includes(milestone.value);
+  }
+
+  private validateConfig(input: unknown): MilestoneChronicleConfig {
+    if (typeof input !== 'object' || input === null) {
+      throw new InvalidMilestoneConfigError('Milestone configuration must be an object');
+    }
+
+    const { enabled, levels, growthThresholds } = input as Record<string, unknown>;
+    if (typeof enabled !== 'boolean') {
+      throw new InvalidMilestoneConfigError('enabled must be true or false');
+    }
+
+    return {
+      enabled,
+      levels: this.validateChoices('levels', levels, MILESTONE_LEVELS),
+      growthThresholds: this.validateChoices('growthThresholds', growthThresholds, MILESTONE_GROWTH_THRESHOLDS),
+    };
+  }
+
+  private validateChoices(field: string, value: unknown, allowed: readonly number[]): number[] {
+    if (!Array.isArray(value) || value.some(item => !allowed.includes(item))) {
+      throw new InvalidMilestoneConfigError(`${field} must be a list drawn from: ${allowed.join(', ')}`);
+    }
+    return [...new Set(value as number[])].sort((a, b) => a - b);
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const milestoneChronicleService = new MilestoneChronicleService();
@@ -1,15 +1,25 @@
 import { redis } from '@devvit/web/server';
 import { 
   PlayerResources, 
+  GardenBalance,
+  PlayerActionType,
+  ACTION_CATALOG,
   REDIS_KEYS,
   ERROR_MESSAGES,
-  GAME_CONFIG,
   isPlayerResources
 } from '../../shared/types';
+import { leaderboardService } from './LeaderboardService';
+import { eventBusService } from './EventBusService';
+import { gardenRegistryService } from './GardenRegistryService';
+import { gardenBalanceService } from './GardenBalanceService';
+import { createDomainEvent } from '../core/events';
+import { withOptimisticTransaction } from '../core/transaction';
+import { addDays, getGardenDate, getGardenDayStart } from '../core/calendar';
 
 /**
  * Service for managing individual player resources and data
- * Handles resource earning, spending, and validation with Redis persistence
+ * Handles resource earning, spending, and validation with Redis persistence.
+ * Starting cinnamon, rewards, costs and the cinnamon cap come from the garden's balance.
  */
 export class PlayerResourceService {
   private readonly maxRetries = 3;
@@ -25,10 +35,11 @@ export class PlayerResourceService {
         return existingResources;
       }
 
+      const { startingCinnamon } = await gardenBalanceService.getBalance(subredditName);
       const initialResources: PlayerResources = {
         username,
         subredditName,
-        cinnamon: GAME_CONFIG.RESOURCE_REWARDS.STARTING_CINNAMON,
+        cinnamon: startingCinnamon,
         seeds: 0,
         energy: 0,
         totalContributions: 0,
@@ -36,6 +47,7 @@ export class PlayerResourceService {
       };
 
       await this.savePlayerResources(initialResources);
+      await this.publishPlayerJoined(initialResources);
       return initialResources;
     } catch (error) {
       throw new Error(`Failed to initialize player resources: ${error}`);
@@ -54,12 +66,8 @@ export class PlayerResourceService {
         return null;
       }
 
-      const parsed = JSON.parse(data);
-      
-      // Convert date string back to Date object
-      parsed.lastActive = new Date(parsed.lastActive);
-
-      if (!isPlayerResources(parsed)) {
+      const parsed = this.parsePlayerResources(data);
+      if (!parsed) {
         throw new Error('Invalid player resources data structure');
       }
 
@@ -76,87 +84,79 @@ export class PlayerResourceService {
       resources.lastActive = new Date();
       
       await redis.set(key, JSON.stringify(resources));
-      
-      // Update player index for the subreddit
-      await this.updatePlayerIndex(resources.username, resources.subredditName);
     });
   }
 
   /**
-   * Update player resources with validation
+   * Announce a new player; subscribers add them to the garden's roster. Never fatal
+   */
+  private async publishPlayerJoined(resources: PlayerResources): Promise<void> {
+    try {
+      await eventBusService.publish([
+        createDomainEvent('PlayerJoined', resources.subredditName, { username: resources.username }, resources.lastActive),
+      ]);
+    } catch (error) {
+      console.error(`Failed to publish PlayerJoined for ${resources.username} in ${resources.subredditName}:`, error);
+    }
+  }
+
+  /**
+   * Update player resources with validation, atomically against concurrent
+   * writes such as an action's spend
    */
   async updatePlayerResources(
     username: string, 
     subredditName: string, 
     updates: Partial<Omit<PlayerResources, 'username' | 'subredditName'>>
   ): Promise<PlayerResources> {
-    return this.withRetry(async () => {
-      const currentResources = await this.getPlayerResources(username, subredditName);
-      if (!currentResources) {
-        throw new Error(`Player resources not found: ${username} in ${subredditName}`);
-      }
-
-      const updatedResources: PlayerResources = {
-        ...currentResources,
-        ...updates,
-        lastActive: new Date()
-      };
-
-      // Validate resource limits
-      this.validateResourceLimits(updatedResources);
-
-      await this.savePlayerResources(updatedResources);
-      return updatedResources;
-    });
+    return this.modifyPlayerResources(username, subredditName, currentResources => ({
+      ...currentResources,
+      ...updates
+    }));
   }
 
   /**
-   * Earn cinnamon resources (e.g., from Reddit upvotes)
+   * Earn cinnamon resources (e.g., from Reddit upvotes), up to the garden's cap
    */
   async earnCinnamon(username: string, subredditName: string, amount: number): Promise<PlayerResources> {
     if (amount <= 0) {
       throw new Error('Cinnamon amount must be positive');
     }
 
-    return this.withRetry(async () => {
-      const currentResources = await this.getPlayerResources(username, subredditName);
-      if (!currentResources) {
-        throw new Error(`Player resources not found: ${username} in ${subredditName}`);
-      }
-
-      const newCinnamon = Math.min(
-        currentResources.cinnamon + amount,
-        GAME_CONFIG.LIMITS.MAX_CINNAMON
-      );
-
-      return this.updatePlayerResources(username, subredditName, {
-        cinnamon: newCinnamon
-      });
-    });
+    return this.modifyPlayerResources(username, subredditName, (currentResources, { limits }) => ({
+      ...currentResources,
+      cinnamon: Math.min(currentResources.cinnamon + amount, limits.maxCinnamon)
+    }));
   }
 
   /**
-   * Spend cinnamon resources with validation
+   * Read, change and write a player's resources in one optimistic transaction,
+   * so the write never overwrites one that landed in between
    */
-  async spendCinnamon(username: string, subredditName: string, amount: number): Promise<PlayerResources> {
-    if (amount <= 0) {
-      throw new Error('Cinnamon amount must be positive');
-    }
+  private async modifyPlayerResources(
+    username: string,
+    subredditName: string,
+    modify: (currentResources: PlayerResources, balance: GardenBalance) => PlayerResources
+  ): Promise<PlayerResources> {
+    const key = REDIS_KEYS.PLAYER_RESOURCES(username, subredditName);
+    const balance = await gardenBalanceService.getBalance(subredditName);
 
-    return this.withRetry(async () => {
+    return withOptimisticTransaction([key], async () => {
       const currentResources = await this.getPlayerResources(username, subredditName);
       if (!currentResources) {
         throw new Error(`Player resources not found: ${username} in ${subredditName}`);
       }
 
-      if (currentResources.cinnamon < amount) {
-        throw new Error(ERROR_MESSAGES.INSUFFICIENT_RESOURCES);
-      }
+      const updatedResources: PlayerResources = {
+        ...modify(currentResources, balance),
+        lastActive: new Date()
+      };
+      this.validateResourceLimits(updatedResources, balance);
 
-      return this.updatePlayerResources(username, subredditName, {
-        cinnamon: currentResources.cinnamon - amount,
-        totalContributions: currentResources.totalContributions + amount
-      });
+      return {
+        write: async tx => void (await tx.set(key, JSON.stringify(updatedResources))),
+        result: updatedResources
+      };
     });
   }
 
@@ -170,74 +170,64 @@ export class PlayerResourceService {
         return false;
       }
 
-      const cost = this.getActionCost(actionType);
+      const cost = this.getActionCost(actionType, await gardenBalanceService.getBalance(subredditName));
       return resources.cinnamon >= cost;
     });
   }
 
   /**
-   * Process action resource transaction
+   * Award daily bonus cinnamon, once per player and garden day. Null if the
+   * player already claimed today's bonus.
    */
-  async processActionTransaction(
-    username: string, 
-    subredditName: string, 
-    actionType: string
-  ): Promise<{ resources: PlayerResources; cost: number }> {
-    return this.withRetry(async () => {
-      const cost = this.getActionCost(actionType);
-      
-      if (cost === 0) {
-        // Free action, just update last active
-        const resources = await this.updatePlayerResources(username, subredditName, {});
-        return { resources, cost };
-      }
-
-      const resources = await this.spendCinnamon(username, subredditName, cost);
-      return { resources, cost };
-    });
-  }
+  async awardDailyBonus(username: string, subredditName: string, now: Date = new Date()): Promise<PlayerResources | null> {
+    const day = await gardenRegistryService.getDaySettings(subredditName);
+    const date = getGardenDate(now, day);
+    const claimKey = REDIS_KEYS.DAILY_BONUS_CLAIM(username, subredditName, date);
+
+    const claimed = await this.withRetry(() =>
+      redis.set(claimKey, now.toISOString(), { nx: true, expiration: getGardenDayStart(addDays(date, 2), day) })
+    );
+    if (!claimed) {
+      return null;
+    }
 
-  /**
-   * Award daily bonus cinnamon
-   */
-  async awardDailyBonus(username: string, subredditName: string): Promise<PlayerResources> {
-    return this.earnCinnamon(username, subredditName, GAME_CONFIG.RESOURCE_REWARDS.DAILY_BONUS);
+    try {
+      const { dailyBonus } = await gardenBalanceService.getBalance(subredditName);
+      return await this.earnCinnamon(username, subredditName, dailyBonus);
+    } catch (error) {
+      // Give the claim back so the player can try again
+      await redis.del(claimKey);
+      throw error;
+    }
   }
 
   /**
    * Award cinnamon from Reddit upvotes
    */
   async awardUpvoteCinnamon(username: string, subredditName: string, upvoteCount: number): Promise<PlayerResources> {
-    const cinnamonAmount = upvoteCount * GAME_CONFIG.RESOURCE_REWARDS.UPVOTE_CINNAMON;
+    const { upvoteCinnamon } = await gardenBalanceService.getBalance(subredditName);
+    const cinnamonAmount = upvoteCount * upvoteCinnamon;
     return this.earnCinnamon(username, subredditName, cinnamonAmount);
   }
 
   /**
-   * Get all players for a subreddit (for leaderboards, etc.)
-   * Note: This is a simplified implementation. In production, consider maintaining a separate index.
+   * Get players for a subreddit, highest total contributions first
    */
   async getSubredditPlayers(subredditName: string, limit: number = 100): Promise<PlayerResources[]> {
     return this.withRetry(async () => {
-      // For now, we'll maintain a simple index of players per subreddit
-      const indexKey = `cinnarito:subreddit:${subredditName}:players`;
-      const playersData = await redis.get(indexKey);
-      
-      if (!playersData) {
+      const usernames = await leaderboardService.getTopUsernames(subredditName, limit);
+      if (usernames.length === 0) {
         return [];
       }
-      
-      const playerUsernames = JSON.parse(playersData);
-      const players: PlayerResources[] = [];
-      
-      for (const username of playerUsernames.slice(0, limit)) {
-        const playerData = await this.getPlayerResources(username, subredditName);
-        if (playerData) {
-          players.push(playerData);
-        }
-      }
-      
-      // Sort by total contributions descending
-      return players.sort((a, b) => b.totalContributions - a.totalContributions);
+
+      // One round trip for every player instead of a GET each
+      const records = await redis.mGet(
+        usernames.map(username => REDIS_KEYS.PLAYER_RESOURCES(username, subredditName))
+      );
+
+      return records
+        .map(data => (data ? this.parsePlayerResources(data) : null))
+        .filter((player): player is PlayerResources => player !== null);
     });
   }
 
@@ -245,11 +235,8 @@ export class PlayerResourceService {
    * Get player rank in subreddit by total contributions
    */
   async getPlayerRank(username: string, subredditName: string): Promise<number> {
-    return this.withRetry(async () => {
-      const players = await this.getSubredditPlayers(subredditName);
-      const playerIndex = players.findIndex(p => p.username === username);
-      return playerIndex >= 0 ? playerIndex + 1 : -1;
-    });
+    const entry = await leaderboardService.getRank(subredditName, username, 'alltime');
+    return entry ? entry.rank : -1;
   }
 
   /**
@@ -267,7 +254,7 @@ export class PlayerResourceService {
         if (player.lastActive < cutoffDate) {
           const key = REDIS_KEYS.PLAYER_RESOURCES(player.username, player.subredditName);
           await redis.del(key);
-          await this.removeFromPlayerIndex(player.username, player.subredditName);
+          await leaderboardService.removePlayer(player.subredditName, player.username);
           cleanedCount++;
         }
       }
@@ -277,33 +264,37 @@ export class PlayerResourceService {
   }
 
   /**
-   * Get action cost based on action type
+   * Get action cost based on action type, in a garden's balance
    */
-  private getActionCost(actionType: string): number {
-    switch (actionType) {
-      case 'plant':
-        return GAME_CONFIG.RESOURCE_COSTS.PLANT_SEED;
-      case 'feed':
-        return GAME_CONFIG.RESOURCE_COSTS.FEED_SPIRIT;
-      case 'charge':
-        return GAME_CONFIG.RESOURCE_COSTS.CHARGE_ROBOT;
-      case 'post':
-        return GAME_CONFIG.RESOURCE_COSTS.POST_UPDATE;
-      default:
-        throw new Error(`Unknown action type: ${actionType}`);
+  private getActionCost(actionType: string, balance: GardenBalance): number {
+    if (!(actionType in ACTION_CATALOG)) {
+      throw new Error(`Unknown action type: ${actionType}`);
     }
+    return balance.actions[actionType as PlayerActionType].cost;
+  }
+
+  /**
+   * Parse stored player resources, or null if the record is malformed
+   */
+  private parsePlayerResources(data: string): PlayerResources | null {
+    const parsed = JSON.parse(data);
+    
+    // Convert date string back to Date object
+    parsed.lastActive = new Date(parsed.lastActive);
+
+    return isPlayerResources(parsed) ? parsed : null;
   }
 
   /**
    * Validate resource limits
    */
-  private validateResourceLimits(resources: PlayerResources): void {
+  private validateResourceLimits(resources: PlayerResources, balance: GardenBalance): void {
     if (resources.cinnamon < 0) {
       throw new Error('Cinnamon cannot be negative');
     }
     
-    if (resources.cinnamon > GAME_CONFIG.LIMITS.MAX_CINNAMON) {
-      throw new Error(`Cinnamon cannot exceed ${GAME_CONFIG.LIMITS.MAX_CINNAMON}`);
+    if (resources.cinnamon > balance.limits.maxCinnamon) {
+      throw new Error(`Cinnamon cannot exceed ${balance.limits.maxCinnamon}`);
     }
     
     if (resources.seeds < 0) {
@@ -319,35 +310,6 @@ export class PlayerResourceService {
     }
   }
 
-  /**
-   * Update player index for subreddit
-   */
-  private async updatePlayerIndex(username: string, subredditName: string): Promise<void> {
-    const indexKey = `cinnarito:subreddit:${subredditName}:players`;
-    const playersData = await redis.get(indexKey);
-    
-    let players = playersData ? JSON.parse(playersData) : [];
-    
-    if (!players.includes(username)) {
-      players.push(username);
-      await redis.set(indexKey, JSON.stringify(players));
-    }
-  }
-
-  /**
-   * Remove player from index
-   */
-  private async removeFromPlayerIndex(username: string, subredditName: string): Promise<void> {
-    const indexKey = `cinnarito:subreddit:${subredditName}:players`;
-    const playersData = await redis.get(indexKey);
-    
-    if (playersData) {
-      let players = JSON.parse(playersData);
-      players = players.filter((player: string) => player !== username);
-      await redis.set(indexKey, JSON.stringify(players));
-    }
-  }
-
   /**
    * Retry wrapper for Redis operations with exponential backoff
    */
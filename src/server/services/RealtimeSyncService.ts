@@ -0,0 +1,48 @@
+import { realtime } from '@devvit/web/server';
+import { GardenRealtimeMessage, REALTIME_CHANNELS } from '../../shared/types';
+import type { ActionCommittedEvent } from '../core/events';
+
+/**
+ * Pushes committed changes to the garden's realtime channel so open clients
+ * see each other's actions without waiting for a poll.
+ *
+ * Messages are best-effort: a send that fails is logged and dropped rather
+ * than retried, because clients fall back to polling and a delta that arrives
+ * late is ignored as stale anyway. That also keeps a redelivered event from
+ * rolling anyone's garden back.
+ */
+export class RealtimeSyncService {
+  /**
+   * Publish the state delta and action for a committed action
+   */
+  async publishActionCommitted(event: ActionCommittedEvent): Promise<void> {
+    const { payload } = event;
+    const message: GardenRealtimeMessage = {
+      type: 'delta',
+      subredditName: event.subredditName,
+      changes: payload.stateChanges,
+      version: payload.version,
+      updatedAt: event.occurredAt.toISOString(),
+      action: {
+        id: payload.actionId,
+        username: payload.username,
+        actionType: payload.actionType,
+        growthContributed: payload.growthContributed,
+        timestamp: event.occurredAt.toISOString(),
+      },
+    };
+
+    await this.send(event.subredditName, message);
+  }
+
+  private async send(subredditName: string, message: GardenRealtimeMessage): Promise<void> {
+    try {
+      await realtime.send(REALTIME_CHANNELS.GARDEN(subredditName), message);
+    } catch (error) {
+      console.error(`Failed to publish realtime ${message.type} for ${subredditName}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const realtimeSyncService = new RealtimeSyncService();
@@ -3,12 +3,28 @@ import {
   GameState, 
   ActionHistory, 
   DailyGrowthStats,
+  ActionCooldowns,
+  ACTION_ORDER,
   REDIS_KEYS,
   ERROR_MESSAGES,
-  GAME_CONFIG,
-  isGameState,
-  isActionHistory
+  DEFAULT_GARDEN_BALANCE,
+  GardenBalance,
+  isGameState
 } from '../../shared/types';
+import { actionLogService } from './ActionLogService';
+import { leaderboardService } from './LeaderboardService';
+import { playerResourceService } from './PlayerResourceService';
+import { gardenRegistryService } from './GardenRegistryService';
+import { eventBusService } from './EventBusService';
+import { dailyCounterService } from './DailyCounterService';
+import { gardenBalanceService } from './GardenBalanceService';
+import { stateChangeLogService } from './StateChangeLogService';
+import { withOptimisticTransaction } from '../core/transaction';
+import { getGardenDate } from '../core/calendar';
+import { createDomainEvent, DomainEvent } from '../core/events';
+import { findMilestonesCrossed } from '../../shared/utils/milestones';
+import { calculateTreeLevel } from '../../shared/utils/growth';
+import { diffGameState } from '../../shared/utils/stateDelta';
 
 /**
  * Redis service layer for game state operations
@@ -23,8 +39,11 @@ export class RedisGameService {
    */
   async initializeGameState(subredditName: string): Promise<GameState> {
     try {
+      await this.registerGarden(subredditName);
+
       const existingState = await this.getGameState(subredditName);
       if (existingState) {
+        await this.migrateLegacyData(subredditName);
         return existingState;
       }
 
@@ -38,9 +57,12 @@ export class RedisGameService {
         dailyUpvotes: 0,
         lastGrowthCalculation: new Date(),
         createdAt: new Date(),
-        updatedAt: new Date()
+        updatedAt: new Date(),
+        version: 0
       };
 
+      // A new garden starts on per-day accounting, so it never needs the growth repair
+      await redis.set(REDIS_KEYS.GROWTH_REPAIRED(subredditName), initialState.createdAt.toISOString());
       await this.saveGameState(initialState);
       return initialState;
     } catch (error) {
@@ -48,6 +70,39 @@ export class RedisGameService {
     }
   }
 
+  /**
+   * Make sure the garden is in the registry the scheduler iterates; never fatal
+   */
+  private async registerGarden(subredditName: string): Promise<void> {
+    try {
+      await gardenRegistryService.register(subredditName, 'init');
+    } catch (error) {
+      console.error(`Failed to register garden ${subredditName}:`, error);
+    }
+  }
+
+  /**
+   * Move a garden's pre-sorted-set action history and player index over; never fatal
+   */
+  private async migrateLegacyData(subredditName: string): Promise<void> {
+    try {
+      const migrated = await actionLogService.migrateLegacyHistory(subredditName);
+      if (migrated > 0) {
+        console.log(`Migrated ${migrated} legacy actions into the action log for ${subredditName}`);
+      }
+
+      const backfilled = await leaderboardService.backfillFromLegacyIndex(subredditName, async username => {
+        const resources = await playerResourceService.getPlayerResources(username, subredditName);
+        return resources ? resources.totalContributions : null;
+      });
+      if (backfilled > 0) {
+        console.log(`Backfilled ${backfilled} players into the all-time leaderboard for ${subredditName}`);
+      }
+    } catch (error) {
+      console.error(`Failed to migrate legacy data for ${subredditName}:`, error);
+    }
+  }
+
   /**
    * Get game state for a specific subreddit
    */
@@ -66,6 +121,8 @@ export class RedisGameService {
       parsed.lastGrowthCalculation = new Date(parsed.lastGrowthCalculation);
       parsed.createdAt = new Date(parsed.createdAt);
       parsed.updatedAt = new Date(parsed.updatedAt);
+      // States saved before versioning start at 0
+      parsed.version = parsed.version ?? 0;
 
       if (!isGameState(parsed)) {
         throw new Error('Invalid game state data structure');
@@ -88,89 +145,130 @@ export class RedisGameService {
   }
 
   /**
-   * Update specific fields of game state atomically
+   * Update specific fields of game state atomically; the version bump and its
+   * state log entry commit in the same transaction as the new state
    */
   async updateGameState(
     subredditName: string, 
-    updates: Partial<Omit<GameState, 'subredditName' | 'createdAt'>>
+    updates: Partial<Omit<GameState, 'subredditName' | 'createdAt' | 'version'>>
   ): Promise<GameState> {
-    return this.withRetry(async () => {
+    const stateKey = REDIS_KEYS.SUBREDDIT_STATE(subredditName);
+    const balance = await gardenBalanceService.getBalance(subredditName);
+
+    const { previousState, updatedState } = await withOptimisticTransaction([stateKey], async () => {
       const currentState = await this.getGameState(subredditName);
       if (!currentState) {
         throw new Error(`Game state not found for subreddit: ${subredditName}`);
       }
 
-      const updatedState: GameState = {
+      const nextState: GameState = {
         ...currentState,
         ...updates,
-        updatedAt: new Date()
+        updatedAt: new Date(),
+        version: currentState.version + 1
       };
+      // Recalculate tree level based on total growth, at the garden's thresholds
+      nextState.treeLevel = calculateTreeLevel(nextState.totalGrowth, balance.treeLevels);
+
+      return {
+        write: async tx => {
+          await tx.set(stateKey, JSON.stringify(nextState));
+          await stateChangeLogService.queueAppend(tx, currentState, nextState);
+        },
+        result: { previousState: currentState, updatedState: nextState },
+      };
+    });
 
-      // Recalculate tree level based on total growth
-      updatedState.treeLevel = this.calculateTreeLevel(updatedState.totalGrowth);
+    await this.publishGrowthEvents(previousState, updatedState, balance);
+    return updatedState;
+  }
 
-      await this.saveGameState(updatedState);
-      return updatedState;
-    });
+  /**
+   * Events for a committed action: the action itself plus any level-up and
+   * milestones it caused. Queue them in the action's MULTI and deliver them after.
+   */
+  buildActionEvents(
+    action: ActionHistory,
+    previousState: GameState,
+    updatedState: GameState,
+    balance: GardenBalance = DEFAULT_GARDEN_BALANCE
+  ): DomainEvent[] {
+    return [
+      createDomainEvent(
+        'ActionCommitted',
+        action.subredditName,
+        {
+          actionId: action.id,
+          username: action.username,
+          actionType: action.actionType,
+          resourcesSpent: action.resourcesSpent,
+          growthContributed: action.growthContributed,
+          previousTotalGrowth: previousState.totalGrowth,
+          totalGrowth: updatedState.totalGrowth,
+          stateChanges: diffGameState(previousState, updatedState),
+          version: updatedState.version,
+        },
+        action.timestamp
+      ),
+      ...this.buildGrowthEvents(previousState, updatedState, action.timestamp, balance),
+    ];
   }
 
   /**
-   * Add action to history and update game state
+   * TreeLeveledUp and MilestoneReached events for a change in total growth,
+   * with levels reached at the garden's thresholds
    */
-  async recordAction(actionHistory: Omit<ActionHistory, 'id' | 'timestamp'>): Promise<ActionHistory> {
-    return this.withRetry(async () => {
-      const action: ActionHistory = {
-        ...actionHistory,
-        id: this.generateActionId(),
-        timestamp: new Date()
-      };
+  buildGrowthEvents(
+    previousState: GameState,
+    updatedState: GameState,
+    at: Date,
+    balance: GardenBalance = DEFAULT_GARDEN_BALANCE
+  ): DomainEvent[] {
+    const { subredditName, totalGrowth } = updatedState;
+    const events: DomainEvent[] = [];
+
+    if (updatedState.treeLevel > previousState.treeLevel) {
+      events.push(
+        createDomainEvent(
+          'TreeLeveledUp',
+          subredditName,
+          { previousLevel: previousState.treeLevel, newLevel: updatedState.treeLevel, totalGrowth },
+          at
+        )
+      );
+    }
+    for (const milestone of findMilestonesCrossed(previousState.totalGrowth, totalGrowth, balance.treeLevels)) {
+      events.push(createDomainEvent('MilestoneReached', subredditName, { milestone, totalGrowth }, at));
+    }
 
-      // Store action in a simple list for now (can be optimized later with sorted sets)
-      const actionKey = REDIS_KEYS.ACTION_HISTORY(actionHistory.subredditName);
-      const existingActions = await redis.get(actionKey);
-      const actions = existingActions ? JSON.parse(existingActions) : [];
-      
-      actions.unshift(action); // Add to beginning
-      
-      // Keep only last 1000 actions
-      if (actions.length > 1000) {
-        actions.splice(1000);
-      }
-      
-      await redis.set(actionKey, JSON.stringify(actions));
+    return events;
+  }
 
-      // Update game state based on action
-      await this.updateGameStateFromAction(action);
+  /**
+   * Publish growth events after a state update; the update stands even if this fails
+   */
+  private async publishGrowthEvents(
+    previousState: GameState,
+    updatedState: GameState,
+    balance: GardenBalance
+  ): Promise<void> {
+    const events = this.buildGrowthEvents(previousState, updatedState, updatedState.updatedAt, balance);
+    if (events.length === 0) {
+      return;
+    }
 
-      return action;
-    });
+    try {
+      await eventBusService.publish(events);
+    } catch (error) {
+      console.error(`Failed to publish growth events for ${updatedState.subredditName}:`, error);
+    }
   }
 
   /**
    * Get recent actions for a subreddit
    */
   async getRecentActions(subredditName: string, limit: number = 50): Promise<ActionHistory[]> {
-    return this.withRetry(async () => {
-      const key = REDIS_KEYS.ACTION_HISTORY(subredditName);
-      const data = await redis.get(key);
-      
-      if (!data) {
-        return [];
-      }
-      
-      const actions = JSON.parse(data);
-      
-      return actions.slice(0, limit).map((actionData: any) => {
-        const parsed = { ...actionData };
-        parsed.timestamp = new Date(parsed.timestamp);
-        
-        if (!isActionHistory(parsed)) {
-          throw new Error('Invalid action history data structure');
-        }
-        
-        return parsed;
-      });
-    });
+    return actionLogService.getRecentActions(subredditName, limit);
   }
 
   /**
@@ -201,6 +299,36 @@ export class RedisGameService {
     });
   }
 
+  /**
+   * Count Reddit upvotes towards today. Their growth is added when the day closes.
+   */
+  async recordUpvotes(subredditName: string, upvotes: number, at: Date = new Date()): Promise<GameState> {
+    const stateKey = REDIS_KEYS.SUBREDDIT_STATE(subredditName);
+    const date = getGardenDate(at, await gardenRegistryService.getDaySettings(subredditName));
+
+    return withOptimisticTransaction([stateKey], async () => {
+      const gameState = await this.getGameState(subredditName);
+      if (!gameState) {
+        throw new Error(`Game state not found for subreddit: ${subredditName}`);
+      }
+
+      const updatedState: GameState = {
+        ...gameState,
+        dailyUpvotes: gameState.dailyUpvotes + upvotes,
+        updatedAt: at,
+        version: gameState.version + 1,
+      };
+      return {
+        write: async tx => {
+          await tx.set(stateKey, JSON.stringify(updatedState));
+          await stateChangeLogService.queueAppend(tx, gameState, updatedState);
+          await dailyCounterService.queueUpvotes(tx, subredditName, date, upvotes);
+        },
+        result: updatedState,
+      };
+    });
+  }
+
   /**
    * Track active players in a subreddit
    */
@@ -246,99 +374,25 @@ export class RedisGameService {
   }
 
   /**
-   * Check if player has action cooldown
+   * Get the remaining cooldown (ms) for every action type for a player
    */
-  async checkActionCooldown(username: string, subredditName: string): Promise<boolean> {
+  async getActionCooldowns(username: string, subredditName: string): Promise<ActionCooldowns> {
     return this.withRetry(async () => {
-      const key = REDIS_KEYS.ACTION_COOLDOWN(username, subredditName);
-      const expiryTimeStr = await redis.get(key);
-      
-      if (!expiryTimeStr) {
-        return false;
-      }
-      
-      const expiryTime = parseInt(expiryTimeStr);
       const now = Date.now();
-      
-      if (now >= expiryTime) {
-        // Cooldown expired, clean up
-        await redis.del(key);
-        return false;
-      }
-      
-      return true;
-    });
-  }
+      const expiries = await redis.mGet(
+        ACTION_ORDER.map(actionType => REDIS_KEYS.ACTION_COOLDOWN(username, subredditName, actionType))
+      );
+
+      const cooldowns = {} as ActionCooldowns;
+      ACTION_ORDER.forEach((actionType, index) => {
+        const expiry = expiries[index];
+        cooldowns[actionType] = expiry ? Math.max(parseInt(expiry) - now, 0) : 0;
+      });
 
-  /**
-   * Set action cooldown for player
-   */
-  async setActionCooldown(username: string, subredditName: string, durationMs: number = 60000): Promise<void> {
-    return this.withRetry(async () => {
-      const key = REDIS_KEYS.ACTION_COOLDOWN(username, subredditName);
-      const expiryTime = Date.now() + durationMs;
-      await redis.set(key, expiryTime.toString());
+      return cooldowns;
     });
   }
 
-  /**
-   * Calculate tree level based on total growth
-   */
-  private calculateTreeLevel(totalGrowth: number): number {
-    const levels = Object.values(GAME_CONFIG.TREE_LEVELS);
-    
-    for (let i = levels.length - 1; i >= 0; i--) {
-      const level = levels[i];
-      if (level && totalGrowth >= level.growthRequired) {
-        return level.level;
-      }
-    }
-    
-    return 1; // Default to seedling
-  }
-
-  /**
-   * Update game state based on recorded action
-   */
-  private async updateGameStateFromAction(action: ActionHistory): Promise<void> {
-    const updates: Partial<GameState> = {
-      totalGrowth: 0 // Will be calculated
-    };
-
-    switch (action.actionType) {
-      case 'plant':
-        updates.seedsPlanted = 1;
-        break;
-      case 'feed':
-        updates.spiritsFed = 1;
-        break;
-      case 'charge':
-        updates.robotCharged = 1;
-        break;
-      case 'post':
-        // Post action doesn't directly affect growth counters
-        break;
-    }
-
-    // Get current state to calculate incremental updates
-    const currentState = await this.getGameState(action.subredditName);
-    if (currentState) {
-      updates.seedsPlanted = currentState.seedsPlanted + (updates.seedsPlanted || 0);
-      updates.spiritsFed = currentState.spiritsFed + (updates.spiritsFed || 0);
-      updates.robotCharged = currentState.robotCharged + (updates.robotCharged || 0);
-      updates.totalGrowth = currentState.totalGrowth + action.growthContributed;
-    }
-
-    await this.updateGameState(action.subredditName, updates);
-  }
-
-  /**
-   * Generate unique action ID
-   */
-  private generateActionId(): string {
-    return `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   /**
    * Retry wrapper for Redis operations with exponential backoff
    */
@@ -0,0 +1,137 @@
+import { redis, type TxClientLike } from '@devvit/web/server';
+import {
+  ActionHistory,
+  GameState,
+  GardenStateChanges,
+  StateChangeEntry,
+  REDIS_KEYS,
+  ERROR_MESSAGES,
+  GAME_CONFIG,
+  isActionHistory
+} from '../../shared/types';
+import { diffGameState } from '../../shared/utils/stateDelta';
+
+export interface StateChangesSince {
+  // Every counter that changed, at its latest value
+  changes: GardenStateChanges;
+  // Actions behind those changes, oldest first
+  actions: ActionHistory[];
+}
+
+/**
+ * Bounded log of the changes each state version made, one sorted set per
+ * garden scored by version. Transactional state writes queue their entry in
+ * the same MULTI as the state itself; a version whose entry is missing just
+ * makes readers fall back to a full snapshot. The oldest entries are trimmed
+ * once the log passes STATE_LOG.MAX_VERSIONS.
+ */
+export class StateChangeLogService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+
+  /**
+   * Queue the entry for a state write inside an open MULTI
+   */
+  async queueAppend(
+    tx: TxClientLike,
+    previous: GameState,
+    updated: GameState,
+    action?: ActionHistory
+  ): Promise<void> {
+    const key = REDIS_KEYS.STATE_LOG(updated.subredditName);
+    const entry: StateChangeEntry = {
+      version: updated.version,
+      changes: diffGameState(previous, updated),
+      ...(action && { action }),
+      at: updated.updatedAt,
+    };
+
+    await tx.zAdd(key, { member: JSON.stringify(entry), score: entry.version });
+    await tx.zRemRangeByRank(key, 0, -(GAME_CONFIG.STATE_LOG.MAX_VERSIONS + 1));
+  }
+
+  /**
+   * What changed after `sinceVersion` up to `currentVersion`, merged into one
+   * set of changes. Null when the log can't account for every version in
+   * between (trimmed, or written before versioning), so the caller should send
+   * the whole state instead.
+   */
+  async getChangesSince(
+    subredditName: string,
+    sinceVersion: number,
+    currentVersion: number
+  ): Promise<StateChangesSince | null> {
+    if (sinceVersion > currentVersion) {
+      return null;
+    }
+    if (sinceVersion === currentVersion) {
+      return { changes: {}, actions: [] };
+    }
+
+    return this.withRetry(async () => {
+      const members = await redis.zRange(REDIS_KEYS.STATE_LOG(subredditName), sinceVersion + 1, currentVersion, {
+        by: 'score',
+      });
+      const entries = members.map(entry => this.parseEntry(entry.member));
+
+      const complete =
+        entries.length === currentVersion - sinceVersion &&
+        entries.every((entry, index) => entry?.version === sinceVersion + 1 + index);
+      if (!complete) {
+        return null;
+      }
+
+      const changes: GardenStateChanges = {};
+      const actions: ActionHistory[] = [];
+      for (const entry of entries as StateChangeEntry[]) {
+        Object.assign(changes, entry.changes);
+        if (entry.action) {
+          actions.push(entry.action);
+        }
+      }
+      return { changes, actions };
+    });
+  }
+
+  private parseEntry(member: string): StateChangeEntry | null {
+    try {
+      const parsed = JSON.parse(member);
+      parsed.at = new Date(parsed.at);
+      if (parsed.action) {
+        parsed.action.timestamp = new Date(parsed.action.timestamp);
+        if (!isActionHistory(parsed.action)) return null;
+      }
+      return typeof parsed.version === 'number' ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Retry wrapper with exponential backoff
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const stateChangeLogService = new StateChangeLogService();
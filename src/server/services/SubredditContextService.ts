@@ -14,6 +14,14 @@ export interface SubredditContextInfo {
   source: 'devvit_context' | 'request_param' | 'request_body' | 'fallback';
 }
 
+export interface SubredditIsolationViolation {
+  method: string;
+  path: string;
+  contextSubreddit: string;
+  requestedSubreddit: string;
+  username?: string;
+}
+
 /**
  * Service for managing subreddit context detection and validation
  * Ensures proper subreddit isolation and context management
@@ -21,20 +29,12 @@ export interface SubredditContextInfo {
 export class SubredditContextService {
   
   /**
-   * Detect subreddit context from multiple sources with priority order
+   * Detect subreddit context from multiple sources with priority order. The
+   * Devvit context always wins; a subreddit named in the request is only used
+   * when the server runs outside Devvit (local development).
    */
   detectSubredditContext(requestSubreddit?: string): SubredditContextInfo {
-    // Priority 1: Request parameter/body (explicit user choice)
-    if (requestSubreddit && this.isValidSubredditName(requestSubreddit)) {
-      return {
-        subredditName: requestSubreddit,
-        isFromDevvitContext: false,
-        isFromRequest: true,
-        source: 'request_param',
-      };
-    }
-
-    // Priority 2: Devvit context (current subreddit where app is running)
+    // Priority 1: Devvit context (current subreddit where app is running)
     try {
       if (context.subredditName && this.isValidSubredditName(context.subredditName)) {
         return {
@@ -48,6 +48,16 @@ export class SubredditContextService {
       console.warn('Failed to access Devvit context:', error);
     }
 
+    // Priority 2: Request parameter/body, outside Devvit only
+    if (requestSubreddit && this.isValidSubredditName(requestSubreddit)) {
+      return {
+        subredditName: requestSubreddit,
+        isFromDevvitContext: false,
+        isFromRequest: true,
+        source: 'request_param',
+      };
+    }
+
     // Priority 3: Fallback for development/testing
     const fallbackSubreddit = 'testsubreddit';
     return {
@@ -175,6 +185,17 @@ export class SubredditContextService {
     return normalizedOperation === normalizedContext;
   }
 
+  /**
+   * Log a request that tried to reach another subreddit's garden
+   */
+  logIsolationViolation(violation: SubredditIsolationViolation): void {
+    console.warn(`[SubredditIsolation] Rejected ${violation.method} ${violation.path}:`, {
+      contextSubreddit: violation.contextSubreddit,
+      requestedSubreddit: violation.requestedSubreddit,
+      username: violation.username ?? null,
+    });
+  }
+
   /**
    * Generate subreddit-specific cache keys
    */
@@ -0,0 +1,183 @@
+import { redis } from '@devvit/web/server';
+import {
+  ActionHistory,
+  DailyGrowthStats,
+  GrowthTotals,
+  WeekOverWeekChange,
+  WeeklyContributor,
+  WeeklySummary,
+  REDIS_KEYS,
+  ERROR_MESSAGES
+} from '../../shared/types';
+import { actionLogService } from './ActionLogService';
+import { gardenRegistryService } from './GardenRegistryService';
+import { addDays, getGardenDate, getGardenDayStart } from '../core/calendar';
+
+const TOTAL_FIELDS: readonly (keyof GrowthTotals)[] = [
+  'seedsPlanted',
+  'spiritsFed',
+  'robotCharged',
+  'redditUpvotes',
+  'totalGrowth',
+];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Seven-day aggregates for the weekly chronicle.
+ *
+ * Growth totals, the best day and active player counts come from the stored
+ * DAILY_GROWTH keys for the week and the week before it, so past weeks can be
+ * summarised as long as their daily keys exist. Contributor rankings, distinct
+ * and new gardeners come from the action log, and are limited to its retention.
+ */
+export class WeeklyAggregationService {
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000;
+  private readonly topContributorLimit = 5;
+
+  /**
+   * Summary of the seven full garden days before `now`'s garden day
+   */
+  async getWeeklySummary(subredditName: string, now: Date = new Date()): Promise<WeeklySummary> {
+    const day = await gardenRegistryService.getDaySettings(subredditName);
+    const today = getGardenDate(now, day);
+    const weekStartDate = addDays(today, -7);
+    const previousWeekStartDate = addDays(today, -14);
+    const weekStart = getGardenDayStart(weekStartDate, day);
+
+    const [days, previousDays] = await Promise.all([
+      this.getDailyStatsRange(subredditName, weekStartDate),
+      this.getDailyStatsRange(subredditName, previousWeekStartDate),
+    ]);
+    const [actions, previousActions] = await Promise.all([
+      actionLogService.getActionsBetween(subredditName, weekStart, getGardenDayStart(today, day)),
+      actionLogService.getActionsBetween(subredditName, getGardenDayStart(previousWeekStartDate, day), weekStart),
+    ]);
+
+    const totals = this.sumDays(days);
+    const previousTotals = this.sumDays(previousDays);
+    const players = new Set(actions.map(action => action.username));
+    const activeCounts = days.map(day => day.activePlayerCount);
+
+    return {
+      startDate: weekStartDate,
+      endDate: addDays(today, -1),
+      days,
+      totals,
+      previousTotals,
+      change: this.compareTotals(totals, previousTotals),
+      bestDay: days.reduce<DailyGrowthStats | null>(
+        (best, day) => (!best || day.totalGrowth > best.totalGrowth ? day : best),
+        null
+      ),
+      averageActivePlayers: days.length > 0 ? round(activeCounts.reduce((sum, n) => sum + n, 0) / days.length) : 0,
+      peakActivePlayers: Math.max(0, ...activeCounts),
+      activePlayers: players.size,
+      previousActivePlayers: new Set(previousActions.map(action => action.username)).size,
+      newPlayers: await this.countNewPlayers(subredditName, players, weekStart),
+      topContributors: this.rankContributors(actions),
+    };
+  }
+
+  /**
+   * The seven stored daily stats starting at `start`, skipping days with none
+   */
+  private async getDailyStatsRange(subredditName: string, start: string): Promise<DailyGrowthStats[]> {
+    const dates = Array.from({ length: 7 }, (_, i) => addDays(start, i));
+
+    return this.withRetry(async () => {
+      const values = await redis.mGet(dates.map(date => REDIS_KEYS.DAILY_GROWTH(subredditName, date)));
+      return values.flatMap((value, i): DailyGrowthStats[] => {
+        if (!value) {
+          return [];
+        }
+        // Older keys may predate the date field
+        return [{ ...JSON.parse(value), date: dates[i]! }];
+      });
+    });
+  }
+
+  private sumDays(days: DailyGrowthStats[]): GrowthTotals {
+    const totals = { seedsPlanted: 0, spiritsFed: 0, robotCharged: 0, redditUpvotes: 0, totalGrowth: 0 };
+    for (const day of days) {
+      for (const field of TOTAL_FIELDS) {
+        totals[field] += Number(day[field]) || 0;
+      }
+    }
+    totals.totalGrowth = round(totals.totalGrowth);
+    return totals;
+  }
+
+  private compareTotals(current: GrowthTotals, previous: GrowthTotals): Record<keyof GrowthTotals, WeekOverWeekChange> {
+    const change = {} as Record<keyof GrowthTotals, WeekOverWeekChange>;
+    for (const field of TOTAL_FIELDS) {
+      const difference = round(current[field] - previous[field]);
+      change[field] = {
+        difference,
+        percent: previous[field] === 0 ? null : round((difference / previous[field]) * 100),
+      };
+    }
+    return change;
+  }
+
+  private rankContributors(actions: ActionHistory[]): WeeklyContributor[] {
+    const byPlayer = new Map<string, { growth: number; actions: number }>();
+    for (const action of actions) {
+      const totals = byPlayer.get(action.username) ?? { growth: 0, actions: 0 };
+      totals.growth += action.growthContributed;
+      totals.actions += 1;
+      byPlayer.set(action.username, totals);
+    }
+
+    return [...byPlayer.entries()]
+      .filter(([, totals]) => totals.growth > 0)
+      .sort(([nameA, a], [nameB, b]) => b.growth - a.growth || b.actions - a.actions || nameA.localeCompare(nameB))
+      .slice(0, this.topContributorLimit)
+      .map(([username, totals], index) => ({
+        rank: index + 1,
+        username,
+        growth: round(totals.growth),
+        actions: totals.actions,
+      }));
+  }
+
+  private async countNewPlayers(subredditName: string, players: Set<string>, weekStart: Date): Promise<number> {
+    let count = 0;
+    for (const username of players) {
+      const first = await actionLogService.getFirstActionTime(subredditName, username);
+      if (first && first >= weekStart) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Retry wrapper for Redis operations
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+
+        if (attempt === this.maxRetries) {
+          break;
+        }
+
+        // Exponential backoff
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+
+    throw new Error(`${ERROR_MESSAGES.REDIS_CONNECTION_ERROR}: ${lastError?.message || 'Unknown error'}`);
+  }
+}
+
+// Export singleton instance
+export const weeklyAggregationService = new WeeklyAggregationService();
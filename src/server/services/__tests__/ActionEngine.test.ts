@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { ActionEngine, ActionDefinition } from '../ActionEngine';
+import { ActionTransactionService, ActionRejectedError } from '../ActionTransactionService';
+import { redisGameService } from '../RedisGameService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redditPostingService } from '../RedditPostingService';
+import { actionLogService } from '../ActionLogService';
+import { eventBusService } from '../EventBusService';
+import { ACTION_CATALOG } from '../../../shared/catalog';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const SUBREDDIT = 'testsubreddit';
+const USERNAME = 'gardener';
+
+const waterDefinition = (overrides: Partial<ActionDefinition> = {}): ActionDefinition => ({
+  type: 'plant',
+  label: 'Water',
+  emoji: '💧',
+  cost: 4,
+  resourceType: 'cinnamon',
+  cooldownMs: 1000,
+  growthContribution: 2.5,
+  counter: 'seedsPlanted',
+  successMessage: 'Watered!',
+  failureMessage: 'Failed to water',
+  insufficientMessage: 'Insufficient cinnamon to water',
+  ...overrides,
+});
+
+describe('ActionEngine', () => {
+  const transactions = new ActionTransactionService({ maxAttempts: 50, baseDelayMs: 1 });
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    await redisGameService.initializeGameState(SUBREDDIT);
+    await playerResourceService.initializePlayerResources(USERNAME, SUBREDDIT);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should register the built-in actions by default', () => {
+    const engine = new ActionEngine(transactions);
+    expect(engine.listDefinitions().map(d => d.type).sort()).toEqual(['charge', 'feed', 'plant', 'post']);
+  });
+
+  it('should expose its effective catalog', () => {
+    const engine = new ActionEngine(transactions, [waterDefinition()]);
+
+    const catalog = engine.getCatalog();
+
+    expect(catalog.plant).toEqual({
+      type: 'plant',
+      label: 'Water',
+      emoji: '💧',
+      resourceType: 'cinnamon',
+      cost: 4,
+      cooldownMs: 1000,
+      growthContribution: 2.5,
+    });
+    expect(catalog.feed).toEqual(ACTION_CATALOG.feed);
+  });
+
+  it('should commit using the cost, cooldown and growth from the registry entry', async () => {
+    const engine = new ActionEngine(transactions, [waterDefinition()]);
+
+    const { commit, outcome } = await engine.execute('plant', USERNAME, SUBREDDIT);
+
+    expect(outcome.message).toBe('Watered!');
+    expect(commit.playerResources.cinnamon).toBe(6);
+    expect(commit.gameState.seedsPlanted).toBe(1);
+    expect(commit.gameState.totalGrowth).toBe(2.5);
+    expect(commit.action.resourcesSpent).toBe(4);
+  });
+
+  it('should reject unknown action types', async () => {
+    const engine = new ActionEngine(transactions, []);
+
+    await expect(engine.execute('prune', USERNAME, SUBREDDIT)).rejects.toMatchObject({
+      reason: 'unknown_action',
+    });
+  });
+
+  it('should not commit when a validation hook rejects', async () => {
+    const engine = new ActionEngine(transactions, [
+      waterDefinition({
+        validate: [
+          async () => {
+            throw new ActionRejectedError('forbidden', 'No watering during events');
+          },
+        ],
+      }),
+    ]);
+
+    await expect(engine.execute('plant', USERNAME, SUBREDDIT)).rejects.toMatchObject({ reason: 'forbidden' });
+
+    const resources = await playerResourceService.getPlayerResources(USERNAME, SUBREDDIT);
+    expect(resources?.cinnamon).toBe(10);
+  });
+
+  it('should pass the commit to post-commit hooks and let them amend the outcome', async () => {
+    const afterCommit = vi.fn(async (_context, commit, outcome) => {
+      outcome.message += ` (${commit.gameState.seedsPlanted} seeds)`;
+      outcome.extras.bonus = true;
+    });
+    const engine = new ActionEngine(transactions, [waterDefinition({ afterCommit: [afterCommit] })]);
+
+    const { outcome } = await engine.execute('plant', USERNAME, SUBREDDIT, { note: 'hi' });
+
+    expect(afterCommit).toHaveBeenCalledOnce();
+    expect(afterCommit.mock.calls[0]![0].payload).toEqual({ note: 'hi' });
+    expect(outcome.message).toBe('Watered! (1 seeds)');
+    expect(outcome.extras).toEqual({ bonus: true });
+  });
+
+  it('should run pre-commit hooks once the action is paid for and before it is recorded', async () => {
+    const beforeCommit = vi.fn(async (_context, gameState, outcome) => {
+      const resources = await playerResourceService.getPlayerResources(USERNAME, SUBREDDIT);
+      outcome.extras.seedsAtHook = gameState.seedsPlanted;
+      outcome.extras.cinnamonAtHook = resources?.cinnamon;
+      outcome.extras.loggedAtHook = (await actionLogService.queryActions(SUBREDDIT)).actions.length;
+    });
+    const engine = new ActionEngine(transactions, [waterDefinition({ beforeCommit: [beforeCommit] })]);
+
+    const { commit, outcome } = await engine.execute('plant', USERNAME, SUBREDDIT);
+
+    expect(beforeCommit).toHaveBeenCalledOnce();
+    expect(outcome.extras).toEqual({ seedsAtHook: 0, cinnamonAtHook: commit.playerResources.cinnamon, loggedAtHook: 0 });
+    expect(commit.gameState.seedsPlanted).toBe(1);
+  });
+
+  describe('post', () => {
+    beforeEach(() => {
+      vi.spyOn(redditPostingService, 'validatePostPermissions').mockResolvedValue({ canPost: true });
+    });
+
+    it('should record the post once Reddit has accepted it', async () => {
+      vi.spyOn(redditPostingService, 'postCommunityUpdate').mockResolvedValue({
+        success: true,
+        postId: 't3_abc',
+        postUrl: 'https://reddit.com/r/testsubreddit/comments/abc',
+      });
+      const engine = new ActionEngine(transactions);
+
+      const { outcome } = await engine.execute('post', USERNAME, SUBREDDIT);
+
+      expect(outcome.extras).toEqual({ postId: 't3_abc', postUrl: 'https://reddit.com/r/testsubreddit/comments/abc' });
+      expect((await redisGameService.getActionCooldowns(USERNAME, SUBREDDIT)).post).toBeGreaterThan(0);
+      expect((await actionLogService.queryActions(SUBREDDIT)).actions.map(action => action.actionType)).toEqual([
+        'post',
+      ]);
+    });
+
+    it('should record nothing when Reddit refuses the post', async () => {
+      vi.spyOn(redditPostingService, 'postCommunityUpdate').mockResolvedValue({
+        success: false,
+        error: 'Reddit is down',
+      });
+      const engine = new ActionEngine(transactions);
+      const stateBefore = await redisGameService.getGameState(SUBREDDIT);
+      const resourcesBefore = await playerResourceService.getPlayerResources(USERNAME, SUBREDDIT);
+
+      await expect(engine.execute('post', USERNAME, SUBREDDIT)).rejects.toThrow(
+        'Failed to post to Reddit: Reddit is down'
+      );
+
+      expect((await redisGameService.getActionCooldowns(USERNAME, SUBREDDIT)).post).toBe(0);
+      expect((await actionLogService.queryActions(SUBREDDIT)).actions).toEqual([]);
+      expect(await eventBusService.getPendingCount(SUBREDDIT)).toBe(0);
+      expect((await redisGameService.getGameState(SUBREDDIT))?.version).toBe(stateBefore?.version);
+      expect(await playerResourceService.getPlayerResources(USERNAME, SUBREDDIT)).toMatchObject({
+        cinnamon: resourcesBefore?.cinnamon,
+        totalContributions: 0,
+      });
+    });
+
+    it('should refuse a second post while the first is still with Reddit', async () => {
+      const engine = new ActionEngine(transactions);
+      let second: Promise<unknown> | undefined;
+      const postCommunityUpdate = vi
+        .spyOn(redditPostingService, 'postCommunityUpdate')
+        .mockImplementation(async () => {
+          second = engine.execute('post', USERNAME, SUBREDDIT).catch(error => error);
+          await second;
+          return { success: true, postId: 't3_abc', postUrl: 'https://reddit.com/r/testsubreddit/comments/abc' };
+        });
+
+      await engine.execute('post', USERNAME, SUBREDDIT);
+
+      expect(await second).toMatchObject({ reason: 'cooldown' });
+      expect(postCommunityUpdate).toHaveBeenCalledOnce();
+      expect((await actionLogService.queryActions(SUBREDDIT)).actions).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { ActionLogService, InvalidCursorError } from '../ActionLogService';
+import { ActionHistory, PlayerActionType, REDIS_KEYS, GAME_CONFIG } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const SUBREDDIT = 'testsubreddit';
+const BASE_TIME = Date.UTC(2024, 0, 15, 12);
+
+let sequence = 0;
+const makeAction = (
+  username: string,
+  actionType: PlayerActionType,
+  timestamp: number = BASE_TIME + sequence
+): ActionHistory => ({
+  id: `action_${++sequence}`,
+  username,
+  subredditName: SUBREDDIT,
+  actionType,
+  resourcesSpent: 5,
+  growthContributed: 1.5,
+  timestamp: new Date(timestamp),
+});
+
+describe('ActionLogService', () => {
+  let service: ActionLogService;
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    sequence = 0;
+    service = new ActionLogService();
+  });
+
+  const appendAll = async (actions: ActionHistory[]) => {
+    for (const action of actions) {
+      await service.append(action);
+    }
+  };
+
+  it('should return the most recent actions newest first', async () => {
+    const actions = [makeAction('alice', 'plant'), makeAction('bob', 'feed'), makeAction('carol', 'charge')];
+    await appendAll(actions);
+
+    const recent = await service.getRecentActions(SUBREDDIT, 2);
+
+    expect(recent.map(a => a.id)).toEqual([actions[2]!.id, actions[1]!.id]);
+    expect(recent[0]!.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should page through the whole log with cursors, including actions sharing a timestamp', async () => {
+    const actions = Array.from({ length: 7 }, (_, i) => makeAction(`player${i}`, 'plant', BASE_TIME + Math.floor(i / 3)));
+    await appendAll(actions);
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await service.queryActions(SUBREDDIT, { limit: 2, ...(cursor && { cursor }) });
+      seen.push(...page.actions.map(a => a.id));
+      cursor = page.nextCursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(4);
+    expect(seen).toHaveLength(7);
+    expect(new Set(seen).size).toBe(7);
+  });
+
+  it('should filter by action type, by player, and by both', async () => {
+    await appendAll([
+      makeAction('alice', 'plant'),
+      makeAction('alice', 'feed'),
+      makeAction('bob', 'plant'),
+      makeAction('alice', 'plant'),
+      makeAction('bob', 'charge'),
+    ]);
+
+    const plants = await service.queryActions(SUBREDDIT, { type: 'plant' });
+    const alice = await service.queryActions(SUBREDDIT, { username: 'alice' });
+    const alicePlants = await service.queryActions(SUBREDDIT, { username: 'alice', type: 'plant', limit: 1 });
+    const nextAlicePlants = await service.queryActions(SUBREDDIT, {
+      username: 'alice',
+      type: 'plant',
+      cursor: alicePlants.nextCursor!,
+    });
+
+    expect(plants.actions).toHaveLength(3);
+    expect(plants.actions.every(a => a.actionType === 'plant')).toBe(true);
+    expect(alice.actions).toHaveLength(3);
+    expect(alice.actions.every(a => a.username === 'alice')).toBe(true);
+    expect(alicePlants.actions).toHaveLength(1);
+    expect(nextAlicePlants.actions).toHaveLength(1);
+    expect(nextAlicePlants.actions[0]!.id).not.toBe(alicePlants.actions[0]!.id);
+    expect(nextAlicePlants.nextCursor).toBeNull();
+  });
+
+  it('should reject cursors it did not issue', async () => {
+    await expect(service.queryActions(SUBREDDIT, { cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(
+      InvalidCursorError
+    );
+  });
+
+  it('should drop actions older than the retention period', async () => {
+    const retentionMs = GAME_CONFIG.ACTION_LOG.RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const stale = makeAction('alice', 'plant', BASE_TIME - retentionMs - 1);
+    const fresh = makeAction('alice', 'plant', BASE_TIME);
+
+    await appendAll([stale, fresh]);
+
+    const recent = await service.getRecentActions(SUBREDDIT);
+    expect(recent.map(a => a.id)).toEqual([fresh.id]);
+    expect(await fakeRedis.zCard(REDIS_KEYS.ACTION_LOG_BY_PLAYER(SUBREDDIT, 'alice'))).toBe(1);
+  });
+
+  it('should cap each index at its maximum size', async () => {
+    const max = GAME_CONFIG.ACTION_LOG.MAX_INDEX_ENTRIES;
+    const actions = Array.from({ length: max + 5 }, () => makeAction('alice', 'feed'));
+
+    await appendAll(actions);
+
+    expect(await fakeRedis.zCard(REDIS_KEYS.ACTION_LOG_BY_PLAYER(SUBREDDIT, 'alice'))).toBe(max);
+    expect(await fakeRedis.zCard(REDIS_KEYS.ACTION_LOG_BY_TYPE(SUBREDDIT, 'feed'))).toBe(max);
+    expect(await fakeRedis.zCard(REDIS_KEYS.ACTION_LOG(SUBREDDIT))).toBe(max + 5);
+
+    const [newest] = await service.getRecentActions(SUBREDDIT, 1);
+    expect(newest!.id).toBe(actions[actions.length - 1]!.id);
+  });
+
+  it('should migrate a legacy JSON history blob into the log', async () => {
+    const legacy = [makeAction('bob', 'feed'), makeAction('alice', 'plant')].reverse();
+    await fakeRedis.set(REDIS_KEYS.ACTION_HISTORY(SUBREDDIT), JSON.stringify(legacy));
+
+    const migrated = await service.migrateLegacyHistory(SUBREDDIT);
+
+    expect(migrated).toBe(2);
+    expect(await fakeRedis.get(REDIS_KEYS.ACTION_HISTORY(SUBREDDIT))).toBeUndefined();
+    const recent = await service.getRecentActions(SUBREDDIT);
+    expect(recent.map(a => a.id)).toEqual(legacy.map(a => a.id));
+    expect(await service.migrateLegacyHistory(SUBREDDIT)).toBe(0);
+  });
+});
@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { ActionTransactionService, ActionRejectedError } from '../ActionTransactionService';
+import { redisGameService } from '../RedisGameService';
+import { playerResourceService } from '../PlayerResourceService';
+import { leaderboardService } from '../LeaderboardService';
+import { REDIS_KEYS } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const SUBREDDIT = 'testsubreddit';
+
+describe('ActionTransactionService', () => {
+  let service: ActionTransactionService;
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    service = new ActionTransactionService({ maxAttempts: 100, baseDelayMs: 1 });
+    await redisGameService.initializeGameState(SUBREDDIT);
+  });
+
+  const seedPlayers = async (count: number, cinnamon = 100) => {
+    const usernames = Array.from({ length: count }, (_, i) => `player${i}`);
+    for (const username of usernames) {
+      await playerResourceService.initializePlayerResources(username, SUBREDDIT);
+      await playerResourceService.updatePlayerResources(username, SUBREDDIT, { cinnamon });
+    }
+    return usernames;
+  };
+
+  const plant = (username: string, target = service) =>
+    target.commitAction({
+      username,
+      subredditName: SUBREDDIT,
+      actionType: 'plant',
+      cost: 5,
+      counter: 'seedsPlanted',
+      growthContributed: 1.5,
+      cooldownMs: 60000,
+    });
+
+  const feed = (username: string, target = service) =>
+    target.commitAction({
+      username,
+      subredditName: SUBREDDIT,
+      actionType: 'feed',
+      cost: 3,
+      counter: 'spiritsFed',
+      growthContributed: 2,
+      cooldownMs: 0,
+    });
+
+  it('should not lose increments when many players act at once', async () => {
+    const usernames = await seedPlayers(15);
+
+    const results = await Promise.all(usernames.map(username => plant(username)));
+
+    const gameState = await redisGameService.getGameState(SUBREDDIT);
+    const actions = await redisGameService.getRecentActions(SUBREDDIT, 100);
+
+    expect(results).toHaveLength(15);
+    expect(gameState?.seedsPlanted).toBe(15);
+    expect(gameState?.totalGrowth).toBeCloseTo(15 * 1.5);
+    expect(actions).toHaveLength(15);
+    expect(new Set(actions.map(a => a.username)).size).toBe(15);
+    expect(fakeRedis.conflictCount).toBeGreaterThan(0);
+
+    const board = await leaderboardService.getLeaderboard(SUBREDDIT, 'daily');
+    expect(board.totalPlayers).toBe(15);
+    expect(board.entries.every(entry => entry.score === 5)).toBe(true);
+
+    for (const username of usernames) {
+      const resources = await playerResourceService.getPlayerResources(username, SUBREDDIT);
+      expect(resources?.cinnamon).toBe(95);
+      expect(resources?.totalContributions).toBe(5);
+    }
+  });
+
+  it('should let only one of several simultaneous actions by the same player through', async () => {
+    const [username] = await seedPlayers(1);
+
+    const outcomes = await Promise.allSettled(Array.from({ length: 5 }, () => plant(username!)));
+
+    const fulfilled = outcomes.filter(o => o.status === 'fulfilled');
+    const rejected = outcomes.filter(o => o.status === 'rejected');
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(4);
+    for (const outcome of rejected) {
+      expect((outcome as PromiseRejectedResult).reason).toBeInstanceOf(ActionRejectedError);
+      expect((outcome as PromiseRejectedResult).reason.reason).toBe('cooldown');
+    }
+
+    const resources = await playerResourceService.getPlayerResources(username!, SUBREDDIT);
+    const gameState = await redisGameService.getGameState(SUBREDDIT);
+    expect(resources?.cinnamon).toBe(95);
+    expect(gameState?.seedsPlanted).toBe(1);
+  });
+
+  it('should keep the spend of an action that commits while cinnamon is being awarded', async () => {
+    const usernames = await seedPlayers(5);
+
+    await Promise.all(
+      usernames.flatMap(username => [plant(username), playerResourceService.earnCinnamon(username, SUBREDDIT, 20)])
+    );
+
+    for (const username of usernames) {
+      expect(await playerResourceService.getPlayerResources(username, SUBREDDIT)).toMatchObject({
+        cinnamon: 100 - 5 + 20,
+        totalContributions: 5,
+      });
+    }
+  });
+
+  it('should reject without writing anything when the player cannot afford the action', async () => {
+    const [username] = await seedPlayers(1, 2);
+
+    await expect(plant(username!)).rejects.toMatchObject({ reason: 'insufficient_resources' });
+
+    const resources = await playerResourceService.getPlayerResources(username!, SUBREDDIT);
+    const gameState = await redisGameService.getGameState(SUBREDDIT);
+    expect(resources?.cinnamon).toBe(2);
+    expect(gameState?.seedsPlanted).toBe(0);
+    expect((await redisGameService.getActionCooldowns(username!, SUBREDDIT)).plant).toBe(0);
+  });
+
+  it('should leave no partial state behind when the commit fails', async () => {
+    const [username] = await seedPlayers(1);
+    fakeRedis.failNextExec = true;
+
+    await expect(plant(username!)).rejects.toThrow('Simulated crash');
+
+    const resources = await playerResourceService.getPlayerResources(username!, SUBREDDIT);
+    const gameState = await redisGameService.getGameState(SUBREDDIT);
+    const actions = await redisGameService.getRecentActions(SUBREDDIT);
+    expect(resources?.cinnamon).toBe(100);
+    expect(gameState?.seedsPlanted).toBe(0);
+    expect(gameState?.totalGrowth).toBe(0);
+    expect(actions).toHaveLength(0);
+  });
+
+  it('should level the tree up inside the same commit', async () => {
+    await redisGameService.updateGameState(SUBREDDIT, { totalGrowth: 49 });
+    const [username] = await seedPlayers(1);
+
+    const result = await plant(username!);
+
+    expect(result.previousTotalGrowth).toBe(49);
+    expect(result.gameState.totalGrowth).toBe(50.5);
+    expect(result.gameState.treeLevel).toBe(2);
+  });
+
+  it('should track cooldowns per action type', async () => {
+    const [username] = await seedPlayers(1);
+
+    await plant(username!);
+    await feed(username!);
+
+    const error = await plant(username!).catch(e => e);
+    expect(error).toBeInstanceOf(ActionRejectedError);
+    expect(error.reason).toBe('cooldown');
+    expect(error.retryAfterMs).toBeGreaterThan(59000);
+    expect(error.retryAfterMs).toBeLessThanOrEqual(60000);
+
+    const cooldowns = await redisGameService.getActionCooldowns(username!, SUBREDDIT);
+    expect(cooldowns.plant).toBeGreaterThan(0);
+    expect(cooldowns.feed).toBe(0);
+    expect(cooldowns.charge).toBe(0);
+  });
+
+  it('should rate limit a player across all action types', async () => {
+    const limited = new ActionTransactionService({
+      maxAttempts: 100,
+      baseDelayMs: 1,
+      rateLimits: { windowMs: 60000, perPlayer: 3, perSubreddit: 100 },
+    });
+    const [username, other] = await seedPlayers(2);
+
+    for (let i = 0; i < 3; i++) {
+      await feed(username!, limited);
+    }
+
+    await expect(feed(username!, limited)).rejects.toMatchObject({ reason: 'rate_limited' });
+    const error = await plant(username!, limited).catch(e => e);
+    expect(error.reason).toBe('rate_limited');
+    expect(error.retryAfterMs).toBeGreaterThan(0);
+    expect(error.retryAfterMs).toBeLessThanOrEqual(60000);
+
+    // Other players have their own window
+    await expect(feed(other!, limited)).resolves.toBeDefined();
+
+    const gameState = await redisGameService.getGameState(SUBREDDIT);
+    expect(gameState?.spiritsFed).toBe(4);
+    expect(gameState?.seedsPlanted).toBe(0);
+  });
+
+  it('should rate limit the whole garden under concurrent load', async () => {
+    const limited = new ActionTransactionService({
+      maxAttempts: 100,
+      baseDelayMs: 1,
+      rateLimits: { windowMs: 60000, perPlayer: 10, perSubreddit: 5 },
+    });
+    const usernames = await seedPlayers(8);
+
+    const outcomes = await Promise.allSettled(usernames.map(username => feed(username, limited)));
+
+    const rejected = outcomes.filter((o): o is PromiseRejectedResult => o.status === 'rejected');
+    expect(outcomes.filter(o => o.status === 'fulfilled')).toHaveLength(5);
+    expect(rejected).toHaveLength(3);
+    for (const outcome of rejected) {
+      expect(outcome.reason.reason).toBe('rate_limited');
+    }
+
+    const gameState = await redisGameService.getGameState(SUBREDDIT);
+    expect(gameState?.spiritsFed).toBe(5);
+  });
+
+  it('should let a slot free up once the oldest hit leaves the window', async () => {
+    const limited = new ActionTransactionService({
+      rateLimits: { windowMs: 60000, perPlayer: 2, perSubreddit: 100 },
+    });
+    const [username] = await seedPlayers(1);
+    const start = Date.now();
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    try {
+      vi.setSystemTime(start);
+      await feed(username!, limited);
+      vi.setSystemTime(start + 30000);
+      await feed(username!, limited);
+
+      vi.setSystemTime(start + 45000);
+      await expect(feed(username!, limited)).rejects.toMatchObject({ reason: 'rate_limited', retryAfterMs: 15000 });
+
+      vi.setSystemTime(start + 60000);
+      await expect(feed(username!, limited)).resolves.toBeDefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  describe('reserved actions', () => {
+    const post = (username: string) => ({
+      username,
+      subredditName: SUBREDDIT,
+      actionType: 'post' as const,
+      cost: 10,
+      growthContributed: 0,
+      cooldownMs: 300000,
+    });
+
+    it('should spend on reserve and record the action only once it completes', async () => {
+      const [username] = await seedPlayers(1);
+
+      const reservation = await service.reserveAction(post(username!));
+
+      expect(await playerResourceService.getPlayerResources(username!, SUBREDDIT)).toMatchObject({ cinnamon: 90 });
+      expect(await redisGameService.getRecentActions(SUBREDDIT, 10)).toEqual([]);
+      await expect(service.reserveAction(post(username!))).rejects.toMatchObject({ reason: 'cooldown' });
+
+      const commit = await service.completeAction(reservation);
+
+      expect(commit.gameState.version).toBe(1);
+      expect((await redisGameService.getRecentActions(SUBREDDIT, 10)).map(action => action.id)).toEqual([
+        reservation.action.id,
+      ]);
+      expect(await fakeRedis.get(REDIS_KEYS.PENDING_ACTION(username!, SUBREDDIT, 'post'))).toBeUndefined();
+    });
+
+    it('should refund a released reservation once and clear its cooldown', async () => {
+      const [username] = await seedPlayers(1);
+      const reservation = await service.reserveAction(post(username!));
+
+      await service.releaseAction(reservation);
+      await service.releaseAction(reservation);
+
+      expect(await playerResourceService.getPlayerResources(username!, SUBREDDIT)).toMatchObject({
+        cinnamon: 100,
+        totalContributions: 0,
+      });
+      expect(await redisGameService.getGameState(SUBREDDIT)).toMatchObject({ version: 0 });
+      await expect(service.reserveAction(post(username!))).resolves.toMatchObject({ playerResources: { cinnamon: 90 } });
+    });
+  });
+});
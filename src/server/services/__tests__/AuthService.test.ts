@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { redis, reddit, context } from '@devvit/web/server';
+import { AuthService } from '../AuthService';
+import { authorize, getAuth } from '../../core/auth';
+import { FakeRedis } from './fakeRedis';
+import { FakeReddit } from './fakeReddit';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  const { FakeReddit } = await import('./fakeReddit');
+  return {
+    redis: new FakeRedis(),
+    reddit: new FakeReddit(),
+    context: { subredditName: 'cozy_gardens', postId: 't3_garden' as string | undefined },
+  };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const fakeReddit = reddit as unknown as FakeReddit;
+const fakeContext = context as { subredditName: string; postId: string | undefined };
+const GARDEN = 'cozy_gardens';
+
+interface FakeResponse {
+  statusCode: number;
+  body: unknown;
+  locals: Record<string, unknown>;
+  status(code: number): FakeResponse;
+  json(body: unknown): FakeResponse;
+}
+
+const call = async (role: Parameters<typeof authorize>[0], params: Record<string, string> = {}) => {
+  const res: FakeResponse = {
+    statusCode: 200,
+    body: undefined,
+    locals: {},
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+  const next = vi.fn();
+  const req = { params, method: 'POST', path: '/api/test' } as unknown as Request;
+  await authorize(role)(req, res as unknown as Response, next);
+  return { res, next };
+};
+
+describe('AuthService', () => {
+  beforeEach(() => {
+    fakeRedis.reset();
+    fakeReddit.reset();
+    fakeContext.subredditName = GARDEN;
+    fakeContext.postId = 't3_garden';
+  });
+
+  it('should cache moderator status, yes or no, until forgotten', async () => {
+    const service = new AuthService();
+    fakeReddit.addModerator(GARDEN, 'Head_Gardener');
+
+    expect(await service.isModerator(GARDEN, 'head_gardener')).toBe(true);
+    expect(await service.isModerator(GARDEN, 'head_gardener')).toBe(true);
+    expect(await service.isModerator(GARDEN, 'alice')).toBe(false);
+    expect(await service.isModerator(GARDEN, 'alice')).toBe(false);
+    expect(fakeReddit.moderatorLookups).toBe(2);
+
+    fakeReddit.addModerator(GARDEN, 'alice');
+    await service.forgetModerator(GARDEN, 'alice');
+    expect(await service.isModerator(GARDEN, 'alice')).toBe(true);
+    expect(fakeReddit.moderatorLookups).toBe(3);
+  });
+
+  it('should answer 401 for signed-out callers on player and moderator routes', async () => {
+    for (const role of ['player', 'moderator'] as const) {
+      const { res, next } = await call(role, { subreddit: GARDEN });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({
+        status: 'error',
+        code: 'authentication_required',
+        message: 'User authentication required',
+      });
+    }
+  });
+
+  it("should only let a garden's moderators through moderator routes", async () => {
+    fakeReddit.signIn('alice');
+    fakeReddit.addModerator('quiet_gardens', 'alice');
+
+    const denied = await call('moderator', { subreddit: GARDEN });
+    expect(denied.res.statusCode).toBe(403);
+    expect(denied.res.body).toEqual({
+      status: 'error',
+      code: 'moderator_required',
+      message: 'Only subreddit moderators can do this',
+    });
+
+    fakeContext.subredditName = 'quiet_gardens';
+    const allowed = await call('moderator', { subreddit: 'quiet_gardens' });
+    expect(allowed.next).toHaveBeenCalledOnce();
+    expect(getAuth(allowed.res as unknown as Response, 'moderator')).toEqual({
+      role: 'moderator',
+      username: 'alice',
+      subredditName: 'quiet_gardens',
+    });
+  });
+
+  it('should let any signed-in player through player routes', async () => {
+    fakeReddit.signIn('bob');
+
+    const { res, next } = await call('player');
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(getAuth(res as unknown as Response, 'player')).toEqual({ role: 'player', username: 'bob' });
+    expect(() => getAuth(res as unknown as Response, 'moderator')).toThrow('Route is not authorized as moderator');
+  });
+
+  it('should keep webview callers, moderators included, off internal routes', async () => {
+    fakeReddit.signIn('head_gardener');
+    fakeReddit.addModerator(GARDEN, 'head_gardener');
+
+    const fromPost = await call('internal');
+    expect(fromPost.res.statusCode).toBe(403);
+    expect(fromPost.res.body).toMatchObject({ status: 'error', code: 'internal_only' });
+
+    fakeContext.postId = undefined;
+    const fromScheduler = await call('internal');
+    expect(fromScheduler.next).toHaveBeenCalledOnce();
+  });
+});
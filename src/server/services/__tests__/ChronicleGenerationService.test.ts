@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ChronicleGenerationService, ChronicleTemplateData } from '../ChronicleGenerationService';
+import { GameState } from '../../../shared/types';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const gameState: GameState = {
+  subredditName: 'cozy_gardens',
+  treeLevel: 4,
+  totalGrowth: 1234.56,
+  seedsPlanted: 15000,
+  spiritsFed: 320,
+  robotCharged: 45,
+  dailyUpvotes: 12,
+  lastGrowthCalculation: new Date('2024-01-15T00:00:00Z'),
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+};
+
+const noChange = { difference: 0, percent: 0 };
+const weekTotals = { seedsPlanted: 5000, spiritsFed: 100, robotCharged: 20, redditUpvotes: 40, totalGrowth: 7764 };
+
+const sampleData: ChronicleTemplateData = {
+  gameState,
+  dailyStats: {
+    date: '2024-01-15',
+    seedsPlanted: 1200,
+    spiritsFed: 30,
+    robotCharged: 4,
+    redditUpvotes: 12,
+    totalGrowth: 88.25,
+    activePlayerCount: 17,
+  },
+  milestone: 'Tree reached *level 4*',
+  weeklyHistory: [],
+  week: {
+    startDate: '2024-01-08',
+    endDate: '2024-01-14',
+    days: [],
+    totals: weekTotals,
+    previousTotals: weekTotals,
+    change: {
+      seedsPlanted: noChange,
+      spiritsFed: noChange,
+      robotCharged: noChange,
+      redditUpvotes: noChange,
+      totalGrowth: noChange,
+    },
+    bestDay: null,
+    averageActivePlayers: 0,
+    peakActivePlayers: 0,
+    activePlayers: 0,
+    previousActivePlayers: 0,
+    newPlayers: 0,
+    topContributors: [
+      { rank: 1, username: 'green_thumb', growth: 1500, actions: 600 },
+      { rank: 2, username: 'sprout', growth: 75, actions: 30 },
+    ],
+  },
+  topContributors: [
+    { rank: 1, username: 'green_thumb', score: 1500 },
+    { rank: 2, username: 'sprout', score: 75 },
+  ],
+};
+
+describe('ChronicleGenerationService templates', () => {
+  let service: ChronicleGenerationService;
+
+  beforeEach(() => {
+    service = new ChronicleGenerationService();
+  });
+
+  it('should render every built-in template without leftover tags', () => {
+    const templates = service.getTemplates();
+    expect(templates.map(t => t.id).sort()).toEqual(['daily_standard', 'milestone_achievement', 'weekly_summary']);
+
+    for (const template of templates) {
+      const { title, content } = service.renderChronicleTemplate(template, sampleData);
+
+      expect(title).not.toContain('{{');
+      expect(content).not.toContain('{{');
+      expect(content).toContain('**Tree Growth Progress:** ██░░░░░░░░ 20% (Level 4)');
+      expect(content).toContain(
+        template.type === 'weekly'
+          ? '1. u/green\\_thumb — 1500.0 growth from 600 actions\n2. u/sprout — 75.0 growth from 30 actions\n'
+          : '1. u/green\\_thumb — 1,500 🍯\n2. u/sprout — 75 🍯\n'
+      );
+      expect(content).not.toMatch(/\n{3,}/);
+    }
+  });
+
+  it('should fill the daily template from the day stats and escape only the content', () => {
+    const template = service.getTemplates().find(t => t.id === 'daily_standard')!;
+    const { title, content } = service.renderChronicleTemplate(template, sampleData);
+
+    expect(title).toBe('🌳 Cinnarito Daily Chronicle - cozy_gardens Garden Update');
+    expect(content.startsWith('🌿 **Welcome to today')).toBe(true);
+    expect(content).toContain('- **🌱 Seeds Planted:** 1,200');
+    expect(content).toContain('- **📈 Growth Generated:** 88.3');
+    expect(content).toContain('- **Community Seeds:** 15,000');
+    expect(content).toContain('- **Active Gardeners:** 17');
+  });
+
+  it('should escape markdown in the milestone name and leave out an empty contributors list', () => {
+    const template = service.getTemplates().find(t => t.id === 'milestone_achievement')!;
+    const { title, content } = service.renderChronicleTemplate(template, { ...sampleData, topContributors: [] });
+
+    expect(title).toBe('🎉 Cinnarito Milestone Achieved - Tree reached *level 4*!');
+    expect(content).toContain('**AMAZING NEWS, r/cozy\\_gardens!**');
+    expect(content).toContain('**Tree reached \\*level 4\\***');
+    expect(content).not.toContain('Top Gardeners');
+  });
+
+  it('should fail instead of posting raw tags when the daily stats are missing', () => {
+    const template = service.getTemplates().find(t => t.id === 'daily_standard')!;
+    const withoutStats = { ...sampleData, dailyStats: undefined };
+
+    expect(() => service.renderChronicleTemplate(template, withoutStats)).toThrow(
+      'Unknown variable "dailyStats.seedsPlanted"'
+    );
+  });
+});
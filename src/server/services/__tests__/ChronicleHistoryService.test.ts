@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { ChronicleGenerationService } from '../ChronicleGenerationService';
+import { chronicleHistoryService } from '../ChronicleHistoryService';
+import { redditPostingService } from '../RedditPostingService';
+import { redisGameService } from '../RedisGameService';
+import { growthCalculationService } from '../GrowthCalculationService';
+import { GameState } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+const DUE = new Date('2024-01-15T09:00:00Z');
+
+const gameState: GameState = {
+  subredditName: GARDEN,
+  treeLevel: 2,
+  totalGrowth: 250,
+  seedsPlanted: 400,
+  spiritsFed: 20,
+  robotCharged: 5,
+  dailyUpvotes: 3,
+  lastGrowthCalculation: DUE,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: DUE,
+};
+
+describe('Chronicle post history', () => {
+  let service: ChronicleGenerationService;
+  let postSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    service = new ChronicleGenerationService();
+    vi.spyOn(redisGameService, 'getGameState').mockResolvedValue(gameState);
+    vi.spyOn(growthCalculationService, 'getDailyStats').mockResolvedValue({
+      date: '2024-01-15',
+      seedsPlanted: 10,
+      spiritsFed: 2,
+      robotCharged: 1,
+      redditUpvotes: 0,
+      totalGrowth: 20,
+      activePlayerCount: 3,
+    });
+    postSpy = vi.spyOn(redditPostingService, 'postCommunityUpdate').mockResolvedValue({
+      success: true,
+      postId: 't3_abc',
+      postUrl: 'https://reddit.com/r/cozy_gardens/comments/t3_abc',
+    });
+
+    await service.setupChronicleSchedule(GARDEN, 'daily', DUE);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should post a period once and record it in the history', async () => {
+    await service.processScheduledChronicles(GARDEN, DUE);
+    await service.processScheduledChronicles(GARDEN, new Date('2024-01-15T09:05:00Z'));
+
+    expect(postSpy).toHaveBeenCalledTimes(1);
+    const { posts, nextCursor } = await chronicleHistoryService.getHistory(GARDEN);
+    expect(nextCursor).toBeNull();
+    expect(posts).toEqual([
+      {
+        id: 'daily:2024-01-15',
+        subredditName: GARDEN,
+        type: 'daily',
+        period: '2024-01-15',
+        status: 'posted',
+        attempts: 1,
+        claimedAt: DUE,
+        templateId: 'daily_standard',
+        title: '🌳 Cinnarito Daily Chronicle - cozy_gardens Garden Update',
+        postId: 't3_abc',
+        postUrl: 'https://reddit.com/r/cozy_gardens/comments/t3_abc',
+        postedAt: DUE,
+      },
+    ]);
+  });
+
+  it('should not post again when a run fails after a successful submit', async () => {
+    // The schedule save after posting fails, so the period still looks due
+    const setSpy = vi.spyOn(fakeRedis, 'set').mockRejectedValueOnce(new Error('Redis blip'));
+
+    await service.processScheduledChronicles(GARDEN, DUE);
+    setSpy.mockRestore();
+    await service.processScheduledChronicles(GARDEN, new Date('2024-01-15T09:05:00Z'));
+
+    expect(postSpy).toHaveBeenCalledTimes(1);
+    const record = await chronicleHistoryService.getRecord(GARDEN, 'daily:2024-01-15');
+    expect(record!.status).toBe('posted');
+
+    // The second run moved the schedule on to the next day
+    await service.processScheduledChronicles(GARDEN, new Date('2024-01-16T09:00:00Z'));
+    expect(postSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry a period whose post failed, counting the attempts', async () => {
+    postSpy.mockResolvedValueOnce({ success: false, error: 'Rate limited' });
+
+    await service.processScheduledChronicles(GARDEN, DUE);
+    const failed = await chronicleHistoryService.getRecord(GARDEN, 'daily:2024-01-15');
+    expect(failed).toMatchObject({ status: 'failed', error: 'Rate limited', attempts: 1 });
+
+    await service.processScheduledChronicles(GARDEN, new Date('2024-01-15T09:05:00Z'));
+    const posted = await chronicleHistoryService.getRecord(GARDEN, 'daily:2024-01-15');
+    expect(posted).toMatchObject({ status: 'posted', attempts: 2 });
+    expect(postSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse a second claim while a post is pending and page the archive newest first', async () => {
+    const first = await chronicleHistoryService.claim(GARDEN, 'weekly', '2024-01-08', new Date('2024-01-08T09:00:00Z'));
+    const again = await chronicleHistoryService.claim(GARDEN, 'weekly', '2024-01-08', new Date('2024-01-08T09:01:00Z'));
+    await chronicleHistoryService.claim(GARDEN, 'daily', '2024-01-09', new Date('2024-01-09T09:00:00Z'));
+    await chronicleHistoryService.claim(GARDEN, 'daily', '2024-01-10', new Date('2024-01-10T09:00:00Z'));
+
+    expect(first.claimed).toBe(true);
+    expect(again).toMatchObject({ claimed: false, record: { status: 'pending', attempts: 1 } });
+
+    const page = await chronicleHistoryService.getHistory(GARDEN, { limit: 2 });
+    expect(page.posts.map(post => post.id)).toEqual(['daily:2024-01-10', 'daily:2024-01-09']);
+    const rest = await chronicleHistoryService.getHistory(GARDEN, { limit: 2, cursor: page.nextCursor! });
+    expect(rest).toMatchObject({ posts: [{ id: 'weekly:2024-01-08' }], nextCursor: null });
+    await expect(chronicleHistoryService.getHistory(GARDEN, { cursor: 'nope' })).rejects.toThrow(
+      'Invalid chronicle history cursor'
+    );
+  });
+});
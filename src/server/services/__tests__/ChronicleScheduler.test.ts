@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { redis } from '@devvit/web/server';
+import { ChronicleScheduler, SCHEDULED_JOBS } from '../ChronicleScheduler';
+import { chronicleGenerationService } from '../ChronicleGenerationService';
+import { gardenRegistryService } from '../GardenRegistryService';
+import { ManualClock } from '../../core/clock';
+import { cronMatches, nextCronRun } from '../../core/cron';
+import { InMemoryJobRunner } from '../../core/scheduler';
+import { REDIS_KEYS } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const MIDNIGHT = new Date('2024-01-15T00:00:00Z');
+
+describe('ChronicleScheduler', () => {
+  let clock: ManualClock;
+  let scheduler: ChronicleScheduler;
+  let runner: InMemoryJobRunner<(typeof SCHEDULED_JOBS)[number]['name']>;
+  let processSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    clock = new ManualClock(MIDNIGHT);
+    scheduler = new ChronicleScheduler(clock);
+    runner = new InMemoryJobRunner(SCHEDULED_JOBS, clock, name => scheduler.runJob(name));
+    processSpy = vi.spyOn(chronicleGenerationService, 'processScheduledChronicles').mockResolvedValue();
+
+    await gardenRegistryService.register('gardenone', 'install', MIDNIGHT);
+    await gardenRegistryService.register('gardentwo', 'install', MIDNIGHT);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should process chronicles for every active garden on each tick, using the injected clock', async () => {
+    await gardenRegistryService.deactivate('gardentwo', 'modname');
+
+    const fired = await runner.advanceBy(10 * 60 * 1000);
+
+    expect(fired).toEqual(['chronicles', 'chronicles']);
+    expect(processSpy).toHaveBeenCalledTimes(2);
+    expect(processSpy).toHaveBeenLastCalledWith('gardenone', new Date('2024-01-15T00:10:00Z'));
+    const garden = await gardenRegistryService.getGarden('gardenone');
+    expect(garden!.schedule).toEqual({ lastRunAt: new Date('2024-01-15T00:10:00Z'), lastRunStatus: 'ok' });
+  });
+
+  it('should run maintenance once a day alongside the chronicle ticks', async () => {
+    const fired = await runner.advanceBy(24 * 60 * 60 * 1000);
+
+    expect(fired.filter(name => name === 'maintenance')).toHaveLength(1);
+    expect(fired.filter(name => name === 'chronicles')).toHaveLength(288);
+  });
+
+  it('should skip ticks while stopped and report it in the status', async () => {
+    const stopped = await scheduler.stop();
+    const skipped = await scheduler.runJob('chronicles');
+
+    expect(stopped.isRunning).toBe(false);
+    expect(stopped.jobs.every(job => !job.enabled && job.nextRunAt === null)).toBe(true);
+    expect(skipped).toMatchObject({ outcome: 'skipped', reason: 'disabled' });
+    expect(processSpy).not.toHaveBeenCalled();
+
+    const started = await scheduler.start();
+    await runner.advanceBy(5 * 60 * 1000);
+
+    expect(started.isRunning).toBe(true);
+    expect(processSpy).toHaveBeenCalledTimes(2);
+    const status = await scheduler.getStatus();
+    expect(status.jobs.find(job => job.name === 'chronicles')).toMatchObject({
+      enabled: true,
+      running: false,
+      lastOutcome: 'ok',
+      lastRunAt: new Date('2024-01-15T00:05:00Z'),
+      nextRunAt: new Date('2024-01-15T00:10:00Z'),
+    });
+  });
+
+  it('should not run a job twice at once', async () => {
+    await fakeRedis.set(REDIS_KEYS.SCHEDULER_LOCK('chronicles'), 'another-instance');
+
+    const result = await scheduler.runJob('chronicles');
+    const status = await scheduler.getStatus();
+
+    expect(result).toMatchObject({ outcome: 'skipped', reason: 'locked' });
+    expect(processSpy).not.toHaveBeenCalled();
+    expect(status.jobs.find(job => job.name === 'chronicles')!.running).toBe(true);
+  });
+
+  it('should record a failing garden without stopping the rest of the tick', async () => {
+    processSpy.mockImplementation(async (subredditName: string) => {
+      if (subredditName === 'gardenone') {
+        throw new Error('Reddit is down');
+      }
+    });
+
+    const result = await scheduler.runJob('chronicles');
+
+    expect(result.outcome).toBe('ok');
+    expect(result.summary).toEqual({ gardens: 2, failures: ['gardenone'] });
+    expect((await gardenRegistryService.getGarden('gardenone'))!.schedule.lastRunStatus).toBe('error');
+    expect((await gardenRegistryService.getGarden('gardentwo'))!.schedule.lastRunStatus).toBe('ok');
+    expect(await fakeRedis.get(REDIS_KEYS.SCHEDULER_LOCK('chronicles'))).toBeUndefined();
+  });
+
+  it('should match the scheduler tasks declared in devvit.json', () => {
+    const config = JSON.parse(readFileSync(resolve(process.cwd(), 'devvit.json'), 'utf8'));
+
+    for (const job of SCHEDULED_JOBS) {
+      expect(config.scheduler.tasks[job.task]).toEqual({ endpoint: job.endpoint, cron: job.cron });
+    }
+    expect(Object.keys(config.scheduler.tasks)).toHaveLength(SCHEDULED_JOBS.length);
+  });
+
+  it('should evaluate cron expressions in UTC', () => {
+    expect(cronMatches('30 4 * * *', new Date('2024-01-15T04:30:00Z'))).toBe(true);
+    expect(cronMatches('30 4 * * *', new Date('2024-01-15T04:31:00Z'))).toBe(false);
+    expect(cronMatches('0 9 * * 1', new Date('2024-01-15T09:00:00Z'))).toBe(true);
+    expect(cronMatches('0 9 * * 1-5', new Date('2024-01-14T09:00:00Z'))).toBe(false);
+    expect(nextCronRun('*/5 * * * *', new Date('2024-01-15T00:05:00Z'))).toEqual(new Date('2024-01-15T00:10:00Z'));
+    expect(nextCronRun('30 4 * * *', new Date('2024-01-15T05:00:00Z'))).toEqual(new Date('2024-01-16T04:30:00Z'));
+    expect(() => cronMatches('61 * * * *', MIDNIGHT)).toThrow('Invalid cron expression');
+  });
+});
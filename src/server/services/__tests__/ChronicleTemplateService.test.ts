@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { ChronicleGenerationService, TemplateValidationError } from '../ChronicleGenerationService';
+import { chronicleTemplateService } from '../ChronicleTemplateService';
+import { redisGameService } from '../RedisGameService';
+import { growthCalculationService } from '../GrowthCalculationService';
+import { GameState } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+
+const gameState: GameState = {
+  subredditName: GARDEN,
+  treeLevel: 2,
+  totalGrowth: 250,
+  seedsPlanted: 400,
+  spiritsFed: 20,
+  robotCharged: 5,
+  dailyUpvotes: 3,
+  lastGrowthCalculation: new Date('2024-01-15T00:00:00Z'),
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+};
+
+const dailyDraft = {
+  name: 'Short daily',
+  type: 'daily' as const,
+  titleTemplate: 'Day report for {{gameState.subredditName}}',
+  contentTemplate: 'Seeds today: {{formatNumber dailyStats.seedsPlanted}}',
+};
+
+describe('Chronicle templates', () => {
+  let service: ChronicleGenerationService;
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    service = new ChronicleGenerationService();
+    vi.spyOn(redisGameService, 'getGameState').mockResolvedValue(gameState);
+    vi.spyOn(growthCalculationService, 'getDailyStats').mockResolvedValue({
+      date: '2024-01-15',
+      seedsPlanted: 1500,
+      spiritsFed: 2,
+      robotCharged: 1,
+      redditUpvotes: 0,
+      totalGrowth: 40,
+      activePlayerCount: 6,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should list the built-ins as defaults until a garden saves its own', async () => {
+    const templates = await service.listTemplates(GARDEN);
+
+    expect(templates.map(t => [t.id, t.source, t.active, t.version])).toEqual([
+      ['daily_standard', 'builtin', true, 0],
+      ['weekly_summary', 'builtin', true, 0],
+      ['milestone_achievement', 'builtin', true, 0],
+    ]);
+  });
+
+  it('should use an active custom template for generation and keep every saved version', async () => {
+    await service.saveTemplate(GARDEN, 'short-daily', dailyDraft, 'mod_one');
+    const edited = await service.saveTemplate(
+      GARDEN,
+      'short-daily',
+      { ...dailyDraft, titleTemplate: 'Daily: {{gameState.subredditName}}', active: true },
+      'mod_two'
+    );
+
+    expect(edited).toMatchObject({ source: 'custom', active: true, version: 2, updatedBy: 'mod_two' });
+    const listed = await service.listTemplates(GARDEN);
+    expect(listed.find(t => t.id === 'daily_standard')!.active).toBe(false);
+
+    const chronicle = await service.generateDailyChronicle(GARDEN);
+    expect(chronicle.title).toBe('Daily: cozy_gardens');
+    expect(chronicle.content).toBe('Seeds today: 1,500');
+    expect(chronicle.metadata.templateUsed).toBe('short-daily');
+
+    const history = await chronicleTemplateService.getHistory(GARDEN, 'short-daily');
+    expect(history.map(v => [v.version, v.updatedBy])).toEqual([[2, 'mod_two'], [1, 'mod_one']]);
+  });
+
+  it('should reject templates that would not render, before saving them', async () => {
+    await expect(
+      service.saveTemplate(GARDEN, 'typo', { ...dailyDraft, contentTemplate: '{{dailyStats.seedsPlantd}}' }, 'mod_one')
+    ).rejects.toThrow(new TemplateValidationError('Unknown variable "dailyStats.seedsPlantd" (line 1)'));
+    await expect(
+      service.saveTemplate(GARDEN, 'weekly-only', { ...dailyDraft, type: 'weekly' }, 'mod_one')
+    ).rejects.toThrow('Unknown variable "dailyStats.seedsPlanted"');
+    await expect(service.saveTemplate(GARDEN, 'Bad Id!', dailyDraft, 'mod_one')).rejects.toThrow('Template id');
+    await expect(
+      service.saveTemplate(GARDEN, 'daily_standard', { ...dailyDraft, type: 'milestone' }, 'mod_one')
+    ).rejects.toThrow('must stay daily');
+
+    expect(await chronicleTemplateService.getCustomTemplates(GARDEN)).toEqual([]);
+  });
+
+  it('should roll a bad edit back as a new version', async () => {
+    await service.saveTemplate(GARDEN, 'daily_standard', dailyDraft, 'mod_one');
+    await service.saveTemplate(GARDEN, 'daily_standard', { ...dailyDraft, contentTemplate: 'oops' }, 'mod_two');
+
+    const restored = await service.rollbackTemplate(GARDEN, 'daily_standard', 1, 'mod_one');
+
+    expect(restored).toMatchObject({ source: 'custom', version: 3, contentTemplate: dailyDraft.contentTemplate });
+    const [latest] = await chronicleTemplateService.getHistory(GARDEN, 'daily_standard');
+    expect(latest).toMatchObject({ version: 3, restoredFrom: 1 });
+    expect(await service.rollbackTemplate(GARDEN, 'daily_standard', 9, 'mod_one')).toBeNull();
+  });
+
+  it('should fall back to the built-in when the active custom template is deleted', async () => {
+    await service.saveTemplate(GARDEN, 'short-daily', { ...dailyDraft, active: true }, 'mod_one');
+
+    expect(await service.deleteTemplate(GARDEN, 'short-daily', 'mod_one')).toBe(true);
+    expect(await service.deleteTemplate(GARDEN, 'short-daily', 'mod_one')).toBe(false);
+
+    const chronicle = await service.generateDailyChronicle(GARDEN);
+    expect(chronicle.metadata.templateUsed).toBe('daily_standard');
+    const [marker] = await chronicleTemplateService.getHistory(GARDEN, 'short-daily');
+    expect(marker).toMatchObject({ version: 2, deleted: true });
+    await expect(service.rollbackTemplate(GARDEN, 'short-daily', 2, 'mod_one')).rejects.toThrow(
+      TemplateValidationError
+    );
+  });
+
+  it('should preview a draft against the live garden without saving it', async () => {
+    const preview = await service.previewTemplate(GARDEN, { draft: dailyDraft });
+
+    expect(preview).toEqual({ type: 'daily', title: 'Day report for cozy_gardens', content: 'Seeds today: 1,500' });
+    expect(await chronicleTemplateService.getCustomTemplates(GARDEN)).toEqual([]);
+
+    vi.mocked(redisGameService.getGameState).mockResolvedValue(null);
+    expect(await service.previewTemplate(GARDEN, { templateId: 'daily_standard' })).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { EventBusService, eventBusService } from '../EventBusService';
+import { ActionEngine } from '../ActionEngine';
+import { ActionTransactionService } from '../ActionTransactionService';
+import { achievementService } from '../AchievementService';
+import { leaderboardService } from '../LeaderboardService';
+import { milestoneChronicleService } from '../MilestoneChronicleService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redisGameService } from '../RedisGameService';
+import { createDomainEvent } from '../../core/events';
+import { registerDomainEventSubscribers } from '../../core/subscribers';
+import { GAME_CONFIG } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  const { FakeRealtime } = await import('./fakeRealtime');
+  return { redis: new FakeRedis(), realtime: new FakeRealtime() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+const USERNAME = 'gardener';
+const NOW = new Date('2024-01-15T09:00:00Z');
+const { REDELIVERY_DELAY_MS, MAX_ATTEMPTS } = GAME_CONFIG.EVENTS;
+
+registerDomainEventSubscribers();
+
+const joined = (username: string, at: Date = NOW) => createDomainEvent('PlayerJoined', GARDEN, { username }, at);
+
+const writeToOutbox = async (bus: EventBusService, ...events: ReturnType<typeof joined>[]) => {
+  const tx = await redis.watch();
+  await tx.multi();
+  await bus.queue(tx, events);
+  await tx.exec();
+};
+
+describe('EventBusService', () => {
+  beforeEach(async () => {
+    fakeRedis.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    await redisGameService.initializeGameState(GARDEN);
+    await playerResourceService.initializePlayerResources(USERNAME, GARDEN);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should commit an action with its events and deliver them to every subscriber', async () => {
+    const state = await redisGameService.getGameState(GARDEN);
+    await redisGameService.saveGameState({ ...state!, totalGrowth: 149, treeLevel: 2 });
+    const engine = new ActionEngine(new ActionTransactionService({ maxAttempts: 10, baseDelayMs: 1 }));
+
+    const { commit } = await engine.execute('feed', USERNAME, GARDEN);
+
+    expect(commit.events.map(event => event.type)).toEqual(['ActionCommitted', 'TreeLeveledUp', 'MilestoneReached']);
+    expect(await eventBusService.getPendingCount(GARDEN)).toBe(0);
+    expect(await redisGameService.getActivePlayerCount(GARDEN)).toBe(1);
+    expect((await milestoneChronicleService.getQueued(GARDEN)).map(entry => entry.milestone.id)).toEqual(['level:3']);
+    expect(await achievementService.getAchievements(GARDEN)).toEqual([
+      { milestone: expect.objectContaining({ id: 'level:3' }), reachedAt: NOW },
+    ]);
+  });
+
+  it('should put new players on the roster through PlayerJoined', async () => {
+    await playerResourceService.initializePlayerResources('newcomer', GARDEN);
+
+    const rank = await leaderboardService.getRank(GARDEN, 'newcomer', 'alltime');
+    expect(rank).toMatchObject({ username: 'newcomer', score: 0 });
+    expect(await eventBusService.getPendingCount(GARDEN)).toBe(0);
+  });
+
+  it('should run handlers left undelivered by a request that died after commit', async () => {
+    const bus = new EventBusService();
+    const handled: string[] = [];
+    bus.subscribe('PlayerJoined', 'test.record', async event => void handled.push(event.payload.username));
+
+    // Committed, but the request never got to deliver
+    await writeToOutbox(bus, joined('alice', new Date(NOW.getTime() - 1)), joined('bob'));
+
+    // Left alone at first, so a drain doesn't race the request
+    expect(await bus.drain(GARDEN, new Date(NOW.getTime() + 1000))).toEqual({ delivered: 0, retrying: 0, deadLettered: 0 });
+
+    const summary = await bus.drain(GARDEN, new Date(NOW.getTime() + REDELIVERY_DELAY_MS));
+
+    expect(summary).toEqual({ delivered: 2, retrying: 0, deadLettered: 0 });
+    expect(handled).toEqual(['alice', 'bob']);
+    expect(await bus.getPendingCount(GARDEN)).toBe(0);
+  });
+
+  it('should retry only the failed handler, then park the event after too many attempts', async () => {
+    const bus = new EventBusService();
+    const healthy = vi.fn().mockResolvedValue(undefined);
+    const flaky = vi.fn().mockRejectedValue(new Error('analytics down'));
+    bus.subscribe('PlayerJoined', 'test.healthy', healthy);
+    bus.subscribe('PlayerJoined', 'test.flaky', flaky);
+    const event = joined('alice');
+    await writeToOutbox(bus, event);
+
+    await bus.deliver([event], NOW);
+    expect(await bus.getPendingCount(GARDEN)).toBe(1);
+
+    let now = NOW.getTime();
+    for (let attempt = 2; attempt <= MAX_ATTEMPTS; attempt++) {
+      now += REDELIVERY_DELAY_MS * Math.pow(2, attempt - 2);
+      await bus.drain(GARDEN, new Date(now));
+    }
+
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(flaky).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+    expect(await bus.getPendingCount(GARDEN)).toBe(0);
+    const [parked] = await bus.getDeadLetters(GARDEN);
+    expect(parked).toMatchObject({
+      event: { id: event.id, type: 'PlayerJoined', occurredAt: NOW },
+      completed: ['test.healthy'],
+      attempts: MAX_ATTEMPTS,
+      lastError: 'test.flaky: analytics down',
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { GardenAdminService } from '../GardenAdminService';
+import { GardenModerationService } from '../GardenModerationService';
+import { adminAuditService } from '../AdminAuditService';
+import { ActionEngine } from '../ActionEngine';
+import { ActionTransactionService } from '../ActionTransactionService';
+import { actionLogService } from '../ActionLogService';
+import { dailyCounterService } from '../DailyCounterService';
+import { gardenBalanceService } from '../GardenBalanceService';
+import { leaderboardService } from '../LeaderboardService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redisGameService } from '../RedisGameService';
+import { InvalidAdminRequestError } from '../../core/admin';
+import { REDIS_KEYS } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+const MODERATOR = 'head_gardener';
+const NOW = new Date('2024-01-15T10:00:00Z');
+const LATER = new Date('2024-01-15T11:00:00Z');
+
+describe('GardenAdminService', () => {
+  let admin: GardenAdminService;
+  let moderation: GardenModerationService;
+  const engine = new ActionEngine(new ActionTransactionService({ maxAttempts: 10, baseDelayMs: 1 }));
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    admin = new GardenAdminService();
+    moderation = new GardenModerationService();
+    await redisGameService.initializeGameState(GARDEN);
+    await playerResourceService.initializePlayerResources('alice', GARDEN);
+    await playerResourceService.initializePlayerResources('bob', GARDEN);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep banned players and paused gardens from acting until lifted', async () => {
+    await moderation.banPlayer(GARDEN, 'Alice', MODERATOR, 'Botting', undefined, NOW);
+
+    await expect(engine.execute('plant', 'alice', GARDEN)).rejects.toMatchObject({ reason: 'banned' });
+    await expect(engine.execute('plant', 'bob', GARDEN)).resolves.toBeDefined();
+    expect(await moderation.listBans(GARDEN)).toMatchObject([{ username: 'Alice', reason: 'Botting' }]);
+
+    await moderation.pauseGarden(GARDEN, MODERATOR, 'AMA in progress', 30, NOW);
+    await expect(engine.execute('feed', 'bob', GARDEN)).rejects.toMatchObject({ reason: 'paused' });
+
+    // The pause runs out on its own; the ban lasts until lifted
+    vi.setSystemTime(LATER);
+    expect(await moderation.getPause(GARDEN)).toBeNull();
+    expect(await moderation.unbanPlayer(GARDEN, 'alice', MODERATOR)).toBe(true);
+    expect(await moderation.unbanPlayer(GARDEN, 'alice', MODERATOR)).toBe(false);
+    await expect(engine.execute('plant', 'alice', GARDEN)).resolves.toBeDefined();
+  });
+
+  it('should record every admin call in the audit log, newest first', async () => {
+    await moderation.pauseGarden(GARDEN, MODERATOR, 'Event', undefined, new Date('2024-01-15T10:00:00Z'));
+    await moderation.resumeGarden(GARDEN, MODERATOR, undefined, new Date('2024-01-15T10:01:00Z'));
+    await moderation.banPlayer(GARDEN, 'bob', 'other_mod', 'Spam', 60, new Date('2024-01-15T10:02:00Z'));
+    await admin.adjustResources(GARDEN, 'alice', { cinnamon: 5 }, MODERATOR, 'Lost in a bug', LATER);
+
+    const page = await adminAuditService.getEntries(GARDEN, { limit: 3 });
+    expect(page.entries.map(entry => entry.action)).toEqual(['player.adjust', 'player.ban', 'garden.resume']);
+    expect(page.entries[1]).toMatchObject({
+      moderator: 'other_mod',
+      target: 'bob',
+      reason: 'Spam',
+      details: { expiresAt: '2024-01-15T11:02:00.000Z' },
+    });
+
+    const older = await adminAuditService.getEntries(GARDEN, { limit: 3, cursor: page.nextCursor! });
+    expect(older).toMatchObject({ entries: [{ action: 'garden.pause' }], nextCursor: null });
+
+    const byModerator = await adminAuditService.getEntries(GARDEN, { moderator: 'OTHER_MOD' });
+    expect(byModerator.entries.map(entry => entry.action)).toEqual(['player.ban']);
+  });
+
+  it.each([
+    [{ cinnamon: 5 }, '', 'A reason is required'],
+    [{ gold: 5 }, 'Gift', 'Unknown resource: gold'],
+    [{ seeds: 1.5 }, 'Gift', 'seeds must be a whole number between -1000000 and 1000000'],
+    [{ energy: 0 }, 'Gift', 'Resource adjustment changes nothing'],
+    [{ cinnamon: -11 }, 'Refund', 'alice has only 10 cinnamon'],
+    [{ cinnamon: 1000 }, 'Gift', "cinnamon cannot exceed the garden's limit of 100"],
+  ])('should reject adjustment %j with reason %j', async (deltas, reason, message) => {
+    await gardenBalanceService.setOverrides(GARDEN, { limits: { maxCinnamon: 100 } }, MODERATOR);
+
+    await expect(admin.adjustResources(GARDEN, 'alice', deltas, MODERATOR, reason)).rejects.toThrow(
+      new InvalidAdminRequestError(message)
+    );
+    expect(await playerResourceService.getPlayerResources('alice', GARDEN)).toMatchObject({ cinnamon: 10 });
+    expect((await adminAuditService.getEntries(GARDEN)).entries).toEqual([]);
+  });
+
+  it("should adjust a player's resources", async () => {
+    const resources = await admin.adjustResources(GARDEN, 'alice', { cinnamon: -4, seeds: 3 }, MODERATOR, 'Gift');
+
+    expect(resources).toMatchObject({ cinnamon: 6, seeds: 3, energy: 0 });
+    expect(await playerResourceService.getPlayerResources('alice', GARDEN)).toMatchObject({ cinnamon: 6, seeds: 3 });
+    expect(await admin.adjustResources(GARDEN, 'nobody', { cinnamon: 1 }, MODERATOR, 'Gift')).toBeNull();
+  });
+
+  it("should take a purged player's actions back out of the garden", async () => {
+    await playerResourceService.earnCinnamon('alice', GARDEN, 10);
+    await engine.execute('plant', 'alice', GARDEN);
+    await engine.execute('feed', 'bob', GARDEN);
+    await engine.execute('charge', 'alice', GARDEN);
+
+    const purge = await admin.purgeContributions(GARDEN, 'alice', MODERATOR, 'Botting', NOW);
+
+    expect(purge).toEqual({ username: 'alice', actionsRemoved: 2, growthRemoved: 4.5, contributionsRemoved: 15 });
+    expect(await redisGameService.getGameState(GARDEN)).toMatchObject({
+      seedsPlanted: 0,
+      spiritsFed: 1,
+      robotCharged: 0,
+      totalGrowth: 2,
+    });
+    expect((await actionLogService.getRecentActions(GARDEN)).map(action => action.username)).toEqual(['bob']);
+    expect(await dailyCounterService.getCounters(GARDEN, '2024-01-15')).toMatchObject({
+      seedsPlanted: 0,
+      spiritsFed: 1,
+      robotCharged: 0,
+      actions: 1,
+      actionGrowth: 2,
+    });
+    expect(await playerResourceService.getPlayerResources('alice', GARDEN)).toMatchObject({ totalContributions: 0 });
+    expect((await leaderboardService.getLeaderboard(GARDEN, 'alltime')).entries.map(entry => entry.username)).toEqual([
+      'bob',
+    ]);
+    expect((await adminAuditService.getEntries(GARDEN)).entries[0]).toMatchObject({
+      action: 'player.purge',
+      target: 'alice',
+      details: { actionsRemoved: 2, previousTotalGrowth: 6.5 },
+    });
+  });
+
+  it('should reset a garden and rebuild its growth from counters and closed days', async () => {
+    await engine.execute('plant', 'alice', GARDEN);
+    await redisGameService.recordUpvotes(GARDEN, 10, NOW);
+
+    const reset = await admin.resetGarden(GARDEN, MODERATOR, 'New season', NOW);
+    expect(reset).toMatchObject({ totalGrowth: 0, seedsPlanted: 0, dailyUpvotes: 0, treeLevel: 1 });
+    expect(await dailyCounterService.getCounters(GARDEN, '2024-01-15')).toBeNull();
+
+    await engine.execute('feed', 'bob', GARDEN);
+    await fakeRedis.set(
+      REDIS_KEYS.DAILY_GROWTH(GARDEN, '2024-01-15'),
+      JSON.stringify({ date: '2024-01-15', redditUpvotes: 20 })
+    );
+    await gardenBalanceService.setOverrides(GARDEN, { actions: { feed: { growthContribution: 5 } } }, MODERATOR);
+
+    const rebuild = await admin.rebuildGarden(GARDEN, MODERATOR, 'Balance changed', new Date('2024-01-16T10:00:00Z'));
+
+    expect(rebuild).toEqual({ previousTotalGrowth: 2, totalGrowth: 7, previousTreeLevel: 1, treeLevel: 1 });
+    expect(await redisGameService.getGameState(GARDEN)).toMatchObject({ totalGrowth: 7, spiritsFed: 1 });
+    expect(await admin.resetGarden('empty_garden', MODERATOR, 'Nothing here')).toBeNull();
+  });
+});
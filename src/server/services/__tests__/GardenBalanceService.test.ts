@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { GardenBalanceService, InvalidBalanceConfigError } from '../GardenBalanceService';
+import { ActionEngine } from '../ActionEngine';
+import { ActionTransactionService } from '../ActionTransactionService';
+import { growthCalculationService } from '../GrowthCalculationService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redisGameService } from '../RedisGameService';
+import { ACTION_CATALOG, DEFAULT_GARDEN_BALANCE } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+const OTHER_GARDEN = 'quiet_gardens';
+const MODERATOR = 'head_gardener';
+const NOW = new Date('2024-01-15T10:00:00Z');
+
+describe('GardenBalanceService', () => {
+  let service: GardenBalanceService;
+  const engine = new ActionEngine(new ActionTransactionService({ maxAttempts: 10, baseDelayMs: 1 }));
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    service = new GardenBalanceService();
+    await redisGameService.initializeGameState(GARDEN);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should merge stored overrides over the defaults', async () => {
+    const settings = await service.setOverrides(
+      GARDEN,
+      { actions: { plant: { cost: 2 } }, startingCinnamon: 25, limits: { maxCinnamon: 500 } },
+      MODERATOR,
+      NOW
+    );
+
+    expect(settings).toMatchObject({
+      subredditName: GARDEN,
+      overrides: { actions: { plant: { cost: 2 } }, startingCinnamon: 25, limits: { maxCinnamon: 500 } },
+      updatedAt: NOW,
+      updatedBy: MODERATOR,
+    });
+    expect(settings.balance.actions.plant).toEqual({ ...DEFAULT_GARDEN_BALANCE.actions.plant, cost: 2 });
+    expect(settings.balance.limits).toEqual({ ...DEFAULT_GARDEN_BALANCE.limits, maxCinnamon: 500 });
+    expect(settings.balance.dailyBonus).toBe(DEFAULT_GARDEN_BALANCE.dailyBonus);
+    expect(await service.getBalance(OTHER_GARDEN)).toEqual(DEFAULT_GARDEN_BALANCE);
+
+    const reset = await service.reset(GARDEN);
+    expect(reset.balance).toEqual(DEFAULT_GARDEN_BALANCE);
+    expect(reset.overrides).toEqual({});
+    expect(reset.updatedBy).toBeUndefined();
+  });
+
+  it.each([
+    [{ gold: 5 }, 'Unknown setting in Balance overrides: gold'],
+    [{ actions: { prune: { cost: 1 } } }, 'Unknown setting in actions: prune'],
+    [{ actions: { plant: { cost: 2.5 } } }, 'actions.plant.cost must be a whole number'],
+    [{ actions: { feed: { growthContribution: -1 } } }, 'actions.feed.growthContribution must be between 0 and 100'],
+    [{ treeLevels: [0, 50, 150] }, 'treeLevels must list the growth required for each of the 6 levels'],
+    [{ treeLevels: [0, 50, 40, 300, 500, 1000] }, 'treeLevels must start at 0 and keep increasing'],
+    [{ limits: { maxCinnamon: 8 } }, 'startingCinnamon cannot exceed limits.maxCinnamon'],
+    [{ limits: { maxActionsPerMinute: 700 } }, 'limits.maxActionsPerMinute must be between 1 and 600'],
+    ['cheap', 'Balance overrides must be an object'],
+  ])('should reject invalid overrides %j', async (input, message) => {
+    await expect(service.setOverrides(GARDEN, input, MODERATOR)).rejects.toThrow(
+      new InvalidBalanceConfigError(message)
+    );
+    expect(await service.getOverrides(GARDEN)).toEqual({});
+  });
+
+  it('should apply a changed balance to the next action and new players', async () => {
+    await playerResourceService.initializePlayerResources('alice', GARDEN);
+    await service.setOverrides(
+      GARDEN,
+      { actions: { plant: { cost: 2, growthContribution: 6 } }, startingCinnamon: 25 },
+      MODERATOR
+    );
+
+    const { commit } = await engine.execute('plant', 'alice', GARDEN);
+    await playerResourceService.initializePlayerResources('bob', GARDEN);
+
+    expect(commit.action).toMatchObject({ resourcesSpent: 2, growthContributed: 6 });
+    expect(commit.playerResources.cinnamon).toBe(8);
+    expect(commit.gameState.totalGrowth).toBe(6);
+    expect(await playerResourceService.getPlayerResources('bob', GARDEN)).toMatchObject({ cinnamon: 25 });
+    expect(engine.getCatalog(await service.getOverrides(GARDEN)).plant).toEqual({
+      ...ACTION_CATALOG.plant,
+      cost: 2,
+      growthContribution: 6,
+    });
+  });
+
+  it("should level the tree and limit actions by the garden's balance", async () => {
+    await playerResourceService.initializePlayerResources('alice', GARDEN);
+    await service.setOverrides(
+      GARDEN,
+      { treeLevels: [0, 2, 4, 6, 8, 10], limits: { maxActionsPerMinute: 1 } },
+      MODERATOR
+    );
+
+    const { commit } = await engine.execute('feed', 'alice', GARDEN);
+
+    expect(commit.gameState.treeLevel).toBe(2);
+    expect(commit.events.map(event => event.type)).toContain('TreeLeveledUp');
+    await expect(engine.execute('plant', 'alice', GARDEN)).rejects.toMatchObject({ reason: 'rate_limited' });
+    expect(await growthCalculationService.calculateGrowthProjection(GARDEN)).toMatchObject({
+      nextLevelGrowthRequired: 4,
+    });
+  });
+
+  it('should pay rewards and upvote growth from the balance', async () => {
+    await playerResourceService.initializePlayerResources('alice', GARDEN);
+    await service.setOverrides(GARDEN, { dailyBonus: 7, upvoteCinnamon: 1, upvoteGrowth: 0.5 }, MODERATOR);
+
+    expect(await playerResourceService.awardDailyBonus('alice', GARDEN, NOW)).toMatchObject({ cinnamon: 17 });
+    expect(await playerResourceService.awardUpvoteCinnamon('alice', GARDEN, 3)).toMatchObject({ cinnamon: 20 });
+    await redisGameService.recordUpvotes(GARDEN, 10, NOW);
+
+    const closed = await growthCalculationService.processDailyGrowth(GARDEN, new Date('2024-01-16T10:00:00Z'));
+
+    expect(closed).toMatchObject({ date: '2024-01-15', redditUpvotes: 10, totalGrowth: 5 });
+    expect(await redisGameService.getGameState(GARDEN)).toMatchObject({ totalGrowth: 5 });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { getGardenDate, getGardenDayStart, getGardenTime, getZonedTime } from '../../core/calendar';
+import { getLeaderboardPeriod } from '../LeaderboardService';
+import { ActionEngine } from '../ActionEngine';
+import { ActionTransactionService } from '../ActionTransactionService';
+import { chronicleGenerationService } from '../ChronicleGenerationService';
+import { chronicleHistoryService } from '../ChronicleHistoryService';
+import { dailyCounterService } from '../DailyCounterService';
+import { gardenRegistryService } from '../GardenRegistryService';
+import { growthCalculationService } from '../GrowthCalculationService';
+import { leaderboardService } from '../LeaderboardService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redditPostingService } from '../RedditPostingService';
+import { redisGameService } from '../RedisGameService';
+import { GardenDaySettings } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+const HOUR_MS = 60 * 60 * 1000;
+const NEW_YORK: GardenDaySettings = { timezone: 'America/New_York', cutoffHour: 0 };
+
+describe('garden days', () => {
+  it('should roll over at local midnight and stretch or shrink across DST changes', () => {
+    // Clocks go forward at 2 AM on 2024-03-10 and back at 2 AM on 2024-11-03
+    expect(getGardenDayStart('2024-03-10', NEW_YORK)).toEqual(new Date('2024-03-10T05:00:00Z'));
+    expect(getGardenDayStart('2024-03-11', NEW_YORK)).toEqual(new Date('2024-03-11T04:00:00Z'));
+    expect(getGardenDayStart('2024-11-03', NEW_YORK)).toEqual(new Date('2024-11-03T04:00:00Z'));
+    expect(getGardenDayStart('2024-11-04', NEW_YORK)).toEqual(new Date('2024-11-04T05:00:00Z'));
+
+    expect(getGardenDate(new Date('2024-03-11T03:59:59Z'), NEW_YORK)).toBe('2024-03-10');
+    expect(getGardenDate(new Date('2024-03-11T04:00:00Z'), NEW_YORK)).toBe('2024-03-11');
+    expect(getGardenDate(new Date('2024-11-04T04:30:00Z'), NEW_YORK)).toBe('2024-11-03');
+  });
+
+  it('should apply the cutoff hour, resolving skipped and repeated hours', () => {
+    const twoAm = { ...NEW_YORK, cutoffHour: 2 };
+    const oneAm = { ...NEW_YORK, cutoffHour: 1 };
+
+    // 2 AM never happens on 2024-03-10, so the day starts when the clocks reach 3 AM
+    expect(getGardenDayStart('2024-03-10', twoAm)).toEqual(new Date('2024-03-10T07:00:00Z'));
+    expect(getGardenDate(new Date('2024-03-10T06:30:00Z'), twoAm)).toBe('2024-03-09');
+    expect(getGardenDate(new Date('2024-03-10T07:00:00Z'), twoAm)).toBe('2024-03-10');
+
+    // 1 AM happens twice on 2024-11-03; the day starts at the first one
+    expect(getGardenDayStart('2024-11-03', oneAm)).toEqual(new Date('2024-11-03T05:00:00Z'));
+    expect(getGardenDate(new Date('2024-11-03T05:30:00Z'), oneAm)).toBe('2024-11-03');
+    expect(getGardenDate(new Date('2024-11-03T06:30:00Z'), oneAm)).toBe('2024-11-03');
+  });
+
+  it('should handle zones east of UTC and southern-hemisphere DST', () => {
+    const berlin = { timezone: 'Europe/Berlin', cutoffHour: 4 };
+    const sydney = { timezone: 'Australia/Sydney', cutoffHour: 0 };
+
+    expect(getGardenDate(new Date('2024-03-31T01:30:00Z'), berlin)).toBe('2024-03-30');
+    expect(getGardenDate(new Date('2024-03-31T02:00:00Z'), berlin)).toBe('2024-03-31');
+    // Sydney's clocks go back at 3 AM on 2024-04-07, so that day is 25 hours long
+    expect(getGardenDayStart('2024-04-07', sydney)).toEqual(new Date('2024-04-06T13:00:00Z'));
+    expect(getGardenDayStart('2024-04-08', sydney)).toEqual(new Date('2024-04-07T14:00:00Z'));
+    expect(getZonedTime('2024-04-07', 9, 'Australia/Sydney')).toEqual(new Date('2024-04-06T23:00:00Z'));
+  });
+
+  it('should place hours before the cutoff on the next calendar date', () => {
+    const lateNight = { timezone: 'UTC', cutoffHour: 6 };
+
+    expect(getGardenTime('2024-01-15', 9, lateNight)).toEqual(new Date('2024-01-15T09:00:00Z'));
+    expect(getGardenTime('2024-01-15', 3, lateNight)).toEqual(new Date('2024-01-16T03:00:00Z'));
+  });
+
+  it('should name leaderboard periods by garden day and week', () => {
+    // Sunday evening in New York is already Monday in UTC
+    const sundayEvening = new Date('2024-01-15T02:00:00Z');
+
+    expect(getLeaderboardPeriod('daily', sundayEvening)).toBe('2024-01-15');
+    expect(getLeaderboardPeriod('daily', sundayEvening, NEW_YORK)).toBe('2024-01-14');
+    expect(getLeaderboardPeriod('weekly', sundayEvening)).toBe('2024-W03');
+    expect(getLeaderboardPeriod('weekly', sundayEvening, NEW_YORK)).toBe('2024-W02');
+  });
+});
+
+describe('daily keys in a garden timezone', () => {
+  const engine = new ActionEngine(new ActionTransactionService({ maxAttempts: 10, baseDelayMs: 1 }));
+
+  const act = async (username: string, at: Date) => {
+    vi.setSystemTime(at);
+    await playerResourceService.initializePlayerResources(username, GARDEN);
+    await engine.execute('plant', username, GARDEN);
+  };
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-09T12:00:00Z'));
+    await redisGameService.initializeGameState(GARDEN);
+    await gardenRegistryService.setDaySettings(GARDEN, NEW_YORK);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should count actions, leaderboards and closed days by the local day', async () => {
+    // 11:30 PM on the 9th, 12:30 AM on the 10th, and 11:30 PM on the 10th, New York time
+    await act('alice', new Date('2024-03-10T04:30:00Z'));
+    await act('bob', new Date('2024-03-10T05:30:00Z'));
+    await act('carol', new Date('2024-03-11T03:30:00Z'));
+
+    expect(await dailyCounterService.getCounters(GARDEN, '2024-03-09')).toMatchObject({ seedsPlanted: 1 });
+    expect(await dailyCounterService.getCounters(GARDEN, '2024-03-10')).toMatchObject({ seedsPlanted: 2 });
+    const board = await leaderboardService.getLeaderboard(GARDEN, 'daily', { now: new Date('2024-03-11T03:45:00Z') });
+    expect(board.periodId).toBe('2024-03-10');
+    expect(board.entries.map(entry => entry.username).sort()).toEqual(['bob', 'carol']);
+
+    const closed = await growthCalculationService.processDailyGrowth(GARDEN, new Date('2024-03-11T04:30:00Z'));
+
+    expect(closed).toMatchObject({ date: '2024-03-10', seedsPlanted: 2, activePlayerCount: 2 });
+  });
+
+  it('should give the daily bonus once per local day', async () => {
+    await playerResourceService.initializePlayerResources('alice', GARDEN);
+    const evening = new Date('2024-03-11T02:00:00Z');
+
+    expect(await playerResourceService.awardDailyBonus('alice', GARDEN, evening)).toMatchObject({ cinnamon: 15 });
+    expect(await playerResourceService.awardDailyBonus('alice', GARDEN, new Date(evening.getTime() + HOUR_MS))).toBeNull();
+    expect(
+      await playerResourceService.awardDailyBonus('alice', GARDEN, new Date(evening.getTime() + 3 * HOUR_MS))
+    ).toMatchObject({ cinnamon: 20 });
+  });
+
+  it('should post the daily chronicle at 9 AM local time on either side of the DST change', async () => {
+    const postSpy = vi.spyOn(redditPostingService, 'postCommunityUpdate').mockResolvedValue({
+      success: true,
+      postId: 't3_abc',
+      postUrl: 'https://reddit.com/r/cozy_gardens/comments/t3_abc',
+    });
+    // 9 AM EST, then 9 AM EDT the next morning
+    const saturday = new Date('2024-03-09T14:00:00Z');
+    await chronicleGenerationService.setupChronicleSchedule(GARDEN, 'daily', saturday);
+
+    await chronicleGenerationService.processScheduledChronicles(GARDEN, saturday);
+    await chronicleGenerationService.processScheduledChronicles(GARDEN, new Date('2024-03-10T12:59:00Z'));
+    expect(postSpy).toHaveBeenCalledTimes(1);
+    await chronicleGenerationService.processScheduledChronicles(GARDEN, new Date('2024-03-10T13:00:00Z'));
+
+    expect(postSpy).toHaveBeenCalledTimes(2);
+    const { posts } = await chronicleHistoryService.getHistory(GARDEN);
+    expect(posts.map(post => post.id)).toEqual(['daily:2024-03-10', 'daily:2024-03-09']);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { GardenRegistryService, InvalidGardenDayError } from '../GardenRegistryService';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const INSTALLED = new Date('2024-01-15T12:00:00Z');
+
+describe('GardenRegistryService', () => {
+  let service: GardenRegistryService;
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    service = new GardenRegistryService();
+  });
+
+  it('should register a garden once and keep its install date', async () => {
+    const first = await service.register('gardenone', 'install', INSTALLED);
+    const again = await service.register('gardenone', 'init', new Date('2024-02-01T00:00:00Z'));
+
+    expect(first).toEqual({
+      subredditName: 'gardenone',
+      status: 'active',
+      installedAt: INSTALLED,
+      lastActivityAt: null,
+      schedule: {},
+      day: { timezone: 'UTC', cutoffHour: 0 },
+    });
+    expect(again.installedAt).toEqual(INSTALLED);
+    expect(await service.listGardens()).toHaveLength(1);
+  });
+
+  it('should list gardens by most recent activity', async () => {
+    await service.register('quiet', 'init', INSTALLED);
+    await service.register('busy', 'init', INSTALLED);
+    await service.register('never', 'init', INSTALLED);
+    await service.touch('quiet', new Date('2024-01-16T00:00:00Z'));
+
+    const tx = await redis.watch();
+    await tx.multi();
+    await service.queueActivity(tx, 'busy', new Date('2024-01-17T00:00:00Z'));
+    await tx.exec();
+
+    const gardens = await service.listGardens();
+
+    expect(gardens.map(g => g.subredditName)).toEqual(['busy', 'quiet', 'never']);
+    expect(gardens[0]!.lastActivityAt).toEqual(new Date('2024-01-17T00:00:00Z'));
+  });
+
+  it('should leave deactivated gardens out of the active list until reactivated', async () => {
+    await service.register('gardenone', 'install', INSTALLED);
+    await service.register('gardentwo', 'install', INSTALLED);
+
+    const deactivated = await service.deactivate('gardentwo', 'modname', new Date('2024-01-20T00:00:00Z'));
+
+    expect(deactivated).toMatchObject({ status: 'inactive', deactivatedBy: 'modname' });
+    expect(await service.getActiveSubreddits()).toEqual(['gardenone']);
+    expect((await service.listGardens({ status: 'inactive' })).map(g => g.subredditName)).toEqual(['gardentwo']);
+
+    // Loading the game doesn't undo a moderator's decision, reinstalling does
+    await service.register('gardentwo', 'init');
+    expect(await service.getActiveSubreddits()).toEqual(['gardenone']);
+    const reinstalled = await service.register('gardentwo', 'install');
+    expect(reinstalled.status).toBe('active');
+    expect(reinstalled.deactivatedBy).toBeUndefined();
+    expect((await service.getActiveSubreddits()).sort()).toEqual(['gardenone', 'gardentwo']);
+  });
+
+  it('should record the outcome of the latest scheduled run', async () => {
+    await service.register('gardenone', 'init', INSTALLED);
+    const ranAt = new Date('2024-01-16T00:00:00Z');
+
+    await service.recordScheduleRun('gardenone', { status: 'error', error: 'Reddit is down' }, ranAt);
+    expect((await service.getGarden('gardenone'))!.schedule).toEqual({
+      lastRunAt: ranAt,
+      lastRunStatus: 'error',
+      lastError: 'Reddit is down',
+    });
+
+    await service.recordScheduleRun('gardenone', { status: 'ok' }, ranAt);
+    expect((await service.getGarden('gardenone'))!.schedule).toEqual({ lastRunAt: ranAt, lastRunStatus: 'ok' });
+  });
+
+  it("should validate and keep a garden's day settings", async () => {
+    await service.register('gardenone', 'init', INSTALLED);
+
+    const updated = await service.setDaySettings('gardenone', { timezone: 'america/new_york', cutoffHour: 4 });
+
+    expect(updated!.day).toEqual({ timezone: 'America/New_York', cutoffHour: 4 });
+    expect(await service.getDaySettings('gardenone')).toEqual({ timezone: 'America/New_York', cutoffHour: 4 });
+    expect(await service.getDaySettings('nowhere')).toEqual({ timezone: 'UTC', cutoffHour: 0 });
+    await expect(service.setDaySettings('gardenone', { timezone: 'Mars/Olympus_Mons', cutoffHour: 4 })).rejects.toThrow(
+      InvalidGardenDayError
+    );
+    await expect(service.setDaySettings('gardenone', { timezone: 'UTC', cutoffHour: 24 })).rejects.toThrow(
+      InvalidGardenDayError
+    );
+  });
+
+  it('should return null when changing an unknown garden', async () => {
+    expect(await service.deactivate('nowhere', 'modname')).toBeNull();
+    expect(await service.activate('nowhere')).toBeNull();
+    expect(await service.setDaySettings('nowhere', { timezone: 'UTC', cutoffHour: 0 })).toBeNull();
+    expect(await service.getGarden('nowhere')).toBeNull();
+  });
+});
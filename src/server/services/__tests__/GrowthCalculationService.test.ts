@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { GrowthCalculationService } from '../GrowthCalculationService';
+import { ActionEngine } from '../ActionEngine';
+import { ActionTransactionService } from '../ActionTransactionService';
+import { actionLogService } from '../ActionLogService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redisGameService } from '../RedisGameService';
+import { gardenBalanceService } from '../GardenBalanceService';
+import { PlayerActionType, REDIS_KEYS } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+const DAY_1 = new Date('2024-01-15T10:00:00Z');
+const DAY_2 = new Date('2024-01-16T10:00:00Z');
+const DAY_3 = new Date('2024-01-17T04:30:00Z');
+const DAY_4 = new Date('2024-01-18T04:30:00Z');
+
+const engine = new ActionEngine(new ActionTransactionService({ maxAttempts: 10, baseDelayMs: 1 }));
+
+const act = async (username: string, actionType: PlayerActionType, at: Date) => {
+  vi.setSystemTime(at);
+  await playerResourceService.initializePlayerResources(username, GARDEN);
+  await engine.execute(actionType, username, GARDEN);
+};
+
+const upvote = async (count: number, at: Date) => {
+  vi.setSystemTime(at);
+  await redisGameService.recordUpvotes(GARDEN, count, at);
+};
+
+const actionLogGrowth = async () => {
+  const actions = await actionLogService.getActionsBetween(GARDEN, new Date(0), DAY_4);
+  return actions.reduce((sum, action) => sum + action.growthContributed, 0);
+};
+
+describe('GrowthCalculationService', () => {
+  let service: GrowthCalculationService;
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(DAY_1);
+    service = new GrowthCalculationService();
+    await redisGameService.initializeGameState(GARDEN);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should close each day from that day's counters and reset its upvotes", async () => {
+    await act('alice', 'plant', DAY_1);
+    await act('bob', 'plant', DAY_1);
+    await upvote(10, DAY_1);
+    expect(await service.getDailyStats(GARDEN, DAY_1)).toMatchObject({ seedsPlanted: 2, redditUpvotes: 10, totalGrowth: 4 });
+
+    const dayOne = await service.processDailyGrowth(GARDEN, DAY_2);
+    await act('carol', 'charge', DAY_2);
+    const dayTwo = await service.processDailyGrowth(GARDEN, DAY_3);
+
+    expect(dayOne).toEqual({
+      date: '2024-01-15',
+      seedsPlanted: 2,
+      spiritsFed: 0,
+      robotCharged: 0,
+      redditUpvotes: 10,
+      totalGrowth: 4,
+      activePlayerCount: 2,
+    });
+    expect(dayTwo).toMatchObject({ date: '2024-01-16', seedsPlanted: 0, robotCharged: 1, redditUpvotes: 0, totalGrowth: 3 });
+
+    const state = await redisGameService.getGameState(GARDEN);
+    expect(state).toMatchObject({ totalGrowth: 7, dailyUpvotes: 0, seedsPlanted: 2, robotCharged: 1 });
+    expect(state!.totalGrowth).toBe((await actionLogGrowth()) + 10 * 0.1);
+  });
+
+  it('should close a day only once', async () => {
+    await act('alice', 'feed', DAY_1);
+    await upvote(20, DAY_1);
+
+    const first = await service.processDailyGrowth(GARDEN, DAY_2);
+    const again = await service.processDailyGrowth(GARDEN, new Date(DAY_2.getTime() + 60 * 60 * 1000));
+
+    expect(again).toEqual(first);
+    expect(await redisGameService.getGameState(GARDEN)).toMatchObject({ totalGrowth: 4, dailyUpvotes: 0 });
+  });
+
+  it('should catch up on days the daily pass missed', async () => {
+    await act('alice', 'plant', DAY_1);
+    await upvote(10, DAY_1);
+    await act('bob', 'feed', DAY_2);
+    await upvote(30, DAY_2);
+
+    vi.setSystemTime(DAY_4);
+    await service.processDailyGrowth(GARDEN, DAY_4);
+
+    const history = await service.getGrowthHistory(GARDEN, 7);
+    expect(history.map(day => [day.date, day.totalGrowth])).toEqual([
+      ['2024-01-15', 2.5],
+      ['2024-01-16', 5],
+      ['2024-01-17', 0],
+    ]);
+    expect(await redisGameService.getGameState(GARDEN)).toMatchObject({ totalGrowth: 7.5, dailyUpvotes: 0 });
+  });
+
+  const inflateLegacyGarden = async () => {
+    await fakeRedis.del(REDIS_KEYS.GROWTH_REPAIRED(GARDEN));
+    const state = await redisGameService.getGameState(GARDEN);
+    await redisGameService.saveGameState({
+      ...state!,
+      seedsPlanted: 10,
+      spiritsFed: 5,
+      dailyUpvotes: 30,
+      totalGrowth: 500,
+      treeLevel: 4,
+    });
+  };
+
+  it('should repair a total inflated by the old daily pass once, keeping unclosed upvotes', async () => {
+    await inflateLegacyGarden();
+    await upvote(5, DAY_1);
+
+    const repair = await service.repairInflatedGrowth(GARDEN, DAY_1);
+
+    expect(repair).toEqual({
+      subredditName: GARDEN,
+      previousTotalGrowth: 500,
+      totalGrowth: 28,
+      previousTreeLevel: 4,
+      treeLevel: 1,
+    });
+    expect(await redisGameService.getGameState(GARDEN)).toMatchObject({ totalGrowth: 28, dailyUpvotes: 5 });
+    expect(await fakeRedis.get(REDIS_KEYS.GROWTH_REPAIRED(GARDEN))).toBe(DAY_1.toISOString());
+    expect(await service.repairInflatedGrowth(GARDEN, DAY_2)).toBeNull();
+
+    // The pending upvotes land when their day closes
+    await service.processDailyGrowth(GARDEN, DAY_2);
+    expect(await redisGameService.getGameState(GARDEN)).toMatchObject({ totalGrowth: 28.5, dailyUpvotes: 0 });
+  });
+
+  it('should repair at the default multipliers rather than the garden\'s current balance', async () => {
+    await inflateLegacyGarden();
+    await gardenBalanceService.setOverrides(GARDEN, { actions: { plant: { growthContribution: 10 } } }, 'mod');
+
+    expect(await service.repairInflatedGrowth(GARDEN, DAY_1)).toMatchObject({ totalGrowth: 28 });
+  });
+
+  it('should never repair a garden created on per-day accounting', async () => {
+    await act('alice', 'plant', DAY_1);
+
+    expect(await fakeRedis.get(REDIS_KEYS.GROWTH_REPAIRED(GARDEN))).toBe(DAY_1.toISOString());
+    expect(await service.repairInflatedGrowth(GARDEN, DAY_2)).toBeNull();
+    expect(await redisGameService.getGameState(GARDEN)).toMatchObject({ totalGrowth: 1.5, seedsPlanted: 1 });
+  });
+});
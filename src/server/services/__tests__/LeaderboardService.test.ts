@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { LeaderboardService, getLeaderboardPeriod } from '../LeaderboardService';
+import { playerResourceService } from '../PlayerResourceService';
+import { registerDomainEventSubscribers } from '../../core/subscribers';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  const { FakeRealtime } = await import('./fakeRealtime');
+  return { redis: new FakeRedis(), realtime: new FakeRealtime() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const SUBREDDIT = 'testsubreddit';
+const MONDAY = new Date('2024-01-15T12:00:00Z');
+
+// New players reach the roster through the PlayerJoined subscriber
+registerDomainEventSubscribers();
+
+describe('LeaderboardService', () => {
+  let service: LeaderboardService;
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    service = new LeaderboardService();
+  });
+
+  const contribute = async (username: string, amount: number, at: Date = MONDAY) => {
+    const tx = await redis.watch();
+    await tx.multi();
+    await service.queueContribution(tx, SUBREDDIT, username, amount, at);
+    await tx.exec();
+  };
+
+  it('should rank players by contribution in every window', async () => {
+    await contribute('alice', 10);
+    await contribute('bob', 25);
+    await contribute('carol', 5);
+    await contribute('alice', 20);
+
+    for (const window of ['daily', 'weekly', 'alltime'] as const) {
+      const page = await service.getLeaderboard(SUBREDDIT, window, { now: MONDAY });
+      expect(page.entries).toEqual([
+        { rank: 1, username: 'alice', score: 30 },
+        { rank: 2, username: 'bob', score: 25 },
+        { rank: 3, username: 'carol', score: 5 },
+      ]);
+      expect(page.totalPlayers).toBe(3);
+    }
+  });
+
+  it('should roll daily and weekly boards over at the period boundary', async () => {
+    await contribute('alice', 10, MONDAY);
+    const tuesday = new Date('2024-01-16T09:00:00Z');
+    const nextMonday = new Date('2024-01-22T09:00:00Z');
+    await contribute('bob', 5, tuesday);
+
+    const daily = await service.getLeaderboard(SUBREDDIT, 'daily', { now: tuesday });
+    const weekly = await service.getLeaderboard(SUBREDDIT, 'weekly', { now: tuesday });
+    const nextWeek = await service.getLeaderboard(SUBREDDIT, 'weekly', { now: nextMonday });
+    const allTime = await service.getLeaderboard(SUBREDDIT, 'alltime', { now: nextMonday });
+
+    expect(daily.periodId).toBe('2024-01-16');
+    expect(daily.entries.map(e => e.username)).toEqual(['bob']);
+    expect(weekly.periodId).toBe('2024-W03');
+    expect(weekly.entries.map(e => e.username)).toEqual(['alice', 'bob']);
+    expect(nextWeek.entries).toEqual([]);
+    expect(allTime.entries.map(e => e.username)).toEqual(['alice', 'bob']);
+  });
+
+  it('should centre the page on the requesting player with around=me', async () => {
+    for (let i = 1; i <= 20; i++) {
+      await contribute(`player${i}`, i);
+    }
+
+    const page = await service.getLeaderboard(SUBREDDIT, 'alltime', {
+      limit: 5,
+      username: 'player8',
+      aroundUsername: 'player8',
+      now: MONDAY,
+    });
+
+    expect(page.me).toEqual({ rank: 13, username: 'player8', score: 8 });
+    expect(page.entries.map(e => e.rank)).toEqual([11, 12, 13, 14, 15]);
+    expect(page.entries[2]!.username).toBe('player8');
+  });
+
+  it('should report the player standing even when they are off the page', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await contribute(`player${i}`, i);
+    }
+
+    const page = await service.getLeaderboard(SUBREDDIT, 'alltime', { limit: 2, username: 'player1', now: MONDAY });
+    const stranger = await service.getLeaderboard(SUBREDDIT, 'alltime', { limit: 2, username: 'nobody', now: MONDAY });
+
+    expect(page.entries.map(e => e.username)).toEqual(['player5', 'player4']);
+    expect(page.me).toEqual({ rank: 5, username: 'player1', score: 1 });
+    expect(stranger.me).toBeNull();
+  });
+
+  it('should use ISO weeks across the year boundary', () => {
+    expect(getLeaderboardPeriod('weekly', new Date('2021-01-01T00:00:00Z'))).toBe('2020-W53');
+    expect(getLeaderboardPeriod('weekly', new Date('2024-12-30T00:00:00Z'))).toBe('2025-W01');
+    expect(getLeaderboardPeriod('daily', new Date('2024-03-05T23:59:59Z'))).toBe('2024-03-05');
+    expect(getLeaderboardPeriod('alltime', MONDAY)).toBe('all');
+  });
+
+  it('should serve player lists and ranks from the all-time board', async () => {
+    for (const [username, contributions] of [['alice', 10], ['bob', 40], ['carol', 0]] as const) {
+      await playerResourceService.initializePlayerResources(username, SUBREDDIT);
+      await playerResourceService.updatePlayerResources(username, SUBREDDIT, { totalContributions: contributions });
+      if (contributions > 0) {
+        await contribute(username, contributions, new Date());
+      }
+    }
+
+    const players = await playerResourceService.getSubredditPlayers(SUBREDDIT);
+
+    expect(players.map(p => p.username)).toEqual(['bob', 'alice', 'carol']);
+    expect(await playerResourceService.getPlayerRank('alice', SUBREDDIT)).toBe(2);
+    expect(await playerResourceService.getPlayerRank('nobody', SUBREDDIT)).toBe(-1);
+  });
+
+  it('should backfill the all-time board from the legacy player index', async () => {
+    await fakeRedis.set(`cinnarito:subreddit:${SUBREDDIT}:players`, JSON.stringify(['alice', 'bob', 'ghost']));
+    const contributions: Record<string, number> = { alice: 12, bob: 30 };
+
+    const backfilled = await service.backfillFromLegacyIndex(SUBREDDIT, async username => contributions[username] ?? null);
+
+    expect(backfilled).toBe(2);
+    const page = await service.getLeaderboard(SUBREDDIT, 'alltime');
+    expect(page.entries.map(e => [e.username, e.score])).toEqual([['bob', 30], ['alice', 12]]);
+    expect(await fakeRedis.get(`cinnarito:subreddit:${SUBREDDIT}:players`)).toBeUndefined();
+  });
+});
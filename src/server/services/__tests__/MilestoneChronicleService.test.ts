@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { ActionTransactionService } from '../ActionTransactionService';
+import { ChronicleGenerationService } from '../ChronicleGenerationService';
+import { chronicleHistoryService } from '../ChronicleHistoryService';
+import { growthCalculationService } from '../GrowthCalculationService';
+import { milestoneChronicleService, InvalidMilestoneConfigError } from '../MilestoneChronicleService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redditPostingService } from '../RedditPostingService';
+import { redisGameService } from '../RedisGameService';
+import { eventBusService } from '../EventBusService';
+import { registerDomainEventSubscribers } from '../../core/subscribers';
+import { describeMilestone } from '../../../shared/utils/milestones';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  const { FakeRealtime } = await import('./fakeRealtime');
+  return { redis: new FakeRedis(), realtime: new FakeRealtime() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+const NOW = new Date('2024-01-15T09:00:00Z');
+
+registerDomainEventSubscribers();
+
+describe('Milestone chronicles', () => {
+  let chronicles: ChronicleGenerationService;
+  let postSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    chronicles = new ChronicleGenerationService();
+    await redisGameService.initializeGameState(GARDEN);
+    postSpy = vi.spyOn(redditPostingService, 'postCommunityUpdate').mockResolvedValue({
+      success: true,
+      postId: 't3_milestone',
+      postUrl: 'https://reddit.com/r/cozy_gardens/comments/t3_milestone',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const feed = async (username: string) => {
+    await playerResourceService.initializePlayerResources(username, GARDEN);
+    await playerResourceService.updatePlayerResources(username, GARDEN, { cinnamon: 100 });
+    const commit = await new ActionTransactionService({ maxAttempts: 10, baseDelayMs: 1 }).commitAction({
+      username,
+      subredditName: GARDEN,
+      actionType: 'feed',
+      cost: 3,
+      counter: 'spiritsFed',
+      growthContributed: 2,
+      cooldownMs: 0,
+    });
+    await eventBusService.deliver(commit.events);
+    return commit;
+  };
+
+  it('should queue a level-up from an action\'s events and post its chronicle once', async () => {
+    // Saved directly, so the earlier milestones aren't published
+    const state = await redisGameService.getGameState(GARDEN);
+    await redisGameService.saveGameState({ ...state!, totalGrowth: 149, treeLevel: 2 });
+
+    await feed('gardener');
+    const queued = await milestoneChronicleService.getQueued(GARDEN);
+    expect(queued.map(entry => entry.milestone)).toEqual([describeMilestone('level', 3)]);
+
+    await chronicles.processScheduledChronicles(GARDEN, NOW);
+    // Queued again, e.g. by a retried daily growth run
+    await milestoneChronicleService.enqueue(GARDEN, [describeMilestone('level', 3)], NOW);
+    await chronicles.processScheduledChronicles(GARDEN, new Date('2024-01-15T09:05:00Z'));
+
+    expect(postSpy).toHaveBeenCalledTimes(1);
+    expect(postSpy.mock.calls[0]![0]).toMatchObject({
+      title: '🎉 Cinnarito Milestone Achieved - Tree evolved to Young Tree!',
+      postType: 'milestone',
+    });
+    expect(await milestoneChronicleService.getQueued(GARDEN)).toEqual([]);
+    const record = await chronicleHistoryService.getRecord(GARDEN, 'milestone:level:3');
+    expect(record).toMatchObject({ type: 'milestone', period: 'level:3', status: 'posted', postId: 't3_milestone' });
+  });
+
+  it('should drop milestones the moderators have switched off', async () => {
+    await milestoneChronicleService.setConfig(GARDEN, { enabled: true, levels: [3], growthThresholds: [] });
+    await milestoneChronicleService.enqueue(
+      GARDEN,
+      [describeMilestone('level', 3), describeMilestone('growth', 250)],
+      NOW
+    );
+
+    await chronicles.processMilestoneChronicles(GARDEN, NOW);
+
+    expect(postSpy).toHaveBeenCalledTimes(1);
+    expect(await milestoneChronicleService.getQueued(GARDEN)).toEqual([]);
+    expect(await chronicleHistoryService.getRecord(GARDEN, 'milestone:growth:250')).toBeNull();
+  });
+
+  it('should keep a failed milestone queued until it runs out of attempts', async () => {
+    postSpy.mockResolvedValue({ success: false, error: 'Rate limited' });
+    await milestoneChronicleService.enqueue(GARDEN, [describeMilestone('growth', 100)], NOW);
+
+    await chronicles.processMilestoneChronicles(GARDEN, NOW);
+    expect(await milestoneChronicleService.getQueued(GARDEN)).toHaveLength(1);
+
+    await chronicles.processMilestoneChronicles(GARDEN, NOW);
+    await chronicles.processMilestoneChronicles(GARDEN, NOW);
+
+    expect(postSpy).toHaveBeenCalledTimes(3);
+    expect(await milestoneChronicleService.getQueued(GARDEN)).toEqual([]);
+    const record = await chronicleHistoryService.getRecord(GARDEN, 'milestone:growth:100');
+    expect(record).toMatchObject({ status: 'failed', attempts: 3 });
+  });
+
+  it('should validate the configuration and default to posting everything', async () => {
+    const config = await milestoneChronicleService.getConfig(GARDEN);
+    expect(config.enabled).toBe(true);
+    expect(config.levels).toEqual([2, 3, 4, 5, 6]);
+
+    await expect(milestoneChronicleService.setConfig(GARDEN, { enabled: 'yes' })).rejects.toThrow(
+      InvalidMilestoneConfigError
+    );
+    await expect(
+      milestoneChronicleService.setConfig(GARDEN, { enabled: true, levels: [7], growthThresholds: [] })
+    ).rejects.toThrow('levels must be a list drawn from: 2, 3, 4, 5, 6');
+
+    const saved = await milestoneChronicleService.setConfig(GARDEN, {
+      enabled: false,
+      levels: [4, 2, 4],
+      growthThresholds: [1000],
+    });
+    expect(saved).toEqual({ enabled: false, levels: [2, 4], growthThresholds: [1000] });
+  });
+
+  it('should report every milestone crossed by a growth change', async () => {
+    const result = await growthCalculationService.checkMilestones(GARDEN, 140, 260);
+
+    expect(result).toMatchObject({ levelUp: true, newLevel: 3, milestoneReached: 'Community reached 250 total growth!' });
+    expect(result.milestones.map(milestone => milestone.id)).toEqual(['level:3', 'growth:250']);
+  });
+});
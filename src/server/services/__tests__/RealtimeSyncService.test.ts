@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis, realtime } from '@devvit/web/server';
+import { ActionEngine } from '../ActionEngine';
+import { ActionTransactionService } from '../ActionTransactionService';
+import { eventBusService } from '../EventBusService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redisGameService } from '../RedisGameService';
+import { registerDomainEventSubscribers } from '../../core/subscribers';
+import { applyStateChanges } from '../../../shared/utils/stateDelta';
+import { REALTIME_CHANNELS } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+import { FakeRealtime } from './fakeRealtime';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  const { FakeRealtime } = await import('./fakeRealtime');
+  return { redis: new FakeRedis(), realtime: new FakeRealtime() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const fakeRealtime = realtime as unknown as FakeRealtime;
+const GARDEN = 'cozy_gardens';
+const USERNAME = 'gardener';
+const NOW = new Date('2024-01-15T09:00:00Z');
+
+registerDomainEventSubscribers();
+
+describe('RealtimeSyncService', () => {
+  const engine = new ActionEngine(new ActionTransactionService({ maxAttempts: 10, baseDelayMs: 1 }));
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    fakeRealtime.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    await redisGameService.initializeGameState(GARDEN);
+    await playerResourceService.initializePlayerResources(USERNAME, GARDEN);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should publish only the counters an action moved on the garden's channel", async () => {
+    const { commit } = await engine.execute('feed', USERNAME, GARDEN);
+
+    expect(fakeRealtime.messagesOn(REALTIME_CHANNELS.GARDEN(GARDEN))).toEqual([
+      {
+        type: 'delta',
+        subredditName: GARDEN,
+        changes: { spiritsFed: 1, totalGrowth: commit.gameState.totalGrowth },
+        version: 1,
+        updatedAt: NOW.toISOString(),
+        action: {
+          id: commit.action.id,
+          username: USERNAME,
+          actionType: 'feed',
+          growthContributed: commit.action.growthContributed,
+          timestamp: NOW.toISOString(),
+        },
+      },
+    ]);
+    expect(fakeRealtime.sent).toHaveLength(1);
+  });
+
+  it('should drop a message it could not send without failing the action or its event', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    fakeRealtime.failNextSend = true;
+
+    const { commit } = await engine.execute('plant', USERNAME, GARDEN);
+
+    expect(commit.gameState.seedsPlanted).toBe(1);
+    expect(fakeRealtime.sent).toEqual([]);
+    expect(await eventBusService.getPendingCount(GARDEN)).toBe(0);
+    expect(error).toHaveBeenCalledWith(`Failed to publish realtime delta for ${GARDEN}:`, expect.any(Error));
+  });
+
+  it('should ignore a delta for a version the state already has', async () => {
+    await engine.execute('plant', USERNAME, GARDEN);
+    const state = (await redisGameService.getGameState(GARDEN))!;
+    const later = new Date(NOW.getTime() + 1000);
+
+    expect(applyStateChanges(state, { seedsPlanted: 7 }, 0, 1, later)).toBe(state);
+    expect(applyStateChanges(state, { seedsPlanted: 7 }, 1, 2, later)).toEqual({
+      ...state,
+      seedsPlanted: 7,
+      version: 2,
+      updatedAt: later,
+    });
+  });
+
+  it('should refuse a delta that skips versions the state is missing', async () => {
+    const state = (await redisGameService.getGameState(GARDEN))!;
+
+    expect(applyStateChanges(state, { seedsPlanted: 7 }, 2, 3, NOW)).toBeNull();
+  });
+});
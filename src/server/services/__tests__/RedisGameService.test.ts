@@ -1,24 +1,48 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { RedisGameService } from '../RedisGameService';
+import { eventBusService } from '../EventBusService';
+import { stateChangeLogService } from '../StateChangeLogService';
 import { GameState } from '../../../shared/types';
 
 // Mock Redis for testing
-const mockRedis = {
+const mockTx = vi.hoisted(() => ({
+  multi: vi.fn(),
+  set: vi.fn(),
+  exec: vi.fn(),
+  unwatch: vi.fn(),
+}));
+
+const mockRedis = vi.hoisted(() => ({
   get: vi.fn(),
   set: vi.fn(),
   del: vi.fn(),
-};
+  watch: vi.fn(),
+}));
 
 vi.mock('@devvit/web/server', () => ({
   redis: mockRedis
 }));
 
+vi.mock('../GardenRegistryService', () => ({
+  gardenRegistryService: { register: vi.fn() }
+}));
+
+vi.mock('../EventBusService', () => ({
+  eventBusService: { publish: vi.fn() }
+}));
+
+vi.mock('../StateChangeLogService', () => ({
+  stateChangeLogService: { queueAppend: vi.fn() }
+}));
+
 describe('RedisGameService', () => {
   let service: RedisGameService;
 
   beforeEach(() => {
     service = new RedisGameService();
     vi.clearAllMocks();
+    mockRedis.watch.mockResolvedValue(mockTx);
+    mockTx.exec.mockResolvedValue(['OK']);
   });
 
   describe('initializeGameState', () => {
@@ -70,22 +94,22 @@ describe('RedisGameService', () => {
   });
 
   describe('updateGameState', () => {
-    it('should update game state with new values', async () => {
-      const existingState: GameState = {
-        subredditName: 'testsubreddit',
-        treeLevel: 1,
-        totalGrowth: 0,
-        seedsPlanted: 0,
-        spiritsFed: 0,
-        robotCharged: 0,
-        dailyUpvotes: 0,
-        lastGrowthCalculation: new Date(),
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
+    const existingState: GameState = {
+      subredditName: 'testsubreddit',
+      treeLevel: 1,
+      totalGrowth: 0,
+      seedsPlanted: 0,
+      spiritsFed: 0,
+      robotCharged: 0,
+      dailyUpvotes: 0,
+      lastGrowthCalculation: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      version: 0
+    };
 
+    it('should update game state with new values', async () => {
       mockRedis.get.mockResolvedValue(JSON.stringify(existingState));
-      mockRedis.set.mockResolvedValue('OK');
 
       const result = await service.updateGameState('testsubreddit', {
         totalGrowth: 50,
@@ -94,8 +118,39 @@ describe('RedisGameService', () => {
 
       expect(result.totalGrowth).toBe(50);
       expect(result.seedsPlanted).toBe(5);
-      expect(result.treeLevel).toBe(1); // Should recalculate based on growth
-      expect(mockRedis.set).toHaveBeenCalled();
+      expect(result.treeLevel).toBe(2); // Should recalculate based on growth (50 = sapling)
+      expect(result.version).toBe(1);
+      expect(mockRedis.watch).toHaveBeenCalledWith('cinnarito:subreddit:testsubreddit:state');
+      expect(mockTx.set).toHaveBeenCalledWith('cinnarito:subreddit:testsubreddit:state', expect.any(String));
+      expect(stateChangeLogService.queueAppend).toHaveBeenCalledWith(mockTx, expect.anything(), result);
+      expect(mockRedis.set).not.toHaveBeenCalled();
+      expect(eventBusService.publish).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'TreeLeveledUp', payload: { previousLevel: 1, newLevel: 2, totalGrowth: 50 } }),
+        expect.objectContaining({ type: 'MilestoneReached', payload: expect.objectContaining({ totalGrowth: 50 }) }),
+      ]);
+    });
+
+    it('should bump the version from the state it commits over when a concurrent write wins', async () => {
+      // Another writer moves the state to version 3 between the first read and EXEC
+      const states = [existingState, { ...existingState, version: 3 }];
+      let stateReads = 0;
+      mockRedis.get.mockImplementation(async (key: string) =>
+        key === 'cinnarito:subreddit:testsubreddit:state'
+          ? JSON.stringify(states[Math.min(stateReads++, states.length - 1)])
+          : null
+      );
+      mockTx.exec.mockResolvedValueOnce(null);
+
+      const result = await service.updateGameState('testsubreddit', { dailyUpvotes: 4 });
+
+      expect(result.version).toBe(4);
+      expect(mockTx.exec).toHaveBeenCalledTimes(2);
+      expect(stateChangeLogService.queueAppend).toHaveBeenLastCalledWith(
+        mockTx,
+        expect.objectContaining({ version: 3 }),
+        result
+      );
+      expect(eventBusService.publish).not.toHaveBeenCalled();
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { ActionEngine } from '../ActionEngine';
+import { ActionTransactionService } from '../ActionTransactionService';
+import { playerResourceService } from '../PlayerResourceService';
+import { redisGameService } from '../RedisGameService';
+import { StateChangeLogService } from '../StateChangeLogService';
+import { GameState, REDIS_KEYS, GAME_CONFIG } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+const USERNAME = 'gardener';
+const NOW = new Date('2024-01-15T09:00:00Z');
+
+describe('StateChangeLogService', () => {
+  const engine = new ActionEngine(new ActionTransactionService({ maxAttempts: 10, baseDelayMs: 1 }));
+  let service: StateChangeLogService;
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    service = new StateChangeLogService();
+    await redisGameService.initializeGameState(GARDEN);
+    await playerResourceService.initializePlayerResources(USERNAME, GARDEN);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const currentState = async (): Promise<GameState> => (await redisGameService.getGameState(GARDEN))!;
+
+  it('should bump the version once per write and log what each write changed', async () => {
+    const { commit: plant } = await engine.execute('plant', USERNAME, GARDEN);
+    await redisGameService.updateGameState(GARDEN, { dailyUpvotes: 4 });
+    const { commit: feed } = await engine.execute('feed', USERNAME, GARDEN);
+
+    const state = await currentState();
+    expect(plant.gameState.version).toBe(1);
+    expect(state.version).toBe(3);
+
+    const since = await service.getChangesSince(GARDEN, 1, state.version);
+    expect(since).toEqual({
+      changes: { dailyUpvotes: 4, spiritsFed: 1, totalGrowth: state.totalGrowth },
+      actions: [feed.action],
+    });
+  });
+
+  it('should merge every change since a version, keeping the latest value of each counter', async () => {
+    const { commit: first } = await engine.execute('plant', USERNAME, GARDEN);
+    const { commit: second } = await engine.execute('feed', USERNAME, GARDEN);
+
+    const since = await service.getChangesSince(GARDEN, 0, 2);
+    expect(since?.changes).toEqual({ seedsPlanted: 1, spiritsFed: 1, totalGrowth: second.gameState.totalGrowth });
+    expect(since?.actions.map(action => action.id)).toEqual([first.action.id, second.action.id]);
+  });
+
+  it('should report no changes for the current version', async () => {
+    await engine.execute('plant', USERNAME, GARDEN);
+
+    expect(await service.getChangesSince(GARDEN, 1, 1)).toEqual({ changes: {}, actions: [] });
+  });
+
+  it('should give up on a version newer than the current one', async () => {
+    expect(await service.getChangesSince(GARDEN, 5, 0)).toBeNull();
+  });
+
+  it('should give up once the versions after the one asked for have been trimmed', async () => {
+    let state = await currentState();
+    for (let i = 0; i < GAME_CONFIG.STATE_LOG.MAX_VERSIONS + 2; i++) {
+      state = await redisGameService.updateGameState(GARDEN, { dailyUpvotes: state.dailyUpvotes + 1 });
+    }
+
+    expect(await fakeRedis.zCard(REDIS_KEYS.STATE_LOG(GARDEN))).toBe(GAME_CONFIG.STATE_LOG.MAX_VERSIONS);
+    expect(await service.getChangesSince(GARDEN, 1, state.version)).toBeNull();
+    expect(await service.getChangesSince(GARDEN, 2, state.version)).toEqual({
+      changes: { dailyUpvotes: state.dailyUpvotes },
+      actions: [],
+    });
+  });
+
+  it('should give up when a version in between is missing from the log', async () => {
+    await engine.execute('plant', USERNAME, GARDEN);
+    await engine.execute('feed', USERNAME, GARDEN);
+    await fakeRedis.zRemRangeByScore(REDIS_KEYS.STATE_LOG(GARDEN), 1, 1);
+
+    expect(await service.getChangesSince(GARDEN, 0, 2)).toBeNull();
+    expect(await service.getChangesSince(GARDEN, 1, 2)).not.toBeNull();
+  });
+});
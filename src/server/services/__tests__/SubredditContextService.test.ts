@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { reddit, context } from '@devvit/web/server';
+import { subredditContextService } from '../SubredditContextService';
+import { bindSubreddit, getBoundSubreddit } from '../../core/isolation';
+import type { SubredditAccess } from '../../core/isolation';
+import { FakeReddit } from './fakeReddit';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  const { FakeReddit } = await import('./fakeReddit');
+  return {
+    redis: new FakeRedis(),
+    reddit: new FakeReddit(),
+    context: { subredditName: 'cozy_gardens' as string | undefined, postId: 't3_garden' },
+  };
+});
+
+const fakeReddit = reddit as unknown as FakeReddit;
+const fakeContext = context as { subredditName: string | undefined; postId: string };
+const GARDEN = 'cozy_gardens';
+
+interface FakeResponse {
+  statusCode: number;
+  body: unknown;
+  locals: Record<string, unknown>;
+  status(code: number): FakeResponse;
+  json(body: unknown): FakeResponse;
+}
+
+const call = async (
+  access: SubredditAccess,
+  request: { params?: Record<string, string>; body?: unknown; query?: Record<string, string> }
+) => {
+  const res: FakeResponse = {
+    statusCode: 200,
+    body: undefined,
+    locals: {},
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+  const next = vi.fn();
+  const req = {
+    params: {},
+    query: {},
+    method: access === 'write' ? 'POST' : 'GET',
+    path: '/api/test',
+    ...request,
+  } as unknown as Request;
+  await bindSubreddit(access)(req, res as unknown as Response, next);
+  return { res, next };
+};
+
+describe('SubredditContextService', () => {
+  beforeEach(() => {
+    fakeReddit.reset();
+    fakeContext.subredditName = GARDEN;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should prefer the Devvit context over a subreddit named in the request', () => {
+    expect(subredditContextService.detectSubredditContext('other_garden')).toMatchObject({
+      subredditName: GARDEN,
+      source: 'devvit_context',
+    });
+
+    fakeContext.subredditName = undefined;
+    expect(subredditContextService.detectSubredditContext('other_garden')).toMatchObject({
+      subredditName: 'other_garden',
+      source: 'request_param',
+    });
+  });
+
+  it("should refuse and log writes to another subreddit's garden", async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fakeReddit.signIn('alice');
+
+    for (const request of [{ body: { subredditName: 'Other_Garden' } }, { params: { subreddit: 'other_garden' } }]) {
+      const { res, next } = await call('write', request);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(403);
+      expect(res.body).toEqual({
+        status: 'error',
+        code: 'subreddit_mismatch',
+        message: 'You can only change the garden of the subreddit you are playing in',
+      });
+    }
+
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledWith('[SubredditIsolation] Rejected POST /api/test:', {
+      contextSubreddit: GARDEN,
+      requestedSubreddit: 'other_garden',
+      username: 'alice',
+    });
+  });
+
+  it('should bind writes to the context garden', async () => {
+    const named = await call('write', { body: { subredditName: 'Cozy_Gardens' } });
+    expect(named.next).toHaveBeenCalledOnce();
+    expect(getBoundSubreddit(named.res as unknown as Response)).toEqual({ subredditName: GARDEN, crossGarden: false });
+
+    const unnamed = await call('write', { body: {} });
+    expect(getBoundSubreddit(unnamed.res as unknown as Response)).toEqual({ subredditName: GARDEN, crossGarden: false });
+  });
+
+  it('should let read-only routes view another garden', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { res, next } = await call('read', { params: { subreddit: 'other_garden' } });
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(getBoundSubreddit(res as unknown as Response)).toEqual({ subredditName: 'other_garden', crossGarden: true });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid subreddit name instead of falling back to the context', async () => {
+    for (const access of ['write', 'read'] as const) {
+      const { res, next } = await call(access, { query: { subreddit: 'r' } });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toMatchObject({ status: 'error' });
+    }
+  });
+});
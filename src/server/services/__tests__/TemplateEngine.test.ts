@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { compileTemplate, renderTemplate, escapeMarkdown, TemplateError } from '../../core/template';
+
+const helpers = {
+  shout: (text: string) => `**${text.toUpperCase()}**`,
+  add: (a: number, b: number) => a + b,
+  explode: () => {
+    throw new Error('boom');
+  },
+};
+
+describe('template engine', () => {
+  it('should look up nested values and call helpers with paths and literals', () => {
+    const output = renderTemplate(
+      '{{garden.name}} has {{add garden.seeds 2}} seeds. {{shout "hooray"}}',
+      { garden: { name: 'Sunny', seeds: 40 } },
+      { helpers }
+    );
+
+    expect(output).toBe('Sunny has 42 seeds. **HOORAY**');
+  });
+
+  it('should render #if and #each blocks with else branches and loop variables', () => {
+    const template = [
+      '{{#if players}}',
+      'Top players:',
+      '{{#each players}}',
+      '{{@number}}. {{name}} ({{score}}) #{{@index}} of {{title}}',
+      '{{/each}}',
+      '{{else}}',
+      'Nobody yet',
+      '{{/if}}',
+      'Done',
+    ].join('\n');
+    const compiled = compileTemplate(template);
+
+    expect(compiled.render({ title: 'board', players: [{ name: 'ann', score: 3 }, { name: 'bo', score: 1 }] })).toBe(
+      'Top players:\n1. ann (3) #0 of board\n2. bo (1) #1 of board\nDone'
+    );
+    expect(compiled.render({ title: 'board', players: [] })).toBe('Nobody yet\nDone');
+    expect(renderTemplate('{{#each items}}[{{this}}]{{else}}none{{/each}}', { items: ['a', 'b'] })).toBe('[a][b]');
+  });
+
+  it('should escape markdown in looked-up strings but not in helper output', () => {
+    const data = { milestone: '*bold* [link](http://x) #1 u/some_name' };
+
+    expect(renderTemplate('{{milestone}}', data)).toBe(
+      '\\*bold\\* \\[link\\]\\(http://x\\) \\#1 u/some\\_name'
+    );
+    expect(renderTemplate('{{milestone}}', data, { escapeMarkdown: false })).toBe(data.milestone);
+    expect(renderTemplate('{{shout "a"}}', {}, { helpers })).toBe('**A**');
+    expect(escapeMarkdown('a\\b')).toBe('a\\\\b');
+  });
+
+  it('should report unknown variables and helpers with the line they are on', () => {
+    const data = { gameState: { treeLevel: 2 } };
+
+    expect(() => renderTemplate('line one\n{{gameState.treeLevl}}', data)).toThrow(
+      new TemplateError('Unknown variable "gameState.treeLevl"', 2)
+    );
+    expect(() => renderTemplate('{{missing}}', data)).toThrow('Unknown variable "missing"');
+    expect(() => renderTemplate('{{formatNumber gameState.treeLevel}}', data)).toThrow(
+      'Unknown helper "formatNumber"'
+    );
+    expect(() => renderTemplate('{{explode 1}}', {}, { helpers })).toThrow('Helper "explode" failed: boom');
+  });
+
+  it('should reject malformed templates when compiling', () => {
+    expect(() => compileTemplate('{{#if ready}}never closed')).toThrow('Unclosed "#if"');
+    expect(() => compileTemplate('{{#if ready}}x{{/each}}')).toThrow('"/each" closes "#if"');
+    expect(() => compileTemplate('{{/if}}')).toThrow('no open block');
+    expect(() => compileTemplate('{{#unless ready}}x{{/unless}}')).toThrow('Unknown block "#unless"');
+    expect(() => compileTemplate('hello {{name')).toThrow('Malformed or unclosed tag');
+    expect(() => compileTemplate('{{name!}}')).toThrow('Invalid expression');
+  });
+
+  it('should render missing optional values as empty and refuse to print objects', () => {
+    expect(renderTemplate('[{{note}}]', { note: undefined })).toBe('[]');
+    expect(() => renderTemplate('{{stats}}', { stats: { a: 1 } })).toThrow('"stats" is not a printable value');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { redis } from '@devvit/web/server';
+import { WeeklyAggregationService } from '../WeeklyAggregationService';
+import { ChronicleGenerationService } from '../ChronicleGenerationService';
+import { actionLogService } from '../ActionLogService';
+import { redisGameService } from '../RedisGameService';
+import { ActionHistory, DailyGrowthStats, GameState, REDIS_KEYS } from '../../../shared/types';
+import { FakeRedis } from './fakeRedis';
+
+vi.mock('@devvit/web/server', async () => {
+  const { FakeRedis } = await import('./fakeRedis');
+  return { redis: new FakeRedis() };
+});
+
+const fakeRedis = redis as unknown as FakeRedis;
+const GARDEN = 'cozy_gardens';
+// A Monday morning: the week covered is Mon 2024-01-08 to Sun 2024-01-14
+const NOW = new Date('2024-01-15T09:00:00Z');
+
+const saveDay = async (date: string, seedsPlanted: number, totalGrowth: number, activePlayerCount: number) => {
+  const stats: DailyGrowthStats = {
+    date,
+    seedsPlanted,
+    spiritsFed: 1,
+    robotCharged: 0,
+    redditUpvotes: 0,
+    totalGrowth,
+    activePlayerCount,
+  };
+  await fakeRedis.set(REDIS_KEYS.DAILY_GROWTH(GARDEN, date), JSON.stringify(stats));
+};
+
+let actionCount = 0;
+const logAction = async (username: string, at: string, growthContributed: number) => {
+  const action: ActionHistory = {
+    id: `action_${++actionCount}`,
+    username,
+    subredditName: GARDEN,
+    actionType: 'plant',
+    resourcesSpent: 1,
+    growthContributed,
+    timestamp: new Date(at),
+  };
+  await actionLogService.append(action);
+};
+
+describe('WeeklyAggregationService', () => {
+  let service: WeeklyAggregationService;
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    service = new WeeklyAggregationService();
+
+    // Last week
+    await saveDay('2024-01-02', 40, 60, 3);
+    await saveDay('2024-01-05', 60, 90, 4);
+    // This week, with a gap on the 10th
+    await saveDay('2024-01-08', 30, 45, 2);
+    await saveDay('2024-01-09', 100, 150, 6);
+    await saveDay('2024-01-11', 20, 30, 1);
+    // Today is outside the week
+    await saveDay('2024-01-15', 500, 750, 9);
+
+    await logAction('old_friend', '2024-01-03T10:00:00Z', 1.5);
+    await logAction('old_friend', '2024-01-09T10:00:00Z', 3);
+    await logAction('newcomer', '2024-01-09T11:00:00Z', 1.5);
+    await logAction('newcomer', '2024-01-12T11:00:00Z', 1.5);
+    await logAction('newcomer', '2024-01-14T23:59:59Z', 2);
+    await logAction('poster', '2024-01-13T08:00:00Z', 0);
+    await logAction('early_bird', '2024-01-15T08:00:00Z', 3);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should total the week from the daily growth keys and compare it with the week before', async () => {
+    const week = await service.getWeeklySummary(GARDEN, NOW);
+
+    expect(week.startDate).toBe('2024-01-08');
+    expect(week.endDate).toBe('2024-01-14');
+    expect(week.days.map(day => day.date)).toEqual(['2024-01-08', '2024-01-09', '2024-01-11']);
+    expect(week.totals).toEqual({ seedsPlanted: 150, spiritsFed: 3, robotCharged: 0, redditUpvotes: 0, totalGrowth: 225 });
+    expect(week.previousTotals.totalGrowth).toBe(150);
+    expect(week.change.totalGrowth).toEqual({ difference: 75, percent: 50 });
+    expect(week.change.spiritsFed).toEqual({ difference: 1, percent: 50 });
+    expect(week.change.robotCharged).toEqual({ difference: 0, percent: null });
+    expect(week.bestDay!.date).toBe('2024-01-09');
+    expect(week.averageActivePlayers).toBe(3);
+    expect(week.peakActivePlayers).toBe(6);
+  });
+
+  it('should rank contributors by growth and count active and new gardeners from the action log', async () => {
+    const week = await service.getWeeklySummary(GARDEN, NOW);
+
+    expect(week.topContributors).toEqual([
+      { rank: 1, username: 'newcomer', growth: 5, actions: 3 },
+      { rank: 2, username: 'old_friend', growth: 3, actions: 1 },
+    ]);
+    expect(week.activePlayers).toBe(3);
+    expect(week.previousActivePlayers).toBe(1);
+    expect(week.newPlayers).toBe(2);
+  });
+
+  it('should summarise a past week and handle one with no data', async () => {
+    const past = await service.getWeeklySummary(GARDEN, new Date('2024-01-08T09:00:00Z'));
+    expect(past.totals.totalGrowth).toBe(150);
+    expect(past.change.totalGrowth).toEqual({ difference: 150, percent: null });
+
+    const empty = await service.getWeeklySummary(GARDEN, new Date('2023-06-01T00:00:00Z'));
+    expect(empty).toMatchObject({ days: [], bestDay: null, averageActivePlayers: 0, peakActivePlayers: 0, topContributors: [] });
+  });
+
+  it('should put the week into the weekly chronicle', async () => {
+    const gameState: GameState = {
+      subredditName: GARDEN,
+      treeLevel: 2,
+      totalGrowth: 900,
+      seedsPlanted: 600,
+      spiritsFed: 10,
+      robotCharged: 2,
+      dailyUpvotes: 0,
+      lastGrowthCalculation: NOW,
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+    vi.spyOn(redisGameService, 'getGameState').mockResolvedValue(gameState);
+
+    const chronicle = await new ChronicleGenerationService().generateWeeklyChronicle(GARDEN);
+
+    expect(chronicle.content).toContain('## 📈 This Week (2024-01-08 to 2024-01-14)');
+    expect(chronicle.content).toContain('- **📈 Growth:** 225.0 (+50% vs last week)');
+    expect(chronicle.content).toContain('- **🤖 Robot Charges:** 0 (no change)');
+    expect(chronicle.content).toContain('- **👥 Active Gardeners:** 3, 2 of them new');
+    expect(chronicle.content).toContain('- **⭐ Best Day:** 2024-01-09, with 150.0 growth');
+    expect(chronicle.content).toContain('1. u/newcomer — 5.0 growth from 3 actions');
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * In-memory stand-in for the Devvit realtime client: records every message
+ * sent, by channel. Set failNextSend to make the next send throw.
+ */
+export class FakeRealtime {
+  sent: Array<{ channel: string; message: unknown }> = [];
+  failNextSend = false;
+
+  reset(): void {
+    this.sent = [];
+    this.failNextSend = false;
+  }
+
+  async send(channel: string, message: unknown): Promise<void> {
+    await new Promise<void>(resolve => setImmediate(resolve));
+    if (this.failNextSend) {
+      this.failNextSend = false;
+      throw new Error('Realtime unavailable');
+    }
+    this.sent.push({ channel, message });
+  }
+
+  messagesOn(channel: string): unknown[] {
+    return this.sent.filter(entry => entry.channel === channel).map(entry => entry.message);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * In-memory stand-in for the parts of the Devvit reddit client the server
+ * uses for auth: the signed-in user and subreddit moderator lists. Counts
+ * moderator lookups so tests can check caching.
+ */
+export class FakeReddit {
+  currentUsername: string | undefined;
+  private moderators = new Map<string, Set<string>>();
+
+  moderatorLookups = 0;
+
+  reset(): void {
+    this.currentUsername = undefined;
+    this.moderators.clear();
+    this.moderatorLookups = 0;
+  }
+
+  signIn(username: string | undefined): void {
+    this.currentUsername = username;
+  }
+
+  addModerator(subredditName: string, username: string): void {
+    const moderators = this.moderators.get(subredditName) ?? new Set<string>();
+    moderators.add(username);
+    this.moderators.set(subredditName, moderators);
+  }
+
+  removeModerator(subredditName: string, username: string): void {
+    this.moderators.get(subredditName)?.delete(username);
+  }
+
+  async getCurrentUsername(): Promise<string | undefined> {
+    return this.currentUsername;
+  }
+
+  getModerators({ subredditName, username }: { subredditName: string; username?: string }) {
+    return {
+      all: async (): Promise<{ username: string }[]> => {
+        this.moderatorLookups++;
+        const moderators = [...(this.moderators.get(subredditName) ?? [])];
+        return moderators
+          .filter(moderator => !username || moderator.toLowerCase() === username.toLowerCase())
+          .map(moderator => ({ username: moderator }));
+      },
+    };
+  }
+}
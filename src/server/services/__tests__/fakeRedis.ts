@@ -0,0 +1,426 @@
+/**
+ * In-memory stand-in for the Devvit redis client used by service tests.
+ * Every call yields to the event loop so concurrent callers interleave the
+ * way they would against a real server, and WATCH/MULTI/EXEC follow Redis
+ * optimistic locking semantics (a modified watched key aborts the EXEC).
+ */
+
+type ZMember = { member: string; score: number };
+type ZRangeOptions = {
+  reverse?: boolean;
+  by: 'score' | 'lex' | 'rank';
+  limit?: { offset: number; count: number };
+};
+
+const tick = () => new Promise<void>(resolve => setImmediate(resolve));
+
+export class FakeRedis {
+  private strings = new Map<string, string>();
+  private hashes = new Map<string, Map<string, string>>();
+  private zsets = new Map<string, Map<string, number>>();
+  private versions = new Map<string, number>();
+
+  // Set to make the next EXEC throw, simulating a crash mid-request
+  failNextExec = false;
+  execCount = 0;
+  conflictCount = 0;
+
+  reset(): void {
+    this.strings.clear();
+    this.hashes.clear();
+    this.zsets.clear();
+    this.versions.clear();
+    this.failNextExec = false;
+    this.execCount = 0;
+    this.conflictCount = 0;
+  }
+
+  version(key: string): number {
+    return this.versions.get(key) ?? 0;
+  }
+
+  private touch(key: string): void {
+    this.versions.set(key, this.version(key) + 1);
+  }
+
+  // Strings
+
+  async get(key: string): Promise<string | undefined> {
+    await tick();
+    return this.strings.get(key);
+  }
+
+  async mGet(keys: string[]): Promise<(string | null)[]> {
+    await tick();
+    return keys.map(key => this.strings.get(key) ?? null);
+  }
+
+  async set(key: string, value: string, options?: { nx?: boolean; xx?: boolean }): Promise<string> {
+    await tick();
+    return this.setSync(key, value, options);
+  }
+
+  setSync(key: string, value: string, options?: { nx?: boolean; xx?: boolean }): string {
+    const exists = this.strings.has(key);
+    if ((options?.nx && exists) || (options?.xx && !exists)) {
+      return '';
+    }
+    this.strings.set(key, value);
+    this.touch(key);
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<void> {
+    await tick();
+    this.delSync(...keys);
+  }
+
+  delSync(...keys: string[]): void {
+    for (const key of keys) {
+      this.strings.delete(key);
+      this.hashes.delete(key);
+      this.zsets.delete(key);
+      this.touch(key);
+    }
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    await tick();
+    return keys.filter(key => this.strings.has(key) || this.hashes.has(key) || this.zsets.has(key)).length;
+  }
+
+  async incrBy(key: string, value: number): Promise<number> {
+    await tick();
+    return this.incrBySync(key, value);
+  }
+
+  incrBySync(key: string, value: number): number {
+    const next = parseInt(this.strings.get(key) ?? '0') + value;
+    this.strings.set(key, next.toString());
+    this.touch(key);
+    return next;
+  }
+
+  async expire(_key: string, _seconds: number): Promise<void> {
+    await tick();
+  }
+
+  // Hashes
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<number> {
+    await tick();
+    return this.hSetSync(key, fieldValues);
+  }
+
+  hSetSync(key: string, fieldValues: Record<string, string>): number {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    let added = 0;
+    for (const [field, value] of Object.entries(fieldValues)) {
+      if (!hash.has(field)) added++;
+      hash.set(field, value);
+    }
+    this.hashes.set(key, hash);
+    this.touch(key);
+    return added;
+  }
+
+  async hSetNX(key: string, field: string, value: string): Promise<number> {
+    await tick();
+    if (this.hashes.get(key)?.has(field)) {
+      return 0;
+    }
+    return this.hSetSync(key, { [field]: value });
+  }
+
+  async hGet(key: string, field: string): Promise<string | undefined> {
+    await tick();
+    return this.hashes.get(key)?.get(field);
+  }
+
+  async hMGet(key: string, fields: string[]): Promise<(string | null)[]> {
+    await tick();
+    return fields.map(field => this.hashes.get(key)?.get(field) ?? null);
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    await tick();
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  async hKeys(key: string): Promise<string[]> {
+    await tick();
+    return [...(this.hashes.get(key)?.keys() ?? [])];
+  }
+
+  async hLen(key: string): Promise<number> {
+    await tick();
+    return this.hashes.get(key)?.size ?? 0;
+  }
+
+  async hDel(key: string, fields: string[]): Promise<number> {
+    await tick();
+    return this.hDelSync(key, fields);
+  }
+
+  hDelSync(key: string, fields: string[]): number {
+    const hash = this.hashes.get(key);
+    if (!hash) return 0;
+    const removed = fields.filter(field => hash.delete(field)).length;
+    this.touch(key);
+    return removed;
+  }
+
+  async hIncrBy(key: string, field: string, value: number): Promise<number> {
+    await tick();
+    return this.hIncrBySync(key, field, value);
+  }
+
+  hIncrBySync(key: string, field: string, value: number): number {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    const next = parseInt(hash.get(field) ?? '0') + value;
+    hash.set(field, next.toString());
+    this.hashes.set(key, hash);
+    this.touch(key);
+    return next;
+  }
+
+  // Sorted sets
+
+  async zAdd(key: string, ...members: ZMember[]): Promise<number> {
+    await tick();
+    return this.zAddSync(key, ...members);
+  }
+
+  zAddSync(key: string, ...members: ZMember[]): number {
+    const zset = this.zsets.get(key) ?? new Map<string, number>();
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!zset.has(member)) added++;
+      zset.set(member, score);
+    }
+    this.zsets.set(key, zset);
+    this.touch(key);
+    return added;
+  }
+
+  async zIncrBy(key: string, member: string, value: number): Promise<number> {
+    await tick();
+    return this.zIncrBySync(key, member, value);
+  }
+
+  zIncrBySync(key: string, member: string, value: number): number {
+    const zset = this.zsets.get(key) ?? new Map<string, number>();
+    const next = (zset.get(member) ?? 0) + value;
+    zset.set(member, next);
+    this.zsets.set(key, zset);
+    this.touch(key);
+    return next;
+  }
+
+  async zScore(key: string, member: string): Promise<number | undefined> {
+    await tick();
+    return this.zsets.get(key)?.get(member);
+  }
+
+  async zCard(key: string): Promise<number> {
+    await tick();
+    return this.zsets.get(key)?.size ?? 0;
+  }
+
+  async zRank(key: string, member: string): Promise<number | undefined> {
+    await tick();
+    const index = this.sorted(key).findIndex(entry => entry.member === member);
+    return index >= 0 ? index : undefined;
+  }
+
+  async zRange(
+    key: string,
+    start: number | string,
+    stop: number | string,
+    options: ZRangeOptions = { by: 'rank' }
+  ): Promise<ZMember[]> {
+    await tick();
+    let entries = this.sorted(key);
+
+    if (options.by === 'score') {
+      const [min, max] = options.reverse ? [stop, start] : [start, stop];
+      entries = entries.filter(entry => entry.score >= this.bound(min) && entry.score <= this.bound(max));
+      if (options.reverse) entries.reverse();
+      if (options.limit) {
+        entries = entries.slice(options.limit.offset, options.limit.offset + options.limit.count);
+      }
+      return entries;
+    }
+
+    if (options.reverse) entries.reverse();
+    const from = Number(start) < 0 ? entries.length + Number(start) : Number(start);
+    const to = Number(stop) < 0 ? entries.length + Number(stop) : Number(stop);
+    if (to < 0) return [];
+    return entries.slice(Math.max(from, 0), to + 1);
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    await tick();
+    return this.zRemSync(key, members);
+  }
+
+  zRemSync(key: string, members: string[]): number {
+    const zset = this.zsets.get(key);
+    if (!zset) return 0;
+    const removed = members.filter(member => zset.delete(member)).length;
+    this.touch(key);
+    return removed;
+  }
+
+  async zRemRangeByScore(key: string, min: number, max: number): Promise<number> {
+    await tick();
+    return this.zRemRangeByScoreSync(key, min, max);
+  }
+
+  zRemRangeByScoreSync(key: string, min: number, max: number): number {
+    const doomed = this.sorted(key)
+      .filter(entry => entry.score >= min && entry.score <= max)
+      .map(entry => entry.member);
+    return this.zRemSync(key, doomed);
+  }
+
+  async zRemRangeByRank(key: string, start: number, stop: number): Promise<number> {
+    await tick();
+    return this.zRemRangeByRankSync(key, start, stop);
+  }
+
+  zRemRangeByRankSync(key: string, start: number, stop: number): number {
+    const entries = this.sorted(key);
+    const from = start < 0 ? entries.length + start : start;
+    const to = stop < 0 ? entries.length + stop : stop;
+    if (to < 0) return 0;
+    const doomed = entries.slice(Math.max(from, 0), to + 1).map(entry => entry.member);
+    return this.zRemSync(key, doomed);
+  }
+
+  private sorted(key: string): ZMember[] {
+    return [...(this.zsets.get(key) ?? [])]
+      .map(([member, score]) => ({ member, score }))
+      .sort((a, b) => a.score - b.score || a.member.localeCompare(b.member));
+  }
+
+  private bound(value: number | string): number {
+    if (value === '-inf') return -Infinity;
+    if (value === '+inf' || value === 'inf') return Infinity;
+    return Number(value);
+  }
+
+  // Transactions
+
+  async watch(...keys: string[]): Promise<FakeTransaction> {
+    await tick();
+    return new FakeTransaction(this, keys);
+  }
+
+  async commit(watched: Map<string, number>, queued: Array<() => unknown>): Promise<unknown[]> {
+    await tick();
+    this.execCount++;
+
+    if (this.failNextExec) {
+      this.failNextExec = false;
+      throw new Error('Simulated crash during EXEC');
+    }
+
+    for (const [key, version] of watched) {
+      if (this.version(key) !== version) {
+        this.conflictCount++;
+        return [];
+      }
+    }
+
+    return queued.map(command => command());
+  }
+}
+
+export class FakeTransaction {
+  private watched = new Map<string, number>();
+  private queued: Array<() => unknown> = [];
+
+  constructor(private readonly redis: FakeRedis, keys: string[]) {
+    for (const key of keys) {
+      this.watched.set(key, redis.version(key));
+    }
+  }
+
+  async multi(): Promise<void> {}
+
+  async unwatch(): Promise<this> {
+    this.watched.clear();
+    return this;
+  }
+
+  async discard(): Promise<void> {
+    this.queued = [];
+  }
+
+  async exec(): Promise<unknown[]> {
+    const result = await this.redis.commit(this.watched, this.queued);
+    this.queued = [];
+    return result;
+  }
+
+  async set(key: string, value: string, options?: { nx?: boolean; xx?: boolean }): Promise<this> {
+    this.queued.push(() => this.redis.setSync(key, value, options));
+    return this;
+  }
+
+  async del(...keys: string[]): Promise<this> {
+    this.queued.push(() => this.redis.delSync(...keys));
+    return this;
+  }
+
+  async incrBy(key: string, value: number): Promise<this> {
+    this.queued.push(() => this.redis.incrBySync(key, value));
+    return this;
+  }
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<this> {
+    this.queued.push(() => this.redis.hSetSync(key, fieldValues));
+    return this;
+  }
+
+  async hDel(key: string, fields: string[]): Promise<this> {
+    this.queued.push(() => this.redis.hDelSync(key, fields));
+    return this;
+  }
+
+  async hIncrBy(key: string, field: string, value: number): Promise<this> {
+    this.queued.push(() => this.redis.hIncrBySync(key, field, value));
+    return this;
+  }
+
+  async zAdd(key: string, ...members: ZMember[]): Promise<this> {
+    this.queued.push(() => this.redis.zAddSync(key, ...members));
+    return this;
+  }
+
+  async zIncrBy(key: string, member: string, value: number): Promise<this> {
+    this.queued.push(() => this.redis.zIncrBySync(key, member, value));
+    return this;
+  }
+
+  async zRem(key: string, members: string[]): Promise<this> {
+    this.queued.push(() => this.redis.zRemSync(key, members));
+    return this;
+  }
+
+  async zRemRangeByScore(key: string, min: number, max: number): Promise<this> {
+    this.queued.push(() => this.redis.zRemRangeByScoreSync(key, min, max));
+    return this;
+  }
+
+  async zRemRangeByRank(key: string, start: number, stop: number): Promise<this> {
+    this.queued.push(() => this.redis.zRemRangeByRankSync(key, start, stop));
+    return this;
+  }
+
+  async expire(_key: string, _seconds: number): Promise<this> {
+    this.queued.push(() => 1);
+    return this;
+  }
+}
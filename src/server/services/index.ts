@@ -1,11 +1,31 @@
 // Export Redis services
 export { RedisGameService, redisGameService } from './RedisGameService';
 export { PlayerResourceService, playerResourceService } from './PlayerResourceService';
+export { ActionTransactionService, actionTransactionService, ActionRejectedError } from './ActionTransactionService';
+export { ActionEngine, actionEngine } from './ActionEngine';
+export { ActionLogService, actionLogService, InvalidCursorError } from './ActionLogService';
+export { LeaderboardService, leaderboardService } from './LeaderboardService';
+export { GardenRegistryService, gardenRegistryService } from './GardenRegistryService';
+export { GardenBalanceService, gardenBalanceService, InvalidBalanceConfigError } from './GardenBalanceService';
+export { AuthService, authService } from './AuthService';
+export { AdminAuditService, adminAuditService } from './AdminAuditService';
+export { GardenModerationService, gardenModerationService } from './GardenModerationService';
+export { GardenAdminService, gardenAdminService } from './GardenAdminService';
+export { MaintenanceService, maintenanceService } from './MaintenanceService';
 export { GameServiceIntegration, gameServiceIntegration } from './GameServiceIntegration';
 export { GrowthCalculationService, growthCalculationService } from './GrowthCalculationService';
+export { DailyCounterService, dailyCounterService } from './DailyCounterService';
+export { WeeklyAggregationService, weeklyAggregationService } from './WeeklyAggregationService';
 export { RedditPostingService, redditPostingService } from './RedditPostingService';
 export { ChronicleGenerationService, chronicleGenerationService } from './ChronicleGenerationService';
 export { ChronicleScheduler, chronicleScheduler } from './ChronicleScheduler';
+export { ChronicleTemplateService, chronicleTemplateService } from './ChronicleTemplateService';
+export { ChronicleHistoryService, chronicleHistoryService } from './ChronicleHistoryService';
+export { MilestoneChronicleService, milestoneChronicleService } from './MilestoneChronicleService';
+export { EventBusService, eventBusService } from './EventBusService';
+export { AchievementService, achievementService } from './AchievementService';
+export { RealtimeSyncService, realtimeSyncService } from './RealtimeSyncService';
+export { StateChangeLogService, stateChangeLogService } from './StateChangeLogService';
 
 // Re-export types for convenience
 export type {
@@ -0,0 +1,61 @@
+import type { ActionBalance, GardenBalance, GardenBalanceOverrides, PlayerActionType } from './types/api';
+import { ACTION_CATALOG } from './catalog';
+import { GAME_CONFIG } from './constants';
+import { TREE_LEVEL_THRESHOLDS } from './utils/growth';
+
+const actionBalance = ({ cost, cooldownMs, growthContribution }: ActionBalance): ActionBalance => ({
+  cost,
+  cooldownMs,
+  growthContribution,
+});
+
+// The balance every garden plays with until its moderators override part of it
+export const DEFAULT_GARDEN_BALANCE: GardenBalance = {
+  actions: {
+    plant: actionBalance(ACTION_CATALOG.plant),
+    feed: actionBalance(ACTION_CATALOG.feed),
+    charge: actionBalance(ACTION_CATALOG.charge),
+    post: actionBalance(ACTION_CATALOG.post),
+  },
+  upvoteGrowth: GAME_CONFIG.GROWTH_MULTIPLIERS.REDDIT_UPVOTES,
+  treeLevels: [...TREE_LEVEL_THRESHOLDS],
+  startingCinnamon: GAME_CONFIG.RESOURCE_REWARDS.STARTING_CINNAMON,
+  dailyBonus: GAME_CONFIG.RESOURCE_REWARDS.DAILY_BONUS,
+  upvoteCinnamon: GAME_CONFIG.RESOURCE_REWARDS.UPVOTE_CINNAMON,
+  limits: {
+    maxCinnamon: GAME_CONFIG.LIMITS.MAX_CINNAMON,
+    maxActionsPerMinute: GAME_CONFIG.LIMITS.MAX_ACTIONS_PER_MINUTE,
+    maxSubredditActionsPerMinute: GAME_CONFIG.LIMITS.MAX_SUBREDDIT_ACTIONS_PER_MINUTE,
+  },
+};
+
+/**
+ * An action's cost, cooldown and growth with a garden's overrides applied
+ */
+export const applyActionOverrides = <T extends ActionBalance & { type: PlayerActionType }>(
+  entry: T,
+  overrides: GardenBalanceOverrides
+): T => ({ ...entry, ...overrides.actions?.[entry.type] });
+
+/**
+ * A garden's effective balance: its overrides merged over the defaults
+ */
+export const resolveGardenBalance = (
+  overrides: GardenBalanceOverrides,
+  defaults: GardenBalance = DEFAULT_GARDEN_BALANCE
+): GardenBalance => {
+  const actions = { ...defaults.actions };
+  for (const type of Object.keys(actions) as PlayerActionType[]) {
+    actions[type] = { ...defaults.actions[type], ...overrides.actions?.[type] };
+  }
+
+  return {
+    actions,
+    upvoteGrowth: overrides.upvoteGrowth ?? defaults.upvoteGrowth,
+    treeLevels: [...(overrides.treeLevels ?? defaults.treeLevels)],
+    startingCinnamon: overrides.startingCinnamon ?? defaults.startingCinnamon,
+    dailyBonus: overrides.dailyBonus ?? defaults.dailyBonus,
+    upvoteCinnamon: overrides.upvoteCinnamon ?? defaults.upvoteCinnamon,
+    limits: { ...defaults.limits, ...overrides.limits },
+  };
+};
@@ -0,0 +1,60 @@
+import type { PlayerActionType } from './types/api';
+
+export type ActionResourceType = 'cinnamon' | 'seeds' | 'energy';
+
+export interface ActionCatalogEntry {
+  type: PlayerActionType;
+  label: string;
+  emoji: string;
+  resourceType: ActionResourceType;
+  cost: number;
+  cooldownMs: number;
+  growthContribution: number;
+}
+
+export type ActionCatalog = Record<PlayerActionType, ActionCatalogEntry>;
+
+// Single source of truth for action costs, cooldowns and growth.
+// The server enforces these values and serves the effective (per-subreddit)
+// catalog at /api/catalog; the client renders from whatever it receives.
+export const ACTION_CATALOG: ActionCatalog = {
+  plant: {
+    type: 'plant',
+    label: 'Plant Seed',
+    emoji: '🌿',
+    resourceType: 'cinnamon',
+    cost: 5,
+    cooldownMs: 60000, // 1 minute
+    growthContribution: 1.5,
+  },
+  feed: {
+    type: 'feed',
+    label: 'Feed Spirit',
+    emoji: '🍩',
+    resourceType: 'cinnamon',
+    cost: 3,
+    cooldownMs: 60000, // 1 minute
+    growthContribution: 2,
+  },
+  charge: {
+    type: 'charge',
+    label: 'Charge Robot',
+    emoji: '🤖',
+    resourceType: 'cinnamon',
+    cost: 10,
+    cooldownMs: 60000, // 1 minute
+    growthContribution: 3,
+  },
+  post: {
+    type: 'post',
+    label: 'Post Update',
+    emoji: '💬',
+    resourceType: 'cinnamon',
+    cost: 0,
+    cooldownMs: 300000, // 5 minutes
+    growthContribution: 0, // Posting doesn't contribute to growth directly
+  },
+};
+
+// Display order for action buttons
+export const ACTION_ORDER: PlayerActionType[] = ['plant', 'feed', 'charge', 'post'];
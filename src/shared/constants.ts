@@ -1,18 +1,20 @@
+import { ACTION_CATALOG } from './catalog';
+
 // Game Configuration Constants
 export const GAME_CONFIG = {
-  // Resource costs for different actions
+  // Resource costs for different actions (see ACTION_CATALOG)
   RESOURCE_COSTS: {
-    PLANT_SEED: 5,
-    FEED_SPIRIT: 3,
-    CHARGE_ROBOT: 10,
-    POST_UPDATE: 0
+    PLANT_SEED: ACTION_CATALOG.plant.cost,
+    FEED_SPIRIT: ACTION_CATALOG.feed.cost,
+    CHARGE_ROBOT: ACTION_CATALOG.charge.cost,
+    POST_UPDATE: ACTION_CATALOG.post.cost
   },
 
-  // Growth calculation multipliers
+  // Growth calculation multipliers (per action, see ACTION_CATALOG)
   GROWTH_MULTIPLIERS: {
-    SEEDS_PLANTED: 1.5,
-    SPIRITS_FED: 2,
-    ROBOT_CHARGED: 3,
+    SEEDS_PLANTED: ACTION_CATALOG.plant.growthContribution,
+    SPIRITS_FED: ACTION_CATALOG.feed.growthContribution,
+    ROBOT_CHARGED: ACTION_CATALOG.charge.growthContribution,
     REDDIT_UPVOTES: 0.1
   },
 
@@ -58,16 +60,115 @@ export const GAME_CONFIG = {
     POLLING_INTERVAL_IDLE: 30000,     // 30 seconds when idle
     MAX_RETRY_ATTEMPTS: 3,
     RETRY_DELAY_BASE: 1000,
-    CONNECTION_TIMEOUT: 10000
+    CONNECTION_TIMEOUT: 10000,
+    // While the realtime channel is up, poll only to catch changes it doesn't carry
+    POLLING_INTERVAL_REALTIME: 60000,
+    REALTIME_RECONNECT_BASE_MS: 1000,
+    REALTIME_RECONNECT_MAX_MS: 30000
   },
 
   // Game limits and validation
   LIMITS: {
-    MAX_ACTIONS_PER_MINUTE: 10,
+    MAX_ACTIONS_PER_MINUTE: 10,            // per player, per garden
+    MAX_SUBREDDIT_ACTIONS_PER_MINUTE: 600, // per garden, all players
+    RATE_LIMIT_WINDOW_MS: 60000,
+    PENDING_ACTION_TTL_MS: 5 * 60 * 1000,  // how long a paid-for action may wait on Reddit
     MAX_CINNAMON: 10000,
     MAX_TREE_LEVEL: 6,
     MIN_SUBREDDIT_NAME_LENGTH: 3,
     MAX_SUBREDDIT_NAME_LENGTH: 21
+  },
+
+  // Action log retention (sorted sets, trimmed on every write)
+  ACTION_LOG: {
+    MAX_ENTRIES: 5000,        // whole-garden log
+    MAX_INDEX_ENTRIES: 1000,  // per action type and per player
+    RETENTION_DAYS: 30,
+    DEFAULT_PAGE_SIZE: 20,
+    MAX_PAGE_SIZE: 100
+  },
+
+  // State change log behind /api/state?sinceVersion=; clients further behind get a snapshot
+  STATE_LOG: {
+    MAX_VERSIONS: 200
+  },
+
+  // Leaderboards (sorted sets per window; daily/weekly keys roll over by period)
+  LEADERBOARD: {
+    DEFAULT_LIMIT: 10,
+    MAX_LIMIT: 100,
+    DAILY_TTL_SECONDS: 2 * 24 * 60 * 60,
+    WEEKLY_TTL_SECONDS: 15 * 24 * 60 * 60
+  },
+
+  // Moderator-edited chronicle templates
+  CHRONICLE_TEMPLATES: {
+    MAX_VERSIONS: 20,             // history kept per template
+    MAX_TEMPLATE_LENGTH: 10000,
+    MAX_NAME_LENGTH: 60
+  },
+
+  // Milestones that can trigger an automatic chronicle
+  MILESTONES: {
+    GROWTH_THRESHOLDS: [100, 250, 500, 1000, 2500, 5000],
+    MAX_POST_ATTEMPTS: 3
+  },
+
+  // Archive of chronicle posts per garden
+  CHRONICLE_HISTORY: {
+    MAX_ENTRIES: 500,
+    DEFAULT_PAGE_SIZE: 10,
+    MAX_PAGE_SIZE: 50
+  },
+
+  // Per-day growth accounting: counters outlive the catch-up window for closing
+  // missed days, which is how far back a daily growth run looks
+  DAILY_GROWTH: {
+    COUNTER_TTL_DAYS: 14,
+    CATCH_UP_DAYS: 7
+  },
+
+  // Garden days: when each garden's day rolls over unless its moderators set
+  // otherwise, and the local hour scheduled chronicles post at
+  GARDEN_DAY: {
+    DEFAULT_TIMEZONE: 'UTC',
+    DEFAULT_CUTOFF_HOUR: 0,
+    CHRONICLE_HOUR: 9
+  },
+
+  // Domain event outbox: a failed handler is retried with backoff, then the
+  // event is parked with the dead letters
+  EVENTS: {
+    MAX_ATTEMPTS: 5,
+    REDELIVERY_DELAY_MS: 60 * 1000,
+    DRAIN_BATCH_SIZE: 100
+  },
+
+  // Bounds on what moderators may set in a garden's balance overrides
+  BALANCE: {
+    MAX_ACTION_COST: 1000,
+    MAX_COOLDOWN_MS: 24 * 60 * 60 * 1000,
+    MAX_GROWTH_PER_ACTION: 100,
+    MAX_UPVOTE_GROWTH: 10,
+    MAX_REWARD: 1000,
+    MAX_CINNAMON_LIMIT: 1000000,
+    MAX_ACTIONS_PER_MINUTE: 600,
+    MAX_SUBREDDIT_ACTIONS_PER_MINUTE: 60000
+  },
+
+  // Moderator admin actions and the garden's audit log of them
+  ADMIN: {
+    MAX_REASON_LENGTH: 500,
+    MAX_DURATION_MINUTES: 365 * 24 * 60,
+    AUDIT_DEFAULT_PAGE_SIZE: 20,
+    AUDIT_MAX_PAGE_SIZE: 100,
+    // Oldest daily snapshot a growth rebuild reads back to
+    REBUILD_MAX_DAYS: 3 * 365
+  },
+
+  // Route authorization (see core/auth.ts)
+  AUTH: {
+    MODERATOR_CACHE_SECONDS: 5 * 60
   }
 } as const;
 
@@ -78,7 +179,18 @@ export const API_ENDPOINTS = {
   FEED: '/api/feed',
   CHARGE: '/api/charge',
   POST: '/api/post',
-  STATE: (subreddit: string) => `/api/state/${subreddit}`
+  ACTION: (actionType: string) => `/api/action/${actionType}`,
+  CATALOG: '/api/catalog',
+  COOLDOWNS: (subreddit: string) => `/api/cooldowns/${subreddit}`,
+  ACTIONS: (subreddit: string) => `/api/actions/${subreddit}`,
+  LEADERBOARD: (subreddit: string) => `/api/leaderboard/${subreddit}`,
+  STATE: (subreddit: string) => `/api/state/${subreddit}`,
+  CHRONICLE_HISTORY: (subreddit: string) => `/api/chronicle/history/${subreddit}`
+} as const;
+
+// Realtime channels; names may only use letters, numbers and underscores
+export const REALTIME_CHANNELS = {
+  GARDEN: (subreddit: string) => `garden_${subreddit}`
 } as const;
 
 // Redis key patterns
@@ -86,12 +198,72 @@ export const REDIS_KEYS = {
   SUBREDDIT_STATE: (subreddit: string) => `cinnarito:subreddit:${subreddit}:state`,
   PLAYER_RESOURCES: (username: string, subreddit: string) => 
     `cinnarito:player:${username}:${subreddit}:resources`,
+  // Legacy JSON blob of recent actions, migrated into ACTION_LOG on init
   ACTION_HISTORY: (subreddit: string) => `cinnarito:subreddit:${subreddit}:actions`,
+  ACTION_LOG: (subreddit: string) => `cinnarito:subreddit:${subreddit}:actionlog`,
+  STATE_LOG: (subreddit: string) => `cinnarito:subreddit:${subreddit}:statelog`,
+  ACTION_LOG_BY_TYPE: (subreddit: string, actionType: string) =>
+    `cinnarito:subreddit:${subreddit}:actionlog:type:${actionType}`,
+  ACTION_LOG_BY_PLAYER: (subreddit: string, username: string) =>
+    `cinnarito:subreddit:${subreddit}:actionlog:player:${username}`,
   DAILY_GROWTH: (subreddit: string, date: string) => 
     `cinnarito:subreddit:${subreddit}:daily:${date}`,
+  // Hash of the day's action and upvote counters; DAILY_GROWTH is the snapshot made when the day closes
+  DAILY_COUNTERS: (subreddit: string, date: string) => `cinnarito:subreddit:${subreddit}:daily:${date}:counters`,
+  // Set once a garden's inflated growth total has been recomputed
+  GROWTH_REPAIRED: (subreddit: string) => `cinnarito:subreddit:${subreddit}:growth-repaired`,
+  // Set when a player claims a garden day's bonus
+  DAILY_BONUS_CLAIM: (username: string, subreddit: string, date: string) =>
+    `cinnarito:player:${username}:${subreddit}:bonus:${date}`,
+  // period is 'all' for the all-time board, YYYY-MM-DD for daily, YYYY-Www for weekly (garden days)
+  LEADERBOARD: (subreddit: string, window: string, period: string) =>
+    `cinnarito:subreddit:${subreddit}:leaderboard:${window}:${period}`,
   ACTIVE_PLAYERS: (subreddit: string) => `cinnarito:subreddit:${subreddit}:active`,
-  ACTION_COOLDOWN: (username: string, subreddit: string) => 
-    `cinnarito:cooldown:${username}:${subreddit}`
+  ACTION_COOLDOWN: (username: string, subreddit: string, actionType: string) => 
+    `cinnarito:cooldown:${username}:${subreddit}:${actionType}`,
+  // Set while a reserved action (spent, not yet recorded) waits for its side effect
+  PENDING_ACTION: (username: string, subreddit: string, actionType: string) =>
+    `cinnarito:pending:${username}:${subreddit}:${actionType}`,
+  PLAYER_RATE_LIMIT: (username: string, subreddit: string) =>
+    `cinnarito:ratelimit:${username}:${subreddit}`,
+  SUBREDDIT_RATE_LIMIT: (subreddit: string) => `cinnarito:ratelimit:subreddit:${subreddit}`,
+  // JSON document of a garden's balance overrides (see GardenBalanceService)
+  GARDEN_BALANCE: (subreddit: string) => `cinnarito:balance:${subreddit}`,
+  // Append-only audit log of moderator admin actions (sorted set scored by time),
+  // a hash of banned username -> ban, and the garden's pause while it lasts
+  ADMIN_AUDIT_LOG: (subreddit: string) => `cinnarito:admin:${subreddit}:audit`,
+  PLAYER_BANS: (subreddit: string) => `cinnarito:admin:${subreddit}:bans`,
+  GARDEN_PAUSE: (subreddit: string) => `cinnarito:admin:${subreddit}:pause`,
+  // Cached answer to "does this user moderate this subreddit?" ('1' or '0')
+  MODERATOR_STATUS: (subreddit: string, username: string) =>
+    `cinnarito:auth:${subreddit}:moderator:${username.toLowerCase()}`,
+  // Hash of subreddit -> registry entry, and a sorted set of subreddits by last activity
+  GARDEN_REGISTRY: 'cinnarito:gardens',
+  GARDEN_ACTIVITY: 'cinnarito:gardens:activity',
+  // Per-garden chronicle template overrides (hash of id -> current version), their
+  // version history (sorted set scored by version) and the template used per type
+  CHRONICLE_TEMPLATES: (subreddit: string) => `cinnarito:chronicle:templates:${subreddit}`,
+  CHRONICLE_TEMPLATE_HISTORY: (subreddit: string, templateId: string) =>
+    `cinnarito:chronicle:templates:${subreddit}:history:${templateId}`,
+  CHRONICLE_TEMPLATE_ACTIVE: (subreddit: string) => `cinnarito:chronicle:templates:${subreddit}:active`,
+  // Hash of chronicle period id -> post record (the idempotency claim), and a
+  // sorted set of period ids by claim time for the archive
+  CHRONICLE_POSTS: (subreddit: string) => `cinnarito:chronicle:posts:${subreddit}`,
+  CHRONICLE_POST_INDEX: (subreddit: string) => `cinnarito:chronicle:posts:${subreddit}:index`,
+  // Milestones waiting for an automatic chronicle (sorted set of milestone id by
+  // time reached) and the moderators' choice of which ones auto-post
+  CHRONICLE_MILESTONE_QUEUE: (subreddit: string) => `cinnarito:chronicle:milestones:${subreddit}:queue`,
+  CHRONICLE_MILESTONE_CONFIG: (subreddit: string) => `cinnarito:chronicle:milestones:${subreddit}:config`,
+  // Domain event outbox: sorted set of event id by next delivery time, a hash of
+  // event id -> event and delivery progress, and a hash of events that kept failing
+  EVENT_OUTBOX: (subreddit: string) => `cinnarito:events:${subreddit}:outbox`,
+  EVENT_DATA: (subreddit: string) => `cinnarito:events:${subreddit}:data`,
+  EVENT_DEAD_LETTERS: (subreddit: string) => `cinnarito:events:${subreddit}:failed`,
+  // Hash of milestone id -> when the garden first reached it
+  GARDEN_ACHIEVEMENTS: (subreddit: string) => `cinnarito:achievements:${subreddit}`,
+  // Hash of job name -> persisted job state, and a lock per job held while it runs
+  SCHEDULER_JOBS: 'cinnarito:scheduler:jobs',
+  SCHEDULER_LOCK: (job: string) => `cinnarito:scheduler:lock:${job}`
 } as const;
 
 // Error messages
@@ -104,7 +276,17 @@ export const ERROR_MESSAGES = {
   SERVER_ERROR: 'Server error occurred',
   VALIDATION_ERROR: 'Data validation failed',
   RATE_LIMIT_EXCEEDED: 'Too many actions performed recently',
-  REDIS_CONNECTION_ERROR: 'Database connection error'
+  GARDEN_RATE_LIMIT_EXCEEDED: 'The garden is very busy right now, please wait a moment',
+  ACTION_COOLDOWN: 'Action cooldown active, please wait',
+  ACTION_PENDING: 'Your previous action is still being processed',
+  REDIS_CONNECTION_ERROR: 'Database connection error',
+  GARDEN_NOT_FOUND: 'Garden is not registered',
+  AUTHENTICATION_REQUIRED: 'User authentication required',
+  MODERATOR_REQUIRED: 'Only subreddit moderators can do this',
+  INTERNAL_ONLY: 'This endpoint is only available to the app itself',
+  SUBREDDIT_MISMATCH: 'You can only change the garden of the subreddit you are playing in',
+  PLAYER_BANNED: 'You are banned from playing in this garden',
+  GARDEN_PAUSED: 'The garden is paused by its moderators'
 } as const;
 
 // Success messages
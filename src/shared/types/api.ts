@@ -1,3 +1,5 @@
+import type { ActionCatalog } from '../catalog';
+
 // Core Game Data Models
 export interface GameState {
   subredditName: string;
@@ -10,6 +12,8 @@ export interface GameState {
   lastGrowthCalculation: Date;
   createdAt: Date;
   updatedAt: Date;
+  // Bumped by one on every write, so clients can ask for the changes since theirs
+  version: number;
 }
 
 export interface PlayerResources {
@@ -47,6 +51,8 @@ export interface InitResponse {
 export interface LegacyInitResponse {
   type: 'init';
   postId: string;
+  // The subreddit the post runs in; every garden write must name it
+  subredditName: string;
   count: number;
   username: string;
 }
@@ -70,28 +76,446 @@ export interface ActionRequest {
   username: string;
 }
 
+// Milliseconds left before each action is available again (0 = ready)
+export type ActionCooldowns = Record<PlayerActionType, number>;
+
 export interface ActionResponse {
   success: boolean;
   newGameState: GameState;
   newPlayerResources: PlayerResources;
   message?: string;
+  cooldowns?: ActionCooldowns;
 }
 
-export interface StateResponse {
-  gameState: GameState;
+// 429 body for an action refused by its cooldown or by the rate limiter
+export interface ActionLimitedResponse {
+  success: false;
+  reason: 'cooldown' | 'rate_limited';
+  message: string;
+  actionType: string;
+  retryAfterMs: number;
+  cooldowns?: ActionCooldowns;
+}
+
+export interface ActionLogResponse {
+  subredditName: string;
+  actions: ActionHistory[];
+  // Opaque; pass back as `cursor` to get the next (older) page, null when exhausted
+  nextCursor: string | null;
+}
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'alltime';
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  score: number;
+}
+
+export interface LeaderboardResponse {
+  subredditName: string;
+  window: LeaderboardWindow;
+  periodId: string;
+  entries: LeaderboardEntry[];
+  // The requesting player's standing, null if they haven't contributed in this window
+  me: LeaderboardEntry | null;
+  totalPlayers: number;
+}
+
+export interface CooldownsResponse {
+  subredditName: string;
+  cooldowns: ActionCooldowns;
+}
+
+// Counters a committed change can move; realtime deltas carry only the ones that did
+export type GardenStateField = 'treeLevel' | 'totalGrowth' | 'seedsPlanted' | 'spiritsFed' | 'robotCharged' | 'dailyUpvotes';
+export type GardenStateChanges = Partial<Pick<GameState, GardenStateField>>;
+
+// Realtime messages are plain JSON, so they are types rather than interfaces
+export type RealtimeActionEvent = {
+  id: string;
+  username: string;
+  actionType: PlayerActionType;
+  growthContributed: number;
+  timestamp: string;
+};
+
+// Published on the garden's realtime channel after each committed action
+export type GardenRealtimeMessage = {
+  type: 'delta';
+  subredditName: string;
+  changes: GardenStateChanges;
+  // The state version the change produced; a client more than one behind should resync
+  version: number;
+  updatedAt: string;
+  action: RealtimeActionEvent;
+};
+
+// One write to a garden's state, kept in its bounded state change log
+export interface StateChangeEntry {
+  version: number;
+  changes: GardenStateChanges;
+  // The action behind the change; absent for day closes and moderator edits
+  action?: ActionHistory;
+  at: Date;
+}
+
+interface StateResponseBase {
+  version: number;
   lastModified: Date;
   activePlayerCount: number;
-  recentActions?: ActionHistory[];
-  stateHash?: string;
-  stateDiff?: StateDiff | null;
-  serverTime?: string;
+  serverTime: string;
+}
+
+// The whole state: no sinceVersion was given, or the change log no longer reaches it
+export interface StateSnapshotResponse extends StateResponseBase {
+  type: 'full';
+  gameState: GameState;
+  recentActions: ActionHistory[];
+}
+
+// Only what changed since `fromVersion`; actions oldest first
+export interface StateDiffResponse extends StateResponseBase {
+  type: 'incremental';
+  fromVersion: number;
+  changes: GardenStateChanges;
+  actions: ActionHistory[];
+}
+
+export type StateResponse = StateSnapshotResponse | StateDiffResponse;
+
+export interface CatalogResponse {
+  subredditName: string;
+  catalog: ActionCatalog;
+}
+
+// Garden registry
+export type GardenStatus = 'active' | 'inactive';
+
+export interface GardenScheduleStatus {
+  lastRunAt?: Date;
+  lastRunStatus?: 'ok' | 'error';
+  lastError?: string;
+}
+
+// When a garden's day rolls over: at cutoffHour (0-23) local time in an IANA timezone
+export interface GardenDaySettings {
+  timezone: string;
+  cutoffHour: number;
+}
+
+export interface GardenRegistryEntry {
+  subredditName: string;
+  status: GardenStatus;
+  installedAt: Date;
+  day: GardenDaySettings;
+  // null until the first player action after registration
+  lastActivityAt: Date | null;
+  schedule: GardenScheduleStatus;
+  deactivatedAt?: Date;
+  deactivatedBy?: string;
+}
+
+export interface GardenListResponse {
+  gardens: GardenRegistryEntry[];
+  total: number;
+}
+
+export interface GardenResponse {
+  garden: GardenRegistryEntry;
+}
+
+// Game balance: what each action costs and grows, tree level thresholds,
+// rewards and limits. Defaults come from GAME_CONFIG and ACTION_CATALOG; a
+// garden's moderators may override any part of them.
+export interface ActionBalance {
+  cost: number;
+  cooldownMs: number;
+  growthContribution: number;
+}
+
+export interface GardenBalanceLimits {
+  maxCinnamon: number;
+  maxActionsPerMinute: number;
+  maxSubredditActionsPerMinute: number;
+}
+
+export interface GardenBalance {
+  actions: Record<PlayerActionType, ActionBalance>;
+  // Growth per Reddit upvote, added when the day closes
+  upvoteGrowth: number;
+  // Growth required for each tree level, lowest level first; the first is always 0
+  treeLevels: number[];
+  startingCinnamon: number;
+  dailyBonus: number;
+  // Cinnamon per Reddit upvote
+  upvoteCinnamon: number;
+  limits: GardenBalanceLimits;
+}
+
+// What a garden stores: only the values its moderators changed
+export interface GardenBalanceOverrides {
+  actions?: Partial<Record<PlayerActionType, Partial<ActionBalance>>>;
+  upvoteGrowth?: number;
+  treeLevels?: number[];
+  startingCinnamon?: number;
+  dailyBonus?: number;
+  upvoteCinnamon?: number;
+  limits?: Partial<GardenBalanceLimits>;
+}
+
+export interface GardenBalanceResponse {
+  subredditName: string;
+  // Effective balance: the overrides merged over the defaults
+  balance: GardenBalance;
+  overrides: GardenBalanceOverrides;
+  defaults: GardenBalance;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// Moderator admin actions, each recorded in the garden's append-only audit log
+export type AdminAuditAction =
+  | 'garden.activate'
+  | 'garden.deactivate'
+  | 'garden.day'
+  | 'garden.balance'
+  | 'garden.balance.reset'
+  | 'garden.reset'
+  | 'garden.rebuild'
+  | 'garden.pause'
+  | 'garden.resume'
+  | 'player.adjust'
+  | 'player.ban'
+  | 'player.unban'
+  | 'player.purge';
+
+export interface AdminAuditEntry {
+  id: string;
+  subredditName: string;
+  action: AdminAuditAction;
+  moderator: string;
+  // Player the action was taken against
+  target?: string;
+  reason?: string;
+  // What changed, e.g. the resource deltas or the totals before a rebuild
+  details: Record<string, unknown>;
+  at: Date;
+}
+
+export interface AdminAuditResponse {
+  subredditName: string;
+  entries: AdminAuditEntry[];
+  // Pass back as `cursor` to get older entries, null when exhausted
+  nextCursor: string | null;
+}
+
+// A player kept from taking game actions in a garden
+export interface PlayerBan {
+  username: string;
+  bannedBy: string;
+  reason: string;
+  bannedAt: Date;
+  // Absent for a ban that lasts until lifted
+  expiresAt?: Date;
+}
+
+export interface PlayerBanListResponse {
+  subredditName: string;
+  bans: PlayerBan[];
+}
+
+// All game actions in a garden are refused while it is paused
+export interface GardenPause {
+  pausedBy: string;
+  reason: string;
+  pausedAt: Date;
+  // Absent for a pause that lasts until moderators resume
+  resumesAt?: Date;
+}
+
+export interface GardenPauseResponse {
+  subredditName: string;
+  pause: GardenPause | null;
+}
+
+// Amounts added to (or, when negative, taken from) a player's resources
+export type ResourceAdjustment = Partial<Record<'cinnamon' | 'seeds' | 'energy', number>>;
+
+export interface PlayerPurgeResult {
+  username: string;
+  actionsRemoved: number;
+  growthRemoved: number;
+  contributionsRemoved: number;
+}
+
+export interface GardenGrowthRebuild {
+  previousTotalGrowth: number;
+  totalGrowth: number;
+  previousTreeLevel: number;
+  treeLevel: number;
+}
+
+// Who may call a route: any signed-in player, a moderator of the garden's
+// subreddit, or only Devvit itself (scheduler and triggers)
+export type AuthRole = 'player' | 'moderator' | 'internal';
+
+export type AuthErrorCode =
+  | 'authentication_required'
+  | 'moderator_required'
+  | 'internal_only'
+  | 'subreddit_mismatch';
+
+// Body of every 401/403 answered by the auth and subreddit isolation middleware
+export interface AuthErrorResponse {
+  status: 'error';
+  code: AuthErrorCode;
+  message: string;
+}
+
+// Scheduled jobs (Devvit cron tasks, see devvit.json)
+export type ScheduledJobName = 'chronicles' | 'maintenance';
+
+export interface ScheduledJobStatus {
+  name: ScheduledJobName;
+  cron: string;
+  enabled: boolean;
+  // A run currently holds the job's lock
+  running: boolean;
+  nextRunAt: Date | null;
+  lastRunAt?: Date;
+  lastOutcome?: 'ok' | 'error';
+  lastError?: string;
+  lastDurationMs?: number;
+}
+
+export interface SchedulerStatus {
+  // True while at least one job is enabled
+  isRunning: boolean;
+  jobs: ScheduledJobStatus[];
+}
+
+// Chronicle templates
+export type ChronicleTemplateType = 'daily' | 'weekly' | 'milestone';
+
+export interface ChronicleTemplateInfo {
+  id: string;
+  name: string;
+  type: ChronicleTemplateType;
+  titleTemplate: string;
+  contentTemplate: string;
+  // 'builtin' until a moderator saves a version for this garden
+  source: 'builtin' | 'custom';
+  // Used for this type's automatic chronicles
+  active: boolean;
+  version: number;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export interface ChronicleTemplateVersion {
+  version: number;
+  name: string;
+  type: ChronicleTemplateType;
+  titleTemplate: string;
+  contentTemplate: string;
+  updatedAt: Date;
+  updatedBy: string;
+  // Set when this version was created by rolling back to an older one
+  restoredFrom?: number;
+  // Set when this version records the template being deleted
+  deleted?: boolean;
+}
+
+export interface ChronicleTemplateVariable {
+  name: string;
+  description: string;
+  types: ChronicleTemplateType[];
+}
+
+export interface ChronicleTemplateHelper {
+  name: string;
+  usage: string;
+  description: string;
+}
+
+export interface ChronicleTemplateListResponse {
+  subredditName: string;
+  templates: ChronicleTemplateInfo[];
+  variables: ChronicleTemplateVariable[];
+  helpers: ChronicleTemplateHelper[];
 }
 
-export interface StateDiff {
-  type: 'full' | 'incremental';
-  changes: Partial<GameState>;
-  previousHash: string;
-  currentHash: string;
+export interface ChronicleTemplateHistoryResponse {
+  subredditName: string;
+  templateId: string;
+  versions: ChronicleTemplateVersion[];
+}
+
+export interface ChronicleTemplatePreviewResponse {
+  subredditName: string;
+  type: ChronicleTemplateType;
+  title: string;
+  content: string;
+}
+
+// Milestones a garden can reach, e.g. 'level:3' or 'growth:500'
+export type MilestoneKind = 'level' | 'growth';
+
+export interface ReachedMilestone {
+  id: string;
+  kind: MilestoneKind;
+  value: number;
+  label: string;
+}
+
+// Which milestones post a chronicle automatically in a garden
+export interface MilestoneChronicleConfig {
+  enabled: boolean;
+  levels: number[];
+  growthThresholds: number[];
+}
+
+// A milestone the garden has reached, kept for good
+export interface GardenAchievement {
+  milestone: ReachedMilestone;
+  reachedAt: Date;
+}
+
+export interface MilestoneConfigResponse {
+  subredditName: string;
+  config: MilestoneChronicleConfig;
+  available: { levels: number[]; growthThresholds: number[] };
+}
+
+// Posted chronicles. A record is claimed (pending) before posting, so each
+// garden + type + period is posted at most once; failed claims may be retried.
+export type ChroniclePostStatus = 'pending' | 'posted' | 'failed';
+
+export interface ChroniclePostRecord {
+  // `${type}:${period}`, the idempotency key within the garden
+  id: string;
+  subredditName: string;
+  type: ChronicleTemplateType;
+  // YYYY-MM-DD of the scheduled run for daily and weekly chronicles, the
+  // milestone id for milestone chronicles
+  period: string;
+  status: ChroniclePostStatus;
+  attempts: number;
+  claimedAt: Date;
+  templateId?: string;
+  title?: string;
+  postId?: string;
+  postUrl?: string;
+  postedAt?: Date;
+  error?: string;
+}
+
+export interface ChronicleHistoryResponse {
+  subredditName: string;
+  posts: ChroniclePostRecord[];
+  // Pass back as `cursor` to get older posts, null when exhausted
+  nextCursor: string | null;
 }
 
 // Daily Growth Tracking
@@ -105,6 +529,48 @@ export interface DailyGrowthStats {
   activePlayerCount: number;
 }
 
+// Seven-day aggregates for the weekly chronicle
+export interface GrowthTotals {
+  seedsPlanted: number;
+  spiritsFed: number;
+  robotCharged: number;
+  redditUpvotes: number;
+  totalGrowth: number;
+}
+
+export interface WeekOverWeekChange {
+  difference: number;
+  // null when last week was zero
+  percent: number | null;
+}
+
+export interface WeeklyContributor {
+  rank: number;
+  username: string;
+  growth: number;
+  actions: number;
+}
+
+export interface WeeklySummary {
+  // First and last day covered, YYYY-MM-DD (UTC)
+  startDate: string;
+  endDate: string;
+  // Days of the week with recorded growth, oldest first
+  days: DailyGrowthStats[];
+  totals: GrowthTotals;
+  previousTotals: GrowthTotals;
+  change: Record<keyof GrowthTotals, WeekOverWeekChange>;
+  bestDay: DailyGrowthStats | null;
+  averageActivePlayers: number;
+  peakActivePlayers: number;
+  // Distinct gardeners in the action log this week and last week
+  activePlayers: number;
+  previousActivePlayers: number;
+  // Gardeners whose first retained action falls in this week
+  newPlayers: number;
+  topContributors: WeeklyContributor[];
+}
+
 // Player Action Types
 export type PlayerActionType = 'plant' | 'feed' | 'charge' | 'post';
 
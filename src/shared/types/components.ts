@@ -1,4 +1,4 @@
-import { GameState, PlayerResources, PlayerAction } from './api';
+import { GameState, PlayerResources } from './api';
 
 // Component Props Interfaces
 export interface SplashScreenProps {
@@ -10,21 +10,6 @@ export interface SplashScreenState {
   showStartButton: boolean;
 }
 
-export interface CommunityGardenProps {
-  subredditName: string;
-  gameState: GameState;
-  onAction: (action: PlayerAction) => void;
-}
-
-export interface ActionPanelProps {
-  playerResources: PlayerResources;
-  onPlant: () => void;
-  onFeedSpirit: () => void;
-  onChargeRobot: () => void;
-  onPostUpdate: () => void;
-  disabled: boolean;
-}
-
 export interface SpiritTreeProps {
   level: number;
   totalGrowth: number;
@@ -10,6 +10,12 @@ export * from './validation';
 // Re-export constants
 export * from '../constants';
 
+// Re-export the shared action catalog
+export * from '../catalog';
+
+// Re-export the default game balance and its resolver
+export * from '../balance';
+
 // Additional utility types
 export type Nullable<T> = T | null;
 export type Optional<T> = T | undefined;
@@ -1,4 +1,5 @@
 import { GameState, PlayerResources, PlayerActionType } from './api';
+import { ACTION_CATALOG, ActionCatalog } from '../catalog';
 
 // Validation functions for data integrity
 export class ValidationError extends Error {
@@ -53,7 +54,8 @@ export const validateGameState = (gameState: Partial<GameState>): GameState => {
     dailyUpvotes: gameState.dailyUpvotes!,
     lastGrowthCalculation: gameState.lastGrowthCalculation || new Date(),
     createdAt: gameState.createdAt || new Date(),
-    updatedAt: new Date()
+    updatedAt: new Date(),
+    version: gameState.version ?? 0
   };
 };
 
@@ -109,16 +111,13 @@ export const validateActionType = (actionType: string): PlayerActionType => {
   return actionType as PlayerActionType;
 };
 
-export const validateResourceCost = (actionType: PlayerActionType, playerResources: PlayerResources): boolean => {
-  const costs = {
-    plant: 5,
-    feed: 3,
-    charge: 10,
-    post: 0
-  };
-
-  const requiredCinnamon = costs[actionType];
-  return playerResources.cinnamon >= requiredCinnamon;
+export const validateResourceCost = (
+  actionType: PlayerActionType,
+  playerResources: PlayerResources,
+  catalog: ActionCatalog = ACTION_CATALOG
+): boolean => {
+  const { cost, resourceType } = catalog[actionType];
+  return playerResources[resourceType] >= cost;
 };
 
 // Helper function to create default game state
@@ -134,7 +133,8 @@ export const createDefaultGameState = (subredditName: string): GameState => {
     dailyUpvotes: 0,
     lastGrowthCalculation: now,
     createdAt: now,
-    updatedAt: now
+    updatedAt: now,
+    version: 0
   };
 };
 
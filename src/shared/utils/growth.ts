@@ -22,18 +22,25 @@ export const calculateGrowth = (stats: {
 };
 
 /**
- * Calculate the tree level based on total growth
+ * Growth required for each tree level, lowest level first
  */
-export const calculateTreeLevel = (totalGrowth: number): number => {
-  const { TREE_LEVELS } = GAME_CONFIG;
-  
-  if (totalGrowth >= TREE_LEVELS.SPIRIT_TREE.growthRequired) return TREE_LEVELS.SPIRIT_TREE.level;
-  if (totalGrowth >= TREE_LEVELS.ANCIENT_TREE.growthRequired) return TREE_LEVELS.ANCIENT_TREE.level;
-  if (totalGrowth >= TREE_LEVELS.MATURE_TREE.growthRequired) return TREE_LEVELS.MATURE_TREE.level;
-  if (totalGrowth >= TREE_LEVELS.YOUNG_TREE.growthRequired) return TREE_LEVELS.YOUNG_TREE.level;
-  if (totalGrowth >= TREE_LEVELS.SAPLING.growthRequired) return TREE_LEVELS.SAPLING.level;
-  
-  return TREE_LEVELS.SEEDLING.level;
+export const TREE_LEVEL_THRESHOLDS: readonly number[] = Object.values(GAME_CONFIG.TREE_LEVELS)
+  .sort((a, b) => a.level - b.level)
+  .map(level => level.growthRequired);
+
+/**
+ * Calculate the tree level based on total growth. Pass a garden's
+ * thresholds (see GardenBalance.treeLevels) to use its balance.
+ */
+export const calculateTreeLevel = (
+  totalGrowth: number,
+  thresholds: readonly number[] = TREE_LEVEL_THRESHOLDS
+): number => {
+  for (let index = thresholds.length - 1; index > 0; index--) {
+    if (totalGrowth >= thresholds[index]!) return index + 1;
+  }
+
+  return GAME_CONFIG.TREE_LEVELS.SEEDLING.level;
 };
 
 /**
@@ -0,0 +1,65 @@
+import { MilestoneKind, ReachedMilestone } from '../types/api';
+import { GAME_CONFIG } from '../constants';
+import { calculateTreeLevel, TREE_LEVEL_THRESHOLDS } from './growth';
+
+const LEVEL_NAMES: Record<number, string> = {
+  1: 'Seedling',
+  2: 'Sapling',
+  3: 'Young Tree',
+  4: 'Mature Tree',
+  5: 'Ancient Tree',
+  6: 'Spirit Tree',
+};
+
+/**
+ * Tree levels that can be reached, i.e. every level above the starting one
+ */
+export const MILESTONE_LEVELS: readonly number[] = Object.values(GAME_CONFIG.TREE_LEVELS)
+  .map(level => level.level)
+  .filter(level => level > GAME_CONFIG.TREE_LEVELS.SEEDLING.level)
+  .sort((a, b) => a - b);
+
+export const MILESTONE_GROWTH_THRESHOLDS: readonly number[] = GAME_CONFIG.MILESTONES.GROWTH_THRESHOLDS;
+
+/**
+ * Build a milestone from its kind and value
+ */
+export const describeMilestone = (kind: MilestoneKind, value: number): ReachedMilestone => ({
+  id: `${kind}:${value}`,
+  kind,
+  value,
+  label:
+    kind === 'level'
+      ? `Tree evolved to ${LEVEL_NAMES[value] ?? `level ${value}`}`
+      : `Community reached ${value} total growth`,
+});
+
+/**
+ * Parse a milestone id such as 'level:3', or null if it isn't one
+ */
+export const parseMilestoneId = (id: string): ReachedMilestone | null => {
+  const match = /^(level|growth):(\d+)$/.exec(id);
+  return match ? describeMilestone(match[1] as MilestoneKind, Number(match[2])) : null;
+};
+
+/**
+ * Every level and growth threshold crossed going from one total growth to another, in order.
+ * Levels are reached at a garden's own thresholds when given.
+ */
+export const findMilestonesCrossed = (
+  previousTotalGrowth: number,
+  newTotalGrowth: number,
+  levelThresholds: readonly number[] = TREE_LEVEL_THRESHOLDS
+): ReachedMilestone[] => {
+  const previousLevel = calculateTreeLevel(previousTotalGrowth, levelThresholds);
+  const newLevel = calculateTreeLevel(newTotalGrowth, levelThresholds);
+
+  return [
+    ...MILESTONE_LEVELS.filter(level => level > previousLevel && level <= newLevel).map(level =>
+      describeMilestone('level', level)
+    ),
+    ...MILESTONE_GROWTH_THRESHOLDS.filter(
+      threshold => previousTotalGrowth < threshold && newTotalGrowth >= threshold
+    ).map(threshold => describeMilestone('growth', threshold)),
+  ];
+};
@@ -0,0 +1,49 @@
+import { GameState, GardenStateChanges, GardenStateField } from '../types/api';
+
+/**
+ * Game state counters that deltas describe
+ */
+export const GARDEN_STATE_FIELDS: readonly GardenStateField[] = [
+  'treeLevel',
+  'totalGrowth',
+  'seedsPlanted',
+  'spiritsFed',
+  'robotCharged',
+  'dailyUpvotes',
+];
+
+/**
+ * The counters that differ between two states, with their new values
+ */
+export const diffGameState = (previous: GameState, updated: GameState): GardenStateChanges => {
+  const changes: GardenStateChanges = {};
+  for (const field of GARDEN_STATE_FIELDS) {
+    if (previous[field] !== updated[field]) {
+      changes[field] = updated[field];
+    }
+  }
+  return changes;
+};
+
+/**
+ * Apply the changes made between `fromVersion` and `version` to a state.
+ * A state already at or past `version` comes back unchanged; null means the
+ * state is older than `fromVersion`, so the changes in between are missing
+ * and the caller has to fetch the state again.
+ */
+export const applyStateChanges = (
+  gameState: GameState,
+  changes: GardenStateChanges,
+  fromVersion: number,
+  version: number,
+  updatedAt: Date
+): GameState | null => {
+  if (gameState.version >= version) {
+    return gameState;
+  }
+  if (gameState.version < fromVersion) {
+    return null;
+  }
+
+  return { ...gameState, ...changes, version, updatedAt };
+};